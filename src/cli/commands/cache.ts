@@ -66,6 +66,10 @@ cacheCommand
 
       console.log(`  ${chalk.green(persona.entry.id)}${changesIndicator}`);
       console.log(chalk.dim(`    ${persona.entry.name} v${persona.entry.version}`));
+      console.log(chalk.dim(`    Registry: ${persona.registry.name}`));
+      if (persona.signature) {
+        console.log(chalk.dim(`    Signed by: ${persona.signature.keyId}`));
+      }
       console.log(chalk.dim(`    Cached: ${new Date(persona.cachedAt).toLocaleString()}`));
       console.log(chalk.dim(`    Path: ${persona.localPath}`));
       console.log();
@@ -0,0 +1,162 @@
+/**
+ * Export Command
+ *
+ * Exports personas for use outside the MCP server.
+ *
+ * Usage:
+ *   persona-academy export code-reviewer --format agent-sdk
+ *   persona-academy export --department engineering --format agent-sdk
+ *   persona-academy export code-reviewer --format agent-sdk --tool-groups ./tool-groups.yaml
+ *   persona-academy export christensen --format prompt --mode lean
+ *   persona-academy export christensen --format chat-template --max-tokens 4000
+ *   persona-academy export --department engineering --format markdown --out ./dossiers
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadPersonaFromFile } from '../../core/index.js';
+import type { PersonaDefinition } from '../../core/types.js';
+import { discoverDepartments, getDepartment } from '../../departments/index.js';
+import {
+  AGENT_SDK_OUTPUT_DIR,
+  DOCUMENT_FORMATS,
+  FORMAT_EXTENSIONS,
+  exportAgents,
+  loadToolGroups,
+  renderDocument,
+} from '../../export/index.js';
+import type { DocumentFormat } from '../../export/index.js';
+
+const FORMATS = ['agent-sdk', ...DOCUMENT_FORMATS];
+
+export const exportCommand = new Command('export')
+  .description('Export personas to other formats')
+  .argument('[persona-ids...]', 'IDs of the personas to export')
+  .requiredOption('--format <format>', `Output format (${FORMATS.join(', ')})`)
+  .option('--department <id>', 'Export every persona in this department')
+  .option(
+    '-o, --out <dir>',
+    `Output directory (agent-sdk default: ${AGENT_SDK_OUTPUT_DIR}; other formats print to stdout)`,
+  )
+  .option('--mode <mode>', 'System prompt mode for prompt and chat-template: full or lean', 'full')
+  .option('--max-tokens <n>', 'Token budget for prompt, json, markdown and chat-template output')
+  .option('-d, --dir <path>', 'Personas directory', './personas')
+  .option('--departments-dir <path>', 'Departments directory', './departments')
+  .option(
+    '--tool-groups <file>',
+    'Tool group mapping file (default: ./tool-groups.yaml if present)',
+  )
+  .option('--prompts-dir <dir>', 'Directory agent_config.prompt_file is relative to', './prompts')
+  .action(async (personaIds: string[], options) => {
+    const spinner = ora();
+
+    try {
+      if (!FORMATS.includes(options.format)) {
+        console.error(chalk.red(`Unknown format: ${options.format}. Use ${FORMATS.join(', ')}.`));
+        process.exit(1);
+      }
+
+      if (options.mode !== 'full' && options.mode !== 'lean') {
+        console.error(chalk.red(`Invalid mode: ${options.mode}. Use full or lean.`));
+        process.exit(1);
+      }
+
+      const maxTokens = options.maxTokens ? parseInt(options.maxTokens, 10) : undefined;
+      if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+        console.error(chalk.red(`Invalid token budget: ${options.maxTokens}`));
+        process.exit(1);
+      }
+      if (maxTokens !== undefined && options.format === 'agent-sdk') {
+        console.error(chalk.red('--max-tokens is not supported for agent-sdk exports.'));
+        process.exit(1);
+      }
+
+      let ids = personaIds;
+
+      if (options.department) {
+        discoverDepartments(resolve(options.departmentsDir));
+        const department = getDepartment(options.department);
+        if (!department) {
+          console.error(chalk.red(`Department not found: ${options.department}`));
+          process.exit(1);
+        }
+        ids = [...new Set([...ids, ...department.personas])];
+      }
+
+      if (ids.length === 0) {
+        console.error(chalk.red('Nothing to export. Pass persona IDs or --department.'));
+        process.exit(1);
+      }
+
+      spinner.start('Loading personas...');
+      const personasDir = resolve(options.dir);
+      const personas = new Map<string, PersonaDefinition>();
+
+      for (const id of ids) {
+        const yamlPath = join(personasDir, id, 'persona.yaml');
+        if (!existsSync(yamlPath)) {
+          spinner.fail(`Persona not found: ${id}`);
+          console.error(chalk.dim(`Looked for ${yamlPath}`));
+          process.exit(1);
+        }
+        personas.set(id, loadPersonaFromFile(yamlPath));
+      }
+      spinner.succeed(`Loaded ${personas.size} persona(s)`);
+
+      if (options.format !== 'agent-sdk') {
+        const format = options.format as DocumentFormat;
+        const outDir = options.out ? resolve(options.out) : undefined;
+        if (outDir) {
+          mkdirSync(outDir, { recursive: true });
+        }
+
+        for (const [id, persona] of personas) {
+          const result = renderDocument(persona, format, { mode: options.mode, maxTokens });
+
+          // Notes go to stderr so stdout stays a clean document
+          if (result.dropped.length > 0) {
+            console.error(
+              chalk.yellow(
+                `${id}: to fit ${maxTokens} tokens, dropped ${result.dropped.join(', ')}`,
+              ),
+            );
+          }
+          if (result.truncated) {
+            console.error(chalk.yellow(`${id}: truncated to ${maxTokens} tokens`));
+          }
+
+          if (outDir) {
+            const path = join(outDir, `${id}${FORMAT_EXTENSIONS[format]}`);
+            writeFileSync(path, result.content);
+            console.error(`${chalk.green('✓')} ${path} ${chalk.dim(`(~${result.tokens} tokens)`)}`);
+          } else {
+            process.stdout.write(result.content);
+          }
+        }
+        return;
+      }
+
+      const outDir = resolve(options.out ?? AGENT_SDK_OUTPUT_DIR);
+      const files = exportAgents(personas, outDir, {
+        toolGroups: loadToolGroups(options.toolGroups),
+        promptsDir: resolve(options.promptsDir),
+      });
+
+      console.log();
+      for (const file of files) {
+        console.log(`${chalk.green('✓')} ${file.path}`);
+        for (const warning of file.warnings) {
+          console.log(chalk.yellow(`  ⚠ ${warning}`));
+        }
+      }
+      console.log();
+      console.log(chalk.dim(`Exported ${files.length} subagent(s) to ${outDir}`));
+    } catch (error) {
+      spinner.fail('Export failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
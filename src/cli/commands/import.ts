@@ -0,0 +1,107 @@
+/**
+ * Import Command
+ *
+ * Converts an existing system prompt, CLAUDE.md or other markdown into a
+ * draft persona.yaml, then validates the draft and reports the gaps left to
+ * fill in (TODO markers and schema errors).
+ *
+ * Usage:
+ *   persona-academy import ./CLAUDE.md
+ *   persona-academy import ./reviewer-prompt.md --id code-reviewer
+ *   persona-academy import ./prompt.md --output ./my-personas --force
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import { stringify as yamlStringify } from 'yaml';
+import {
+  importPersonaFromMarkdown,
+  validatePersonaSchema,
+  formatSchemaError,
+  TODO_MARKER,
+} from '../../core/index.js';
+
+export const importCommand = new Command('import')
+  .description('Import a markdown system prompt as a draft persona')
+  .argument('<file>', 'Markdown or plain-text file to import')
+  .option('--id <id>', 'Persona ID (default: derived from the persona name)')
+  .option('-o, --output <dir>', 'Parent directory for the persona', './personas')
+  .option('-f, --force', 'Overwrite an existing persona.yaml')
+  .action(async (file: string, options) => {
+    const spinner = ora();
+
+    try {
+      const inputPath = resolve(file);
+      if (!existsSync(inputPath)) {
+        console.error(chalk.red(`File not found: ${inputPath}`));
+        process.exit(1);
+      }
+
+      spinner.start('Parsing document...');
+      const { persona, todos } = importPersonaFromMarkdown(readFileSync(inputPath, 'utf-8'));
+
+      const name = persona.identity.name.startsWith(TODO_MARKER)
+        ? basename(inputPath, extname(inputPath))
+        : persona.identity.name;
+      const id = options.id ?? toId(name);
+      const outputDir = join(resolve(options.output), id);
+      const yamlPath = join(outputDir, 'persona.yaml');
+
+      if (existsSync(yamlPath) && !options.force) {
+        spinner.fail(`Persona already exists: ${yamlPath}`);
+        console.error(chalk.dim('Use --force to overwrite, or --id to choose another ID.'));
+        process.exit(1);
+      }
+
+      mkdirSync(outputDir, { recursive: true });
+      const header = `# Draft imported from ${basename(inputPath)}\n# Search for "${TODO_MARKER}" to find fields that still need content.\n\n`;
+      writeFileSync(yamlPath, header + yamlStringify(persona, { lineWidth: 100 }));
+      spinner.succeed(`Wrote draft: ${yamlPath}`);
+
+      // Summary of what was recognized
+      console.log();
+      console.log(`  Name:         ${chalk.bold(persona.identity.name)}`);
+      console.log(`  Frameworks:   ${Object.keys(persona.frameworks).length}`);
+      console.log(`  Case studies: ${Object.keys(persona.case_studies ?? {}).length}`);
+      console.log(`  Phrases:      ${persona.voice.phrases.length}`);
+
+      // Validate the draft and report gaps
+      const { valid, errors } = validatePersonaSchema(persona);
+
+      console.log();
+      if (todos.length === 0 && valid) {
+        console.log(chalk.green('✓ Draft is complete and valid.'));
+      } else {
+        console.log(chalk.yellow(`⚠️  ${todos.length + errors.length} gap(s) to fill:\n`));
+        for (const path of todos) {
+          console.log(chalk.yellow(`  ${TODO_MARKER.padEnd(6)} ${path}`));
+        }
+        for (const error of errors) {
+          console.log(
+            chalk.red(`  ✗      ${error.instancePath || '/'}: ${formatSchemaError(error)}`),
+          );
+        }
+      }
+
+      console.log();
+      console.log(
+        chalk.dim(`Next: edit ${yamlPath}, then run persona-academy validate ${outputDir}`),
+      );
+    } catch (error) {
+      spinner.fail('Import failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
+
+function toId(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'imported-persona'
+  );
+}
@@ -6,13 +6,20 @@
  * Usage:
  *   persona-academy info <name>
  *   persona-academy info christensen --frameworks
+ *   persona-academy info strict-reviewer --resolved
+ *   persona-academy info christensen --prompt --budget 2000
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { existsSync } from 'fs';
-import { join, resolve } from 'path';
-import { loadPersonaFromFile, generateSystemPrompt } from '../../core/index.js';
+import { join, resolve, relative } from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import {
+  loadPersonaFromFile,
+  generateBudgetedSystemPrompt,
+  getPersonaLineage,
+} from '../../core/index.js';
 
 export const infoCommand = new Command('info')
   .description('Show details about a persona')
@@ -22,9 +29,17 @@ export const infoCommand = new Command('info')
   .option('-c, --cases', 'Show case study details')
   .option('-v, --validation', 'Show validation markers')
   .option('-p, --prompt', 'Show generated system prompt')
+  .option('--budget <tokens>', 'Token budget for the generated system prompt')
+  .option('-r, --resolved', 'Print the persona YAML with inheritance (extends) flattened')
   .option('--json', 'Output as JSON')
   .action(async (name: string, options) => {
     try {
+      const budget = options.budget ? parseInt(options.budget, 10) : undefined;
+      if (budget !== undefined && (!Number.isInteger(budget) || budget <= 0)) {
+        console.error(chalk.red(`Invalid token budget: ${options.budget}`));
+        process.exit(1);
+      }
+
       // Resolve persona path
       let yamlPath: string;
 
@@ -46,6 +61,7 @@ export const infoCommand = new Command('info')
       }
 
       const persona = loadPersonaFromFile(yamlPath);
+      const lineage = getPersonaLineage(yamlPath);
 
       // JSON output
       if (options.json) {
@@ -53,6 +69,16 @@ export const infoCommand = new Command('info')
         return;
       }
 
+      // Flattened YAML output
+      if (options.resolved) {
+        if (lineage.length > 0) {
+          const chain = [yamlPath, ...lineage].map((path) => relative(process.cwd(), path));
+          console.log(`# Resolved from ${chain.join(' → ')}`);
+        }
+        console.log(stringifyYaml(persona, { lineWidth: 0 }));
+        return;
+      }
+
       // Header
       console.log(chalk.cyan('\n' + '═'.repeat(60)));
       console.log(chalk.bold.cyan(`  ${persona.identity.name}`));
@@ -61,6 +87,10 @@ export const infoCommand = new Command('info')
       // Identity
       console.log(chalk.bold('\n📋 Identity\n'));
       console.log(`  ${chalk.bold('Role:')} ${persona.identity.role}`);
+      if (lineage.length > 0) {
+        const parents = lineage.map((path) => relative(process.cwd(), path));
+        console.log(`  ${chalk.bold('Extends:')} ${parents.join(' → ')}`);
+      }
       console.log(`  ${chalk.bold('Background:')}`);
       console.log(
         persona.identity.background
@@ -183,9 +213,23 @@ export const infoCommand = new Command('info')
       // System prompt
       if (options.prompt) {
         console.log(chalk.bold('\n📜 Generated System Prompt\n'));
+        const result = generateBudgetedSystemPrompt(persona, { maxTokens: budget });
         console.log(chalk.dim('─'.repeat(60)));
-        console.log(generateSystemPrompt(persona));
+        console.log(result.prompt);
         console.log(chalk.dim('─'.repeat(60)));
+        console.log(chalk.dim(`  ~${result.tokens} tokens`));
+        if (result.dropped.length > 0) {
+          console.log(
+            chalk.yellow(
+              `  To fit ${budget} tokens, dropped: ${result.dropped.map(formatName).join(', ')}`,
+            ),
+          );
+        }
+        if (!result.fits) {
+          console.log(
+            chalk.red(`  Still over the ${budget} token budget after dropping everything optional`),
+          );
+        }
       }
 
       // Metadata
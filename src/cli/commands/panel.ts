@@ -0,0 +1,88 @@
+/**
+ * Panel Command
+ *
+ * Convenes several personas on one situation and prints a round-table
+ * scaffold: each persona's framework lens, their points of likely
+ * disagreement, and a synthesis section.
+ *
+ * Usage:
+ *   persona-academy panel christensen porter --situation "Should we cut prices?"
+ *   persona-academy panel --department business-strategy --situation "..."
+ *   persona-academy panel christensen porter --situation "..." --json
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { loadPersonaFromFile } from '../../core/index.js';
+import type { PersonaDefinition } from '../../core/types.js';
+import { buildPanel, formatPanel, MIN_PANEL_SIZE } from '../../validation/index.js';
+import { discoverDepartments, getDepartment } from '../../departments/index.js';
+
+export const panelCommand = new Command('panel')
+  .description('Convene a panel of personas on one situation')
+  .argument('[persona-ids...]', 'IDs of the panelists')
+  .requiredOption('-s, --situation <text>', 'Situation, decision, or question for the panel')
+  .option('-c, --context <text>', 'Additional context about the situation')
+  .option('--department <id>', 'Use every persona in this department')
+  .option('-d, --dir <path>', 'Personas directory', './personas')
+  .option('--departments-dir <path>', 'Departments directory', './departments')
+  .option('--json', 'Output the panel as JSON')
+  .action(async (personaIds: string[], options) => {
+    const spinner = ora();
+
+    try {
+      let ids = personaIds;
+
+      if (options.department) {
+        discoverDepartments(resolve(options.departmentsDir));
+        const department = getDepartment(options.department);
+        if (!department) {
+          console.error(chalk.red(`Department not found: ${options.department}`));
+          process.exit(1);
+        }
+        ids = [...new Set([...ids, ...department.personas])];
+      }
+
+      if (ids.length < MIN_PANEL_SIZE) {
+        console.error(
+          chalk.red(`A panel needs at least ${MIN_PANEL_SIZE} personas.`),
+          chalk.dim('Pass persona IDs or --department.'),
+        );
+        process.exit(1);
+      }
+
+      spinner.start('Loading panel...');
+      const personasDir = resolve(options.dir);
+      const personas = new Map<string, PersonaDefinition>();
+
+      for (const id of ids) {
+        const yamlPath = join(personasDir, id, 'persona.yaml');
+        if (!existsSync(yamlPath)) {
+          spinner.fail(`Persona not found: ${id}`);
+          console.error(chalk.dim(`Looked for ${yamlPath}`));
+          process.exit(1);
+        }
+        personas.set(id, loadPersonaFromFile(yamlPath));
+      }
+
+      const panel = buildPanel(personas, {
+        situation: options.situation,
+        context: options.context,
+      });
+      spinner.succeed(`Convened ${personas.size} panelists`);
+
+      if (options.json) {
+        console.log(JSON.stringify(panel, null, 2));
+      } else {
+        console.log();
+        console.log(formatPanel(panel));
+      }
+    } catch (error) {
+      spinner.fail('Panel failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
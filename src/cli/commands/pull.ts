@@ -1,84 +1,133 @@
 /**
  * Pull Command
  *
- * Fetches personas from the remote registry to local cache.
+ * Fetches personas from the configured registries to local cache. Each
+ * persona comes from the highest-priority registry that provides it.
+ * Pulled versions are pinned in persona-lock.yaml; --frozen reproduces them.
  *
  * Usage:
  *   persona-academy pull <persona-id>
  *   persona-academy pull christensen porter drucker
+ *   persona-academy pull christensen@^1.2
  *   persona-academy pull --all
+ *   persona-academy pull --frozen
+ *   persona-academy pull christensen --registry company-internal
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import {
-  pullPersona,
-  pullPersonas,
-  listRegistryPersonas,
+  pullFromRegistries,
+  pullLocked,
+  fetchMergedRegistryIndex,
+  loadLockfile,
+  saveLockfile,
+  createEmptyLockfile,
+  lockPullResults,
+  LOCKFILE_NAME,
   checkRegistryAccess,
   getCacheStats,
-  DEFAULT_REGISTRY_CONFIG,
+  selectRegistries,
 } from '../../registry/index.js';
-import type { RegistryConfig } from '../../registry/types.js';
+import type { RegistryConfig, PullResult } from '../../registry/types.js';
 
 export const pullCommand = new Command('pull')
-  .description('Pull personas from the remote registry')
-  .argument('[personas...]', 'Persona IDs to pull')
+  .description('Pull personas from the remote registries')
+  .argument('[personas...]', 'Persona IDs to pull, optionally with a version range (id@^1.2)')
   .option('-a, --all', 'Pull all available personas')
   .option('-f, --force', 'Force re-download even if cached')
-  .option('-r, --registry <repo>', 'Custom registry (owner/repo)')
-  .option('-b, --branch <branch>', 'Registry branch', 'main')
+  .option('--frozen', 'Pull exactly the versions in the lockfile and fail on any mismatch')
+  .option('--lockfile <path>', 'Lockfile path', LOCKFILE_NAME)
+  .option(
+    '-r, --registry <registry>',
+    'Configured registry name, or a registry (owner/repo, file://, git+ssh:// or https:// URL)',
+  )
+  .option('-b, --branch <branch>', 'Registry branch')
   .action(async (personaIds: string[], options) => {
     const spinner = ora();
 
     try {
-      // Build config
-      const config: RegistryConfig = {
-        ...DEFAULT_REGISTRY_CONFIG,
-        ...(options.registry && { repository: options.registry }),
-        ...(options.branch && { branch: options.branch }),
-      };
+      const registries = selectRegistries(options);
 
       // Check registry access
-      spinner.start('Checking registry access...');
-      const access = await checkRegistryAccess(config);
+      const reachable: RegistryConfig[] = [];
 
-      if (!access.accessible) {
+      for (const config of registries) {
+        spinner.start(`Checking registry "${config.name}"...`);
+        const access = await checkRegistryAccess(config);
+
+        if (access.accessible) {
+          reachable.push(config);
+          spinner.succeed(`${config.name}: ${access.message}`);
+        } else {
+          spinner.warn(chalk.yellow(`${config.name}: ${access.message}`));
+        }
+      }
+
+      if (reachable.length === 0) {
         spinner.fail(chalk.red('Cannot access registry'));
-        console.log(chalk.dim(access.message));
         process.exit(1);
       }
 
-      spinner.succeed(access.message);
+      let results: PullResult[];
 
-      // Determine which personas to pull
-      let targetPersonas: string[] = personaIds;
+      if (options.frozen) {
+        // Reproduce the locked persona set exactly
+        const lockfile = loadLockfile(options.lockfile);
+        if (!lockfile) {
+          console.error(chalk.red(`\nLockfile not found: ${options.lockfile}`));
+          console.log(chalk.dim('Run "persona-academy pull <ids>" without --frozen to create it.'));
+          process.exit(1);
+        }
 
-      if (options.all) {
+        const targetPersonas = options.all ? [] : personaIds;
+        const count = targetPersonas.length || Object.keys(lockfile.personas).length;
+        console.log(chalk.cyan(`\n📥 Pulling ${count} locked persona(s)...\n`));
+
+        results = await pullLocked(lockfile, targetPersonas, options.force, registries);
+      } else {
+        // Merge the registry indexes so each persona resolves to one registry
         spinner.start('Fetching persona list...');
-        const remotePersonas = await listRegistryPersonas(config);
+        const merged = await fetchMergedRegistryIndex(reachable);
+        spinner.stop();
 
-        if (remotePersonas.length === 0) {
-          spinner.info('No personas available in registry');
-          return;
+        for (const { registry, message } of merged.errors) {
+          console.error(chalk.yellow(`⚠️  Registry "${registry}" failed: ${message}`));
         }
 
-        targetPersonas = remotePersonas.map((p) => p.id);
-        spinner.succeed(`Found ${targetPersonas.length} personas`);
-      }
+        // Determine which personas to pull
+        let targetPersonas: string[] = personaIds;
 
-      if (targetPersonas.length === 0) {
-        console.log(chalk.yellow('\nNo personas specified.'));
-        console.log(chalk.dim('Usage: persona-academy pull <persona-id> [more-ids...]'));
-        console.log(chalk.dim('       persona-academy pull --all'));
-        return;
-      }
+        if (options.all) {
+          if (merged.personas.length === 0) {
+            spinner.info('No personas available in registry');
+            return;
+          }
+
+          targetPersonas = merged.personas.map((p) => p.id);
+          spinner.succeed(`Found ${targetPersonas.length} personas`);
+        }
+
+        if (targetPersonas.length === 0) {
+          console.log(chalk.yellow('\nNo personas specified.'));
+          console.log(chalk.dim('Usage: persona-academy pull <persona-id>[@range] [more-ids...]'));
+          console.log(chalk.dim('       persona-academy pull --all'));
+          console.log(chalk.dim('       persona-academy pull --frozen'));
+          return;
+        }
 
-      // Pull personas
-      console.log(chalk.cyan(`\n📥 Pulling ${targetPersonas.length} persona(s)...\n`));
+        // Pull personas
+        console.log(chalk.cyan(`\n📥 Pulling ${targetPersonas.length} persona(s)...\n`));
 
-      const results = await pullPersonas(targetPersonas, options.force, config);
+        results = await pullFromRegistries(targetPersonas, options.force, reachable, merged);
+
+        // Pin what was pulled
+        const lockfile = loadLockfile(options.lockfile) ?? createEmptyLockfile();
+        if (lockPullResults(lockfile, results) > 0) {
+          saveLockfile(lockfile, options.lockfile);
+        }
+      }
 
       // Display results
       let successCount = 0;
@@ -96,7 +145,13 @@ export const pullCommand = new Command('pull')
             failed: chalk.red('Failed'),
           }[result.action];
 
-          console.log(`  ${icon} ${chalk.bold(result.personaId)}: ${actionText}`);
+          const source = result.registry ? chalk.dim(` ← ${result.registry}`) : '';
+          const signed = result.signedBy ? chalk.green(` 🔏 ${result.signedBy}`) : '';
+          const version = result.version ? chalk.dim(` v${result.version}`) : '';
+
+          console.log(
+            `  ${icon} ${chalk.bold(result.personaId)}${version}: ${actionText}${source}${signed}`,
+          );
 
           if (result.localPath && result.action !== 'already-current') {
             console.log(chalk.dim(`     → ${result.localPath}`));
@@ -119,7 +174,7 @@ export const pullCommand = new Command('pull')
       }
 
       // Cache stats
-      const stats = getCacheStats(config);
+      const stats = getCacheStats();
       console.log(chalk.dim(`\n  Cache: ${stats.totalCached} personas in ${stats.cacheDir}`));
 
       process.exit(failCount > 0 ? 1 : 0);
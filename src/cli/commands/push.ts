@@ -0,0 +1,115 @@
+/**
+ * Push Command
+ *
+ * Publishes a local persona to the registry as a branch and pull request.
+ *
+ * Usage:
+ *   persona-academy push <persona-id>
+ *   persona-academy push christensen --bump minor
+ *   persona-academy push christensen --sign-key ~/.persona-academy/keys/acme-2026.key
+ *   persona-academy push christensen --registry git+ssh://git.internal/persona-registry.git
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve, basename, extname } from 'path';
+import { pushPersona, selectRegistries } from '../../registry/index.js';
+import type { BumpLevel } from '../../registry/semver.js';
+
+const BUMP_LEVELS = ['major', 'minor', 'patch', 'none'];
+
+export const pushCommand = new Command('push')
+  .description('Publish a persona to the registry')
+  .argument('<persona>', 'Persona ID or path to persona directory')
+  .option('-d, --dir <path>', 'Personas directory', './personas')
+  .option('--bump <level>', 'Version bump: major, minor, patch, or none', 'patch')
+  .option('-m, --message <message>', 'Commit message')
+  .option('--no-pr', 'Push the branch without opening a pull request')
+  .option(
+    '-r, --registry <registry>',
+    'Configured registry name, or a registry (owner/repo, git+ssh:// URL, or repository path)',
+  )
+  .option('-b, --branch <branch>', 'Registry base branch')
+  .option('--sign-key <path>', 'Sign the persona with this ed25519 private key (PEM)')
+  .option('--key-id <id>', 'Key id recorded in the signature (default: key file name)')
+  .action(async (persona: string, options) => {
+    const spinner = ora();
+
+    try {
+      if (!BUMP_LEVELS.includes(options.bump)) {
+        console.error(chalk.red(`Invalid --bump level: ${options.bump}`));
+        console.log(chalk.dim(`Expected one of: ${BUMP_LEVELS.join(', ')}`));
+        process.exit(1);
+      }
+
+      // Resolve persona directory
+      const personaDir =
+        persona.includes('/') || persona.includes('\\')
+          ? resolve(persona)
+          : join(resolve(options.dir), persona);
+
+      if (!existsSync(join(personaDir, 'persona.yaml'))) {
+        console.error(chalk.red(`Persona not found: ${persona}`));
+        console.log(chalk.dim(`Searched: ${join(personaDir, 'persona.yaml')}`));
+        process.exit(1);
+      }
+
+      // Load the signing key, if any
+      let signingKey: { keyId: string; privateKey: string } | undefined;
+      if (options.signKey) {
+        if (!existsSync(options.signKey)) {
+          console.error(chalk.red(`Signing key not found: ${options.signKey}`));
+          process.exit(1);
+        }
+        signingKey = {
+          keyId: options.keyId ?? basename(options.signKey, extname(options.signKey)),
+          privateKey: readFileSync(options.signKey, 'utf-8'),
+        };
+      }
+
+      // Publish to the selected (or highest-priority) registry
+      const [config] = selectRegistries(options);
+
+      spinner.start(`Publishing to ${config.name}...`);
+      const result = await pushPersona(
+        personaDir,
+        {
+          bump: options.bump as BumpLevel | 'none',
+          message: options.message,
+          pullRequest: options.pr,
+          signingKey,
+        },
+        config,
+      );
+
+      if (!result.success) {
+        spinner.fail(chalk.red('Push failed'));
+        console.error(chalk.red(result.message));
+        process.exit(1);
+      }
+
+      spinner.succeed(result.message);
+
+      const actionText = result.action === 'created' ? chalk.green('New') : chalk.blue('Updated');
+      console.log(`\n  ${actionText} ${chalk.bold(result.personaId)}`);
+      if (result.commitSha) {
+        console.log(chalk.dim(`  Commit: ${result.commitSha}`));
+      }
+      if (signingKey) {
+        console.log(chalk.dim(`  Signed with: ${signingKey.keyId}`));
+      }
+      if (result.pullRequestUrl) {
+        console.log(`  Pull request: ${chalk.cyan(result.pullRequestUrl)}`);
+      } else if (config.type !== 'github') {
+        console.log(chalk.dim('  Merge the pushed branch into the registry to publish it.'));
+      }
+    } catch (error) {
+      spinner.fail(chalk.red('Push failed'));
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
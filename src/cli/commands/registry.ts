@@ -0,0 +1,228 @@
+/**
+ * Registry Command
+ *
+ * Manages the named registries and trusted signing keys in
+ * ~/.persona-academy/config.yaml.
+ *
+ * Usage:
+ *   persona-academy registry list
+ *   persona-academy registry add company-internal git+ssh://git.internal/personas.git --priority 100
+ *   persona-academy registry remove team-sandbox
+ *   persona-academy registry keygen acme-2026 --trust
+ *   persona-academy registry trust acme-2026 ./acme-2026.pub
+ *   persona-academy registry untrust acme-2026
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+import {
+  addRegistry,
+  removeRegistry,
+  addTrustedKey,
+  removeTrustedKey,
+  getTrustedKeys,
+  generateSigningKeyPair,
+  getConfiguredRegistries,
+  loadAcademyConfig,
+  resolveConfigPath,
+} from '../../registry/index.js';
+
+export const registryCommand = new Command('registry').description(
+  'Manage configured persona registries',
+);
+
+// Subcommand: list
+registryCommand
+  .command('list')
+  .description('List configured registries in priority order')
+  .option('--json', 'Output as JSON')
+  .action(async (options) => {
+    try {
+      const registries = getConfiguredRegistries();
+
+      if (options.json) {
+        console.log(JSON.stringify(registries, null, 2));
+        return;
+      }
+
+      const configured = loadAcademyConfig().registries.length > 0;
+
+      console.log(chalk.cyan('\n🌐 Persona Registries\n'));
+
+      for (const registry of registries) {
+        console.log(
+          `  ${chalk.green(registry.name)} ${chalk.dim(`(priority ${registry.priority ?? 0})`)}`,
+        );
+        console.log(chalk.dim(`    ${registry.type}: ${registry.repository}`));
+        console.log(chalk.dim(`    Branch: ${registry.branch} | Path: ${registry.basePath}`));
+        console.log();
+      }
+
+      if (!configured) {
+        console.log(chalk.dim('No registries configured; using the default registry.'));
+        console.log(chalk.dim('Use "persona-academy registry add <name> <url>" to add one.'));
+      }
+
+      const trustedKeys = getTrustedKeys();
+      if (trustedKeys.length > 0) {
+        console.log(chalk.cyan('\n🔑 Trusted Signing Keys\n'));
+        for (const key of trustedKeys) {
+          console.log(`  ${chalk.green(key.id)}`);
+        }
+        console.log();
+      }
+
+      console.log(chalk.dim(`Config: ${resolveConfigPath()}`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
+
+// Subcommand: add
+registryCommand
+  .command('add')
+  .description('Add a named registry')
+  .argument('<name>', 'Registry name (e.g. company-internal)')
+  .argument('<url>', 'owner/repo, file://, git+ssh://, or https:// URL')
+  .option('-p, --priority <number>', 'Priority when merging registries (higher wins)', '0')
+  .option('-b, --branch <branch>', 'Registry branch')
+  .option('--base-path <path>', 'Base path for personas within the registry')
+  .action(async (name: string, url: string, options) => {
+    try {
+      const priority = parseInt(options.priority, 10);
+      if (Number.isNaN(priority)) {
+        console.error(chalk.red(`Invalid --priority: ${options.priority}`));
+        process.exit(1);
+      }
+
+      const added = addRegistry({
+        name,
+        url,
+        priority,
+        ...(options.branch && { branch: options.branch }),
+        ...(options.basePath && { basePath: options.basePath }),
+      });
+
+      console.log(chalk.green(`\n✓ Added registry "${added.name}" (${added.type})`));
+      console.log(chalk.dim(`  ${added.url} | priority ${priority}`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
+
+// Subcommand: remove
+registryCommand
+  .command('remove')
+  .description('Remove a named registry')
+  .argument('<name>', 'Registry name')
+  .action(async (name: string) => {
+    try {
+      if (!removeRegistry(name)) {
+        console.log(chalk.yellow(`\nRegistry "${name}" is not configured.`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`\n✓ Removed registry "${name}"`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
+
+// Subcommand: keygen
+registryCommand
+  .command('keygen')
+  .description('Generate an ed25519 key pair for signing personas')
+  .argument('<key-id>', 'Key identifier recorded in signatures (e.g. acme-2026)')
+  .option('-o, --out <dir>', 'Directory to write <key-id>.key and <key-id>.pub to')
+  .option('--trust', 'Also add the public key to the trusted keys')
+  .action(async (keyId: string, options) => {
+    try {
+      const outDir = resolve(options.out ?? join(homedir(), '.persona-academy', 'keys'));
+      const privatePath = join(outDir, `${keyId}.key`);
+      const publicPath = join(outDir, `${keyId}.pub`);
+
+      if (existsSync(privatePath) || existsSync(publicPath)) {
+        console.error(chalk.red(`Key "${keyId}" already exists in ${outDir}`));
+        process.exit(1);
+      }
+
+      const { privateKey, publicKey } = generateSigningKeyPair();
+      mkdirSync(outDir, { recursive: true });
+      writeFileSync(privatePath, privateKey, { mode: 0o600 });
+      writeFileSync(publicPath, publicKey);
+
+      console.log(chalk.green(`\n✓ Generated signing key "${keyId}"`));
+      console.log(chalk.dim(`  Private key: ${privatePath}`));
+      console.log(chalk.dim(`  Public key:  ${publicPath}`));
+
+      if (options.trust) {
+        addTrustedKey({ id: keyId, publicKey });
+        console.log(chalk.green(`✓ Trusted "${keyId}"`));
+      }
+
+      console.log(
+        chalk.dim(`\nSign with: persona-academy push <persona> --sign-key ${privatePath}`),
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
+
+// Subcommand: trust
+registryCommand
+  .command('trust')
+  .description('Trust a public key for persona signatures')
+  .argument('<key-id>', 'Key identifier used in signatures')
+  .argument('<public-key>', 'Path to the ed25519 public key (PEM)')
+  .action(async (keyId: string, publicKeyPath: string) => {
+    try {
+      if (!existsSync(publicKeyPath)) {
+        console.error(chalk.red(`Public key not found: ${publicKeyPath}`));
+        process.exit(1);
+      }
+
+      addTrustedKey({ id: keyId, publicKey: readFileSync(publicKeyPath, 'utf-8') });
+      console.log(chalk.green(`\n✓ Trusted signing key "${keyId}"`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
+
+// Subcommand: untrust
+registryCommand
+  .command('untrust')
+  .description('Stop trusting a signing key')
+  .argument('<key-id>', 'Key identifier')
+  .action(async (keyId: string) => {
+    try {
+      if (!removeTrustedKey(keyId)) {
+        console.log(chalk.yellow(`\nKey "${keyId}" is not trusted.`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`\n✓ Removed trusted key "${keyId}"`));
+    } catch (error) {
+      if (error instanceof Error) {
+        console.error(chalk.red(error.message));
+      }
+      process.exit(1);
+    }
+  });
@@ -1,65 +1,79 @@
 /**
  * Remote Command
  *
- * Lists and searches personas in the remote registry.
+ * Lists and searches personas across the configured registries.
+ * Registries are merged by priority; each persona shows its source.
  *
  * Usage:
  *   persona-academy remote
  *   persona-academy remote --category business-strategist
  *   persona-academy remote --search "disruption"
+ *   persona-academy remote --registry company-internal
+ *   persona-academy remote --registry file:///srv/persona-registry
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import {
-  fetchRegistryIndex,
-  listRegistryPersonas,
-  searchRegistryPersonas,
+  fetchMergedRegistryIndex,
+  matchesRegistryQuery,
   checkRegistryAccess,
   isPersonaCached,
-  DEFAULT_REGISTRY_CONFIG,
+  selectRegistries,
 } from '../../registry/index.js';
-import type { RegistryConfig, RegistryEntry } from '../../registry/types.js';
-import type { PersonaCategory } from '../../core/types.js';
+import type { RegistryConfig, MergedRegistryEntry } from '../../registry/types.js';
 
 export const remoteCommand = new Command('remote')
-  .description('List personas available in the remote registry')
+  .description('List personas available in the remote registries')
   .option('-c, --category <category>', 'Filter by category')
   .option('-s, --search <query>', 'Search by name, summary, or tags')
-  .option('-r, --registry <repo>', 'Custom registry (owner/repo)')
-  .option('-b, --branch <branch>', 'Registry branch', 'main')
+  .option(
+    '-r, --registry <registry>',
+    'Configured registry name, or a registry (owner/repo, file://, git+ssh:// or https:// URL)',
+  )
+  .option('-b, --branch <branch>', 'Registry branch')
   .option('--json', 'Output as JSON')
   .action(async (options) => {
     const spinner = ora();
 
     try {
-      // Build config
-      const config: RegistryConfig = {
-        ...DEFAULT_REGISTRY_CONFIG,
-        ...(options.registry && { repository: options.registry }),
-        ...(options.branch && { branch: options.branch }),
-      };
+      const registries = selectRegistries(options);
 
       // Check registry access
-      spinner.start('Connecting to registry...');
-      const access = await checkRegistryAccess(config);
+      spinner.start('Connecting to registries...');
+      const reachable: RegistryConfig[] = [];
+      let unauthenticatedGitHub = false;
+
+      for (const config of registries) {
+        const access = await checkRegistryAccess(config);
+
+        if (access.accessible) {
+          reachable.push(config);
+          unauthenticatedGitHub ||= config.type === 'github' && !access.authenticated;
+        } else if (registries.length > 1) {
+          spinner.warn(chalk.yellow(`Skipping registry "${config.name}": ${access.message}`));
+          spinner.start('Connecting to registries...');
+        } else {
+          spinner.fail(chalk.red('Cannot access registry'));
+          console.log(chalk.dim(access.message));
+          process.exit(1);
+        }
+      }
 
-      if (!access.accessible) {
-        spinner.fail(chalk.red('Cannot access registry'));
-        console.log(chalk.dim(access.message));
+      if (reachable.length === 0) {
+        spinner.fail(chalk.red('Cannot access any registry'));
         process.exit(1);
       }
 
       spinner.text = 'Fetching personas...';
 
-      // Fetch personas
-      let personas: RegistryEntry[];
+      // Fetch and merge personas
+      const merged = await fetchMergedRegistryIndex(reachable);
+      let personas: MergedRegistryEntry[] = merged.personas;
 
       if (options.search) {
-        personas = await searchRegistryPersonas(options.search, config);
-      } else {
-        personas = await listRegistryPersonas(config);
+        personas = personas.filter((p) => matchesRegistryQuery(p, options.search));
       }
 
       // Apply category filter
@@ -69,6 +83,10 @@ export const remoteCommand = new Command('remote')
 
       spinner.stop();
 
+      for (const { registry, message } of merged.errors) {
+        console.error(chalk.yellow(`⚠️  Registry "${registry}" failed: ${message}`));
+      }
+
       // JSON output
       if (options.json) {
         console.log(JSON.stringify(personas, null, 2));
@@ -91,7 +109,9 @@ export const remoteCommand = new Command('remote')
 
       // Header
       console.log(chalk.cyan('\n🌐 Remote Persona Registry\n'));
-      console.log(chalk.dim(`  Repository: ${config.repository}`));
+      for (const config of reachable) {
+        console.log(chalk.dim(`  ${config.name}: ${config.repository}`));
+      }
 
       if (options.search) {
         console.log(chalk.dim(`  Search: "${options.search}"`));
@@ -106,10 +126,11 @@ export const remoteCommand = new Command('remote')
         console.log(chalk.bold(`${formatCategory(category)}`));
 
         for (const persona of categoryPersonas) {
-          const cached = isPersonaCached(persona.id, config);
+          const cached = isPersonaCached(persona.id);
           const cacheIndicator = cached ? chalk.green(' [cached]') : '';
+          const source = reachable.length > 1 ? chalk.magenta(` @${persona.registry}`) : '';
 
-          console.log(`  ${chalk.cyan(persona.id)}${cacheIndicator} - ${persona.name}`);
+          console.log(`  ${chalk.cyan(persona.id)}${source}${cacheIndicator} - ${persona.name}`);
           console.log(chalk.dim(`    ${persona.summary}`));
           console.log(
             chalk.dim(
@@ -120,6 +141,10 @@ export const remoteCommand = new Command('remote')
           if (persona.tags.length > 0) {
             console.log(chalk.dim(`    Tags: ${persona.tags.join(', ')}`));
           }
+
+          if (persona.alsoIn.length > 0) {
+            console.log(chalk.dim(`    Also in: ${persona.alsoIn.join(', ')}`));
+          }
         }
 
         console.log();
@@ -129,7 +154,7 @@ export const remoteCommand = new Command('remote')
       console.log(chalk.dim(`Total: ${personas.length} persona(s)`));
       console.log(chalk.dim('\nUse "persona-academy pull <id>" to download'));
 
-      if (!access.authenticated) {
+      if (unauthenticatedGitHub) {
         console.log(chalk.yellow('\n⚠️  Unauthenticated - rate limits apply.'));
         console.log(chalk.dim('   Set GITHUB_TOKEN for higher limits.'));
       }
@@ -142,8 +167,8 @@ export const remoteCommand = new Command('remote')
     }
   });
 
-function groupByCategory(personas: RegistryEntry[]): Record<string, RegistryEntry[]> {
-  const grouped: Record<string, RegistryEntry[]> = {};
+function groupByCategory(personas: MergedRegistryEntry[]): Record<string, MergedRegistryEntry[]> {
+  const grouped: Record<string, MergedRegistryEntry[]> = {};
 
   for (const persona of personas) {
     const cat = persona.category || 'custom';
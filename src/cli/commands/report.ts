@@ -8,25 +8,44 @@
  *   persona-academy report <path> [--text "sample"]
  *   persona-academy report ./personas/christensen --text "my response"
  *   persona-academy report ./personas/christensen --json
+ *   persona-academy report ./personas/christensen --scorer judge --judge-url <url> --judge-model <model>
+ *   persona-academy report ./personas/christensen --save-baseline
+ *   persona-academy report ./personas/christensen --against-baseline --markdown diff.md
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { existsSync, readFileSync } from 'fs';
-import { join, resolve } from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
 import { loadPersonaFromFile } from '../../core/index.js';
 import {
-  generateQualityReport,
+  generateScoredQualityReport,
+  createScorer,
+  readJudgeEnv,
   formatReport,
   generateJSONReport,
   generateSummary,
   passesQualityThresholds,
   runTestSuite,
+  runScoredTestSuite,
   formatTestResults,
   generateJUnitReport,
+  createBaseline,
+  saveBaseline,
+  loadBaseline,
+  getBaselinePath,
+  compareToBaseline,
+  formatBaselineComparison,
+  generateBaselineMarkdown,
+  DEFAULT_BASELINE_DIR,
+} from '../../validation/index.js';
+import type {
+  DepartmentContext,
+  ModelProvider,
+  QualityReport,
+  TestSuiteResult,
 } from '../../validation/index.js';
-import type { DepartmentContext } from '../../validation/index.js';
 import {
   discoverDepartments,
   resolveDepartmentForPersona,
@@ -46,10 +65,41 @@ export const reportCommand = new Command('report')
   .option('--voice-threshold <score>', 'Voice consistency threshold', '60')
   .option('--framework-threshold <score>', 'Framework coverage threshold', '50')
   .option('--departments-dir <path>', 'Departments directory for context', './departments')
+  .option('--scorer <name>', 'Scorer: heuristic or judge', 'heuristic')
+  .option('--judge-url <url>', 'Judge model endpoint URL (or PERSONA_ACADEMY_JUDGE_URL)')
+  .option('--judge-model <model>', 'Judge model name (or PERSONA_ACADEMY_JUDGE_MODEL)')
+  .option('--judge-provider <provider>', 'Judge request format: openai or anthropic')
+  .option('--save-baseline', 'Save report and test scores as the regression baseline')
+  .option('--against-baseline', 'Compare scores with the saved baseline; fail on regressions')
+  .option(
+    '--tolerance <points>',
+    'Score change in the wrong direction allowed before counting a regression',
+    '0',
+  )
+  .option('--baseline-dir <path>', 'Directory for baseline files', DEFAULT_BASELINE_DIR)
+  .option('--markdown <file>', 'Write the baseline diff as a Markdown table')
   .action(async (inputPath: string, options) => {
     const spinner = ora();
 
     try {
+      const tolerance = Number(options.tolerance);
+      if (options.tolerance.trim() === '' || !Number.isFinite(tolerance) || tolerance < 0) {
+        console.error(
+          chalk.red(`Invalid --tolerance: ${options.tolerance} (expected a non-negative number)`),
+        );
+        process.exit(1);
+      }
+
+      // API key comes from PERSONA_ACADEMY_JUDGE_API_KEY only
+      const scorer = createScorer(options.scorer, {
+        judge: {
+          ...readJudgeEnv(),
+          ...(options.judgeUrl && { url: options.judgeUrl }),
+          ...(options.judgeModel && { model: options.judgeModel }),
+          ...(options.judgeProvider && { provider: options.judgeProvider as ModelProvider }),
+        },
+      });
+
       // Resolve the persona file path
       const resolvedPath = resolve(inputPath);
       let yamlPath: string;
@@ -127,9 +177,16 @@ export const reportCommand = new Command('report')
       };
 
       // Generate quality report if we have text
+      let report: QualityReport | undefined;
       if (textToAnalyze) {
-        spinner.start('Analyzing text quality...');
-        const report = generateQualityReport(textToAnalyze, persona, config, departmentContext);
+        spinner.start(`Analyzing text quality (${scorer.name} scorer)...`);
+        report = await generateScoredQualityReport(
+          textToAnalyze,
+          persona,
+          scorer,
+          config,
+          departmentContext,
+        );
         spinner.succeed('Analysis complete');
 
         if (options.json) {
@@ -150,10 +207,58 @@ export const reportCommand = new Command('report')
         }
       }
 
+      // Test pass/fail follows the selected scorer
+      const runTests = () =>
+        scorer.name === 'heuristic'
+          ? Promise.resolve(runTestSuite(persona, config))
+          : runScoredTestSuite(persona, scorer, config);
+
+      // Save or compare against the regression baseline
+      let testResults: TestSuiteResult | undefined;
+      let regressed = false;
+
+      if (options.saveBaseline || options.againstBaseline) {
+        // persona.yaml is named after its directory; other files after themselves
+        const baselineId =
+          basename(yamlPath) === 'persona.yaml'
+            ? basename(dirname(yamlPath))
+            : basename(yamlPath).replace(/\.ya?ml$/, '');
+        const baselineDir = resolve(options.baselineDir);
+
+        testResults = await runTests();
+        const current = createBaseline(baselineId, report, testResults);
+
+        if (options.againstBaseline) {
+          const baseline = loadBaseline(baselineId, baselineDir);
+          if (!baseline) {
+            throw new Error(
+              `No baseline at ${getBaselinePath(baselineId, baselineDir)}. Run with --save-baseline first.`,
+            );
+          }
+
+          const comparison = compareToBaseline(baseline, current, tolerance);
+          regressed = !comparison.passed;
+
+          if (!options.json && !options.junit) {
+            console.log();
+            console.log(formatBaselineComparison(comparison));
+          }
+          if (options.markdown) {
+            writeFileSync(options.markdown, generateBaselineMarkdown(comparison) + '\n');
+            console.error(chalk.dim(`Markdown diff written to ${options.markdown}`));
+          }
+        }
+
+        if (options.saveBaseline) {
+          const path = saveBaseline(current, baselineDir);
+          console.error(chalk.green(`✓ Baseline saved to ${path}`));
+        }
+      }
+
       // Run test suite if requested
       if (options.runTests || options.junit) {
         spinner.start('Running test suite...');
-        const testResults = runTestSuite(persona, config);
+        testResults ??= await runTests();
         spinner.succeed(
           `Tests complete: ${testResults.passedTests}/${testResults.totalTests} passed`,
         );
@@ -172,11 +277,14 @@ export const reportCommand = new Command('report')
       }
 
       // Summary
-      if (textToAnalyze && !options.json) {
-        const report = generateQualityReport(textToAnalyze, persona, config, departmentContext);
+      if (report && !options.json) {
         console.log();
         console.log(chalk.cyan('Summary: ') + generateSummary(report));
       }
+
+      if (regressed) {
+        process.exit(1);
+      }
     } catch (error) {
       spinner.fail(chalk.red('Report error'));
       if (error instanceof Error) {
@@ -0,0 +1,103 @@
+/**
+ * Route Command
+ *
+ * Ranks personas for a task using their routing descriptions, framework
+ * usage, case-study signals, tags and department missions.
+ *
+ * Usage:
+ *   persona-academy route "Review this pull request for security issues"
+ *   persona-academy route "Should we enter the low end of the market?" --top 5
+ *   persona-academy route "..." --json
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync, readdirSync } from 'fs';
+import { join, resolve } from 'path';
+import {
+  loadPersonaFromFile,
+  buildRoutingIndex,
+  routeRequest,
+  explainRoute,
+} from '../../core/index.js';
+import type { PersonaDefinition } from '../../core/types.js';
+import { discoverDepartments } from '../../departments/index.js';
+
+export const routeCommand = new Command('route')
+  .description('Rank personas for a task')
+  .argument('<text>', 'The task or question to route')
+  .option('-d, --dir <path>', 'Personas directory', './personas')
+  .option('--departments-dir <path>', 'Departments directory', './departments')
+  .option('--top <n>', 'Show top N matches', '3')
+  .option('--json', 'Output as JSON')
+  .action(async (text: string, options) => {
+    const spinner = ora();
+
+    try {
+      const top = Number(options.top);
+      if (!Number.isInteger(top) || top <= 0) {
+        console.error(chalk.red(`Invalid --top: ${options.top} (expected a positive integer)`));
+        process.exit(1);
+      }
+
+      const personasDir = resolve(options.dir);
+
+      if (!existsSync(personasDir)) {
+        console.error(chalk.red(`Directory not found: ${personasDir}`));
+        process.exit(1);
+      }
+
+      spinner.start('Loading personas...');
+      const personas = new Map<string, PersonaDefinition>();
+
+      for (const entry of readdirSync(personasDir, { withFileTypes: true })) {
+        const yamlPath = join(personasDir, entry.name, 'persona.yaml');
+        if (entry.isDirectory() && existsSync(yamlPath)) {
+          try {
+            personas.set(entry.name, loadPersonaFromFile(yamlPath));
+          } catch {
+            // Skip invalid personas
+          }
+        }
+      }
+
+      if (personas.size === 0) {
+        spinner.fail('No valid personas found');
+        process.exit(1);
+      }
+
+      const departments = discoverDepartments(resolve(options.departmentsDir));
+      const matches = routeRequest(buildRoutingIndex(personas, departments), text, {
+        limit: top,
+      });
+      spinner.succeed(`Ranked ${personas.size} persona(s)`);
+
+      if (options.json) {
+        console.log(JSON.stringify(matches, null, 2));
+        return;
+      }
+
+      console.log();
+      if (matches.length === 0) {
+        console.log(chalk.yellow('No persona matches this request.'));
+        return;
+      }
+
+      matches.forEach((match, index) => {
+        console.log(
+          `${chalk.bold(`${index + 1}. ${match.name}`)} ${chalk.dim(`(${match.id})`)}  ${chalk.cyan(match.score.toFixed(2))}`,
+        );
+        console.log(chalk.dim(`   Matched on ${explainRoute(match)}`));
+      });
+
+      console.log();
+      console.log(
+        chalk.dim(`Serve the top match: persona-academy serve --default ${matches[0].id}`),
+      );
+    } catch (error) {
+      spinner.fail('Routing failed');
+      console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+      process.exit(1);
+    }
+  });
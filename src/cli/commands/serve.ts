@@ -6,6 +6,10 @@
  * Usage:
  *   persona-academy serve
  *   persona-academy serve --personas ./my-personas --default porter
+ *   persona-academy serve --require-signed
+ *   persona-academy serve --no-watch
+ *   persona-academy serve --prompt-budget 2000
+ *   persona-academy serve --transport http --port 3333 --auth-token <token>
  */
 
 import { Command } from 'commander';
@@ -23,6 +27,20 @@ export const serveCommand = new Command('serve')
   .option('-p, --personas <dir>', 'Personas directory', './personas')
   .option('-d, --default <id>', 'Default persona to activate')
   .option('--no-cache', 'Exclude cached personas')
+  .option('--verify-cache', 'Refuse cached personas modified since they were pulled')
+  .option(
+    '--require-signed',
+    'Refuse cached personas that are tampered or not signed by a trusted key',
+  )
+  .option('--no-watch', 'Do not hot-reload personas when their files change')
+  .option('--prompt-budget <tokens>', 'Token budget for persona system prompts')
+  .option('--transport <type>', 'Transport: stdio or http', 'stdio')
+  .option('--port <port>', 'Port for the http transport', '3333')
+  .option('--host <host>', 'Interface for the http transport to listen on', '127.0.0.1')
+  .option(
+    '--auth-token <token>',
+    'Bearer token required by the http transport (or set PERSONA_ACADEMY_AUTH_TOKEN)',
+  )
   .option('--foreground', 'Run in foreground (default for MCP)')
   .action(async (options) => {
     const personasDir = resolve(options.personas);
@@ -65,6 +83,34 @@ export const serveCommand = new Command('serve')
       args.push('--no-cache');
     }
 
+    if (options.requireSigned) {
+      args.push('--require-signed');
+    } else if (options.verifyCache) {
+      args.push('--verify-cache');
+    }
+
+    if (!options.watch) {
+      args.push('--no-watch');
+    }
+
+    if (options.promptBudget) {
+      args.push('--prompt-budget', options.promptBudget);
+    }
+
+    if (options.transport !== 'stdio' && options.transport !== 'http') {
+      console.error(chalk.red(`Invalid transport: ${options.transport}. Use stdio or http.`));
+      process.exit(1);
+    }
+
+    if (options.transport === 'http') {
+      args.push('--transport', 'http', '--port', options.port, '--host', options.host);
+    }
+
+    // Passed through the environment so the token does not show up in process listings
+    const env = options.authToken
+      ? { ...process.env, PERSONA_ACADEMY_AUTH_TOKEN: options.authToken }
+      : process.env;
+
     console.log(chalk.cyan('🎭 Starting Persona Academy MCP Server\n'));
     console.log(`  Personas: ${chalk.bold(personasDir)}`);
     if (options.default) {
@@ -72,32 +118,37 @@ export const serveCommand = new Command('serve')
     }
     console.log();
 
-    // For MCP, we need to pass through stdio
-    // This command is mainly for documentation/testing
-    // Actual usage is via claude_desktop_config.json
-
-    console.log(chalk.yellow('Note: For Claude Desktop, add to your config:\n'));
-    console.log(
-      chalk.dim(
-        JSON.stringify(
-          {
-            mcpServers: {
-              'persona-academy': {
-                command: 'node',
-                args: [
-                  serverPath,
-                  '--personas',
-                  personasDir,
-                  ...(options.default ? ['--default', options.default] : []),
-                ],
+    if (options.transport === 'http') {
+      const endpoint = `http://${options.host}:${options.port}/mcp`;
+      console.log(chalk.yellow('Note: Point MCP clients at the streamable HTTP endpoint:\n'));
+      console.log(`  ${chalk.bold(endpoint)}`);
+      if (options.authToken) {
+        console.log(chalk.dim('  with header: Authorization: Bearer <token>'));
+      }
+      console.log(chalk.dim(`  Health check: http://${options.host}:${options.port}/healthz`));
+    } else {
+      // For MCP, we need to pass through stdio
+      // This command is mainly for documentation/testing
+      // Actual usage is via claude_desktop_config.json
+
+      console.log(chalk.yellow('Note: For Claude Desktop, add to your config:\n'));
+      console.log(
+        chalk.dim(
+          JSON.stringify(
+            {
+              mcpServers: {
+                'persona-academy': {
+                  command: 'node',
+                  args: [serverPath, ...args],
+                },
               },
             },
-          },
-          null,
-          2,
+            null,
+            2,
+          ),
         ),
-      ),
-    );
+      );
+    }
 
     console.log(chalk.yellow('\nTo test directly, the server will start now...'));
     console.log(chalk.dim('Press Ctrl+C to stop\n'));
@@ -106,6 +157,7 @@ export const serveCommand = new Command('serve')
     const child = spawn('node', [serverPath, ...args], {
       stdio: 'inherit',
       cwd: process.cwd(),
+      env,
     });
 
     child.on('error', (error) => {
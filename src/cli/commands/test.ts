@@ -8,19 +8,52 @@
  *   persona-academy test <path>
  *   persona-academy test ./personas/christensen --verbose
  *   persona-academy test ./personas/christensen --text "sample response"
+ *   persona-academy test ./personas/christensen --scorer judge --judge-url <url> --judge-model <model>
+ *   persona-academy test ./personas/christensen --live --model-url <url> --model <model>
+ *   persona-academy test ./personas/christensen --live --stub-model
+ *   persona-academy test ./personas/christensen --filter "regression,edge_*"
+ *   persona-academy test ./personas --discrimination --margin 15
  */
 
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { existsSync } from 'fs';
-import { join, resolve } from 'path';
+import { existsSync, readdirSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
 import {
   loadPersonaFromFile,
   calculateFidelityScore,
   validateAgainstSamples,
   getSuggestions,
 } from '../../core/index.js';
+import {
+  createScorer,
+  readJudgeEnv,
+  getCustomTestCases,
+  filterTestCases,
+  matchesTestFilter,
+  runTestCases,
+  runScoredTestCases,
+  runDiscriminationTests,
+  formatDiscriminationResults,
+  DEFAULT_DISCRIMINATION_MARGIN,
+  readEndpointEnv,
+  runLiveTests,
+  formatLiveResults,
+  createStubReply,
+  startMockModelServer,
+  LIVE_MODEL_ENV,
+  MOCK_OPENAI_PATH,
+  DEFAULT_LIVE_CACHE_DIR,
+} from '../../validation/index.js';
+import type {
+  ModelEndpoint,
+  ModelProvider,
+  MockModelServer,
+  ScoreSet,
+  Scorer,
+} from '../../validation/index.js';
+import type { PersonaDefinition } from '../../core/index.js';
 
 export const testCommand = new Command('test')
   .description('Run fidelity tests on a persona')
@@ -28,12 +61,56 @@ export const testCommand = new Command('test')
   .option('-v, --verbose', 'Show detailed test output')
   .option('-t, --text <text>', 'Test a specific text against the persona')
   .option('--threshold <score>', 'Minimum score to pass', '70')
+  .option(
+    '--filter <terms>',
+    'Run only tests matching ids (* wildcards), tags or categories, comma-separated',
+  )
+  .option('--scorer <name>', 'Scorer: heuristic or judge', 'heuristic')
+  .option('--judge-url <url>', 'Judge model endpoint URL (or PERSONA_ACADEMY_JUDGE_URL)')
+  .option('--judge-model <model>', 'Judge model name (or PERSONA_ACADEMY_JUDGE_MODEL)')
+  .option('--judge-provider <provider>', 'Judge request format: openai or anthropic')
+  .option('--live', 'Generate responses to sample prompts with a model and score them')
+  .option('--model-url <url>', 'Model endpoint URL for --live (or PERSONA_ACADEMY_MODEL_URL)')
+  .option('--model <model>', 'Model name for --live (or PERSONA_ACADEMY_MODEL)')
+  .option('--model-provider <provider>', 'Model request format: openai or anthropic')
+  .option('--stub-model', 'Answer --live prompts with canned good responses (for CI)')
+  .option('--cache-dir <path>', 'Directory for cached live responses', DEFAULT_LIVE_CACHE_DIR)
+  .option('--no-cache', 'Do not read or write cached live responses')
+  .option('--refresh-cache', 'Regenerate live responses and overwrite the cache')
+  .option('--discrimination', 'Check that good samples score highest for their own persona')
+  .option(
+    '--margin <points>',
+    'Lead required over the next persona for --discrimination',
+    String(DEFAULT_DISCRIMINATION_MARGIN),
+  )
+  .option(
+    '--personas-dir <path>',
+    'Personas to compare against (default: the persona directory parent)',
+  )
   .action(async (inputPath: string, options) => {
     const spinner = ora();
 
     try {
+      // API key comes from PERSONA_ACADEMY_JUDGE_API_KEY only
+      const scorer = createScorer(options.scorer, {
+        judge: {
+          ...readJudgeEnv(),
+          ...(options.judgeUrl && { url: options.judgeUrl }),
+          ...(options.judgeModel && { model: options.judgeModel }),
+          ...(options.judgeProvider && { provider: options.judgeProvider as ModelProvider }),
+        },
+      });
+      const heuristic = scorer.name === 'heuristic';
+
       // Resolve the persona file path
       const resolvedPath = resolve(inputPath);
+
+      // Discrimination mode: <path> may be a single persona or a personas directory
+      if (options.discrimination) {
+        const passed = runDiscrimination(resolvedPath, options);
+        process.exit(passed ? 0 : 1);
+      }
+
       let yamlPath: string;
 
       if (resolvedPath.endsWith('.yaml') || resolvedPath.endsWith('.yml')) {
@@ -53,6 +130,29 @@ export const testCommand = new Command('test')
 
       const threshold = parseInt(options.threshold, 10);
 
+      // Live mode: generate responses with a model
+      if (options.live) {
+        const personaId =
+          basename(yamlPath) === 'persona.yaml'
+            ? basename(dirname(yamlPath))
+            : basename(yamlPath).replace(/\.ya?ml$/, '');
+        const passed = await runLive(personaId, persona, scorer, threshold, options);
+        process.exit(passed ? 0 : 1);
+      }
+
+      // If testing specific text with the judge
+      if (options.text && !heuristic) {
+        console.log(chalk.cyan(`\n📝 Testing provided text (${scorer.name} scorer)...\n`));
+
+        spinner.start('Scoring...');
+        const scores = await scorer.score(options.text, persona);
+        spinner.stop();
+        const passed = scores.fidelity >= threshold;
+        displayScoreSet(scores, threshold, passed);
+
+        process.exit(passed ? 0 : 1);
+      }
+
       // If testing specific text
       if (options.text) {
         console.log(chalk.cyan('\n📝 Testing provided text...\n'));
@@ -75,14 +175,25 @@ export const testCommand = new Command('test')
       console.log(chalk.cyan('\n🧪 Running fidelity tests...\n'));
 
       const samples = persona.sample_responses ?? {};
-      const sampleIds = Object.keys(samples);
+      const customTests = getCustomTestCases(persona);
 
-      if (sampleIds.length === 0) {
+      if (Object.keys(samples).length === 0 && customTests.length === 0) {
         console.log(chalk.yellow('No sample responses defined in persona.'));
         console.log(chalk.dim('Add sample_responses to persona.yaml for testing.'));
         process.exit(0);
       }
 
+      // Sample tests count as fidelity tests for --filter
+      const sampleIds = Object.keys(samples).filter(
+        (id) => !options.filter || matchesTestFilter({ id, category: 'fidelity' }, options.filter),
+      );
+      const selectedTests = filterTestCases(customTests, options.filter);
+
+      if (sampleIds.length === 0 && selectedTests.length === 0) {
+        console.log(chalk.yellow(`No tests match filter: ${options.filter}`));
+        process.exit(1);
+      }
+
       let passCount = 0;
       let failCount = 0;
 
@@ -92,38 +203,48 @@ export const testCommand = new Command('test')
         console.log(chalk.dim(`  Prompt: "${sample.prompt.slice(0, 60)}..."`));
 
         // Test good response
-        const goodScore = calculateFidelityScore(sample.good_response, persona);
-        const goodPassed = goodScore.score >= threshold;
+        const goodScores = await scorer.score(sample.good_response, persona);
+        const goodPassed = goodScores.fidelity >= threshold;
 
         if (goodPassed) {
-          console.log(chalk.green(`  ✓ Good response: ${goodScore.score}/100`));
+          console.log(chalk.green(`  ✓ Good response: ${goodScores.fidelity}/100`));
           passCount++;
         } else {
           console.log(
-            chalk.red(`  ✗ Good response: ${goodScore.score}/100 (expected ≥${threshold})`),
+            chalk.red(`  ✗ Good response: ${goodScores.fidelity}/100 (expected ≥${threshold})`),
           );
           failCount++;
         }
 
         // Test bad response if available
         if (sample.bad_response) {
-          const badScore = calculateFidelityScore(sample.bad_response, persona);
-          const badShouldFail = badScore.score < threshold;
+          const badScores = await scorer.score(sample.bad_response, persona);
+          const badShouldFail = badScores.fidelity < threshold;
 
           if (badShouldFail) {
             console.log(
-              chalk.green(`  ✓ Bad response correctly scored low: ${badScore.score}/100`),
+              chalk.green(`  ✓ Bad response correctly scored low: ${badScores.fidelity}/100`),
             );
             passCount++;
           } else {
             console.log(
-              chalk.yellow(`  ⚠ Bad response scored unexpectedly high: ${badScore.score}/100`),
+              chalk.yellow(`  ⚠ Bad response scored unexpectedly high: ${badScores.fidelity}/100`),
             );
             // Not a failure, but a warning
           }
         }
 
-        if (options.verbose) {
+        if (options.verbose && !heuristic) {
+          console.log(
+            chalk.dim(
+              `  Voice: ${goodScores.voiceConsistency}/100, frameworks: ${goodScores.frameworkCoverage}/100`,
+            ),
+          );
+          if (goodScores.rationale) {
+            console.log(chalk.dim(`  Rationale: ${goodScores.rationale}`));
+          }
+        } else if (options.verbose) {
+          const goodScore = calculateFidelityScore(sample.good_response, persona);
           console.log(chalk.dim(`  Breakdown:`));
           console.log(
             chalk.dim(
@@ -145,6 +266,38 @@ export const testCommand = new Command('test')
         console.log();
       }
 
+      // Author-declared tests from tests.yaml
+      if (selectedTests.length > 0) {
+        console.log(chalk.bold('Custom tests'));
+
+        const customResults = heuristic
+          ? runTestCases(selectedTests, persona)
+          : await runScoredTestCases(selectedTests, persona, scorer);
+
+        for (const result of customResults.results) {
+          const { testCase } = result;
+          const score = result.actualScore !== undefined ? ` [${result.actualScore}]` : '';
+          const tags = testCase.tags?.length ? chalk.dim(` (${testCase.tags.join(', ')})`) : '';
+
+          if (result.passed) {
+            console.log(chalk.green(`  ✓ ${testCase.id}${score}`) + tags);
+            passCount++;
+          } else {
+            console.log(chalk.red(`  ✗ ${testCase.id}${score}`) + tags);
+            for (const failure of result.error ? [result.error] : (result.failures ?? [])) {
+              console.log(chalk.red(`      ${failure}`));
+            }
+            failCount++;
+          }
+
+          if (options.verbose && testCase.description !== testCase.id) {
+            console.log(chalk.dim(`      ${testCase.description}`));
+          }
+        }
+
+        console.log();
+      }
+
       // Summary
       console.log(chalk.bold('─'.repeat(50)));
       console.log(chalk.bold('\n📊 Summary\n'));
@@ -176,6 +329,159 @@ export const testCommand = new Command('test')
     }
   });
 
+/**
+ * Run discrimination tests and print the results. Returns whether all samples passed.
+ */
+function runDiscrimination(
+  resolvedPath: string,
+  options: Record<string, string | boolean | undefined>,
+): boolean {
+  const isPersonaFile = resolvedPath.endsWith('.yaml') || resolvedPath.endsWith('.yml');
+  const isPersonaDir = !isPersonaFile && existsSync(join(resolvedPath, 'persona.yaml'));
+
+  // A single persona tests its own samples against its siblings
+  const personaDir = isPersonaFile ? dirname(resolvedPath) : resolvedPath;
+  const owner = isPersonaFile || isPersonaDir ? basename(personaDir) : undefined;
+  const personasDir = options.personasDir
+    ? resolve(options.personasDir as string)
+    : owner
+      ? dirname(personaDir)
+      : resolvedPath;
+
+  if (!existsSync(personasDir)) {
+    throw new Error(`Directory not found: ${personasDir}`);
+  }
+
+  const spinner = ora('Loading personas...').start();
+  const personas = new Map<string, PersonaDefinition>();
+
+  for (const entry of readdirSync(personasDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const yamlPath = join(personasDir, entry.name, 'persona.yaml');
+    if (!existsSync(yamlPath)) continue;
+    try {
+      personas.set(entry.name, loadPersonaFromFile(yamlPath));
+    } catch {
+      // Skip invalid personas
+    }
+  }
+
+  if (owner && !personas.has(owner)) {
+    personas.set(
+      owner,
+      loadPersonaFromFile(isPersonaFile ? resolvedPath : join(personaDir, 'persona.yaml')),
+    );
+  }
+
+  if (personas.size < 2) {
+    spinner.fail('Discrimination tests need at least two personas');
+    return false;
+  }
+  spinner.succeed(`Loaded ${personas.size} persona(s)`);
+
+  const result = runDiscriminationTests(personas, {
+    margin: parseInt(options.margin as string, 10),
+    owners: owner ? [owner] : undefined,
+  });
+
+  if (result.samples.length === 0) {
+    console.log(chalk.yellow('No sample responses to test.'));
+    return true;
+  }
+
+  console.log();
+  console.log(formatDiscriminationResults(result));
+
+  return result.passed;
+}
+
+/**
+ * Run live tests and print the results. Returns whether all samples passed.
+ */
+async function runLive(
+  personaId: string,
+  persona: PersonaDefinition,
+  scorer: Scorer,
+  threshold: number,
+  options: Record<string, string | boolean | undefined>,
+): Promise<boolean> {
+  let stub: MockModelServer | undefined;
+  let endpoint: ModelEndpoint;
+
+  if (options.stubModel) {
+    stub = await startMockModelServer(createStubReply(persona));
+    endpoint = { url: stub.url + MOCK_OPENAI_PATH, model: 'stub' };
+  } else {
+    // API key comes from PERSONA_ACADEMY_MODEL_API_KEY only
+    const configured: Partial<ModelEndpoint> = {
+      ...readEndpointEnv(LIVE_MODEL_ENV),
+      ...(options.modelUrl && { url: options.modelUrl as string }),
+      ...(options.model && { model: options.model as string }),
+      ...(options.modelProvider && { provider: options.modelProvider as ModelProvider }),
+    };
+    if (!configured.url || !configured.model) {
+      throw new Error(
+        `--live needs a model endpoint: pass --model-url and --model (or set ${LIVE_MODEL_ENV.url} and ${LIVE_MODEL_ENV.model}), or use --stub-model`,
+      );
+    }
+    endpoint = { ...configured, url: configured.url, model: configured.model };
+  }
+
+  const spinner = ora(`Generating responses with ${endpoint.model}...`).start();
+
+  try {
+    const results = await runLiveTests(persona, {
+      personaId,
+      endpoint,
+      scorer,
+      threshold,
+      // Stub responses are already deterministic
+      cacheDir: options.cache && !stub ? resolve(options.cacheDir as string) : undefined,
+      refresh: Boolean(options.refreshCache),
+    });
+    spinner.stop();
+
+    if (results.totalSamples === 0) {
+      console.log(chalk.yellow('No sample responses defined in persona.'));
+      console.log(chalk.dim('Add sample_responses to persona.yaml for live testing.'));
+      return true;
+    }
+
+    console.log();
+    console.log(formatLiveResults(results));
+
+    if (options.verbose) {
+      for (const result of results.results) {
+        console.log(chalk.cyan(`\n${result.sampleId} response:`));
+        console.log(chalk.dim(result.response));
+      }
+    }
+
+    return results.failedSamples === 0;
+  } finally {
+    spinner.stop();
+    await stub?.close();
+  }
+}
+
+/**
+ * Display scores from a non-heuristic scorer
+ */
+function displayScoreSet(scores: ScoreSet, threshold: number, passed: boolean): void {
+  const color = passed ? chalk.green : chalk.red;
+
+  console.log(color(`${passed ? '✓' : '✗'} Fidelity Score: ${scores.fidelity}/100`));
+  console.log(chalk.dim(`  Threshold: ${threshold}`));
+  console.log();
+  console.log(`  Voice consistency: ${scores.voiceConsistency}/100`);
+  console.log(`  Framework coverage: ${scores.frameworkCoverage}/100`);
+
+  if (scores.rationale) {
+    console.log();
+    console.log(chalk.dim(scores.rationale));
+  }
+}
+
 /**
  * Display a fidelity score with formatting
  */
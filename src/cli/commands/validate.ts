@@ -13,18 +13,15 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { existsSync, readFileSync } from 'fs';
-import { join, resolve } from 'path';
+import { dirname, join, resolve } from 'path';
 import { parse as parseYaml } from 'yaml';
-import AjvModule, { type ErrorObject } from 'ajv';
-
-// ESM compatibility - handle both default and named export
-const Ajv = AjvModule.default || AjvModule;
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-import { resolveExternalFiles } from '../../core/index.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import type { ErrorObject } from 'ajv';
+import {
+  resolveExternalFiles,
+  findSchemaPath,
+  validatePersonaSchema,
+  formatSchemaError,
+} from '../../core/index.js';
 
 export const validateCommand = new Command('validate')
   .description('Validate persona YAML against schema')
@@ -71,41 +68,23 @@ export const validateCommand = new Command('validate')
         resolveExternalFiles(
           persona as unknown as import('../../core/types.js').PersonaDefinition,
           dirname(yamlPath),
+          [resolve(yamlPath)],
         );
       }
 
       // Load schema
-      const schemaPath = options.schema || join(__dirname, '../../../schema/persona-schema.json');
-
-      if (!existsSync(schemaPath)) {
-        // Try alternative paths
-        const altPaths = [
-          join(__dirname, '../../schema/persona-schema.json'),
-          join(__dirname, '../../../../schema/persona-schema.json'),
-        ];
-
-        let foundSchema = false;
-        for (const altPath of altPaths) {
-          if (existsSync(altPath)) {
-            options.schema = altPath;
-            foundSchema = true;
-            break;
-          }
-        }
+      const schemaPath = findSchemaPath(options.schema);
 
-        if (!foundSchema) {
-          spinner.fail(chalk.red('Schema file not found'));
-          console.error(chalk.dim(`Searched: ${schemaPath}`));
-          process.exit(1);
-        }
+      if (!schemaPath) {
+        spinner.fail(chalk.red('Schema file not found'));
+        console.error(
+          chalk.dim(`Searched: ${options.schema ?? 'bundled schema/persona-schema.json'}`),
+        );
+        process.exit(1);
       }
 
-      const schema = JSON.parse(readFileSync(options.schema || schemaPath, 'utf-8'));
-
       // Validate with AJV
-      const ajv = new Ajv({ allErrors: true, verbose: true });
-      const validate = ajv.compile(schema);
-      const valid = validate(persona);
+      const { valid, errors: schemaErrors } = validatePersonaSchema(persona, schemaPath);
 
       if (valid) {
         spinner.succeed(chalk.green('Persona is valid!'));
@@ -145,14 +124,14 @@ export const validateCommand = new Command('validate')
         // Format errors nicely
         console.log(chalk.yellow('\n⚠️  Issues found:\n'));
 
-        const errors = validate.errors || [];
+        const errors = schemaErrors;
         const groupedErrors = groupErrorsByPath(errors);
 
         for (const [path, pathErrors] of Object.entries(groupedErrors)) {
           console.log(chalk.cyan(`  ${path || 'root'}:`));
 
           for (const error of pathErrors) {
-            const message = formatErrorMessage(error);
+            const message = formatSchemaError(error);
             console.log(chalk.red(`    ✗ ${message}`));
 
             if (options.verbose && error.params) {
@@ -200,40 +179,6 @@ function groupErrorsByPath(errors: AjvError[]): Record<string, AjvError[]> {
   return grouped;
 }
 
-/**
- * Format error message for display
- */
-function formatErrorMessage(error: AjvError): string {
-  switch (error.keyword) {
-    case 'required':
-      return `Missing required property: ${error.params.missingProperty}`;
-
-    case 'type':
-      return `Expected ${error.params.type}, got ${typeof error.params.type}`;
-
-    case 'minLength':
-      return `Value too short (minimum: ${error.params.limit} characters)`;
-
-    case 'minItems':
-      return `Array too short (minimum: ${error.params.limit} items)`;
-
-    case 'minProperties':
-      return `Object needs at least ${error.params.limit} properties`;
-
-    case 'enum':
-      return `Value must be one of: ${(error.params.allowedValues as string[]).join(', ')}`;
-
-    case 'pattern':
-      return `Value doesn't match required pattern`;
-
-    case 'additionalProperties':
-      return `Unknown property: ${error.params.additionalProperty}`;
-
-    default:
-      return error.message || `Validation error: ${error.keyword}`;
-  }
-}
-
 /**
  * Generate helpful hints based on errors
  */
@@ -6,29 +6,41 @@
  *
  * Commands:
  *   create <name>     - Create a new persona from template
+ *   import <file>     - Import a markdown system prompt as a draft persona
  *   validate <path>   - Validate persona YAML against schema
  *   test <path>       - Run fidelity tests on a persona
  *   list              - List local personas
  *   info <name>       - Show details about a persona
+ *   export <ids...>   - Export personas (e.g. as Agent SDK subagents)
  *   report <path>     - Generate quality report
  *   compare <dir>     - Compare text across personas
+ *   panel <ids...>    - Convene a panel of personas on one situation
+ *   route <text>      - Rank personas for a task
  *   remote            - List personas in remote registry
  *   pull <ids...>     - Pull personas from registry
+ *   push <id>         - Publish a persona to the registry
  *   cache             - Manage local cache
+ *   registry          - Manage configured registries
  *   serve             - Start the MCP server
  */
 
 import { Command } from 'commander';
 import { createCommand } from './commands/create.js';
+import { importCommand } from './commands/import.js';
 import { validateCommand } from './commands/validate.js';
 import { testCommand } from './commands/test.js';
 import { listCommand } from './commands/list.js';
 import { infoCommand } from './commands/info.js';
+import { exportCommand } from './commands/export.js';
 import { reportCommand } from './commands/report.js';
 import { compareCommand } from './commands/compare.js';
+import { panelCommand } from './commands/panel.js';
+import { routeCommand } from './commands/route.js';
 import { remoteCommand } from './commands/remote.js';
 import { pullCommand } from './commands/pull.js';
+import { pushCommand } from './commands/push.js';
 import { cacheCommand } from './commands/cache.js';
+import { registryCommand } from './commands/registry.js';
 import { serveCommand } from './commands/serve.js';
 import { departmentCommand } from './commands/department.js';
 
@@ -41,19 +53,25 @@ program
 
 // Local persona commands
 program.addCommand(createCommand);
+program.addCommand(importCommand);
 program.addCommand(validateCommand);
 program.addCommand(testCommand);
 program.addCommand(listCommand);
 program.addCommand(infoCommand);
+program.addCommand(exportCommand);
 
 // Validation & quality commands
 program.addCommand(reportCommand);
 program.addCommand(compareCommand);
+program.addCommand(panelCommand);
+program.addCommand(routeCommand);
 
 // Remote registry commands
 program.addCommand(remoteCommand);
 program.addCommand(pullCommand);
+program.addCommand(pushCommand);
 program.addCommand(cacheCommand);
+program.addCommand(registryCommand);
 
 // Department commands
 program.addCommand(departmentCommand);
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  rankPersonaContent,
+  selectRelevantContent,
+  findCaseStudies,
+} from '../content-relevance.js';
+import { generateSystemPrompt } from '../persona-loader.js';
+import type { PersonaDefinition } from '../types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: { name: 'Strategist', role: 'Advisor', background: 'Decades of advising.' },
+    voice: { tone: ['direct'], phrases: ['Why now?'], style: ['Terse'] },
+    frameworks: {
+      five_forces: {
+        description: 'Industry structure analysis. Explains profitability.',
+        concepts: { rivalry: { definition: 'Competition among incumbents' } },
+        questions: ['How intense is rivalry?'],
+        when_to_use: 'When judging whether an industry is attractive',
+      },
+      value_chain: {
+        description: 'Activities that create value. Finds cost advantages.',
+        concepts: { margin: { definition: 'Value minus the cost of activities' } },
+        questions: ['Which activities drive cost?'],
+        when_to_use: 'When costs are out of line with competitors',
+      },
+      disruption: {
+        description: 'How entrants unseat incumbents.',
+        concepts: { low_end: { definition: 'Serving overshot customers cheaply' } },
+        when_to_use: 'When a cheaper entrant targets the low end',
+      },
+    },
+    case_studies: {
+      airline: {
+        pattern: 'Focused low-cost positioning',
+        story: 'A regional airline refused to add hub routes.',
+        signals: ['Costs rising faster than fares'],
+      },
+      minimills: {
+        pattern: 'Low-end disruption',
+        story: 'Minimills took the bottom of the steel market.',
+        signals: ['Cheaper entrant at the low end'],
+      },
+    },
+    validation: { must_include: [{ pattern: 'position' }] },
+  };
+}
+
+describe('rankPersonaContent', () => {
+  it('ranks frameworks by when_to_use and concepts, case studies by signals', () => {
+    const ranking = rankPersonaContent(makePersona(), 'Our costs are higher than competitors');
+
+    expect(ranking.frameworks[0]).toMatchObject({
+      name: 'value_chain',
+      terms: ['costs', 'competitors'],
+    });
+    expect(ranking.caseStudies[0].name).toBe('airline');
+  });
+
+  it('keeps definition order for ties', () => {
+    const ranking = rankPersonaContent(makePersona(), 'nothing matches this');
+
+    expect(ranking.frameworks.map((item) => item.name)).toEqual([
+      'five_forces',
+      'value_chain',
+      'disruption',
+    ]);
+    expect(ranking.frameworks.every((item) => item.score === 0)).toBe(true);
+  });
+});
+
+describe('selectRelevantContent', () => {
+  it('picks the top count frameworks and case studies', () => {
+    const selected = selectRelevantContent(makePersona(), 'A cheaper entrant at the low end', 1);
+
+    expect(selected).toEqual({ frameworks: ['disruption'], caseStudies: ['minimills'] });
+  });
+});
+
+describe('findCaseStudies', () => {
+  it('searches several personas, matching lessons and reporting matched signals', () => {
+    const other = makePersona();
+    other.case_studies = {
+      kodak: {
+        pattern: 'Incumbent ignores a new technology',
+        story: 'Kodak invented the digital camera and shelved it.',
+        signals: ['Core product margins protected at all costs'],
+        lessons: ['Cannibalize yourself before a rival does'],
+      },
+    };
+    const personas = new Map([
+      ['strategist', makePersona()],
+      ['historian', other],
+    ]);
+
+    const matches = findCaseStudies(personas, 'Should we cannibalize our margins?');
+
+    expect(matches.map((m) => [m.personaId, m.name])).toEqual([['historian', 'kodak']]);
+    expect(matches[0].matchedSignals).toEqual(['Core product margins protected at all costs']);
+    expect(matches[0].terms).toEqual(['cannibalize', 'margins']);
+  });
+
+  it('limits the number of matches', () => {
+    const personas = new Map([['strategist', makePersona()]]);
+
+    expect(findCaseStudies(personas, 'low-end costs', { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('generateSystemPrompt with relevantTo', () => {
+  it('renders relevant content in full and summarizes the rest', () => {
+    const prompt = generateSystemPrompt(makePersona(), {
+      relevantTo: 'Our costs are higher than competitors',
+      relevantCount: 1,
+    });
+
+    expect(prompt).toContain('### Value Chain');
+    expect(prompt).toContain('- Which activities drive cost?');
+    expect(prompt).toContain(
+      '- **Five Forces**: Industry structure analysis. *(Use get_framework tool for details)*',
+    );
+    expect(prompt).not.toContain('How intense is rivalry?');
+    expect(prompt).toContain('### Airline');
+    expect(prompt).toContain('- **Minimills**: Low-end disruption *(Use get_case_study tool');
+    expect(prompt).not.toContain('bottom of the steel market');
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  isFrameworkReference,
+  loadLibraryFramework,
+  resolveFrameworkRefs,
+  getFrameworkReference,
+  getFrameworkIdentity,
+} from '../framework-library.js';
+import { loadPersonaFromFile } from '../persona-loader.js';
+import type { Framework } from '../types.js';
+
+const PERSONA_YAML = `identity:
+  name: "Reviewer"
+  role: "Reviewer"
+  background: "Reviews code."
+
+voice:
+  tone: [direct]
+  phrases: ["Why?"]
+  style: ["Terse"]
+
+frameworks:
+  design:
+    $ref: "lib:solid"
+    when_to_use: "When reviewing classes"
+
+validation:
+  must_include:
+    - pattern: "risk"
+`;
+
+describe('framework library', () => {
+  let rootDir: string;
+  let personaDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'framework-library-test-'));
+    personaDir = join(rootDir, 'personas', 'reviewer');
+    mkdirSync(personaDir, { recursive: true });
+    mkdirSync(join(rootDir, 'frameworks'));
+    writeFileSync(
+      join(rootDir, 'frameworks', 'team-solid.yaml'),
+      'description: "Team SOLID"\nconcepts:\n  srp:\n    definition: "One reason to change"\n',
+    );
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('recognizes library references', () => {
+    expect(isFrameworkReference({ $ref: 'lib:solid' })).toBe(true);
+    expect(isFrameworkReference({ description: 'Inline', concepts: {} })).toBe(false);
+  });
+
+  it('prefers the library next to the personas directory', () => {
+    expect(loadLibraryFramework('lib:team-solid', personaDir).description).toBe('Team SOLID');
+  });
+
+  it('falls back to the bundled library', () => {
+    expect(loadLibraryFramework('lib:solid', personaDir).concepts).toHaveProperty(
+      'single_responsibility',
+    );
+  });
+
+  it('rejects unknown and malformed references', () => {
+    expect(() => loadLibraryFramework('lib:missing', personaDir)).toThrow(
+      'Framework "lib:missing" not found',
+    );
+    expect(() => loadLibraryFramework('solid', personaDir)).toThrow(
+      'Unsupported framework reference',
+    );
+    expect(() => loadLibraryFramework('lib:../secrets', personaDir)).toThrow(
+      'Invalid framework library name',
+    );
+  });
+
+  it('resolves references in place, applying sibling overrides and remembering the ref', () => {
+    const frameworks: Record<string, Framework> = {
+      design: { $ref: 'lib:team-solid', when_to_use: 'Always' } as unknown as Framework,
+      inline: { description: 'Inline', concepts: {} },
+    };
+
+    resolveFrameworkRefs(frameworks, personaDir);
+
+    expect(frameworks.design).toEqual({
+      description: 'Team SOLID',
+      concepts: { srp: { definition: 'One reason to change' } },
+      when_to_use: 'Always',
+    });
+    expect(getFrameworkReference(frameworks.design)).toEqual({
+      ref: 'lib:team-solid',
+      overrides: { when_to_use: 'Always' },
+    });
+    expect(frameworks.inline).toEqual({ description: 'Inline', concepts: {} });
+    expect(getFrameworkReference(frameworks.inline)).toBeUndefined();
+  });
+
+  it('resolves references when loading a persona', () => {
+    writeFileSync(join(personaDir, 'persona.yaml'), PERSONA_YAML);
+
+    const persona = loadPersonaFromFile(join(personaDir, 'persona.yaml'));
+
+    expect(getFrameworkReference(persona.frameworks.design)?.ref).toBe('lib:solid');
+    expect(JSON.stringify(persona.frameworks.design)).not.toContain('lib:solid');
+    expect(persona.frameworks.design.when_to_use).toBe('When reviewing classes');
+    expect(persona.frameworks.design.questions?.length).toBeGreaterThan(0);
+  });
+
+  it('keeps references of frameworks inherited from or overridden in a parent', () => {
+    const parentDir = join(rootDir, 'personas', 'base');
+    mkdirSync(parentDir);
+    writeFileSync(join(parentDir, 'persona.yaml'), PERSONA_YAML);
+    writeFileSync(
+      join(personaDir, 'persona.yaml'),
+      'extends: base\nframeworks:\n  team:\n    $ref: "lib:team-solid"\n',
+    );
+
+    const persona = loadPersonaFromFile(join(personaDir, 'persona.yaml'));
+
+    expect(getFrameworkReference(persona.frameworks.design)?.ref).toBe('lib:solid');
+    expect(getFrameworkReference(persona.frameworks.team)?.ref).toBe('lib:team-solid');
+  });
+
+  it('identifies frameworks by reference and overrides, or by content when inline', () => {
+    const inline: Framework = { description: 'Inline', concepts: {} };
+    const frameworks: Record<string, Framework> = {
+      plain: { $ref: 'lib:solid' } as unknown as Framework,
+      again: { $ref: 'lib:solid' } as unknown as Framework,
+      tuned: { $ref: 'lib:solid', when_to_use: 'Always' } as unknown as Framework,
+    };
+    resolveFrameworkRefs(frameworks, personaDir);
+
+    expect(getFrameworkIdentity(frameworks.plain)).toBe('lib:solid');
+    expect(getFrameworkIdentity(frameworks.again)).toBe(getFrameworkIdentity(frameworks.plain));
+    expect(getFrameworkIdentity(frameworks.tuned)).not.toBe(getFrameworkIdentity(frameworks.plain));
+    expect(getFrameworkIdentity(inline)).toBe(getFrameworkIdentity({ ...inline }));
+    expect(getFrameworkIdentity(inline)).not.toBe(
+      getFrameworkIdentity({ description: 'Other', concepts: {} }),
+    );
+  });
+});
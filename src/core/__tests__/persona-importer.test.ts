@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { importPersonaFromMarkdown } from '../persona-importer.js';
+import { validatePersonaSchema } from '../schema-validator.js';
+
+const PROMPT = `# Grace Reviewer — Senior Code Reviewer
+
+You are Grace Reviewer, a pragmatic engineer who reviews pull requests.
+
+## Background
+
+- Era: 2010s-present
+- Fifteen years shipping backend services
+
+## Tone
+
+Direct, kind, precise
+
+## Signature Phrases
+
+- "What happens when this is null?"
+- "Show me the test."
+
+## Communication Style
+
+- Leads with the most severe issue
+
+## Never
+
+- Never approve without reading the tests
+
+## Frameworks
+
+### Severity Triage
+
+Rank findings so authors fix what matters first.
+
+When to use: every review with more than three findings
+
+- **Blocker**: breaks correctness or security
+- Is this reachable in production?
+
+#### Common Mistakes
+
+- Treating style nits as blockers
+
+## Case Studies
+
+### The Silent Null
+
+Pattern: Unchecked optional crashes in production
+
+A payments service dereferenced an optional customer record.
+
+- Signal: optional returned from a repository
+- Always test the empty path
+`;
+
+describe('importPersonaFromMarkdown', () => {
+  it('maps the title and background sections to identity', () => {
+    const { persona } = importPersonaFromMarkdown(PROMPT);
+
+    expect(persona.identity).toEqual({
+      name: 'Grace Reviewer',
+      role: 'Senior Code Reviewer',
+      background:
+        'You are Grace Reviewer, a pragmatic engineer who reviews pull requests.\n\nFifteen years shipping backend services',
+      era: '2010s-present',
+    });
+  });
+
+  it('maps voice sections by heading', () => {
+    const { voice } = importPersonaFromMarkdown(PROMPT).persona;
+
+    expect(voice.tone).toEqual(['Direct', 'kind', 'precise']);
+    expect(voice.phrases.slice(0, 2)).toEqual([
+      'What happens when this is null?',
+      'Show me the test.',
+    ]);
+    expect(voice.style[0]).toBe('Leads with the most severe issue');
+    expect(voice.constraints).toEqual(['Never approve without reading the tests']);
+  });
+
+  it('parses framework subsections into concepts, questions and mistakes', () => {
+    const { frameworks } = importPersonaFromMarkdown(PROMPT).persona;
+
+    expect(frameworks.severity_triage).toEqual({
+      description: 'Rank findings so authors fix what matters first.',
+      when_to_use: 'every review with more than three findings',
+      concepts: { blocker: { definition: 'breaks correctness or security' } },
+      questions: ['Is this reachable in production?'],
+      common_mistakes: ['Treating style nits as blockers'],
+    });
+  });
+
+  it('parses case studies with pattern, signals and lessons', () => {
+    const { case_studies } = importPersonaFromMarkdown(PROMPT).persona;
+
+    expect(case_studies?.the_silent_null).toEqual({
+      pattern: 'Unchecked optional crashes in production',
+      story: 'A payments service dereferenced an optional customer record.',
+      signals: ['optional returned from a repository'],
+      lessons: ['Always test the empty path'],
+    });
+  });
+
+  it('fills missing required fields with TODO markers and reports them', () => {
+    const { persona, todos } = importPersonaFromMarkdown(PROMPT);
+
+    expect(todos).toEqual([
+      'voice.phrases[2]',
+      'voice.phrases[3]',
+      'voice.phrases[4]',
+      'voice.style[1]',
+      'voice.style[2]',
+      'validation.must_include[1]',
+      'validation.must_include[2]',
+    ]);
+    expect(persona.voice.phrases[4]).toBe('TODO: add a phrase');
+    expect(persona.validation.must_include[0].pattern).toBe('severity triage');
+    expect(validatePersonaSchema(persona).valid).toBe(true);
+  });
+
+  it('drafts a valid skeleton from plain prose', () => {
+    const { persona, todos } = importPersonaFromMarkdown(
+      'You are a helpful assistant for cooking questions.\nKeep answers short.',
+    );
+
+    expect(persona.identity.background).toBe(
+      'You are a helpful assistant for cooking questions. Keep answers short.',
+    );
+    expect(todos).toContain('identity.name');
+    expect(todos).toContain('frameworks.todo_framework');
+    expect(validatePersonaSchema(persona).valid).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { mergePersonaDefinitions, resolveExtendsPath } from '../persona-inheritance.js';
+import { loadPersonaFromFile, getPersonaLineage } from '../persona-loader.js';
+import type { PersonaDefinition } from '../types.js';
+
+const BASE_YAML = `identity:
+  name: "Code Reviewer"
+  role: "Senior Reviewer"
+  background: "Reviews code."
+
+voice:
+  tone: [direct, constructive]
+  phrases:
+    - "What happens when this fails?"
+    - "Name things for what they do."
+  style: ["Leads with the highest-risk issue"]
+
+frameworks:
+  code_smells:
+    description: "Spotting code smells"
+    concepts:
+      long_method:
+        definition: "A method that does too much"
+  security:
+    description: "Security review"
+    concepts:
+      injection:
+        definition: "Untrusted input reaching an interpreter"
+
+validation:
+  must_include:
+    - pattern: "risk"
+      description: "Mentions risk"
+`;
+
+function makeParent(): PersonaDefinition {
+  return {
+    identity: { name: 'Parent', role: 'Reviewer', background: 'Background' },
+    voice: { tone: ['direct'], phrases: ['One', 'Two'], style: ['Terse'] },
+    frameworks: {
+      a: { description: 'A', concepts: {} },
+      b: { description: 'B', concepts: {} },
+    },
+    validation: { must_include: [{ pattern: 'risk' }] },
+  };
+}
+
+describe('mergePersonaDefinitions', () => {
+  it('deep-merges maps and lets child scalars win', () => {
+    const merged = mergePersonaDefinitions(makeParent(), {
+      identity: { role: 'Security Reviewer' } as PersonaDefinition['identity'],
+      frameworks: { b: { description: 'B2' } as PersonaDefinition['frameworks'][string] },
+    });
+
+    expect(merged.identity).toEqual({
+      name: 'Parent',
+      role: 'Security Reviewer',
+      background: 'Background',
+    });
+    expect(merged.frameworks.a.description).toBe('A');
+    expect(merged.frameworks.b).toEqual({ description: 'B2', concepts: {} });
+  });
+
+  it('appends lists without duplicating items', () => {
+    const merged = mergePersonaDefinitions(makeParent(), {
+      voice: { phrases: ['Two', 'Three'] } as PersonaDefinition['voice'],
+    });
+
+    expect(merged.voice.phrases).toEqual(['One', 'Two', 'Three']);
+  });
+
+  it('supports $remove and $append on lists', () => {
+    const merged = mergePersonaDefinitions(makeParent(), {
+      voice: { phrases: { $remove: ['One'], $append: ['Four'] } } as never,
+      validation: { must_include: { $remove: [{ pattern: 'risk' }] } } as never,
+    });
+
+    expect(merged.voice.phrases).toEqual(['Two', 'Four']);
+    expect(merged.validation.must_include).toEqual([]);
+  });
+
+  it('supports $replace on lists and maps', () => {
+    const merged = mergePersonaDefinitions(makeParent(), {
+      voice: { tone: { $replace: ['terse'] } } as never,
+      frameworks: { $replace: { c: { description: 'C', concepts: {} } } } as never,
+    });
+
+    expect(merged.voice.tone).toEqual(['terse']);
+    expect(Object.keys(merged.frameworks)).toEqual(['c']);
+  });
+
+  it('removes map keys with $remove', () => {
+    const merged = mergePersonaDefinitions(makeParent(), {
+      frameworks: { $remove: ['a'] } as never,
+    });
+
+    expect(Object.keys(merged.frameworks)).toEqual(['b']);
+  });
+
+  it('rejects malformed directives', () => {
+    expect(() =>
+      mergePersonaDefinitions(makeParent(), {
+        voice: { tone: { $replace: ['x'], $append: ['y'] } } as never,
+      }),
+    ).toThrow('Invalid merge directive at voice.tone');
+
+    expect(() =>
+      mergePersonaDefinitions(makeParent(), {
+        frameworks: { $append: ['x'] } as never,
+      }),
+    ).toThrow('$append only applies to lists');
+  });
+
+  it('does not carry the extends key or mutate the parent', () => {
+    const parent = makeParent();
+    const merged = mergePersonaDefinitions(parent, {
+      extends: 'parent',
+      voice: { phrases: ['Three'] } as PersonaDefinition['voice'],
+    });
+
+    expect(merged.extends).toBeUndefined();
+    expect(parent.voice.phrases).toEqual(['One', 'Two']);
+  });
+});
+
+describe('extends', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-extends-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writePersona(id: string, content: string): string {
+    mkdirSync(join(tempDir, id), { recursive: true });
+    const path = join(tempDir, id, 'persona.yaml');
+    writeFileSync(path, content);
+    return path;
+  }
+
+  it('resolves ids to sibling personas and paths relative to the persona', () => {
+    const basePath = writePersona('code-reviewer', BASE_YAML);
+    writePersona('strict-reviewer', 'extends: code-reviewer\n');
+
+    expect(resolveExtendsPath('code-reviewer', join(tempDir, 'strict-reviewer'))).toBe(basePath);
+    expect(resolveExtendsPath('../code-reviewer', join(tempDir, 'strict-reviewer'))).toBe(basePath);
+    expect(() => resolveExtendsPath('missing', join(tempDir, 'strict-reviewer'))).toThrow(
+      'Parent persona "missing" not found',
+    );
+  });
+
+  it('loads a persona that only overrides a few fields', () => {
+    writePersona('code-reviewer', BASE_YAML);
+    const childPath = writePersona(
+      'security-reviewer',
+      `extends: code-reviewer
+identity:
+  name: "Security Reviewer"
+voice:
+  phrases:
+    $remove: ["Name things for what they do."]
+    $append: ["Where does this input come from?"]
+frameworks:
+  $remove: [code_smells]
+`,
+    );
+
+    const persona = loadPersonaFromFile(childPath);
+
+    expect(persona.identity.name).toBe('Security Reviewer');
+    expect(persona.identity.role).toBe('Senior Reviewer');
+    expect(persona.voice.phrases).toEqual([
+      'What happens when this fails?',
+      'Where does this input come from?',
+    ]);
+    expect(Object.keys(persona.frameworks)).toEqual(['security']);
+    expect(persona.extends).toBeUndefined();
+  });
+
+  it('resolves multi-level inheritance and reports the lineage', () => {
+    const basePath = writePersona('code-reviewer', BASE_YAML);
+    const middlePath = writePersona(
+      'strict-reviewer',
+      'extends: code-reviewer\nvoice:\n  tone: { $replace: [blunt] }\n',
+    );
+    const childPath = writePersona(
+      'strict-security-reviewer',
+      'extends: strict-reviewer\nidentity:\n  name: "Strict Security"\n',
+    );
+
+    const persona = loadPersonaFromFile(childPath);
+
+    expect(persona.identity.name).toBe('Strict Security');
+    expect(persona.voice.tone).toEqual(['blunt']);
+    expect(getPersonaLineage(childPath)).toEqual([middlePath, basePath]);
+  });
+
+  it('applies the parent external files before merging', () => {
+    writePersona('code-reviewer', BASE_YAML);
+    mkdirSync(join(tempDir, 'code-reviewer', 'frameworks'));
+    writeFileSync(
+      join(tempDir, 'code-reviewer', 'frameworks', 'testing.yaml'),
+      'description: "Testing"\nconcepts: {}\n',
+    );
+    const childPath = writePersona('child', 'extends: code-reviewer\n');
+
+    expect(Object.keys(loadPersonaFromFile(childPath).frameworks)).toContain('testing');
+  });
+
+  it('detects inheritance cycles', () => {
+    writePersona('a', 'extends: b\n');
+    writePersona('b', 'extends: c\n');
+    const cPath = writePersona('c', 'extends: a\n');
+
+    expect(() => loadPersonaFromFile(cPath)).toThrow('Circular persona inheritance');
+    expect(() => getPersonaLineage(cPath)).toThrow('Circular persona inheritance');
+  });
+});
@@ -2,7 +2,12 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { resolveExternalFiles } from '../persona-loader.js';
+import {
+  resolveExternalFiles,
+  generateSystemPrompt,
+  generateBudgetedSystemPrompt,
+} from '../persona-loader.js';
+import { estimateTokens } from '../tokens.js';
 import type { PersonaDefinition } from '../types.js';
 
 function makeMinimalDefinition(overrides?: Partial<PersonaDefinition>): PersonaDefinition {
@@ -127,6 +132,46 @@ describe('resolveExternalFiles', () => {
     expect(def.sample_responses!['greeting'].prompt).toBe('Say hi');
   });
 
+  it('merges tests.yaml into test_cases and reads file inputs', () => {
+    mkdirSync(join(tempDir, 'inputs'));
+    writeFileSync(join(tempDir, 'inputs', 'answer.txt'), 'A long answer');
+    writeFileSync(
+      join(tempDir, 'tests.yaml'),
+      'from_file:\n  file: inputs/answer.txt\n  tags: [regression]\ninline:\n  input: "Short"\n  max_score: 40',
+    );
+
+    const def = makeMinimalDefinition();
+    resolveExternalFiles(def, tempDir);
+
+    expect(def.test_cases!['from_file']).toMatchObject({
+      input: 'A long answer',
+      tags: ['regression'],
+    });
+    expect(def.test_cases!['inline'].max_score).toBe(40);
+  });
+
+  it('accepts tests.yaml as a list of entries with ids', () => {
+    writeFileSync(join(tempDir, 'tests.yaml'), '- id: first\n  input: "One"\n- input: "Two"');
+
+    expect(() => resolveExternalFiles(makeMinimalDefinition(), tempDir)).toThrow(
+      'tests.yaml entry 2 has no id',
+    );
+
+    writeFileSync(join(tempDir, 'tests.yaml'), '- id: first\n  input: "One"');
+    const def = makeMinimalDefinition();
+    resolveExternalFiles(def, tempDir);
+
+    expect(Object.keys(def.test_cases!)).toEqual(['first']);
+  });
+
+  it('reports missing test input files', () => {
+    writeFileSync(join(tempDir, 'tests.yaml'), 'missing:\n  file: nowhere.txt');
+
+    expect(() => resolveExternalFiles(makeMinimalDefinition(), tempDir)).toThrow(
+      'Test case "missing" input file not found',
+    );
+  });
+
   it('merges validation.yaml into validation', () => {
     writeFileSync(
       join(tempDir, 'validation.yaml'),
@@ -206,3 +251,181 @@ describe('resolveExternalFiles', () => {
     expect(() => resolveExternalFiles(def, tempDir)).toThrow();
   });
 });
+
+describe('generateSystemPrompt', () => {
+  it('renders the default full prompt', () => {
+    const persona = makeMinimalDefinition({
+      frameworks: {
+        positioning: {
+          description: 'Where you compete and how you win.',
+          concepts: {
+            trade_offs: {
+              definition: 'Choosing what not to do',
+              examples: ['Southwest skipping meals'],
+            },
+          },
+          questions: ['What will you refuse to do?'],
+        },
+      },
+      case_studies: {
+        airline: {
+          pattern: 'Focused low-cost positioning',
+          story: 'A regional airline refused to add hub routes.',
+          signals: ['Competitors copying activities'],
+        },
+      },
+      style_references: {
+        ikea: {
+          description: 'Flat-pack furniture.',
+          design_principles: ['Self-assembly'],
+          emotional_quality: 'Thrifty',
+        },
+      },
+      analysis_patterns: { approach: ['Map the industry'] },
+    });
+
+    expect(generateSystemPrompt(persona)).toBe(`# Test
+
+Tester
+
+Background
+
+---
+
+## Communication Style
+
+**Tone**: Direct
+
+**Characteristic Phrases**:
+- "Test phrase"
+
+**Approach**:
+- Test style
+
+---
+
+**Constraints** (what Test would NOT do):
+- Test constraint
+
+---
+
+## Analytical Frameworks
+
+### Positioning
+
+Where you compete and how you win.
+
+**Key Concepts**:
+- **Trade Offs**: Choosing what not to do
+
+**Diagnostic Questions**:
+- What will you refuse to do?
+
+---
+
+## Reference Cases
+
+### Airline
+**Pattern**: Focused low-cost positioning
+
+A regional airline refused to add hub routes.
+
+**When to reference**: Competitors copying activities
+
+---
+
+## Design References
+
+### Ikea
+Flat-pack furniture.
+
+**Design Principles**: Self-assembly
+**Emotional Quality**: Thrifty
+
+---
+
+## Analysis Approach
+
+1. Map the industry`);
+  });
+});
+
+describe('generateBudgetedSystemPrompt', () => {
+  function makeRichDefinition(): PersonaDefinition {
+    return makeMinimalDefinition({
+      frameworks: {
+        positioning: {
+          description: 'Where you compete and how you win.',
+          concepts: {
+            trade_offs: { definition: 'Choosing what not to do' },
+          },
+          questions: ['What will you refuse to do? '.repeat(10)],
+        },
+      },
+      case_studies: {
+        airline: {
+          pattern: 'Focused low-cost positioning',
+          story: 'A regional airline refused to add hub routes. '.repeat(20),
+          signals: ['Competitors copying activities'],
+        },
+      },
+      style_references: {
+        ikea: {
+          description: 'Flat-pack furniture. '.repeat(20),
+          design_principles: ['Self-assembly'],
+          emotional_quality: 'Thrifty',
+        },
+      },
+    });
+  }
+
+  it('returns the full prompt untouched when it fits', () => {
+    const persona = makeRichDefinition();
+    const result = generateBudgetedSystemPrompt(persona, { maxTokens: 10_000 });
+
+    expect(result.prompt).toBe(generateSystemPrompt(persona));
+    expect(result.dropped).toEqual([]);
+    expect(result.fits).toBe(true);
+  });
+
+  it('drops sections in priority order until the prompt fits', () => {
+    const persona = makeRichDefinition();
+    const full = generateSystemPrompt(persona);
+
+    const result = generateBudgetedSystemPrompt(persona, {
+      maxTokens: estimateTokens(full) - 200,
+    });
+
+    expect(result.dropped).toEqual(['style_references', 'case_study_stories']);
+    expect(result.fits).toBe(true);
+    expect(result.tokens).toBe(estimateTokens(result.prompt));
+    expect(result.prompt).not.toContain('## Design References');
+    expect(result.prompt).not.toContain('regional airline');
+    expect(result.prompt).toContain('**Pattern**: Focused low-cost positioning');
+    expect(result.prompt).toContain('**Diagnostic Questions**');
+  });
+
+  it('skips degradations that remove nothing and reports when the budget is unreachable', () => {
+    const persona = makeMinimalDefinition({
+      frameworks: {
+        positioning: {
+          description: 'Where you compete and how you win.',
+          concepts: { trade_offs: { definition: 'Choosing what not to do' } },
+          questions: ['What will you refuse to do?'],
+        },
+      },
+    });
+
+    const result = generateBudgetedSystemPrompt(persona, { maxTokens: 10 });
+
+    expect(result.dropped).toEqual(['diagnostic_questions']);
+    expect(result.fits).toBe(false);
+    expect(result.prompt).toContain('### Positioning');
+  });
+
+  it('applies the budget through generateSystemPrompt', () => {
+    const persona = makeRichDefinition();
+
+    expect(generateSystemPrompt(persona, { maxTokens: 1 })).not.toContain('Diagnostic Questions');
+  });
+});
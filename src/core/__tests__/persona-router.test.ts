@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { buildRoutingIndex, routeRequest, explainRoute, tokenize } from '../persona-router.js';
+import type { PersonaDefinition } from '../types.js';
+
+function makePersona(name: string, overrides: Partial<PersonaDefinition> = {}): PersonaDefinition {
+  return {
+    identity: { name, role: 'Advisor', background: 'Background' },
+    voice: { tone: ['direct'], phrases: ['Why?'], style: ['Terse'] },
+    frameworks: { general: { description: 'General advice', concepts: {} } },
+    validation: { must_include: [{ pattern: 'advice' }] },
+    ...overrides,
+  };
+}
+
+const PERSONAS = new Map<string, PersonaDefinition>([
+  [
+    'reviewer',
+    makePersona('Reviewer', {
+      agent_config: { description: 'Reviews pull requests for security and correctness' },
+      metadata: { tags: ['code-review', 'security'] },
+    }),
+  ],
+  [
+    'strategist',
+    makePersona('Strategist', {
+      frameworks: {
+        disruption: {
+          description: 'Disruption theory',
+          concepts: {},
+          when_to_use: 'When entering the low end of a market with a cheaper product',
+        },
+      },
+      case_studies: {
+        minimills: {
+          pattern: 'Low-end disruption',
+          story: 'Minimills took the bottom of the steel market.',
+          signals: ['Incumbents ceding low-margin segments'],
+        },
+      },
+    }),
+  ],
+  ['operator', makePersona('Operator')],
+]);
+
+const DEPARTMENTS = [
+  { id: 'operations', mission: 'Reduce waste in warehouse processes', personas: ['operator'] },
+];
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and strips plural endings', () => {
+    expect(tokenize('Review the Pull Requests for Policies')).toEqual([
+      'review',
+      'pull',
+      'request',
+      'policy',
+    ]);
+  });
+});
+
+describe('routeRequest', () => {
+  const index = buildRoutingIndex(PERSONAS, DEPARTMENTS);
+
+  it('ranks the persona whose routing description matches first', () => {
+    const [top] = routeRequest(index, 'Please review this pull request for security holes');
+
+    expect(top.id).toBe('reviewer');
+    expect(top.reasons[0]).toEqual({
+      field: 'description',
+      terms: ['review', 'pull', 'request', 'security'],
+    });
+  });
+
+  it('matches framework usage and case-study signals', () => {
+    const [top] = routeRequest(index, 'Incumbents are ceding the low end of our market');
+
+    expect(top.id).toBe('strategist');
+    expect(top.reasons.map((r) => r.field)).toEqual(['when_to_use', 'signals']);
+  });
+
+  it('matches department missions', () => {
+    const matches = routeRequest(index, 'warehouse waste');
+
+    expect(matches.map((m) => m.id)).toEqual(['operator']);
+    expect(explainRoute(matches[0])).toBe('department mission (warehouse, waste)');
+  });
+
+  it('omits personas matching no term and honors the limit', () => {
+    expect(routeRequest(index, 'quantum chromodynamics')).toEqual([]);
+    expect(routeRequest(index, 'security market waste', { limit: 2 })).toHaveLength(2);
+  });
+});
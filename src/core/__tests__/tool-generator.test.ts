@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateFrameworkTools,
+  renderToolPrompt,
+  toInputSchema,
+  toToolName,
+} from '../tool-generator.js';
+import type { PersonaDefinition } from '../types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: {
+      name: 'Clayton Christensen',
+      role: 'Innovation Strategy Professor',
+      background: 'Background',
+    },
+    voice: {
+      tone: ['Professorial'],
+      phrases: ['Let me tell you a story'],
+      style: ['Asks questions first'],
+    },
+    frameworks: {
+      jobs_to_be_done: {
+        description: 'Customers hire products to do jobs. Understand the job first.',
+        concepts: {
+          functional_job: { definition: 'The practical task', insight: 'Jobs are stable' },
+          emotional_job: { definition: 'How the customer wants to feel' },
+        },
+        questions: [
+          'What job is the customer hiring this product to do?',
+          'What job is the customer hiring this product to do?',
+        ],
+        when_to_use: 'Product and positioning decisions',
+        common_mistakes: ['Segmenting by demographics'],
+      },
+      disruption_theory: {
+        description: 'How entrants unseat incumbents',
+        concepts: { low_end: { definition: 'Serving overshot customers' } },
+      },
+    },
+    validation: {
+      must_include: [{ pattern: 'job' }],
+    },
+  } as PersonaDefinition;
+}
+
+describe('toToolName', () => {
+  it('joins parts into snake_case', () => {
+    expect(toToolName('sky-lynx', 'kaizen_analysis')).toBe('sky_lynx_kaizen_analysis');
+  });
+
+  it('strips punctuation and trims underscores', () => {
+    expect(toToolName('What job', 'is this?')).toBe('what_job_is_this');
+  });
+
+  it('caps long names at the MCP limit with a hash suffix', () => {
+    const long = toToolName('organizational-transformation-advisor', 'x'.repeat(40), 'one');
+    const other = toToolName('organizational-transformation-advisor', 'x'.repeat(40), 'two');
+
+    expect(long).toHaveLength(64);
+    expect(long).toMatch(/^organizational_transformation_advisor_x+_[0-9a-f]{8}$/);
+    expect(other).not.toBe(long);
+  });
+});
+
+describe('generateFrameworkTools', () => {
+  it('creates one tool per framework named after persona and framework', () => {
+    const tools = generateFrameworkTools('christensen', makePersona());
+
+    expect(tools.map((t) => t.name)).toEqual([
+      'christensen_jobs_to_be_done',
+      'christensen_disruption_theory',
+    ]);
+    expect(tools[0].frameworkInjection).toEqual(['jobs_to_be_done']);
+  });
+
+  it('includes the first sentence and when_to_use in the description', () => {
+    const [tool] = generateFrameworkTools('christensen', makePersona());
+
+    expect(tool.description).toContain("Clayton Christensen's Jobs To Be Done framework");
+    expect(tool.description).toContain('Customers hire products to do jobs.');
+    expect(tool.description).toContain('Use when: Product and positioning decisions');
+  });
+
+  it('derives optional parameters from questions with unique names', () => {
+    const [tool] = generateFrameworkTools('christensen', makePersona());
+    const names = tool.parameters.map((p) => p.name);
+
+    expect(names).toEqual([
+      'situation',
+      'context',
+      'what_job_is_the_customer_hiring',
+      'what_job_is_the_customer_hiring_2',
+    ]);
+    expect(tool.parameters.find((p) => p.name === 'situation')!.required).toBe(true);
+    expect(tool.parameters.filter((p) => p.required)).toHaveLength(1);
+  });
+
+  it('only has situation and context when the framework has no questions', () => {
+    const tools = generateFrameworkTools('christensen', makePersona());
+
+    expect(tools[1].parameters.map((p) => p.name)).toEqual(['situation', 'context']);
+  });
+});
+
+describe('toInputSchema', () => {
+  it('produces a JSON schema with required fields', () => {
+    const [tool] = generateFrameworkTools('christensen', makePersona());
+    const schema = toInputSchema(tool);
+
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['situation']);
+    expect(schema.properties.situation).toMatchObject({ type: 'string' });
+  });
+});
+
+describe('renderToolPrompt', () => {
+  it('injects framework concepts, situation, and answers', () => {
+    const persona = makePersona();
+    const [tool] = generateFrameworkTools('christensen', persona);
+
+    const result = renderToolPrompt(tool, persona, {
+      situation: 'Our milkshake sales are flat.',
+      context: 'Fast food chain',
+      what_job_is_the_customer_hiring: 'A boring commute companion',
+    });
+
+    expect(result).toContain('# Jobs To Be Done — Clayton Christensen');
+    expect(result).toContain('Our milkshake sales are flat.');
+    expect(result).toContain('**Additional Context**: Fast food chain');
+    expect(result).toContain('- **Functional Job**: The practical task');
+    expect(result).toContain('*Insight*: Jobs are stable');
+    expect(result).toContain('- Segmenting by demographics');
+    expect(result).toContain('A boring commute companion');
+    expect(result).toContain('*(unanswered)*');
+    expect(result).not.toContain('{{');
+  });
+
+  it('takes questions from parameter metadata, not descriptions', () => {
+    const persona = makePersona();
+    const [tool] = generateFrameworkTools('christensen', persona);
+    const questionParam = tool.parameters.find((p) => p.question)!;
+    questionParam.description = 'Reworded description';
+
+    const result = renderToolPrompt(tool, persona, { situation: 'Flat sales' });
+
+    expect(result).toContain(`- **${questionParam.question}**`);
+    expect(result).not.toContain('Reworded description');
+  });
+
+  it('omits empty optional sections', () => {
+    const persona = makePersona();
+    const tools = generateFrameworkTools('christensen', persona);
+
+    const result = renderToolPrompt(tools[1], persona, { situation: 'Cheaper rival' });
+
+    expect(result).not.toContain('Additional Context');
+    expect(result).not.toContain('## Diagnostic Questions');
+    expect(result).not.toMatch(/\n{3,}/);
+  });
+});
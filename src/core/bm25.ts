@@ -0,0 +1,133 @@
+/**
+ * BM25 Scoring
+ *
+ * Local text relevance shared by persona routing and content selection.
+ * Documents are sets of weighted fields; term frequencies are combined
+ * across fields by weight before BM25 saturation (BM25F-style).
+ */
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 length normalization */
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be been but by can could do does for from has have how i if in into is it ' +
+    'its me my no not of on or our should so than that the their them then there these they this ' +
+    'to us was we were what when where which who why will with would you your'
+  ).split(' '),
+);
+
+/**
+ * Weighted terms of one document
+ */
+export interface WeightedDocument<F extends string> {
+  /** Weighted term frequency across fields */
+  termFrequencies: Map<string, number>;
+  /** Terms per field, for explaining matches */
+  fieldTerms: Map<F, Set<string>>;
+  /** Weighted document length */
+  length: number;
+}
+
+/**
+ * Collection statistics needed to score documents
+ */
+export interface CorpusStats {
+  documentCount: number;
+  /** Number of documents containing each term */
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Split text into lowercase terms, dropping stopwords and plural endings
+ */
+export function tokenize(text: string): string[] {
+  return words(text).map(stem);
+}
+
+/**
+ * Query terms mapped to the word the user wrote, for explanations
+ */
+export function queryTerms(text: string): Map<string, string> {
+  return new Map(words(text).map((word) => [stem(word), word]));
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Index the text of each field of a document by weight
+ */
+export function weighDocument<F extends string>(
+  fields: Record<F, string>,
+  weights: Record<F, number>,
+): WeightedDocument<F> {
+  const termFrequencies = new Map<string, number>();
+  const fieldTerms = new Map<F, Set<string>>();
+  let length = 0;
+
+  for (const field of Object.keys(fields) as F[]) {
+    const weight = weights[field];
+    const terms = tokenize(fields[field]);
+    fieldTerms.set(field, new Set(terms));
+    length += terms.length * weight;
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + weight);
+    }
+  }
+
+  return { termFrequencies, fieldTerms, length };
+}
+
+/**
+ * Collect document frequencies and average length over documents
+ */
+export function getCorpusStats(documents: WeightedDocument<string>[]): CorpusStats {
+  const documentFrequencies = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of doc.termFrequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  const averageLength =
+    documents.length > 0 ? documents.reduce((sum, d) => sum + d.length, 0) / documents.length : 0;
+
+  return { documentCount: documents.length, documentFrequencies, averageLength };
+}
+
+/**
+ * BM25 score of a document for query terms
+ */
+export function scoreDocument(
+  doc: WeightedDocument<string>,
+  terms: string[],
+  stats: CorpusStats,
+): number {
+  let score = 0;
+
+  for (const term of terms) {
+    const tf = doc.termFrequencies.get(term);
+    if (!tf) continue;
+
+    const df = stats.documentFrequencies.get(term) ?? 0;
+    const idf = Math.log(1 + (stats.documentCount - df + 0.5) / (df + 0.5));
+    const norm = 1 - BM25_B + BM25_B * (doc.length / (stats.averageLength || 1));
+    score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+  }
+
+  return score;
+}
@@ -0,0 +1,199 @@
+/**
+ * Content Relevance
+ *
+ * Ranks a persona's frameworks and case studies against a situation with
+ * the local BM25 scorer, so prompts can give full detail to the few that
+ * matter for the task and summarize the rest. Frameworks are indexed by
+ * when_to_use and concept definitions, case studies by signals, pattern
+ * and lessons. Case studies can also be searched across several personas.
+ */
+
+import type { CaseStudy, PersonaDefinition } from './types.js';
+import { getCorpusStats, queryTerms, scoreDocument, tokenize, weighDocument } from './bm25.js';
+import type { WeightedDocument } from './bm25.js';
+
+/** Frameworks and case studies given full detail by default */
+export const DEFAULT_RELEVANT_COUNT = 2;
+
+type FrameworkField = 'when_to_use' | 'concepts';
+type CaseStudyField = 'signals' | 'pattern' | 'lessons';
+
+const FRAMEWORK_FIELD_WEIGHTS: Record<FrameworkField, number> = {
+  when_to_use: 2,
+  concepts: 1,
+};
+
+const CASE_STUDY_FIELD_WEIGHTS: Record<CaseStudyField, number> = {
+  signals: 2,
+  pattern: 1,
+  lessons: 1,
+};
+
+/**
+ * A framework or case study scored against a situation
+ */
+export interface ContentScore {
+  name: string;
+  score: number;
+  /** Situation words it matched */
+  terms: string[];
+}
+
+/**
+ * A case study scored against a situation
+ */
+export interface CaseStudyScore extends ContentScore {
+  /** Signals sharing a term with the situation */
+  matchedSignals: string[];
+}
+
+/**
+ * A case study found by searching several personas
+ */
+export interface CaseStudyMatch extends CaseStudyScore {
+  personaId: string;
+  caseStudy: CaseStudy;
+}
+
+/**
+ * Options for finding case studies
+ */
+export interface FindCaseStudiesOptions {
+  /** Maximum matches returned (default 5) */
+  limit?: number;
+}
+
+/**
+ * Frameworks and case studies, most relevant first
+ */
+export interface ContentRanking {
+  frameworks: ContentScore[];
+  caseStudies: CaseStudyScore[];
+}
+
+/**
+ * Names of the frameworks and case studies to render in full
+ */
+export interface RelevantContent {
+  frameworks: string[];
+  caseStudies: string[];
+}
+
+/**
+ * Rank a persona's frameworks and case studies for a situation. Ties keep
+ * definition order.
+ */
+export function rankPersonaContent(persona: PersonaDefinition, situation: string): ContentRanking {
+  const frameworks = Object.entries(persona.frameworks);
+  const documents = frameworks.map(([, fw]) =>
+    weighDocument(
+      {
+        when_to_use: fw.when_to_use ?? '',
+        concepts: Object.entries(fw.concepts)
+          .map(([cName, c]) => `${cName.replace(/_/g, ' ')} ${c.definition}`)
+          .join('\n'),
+      },
+      FRAMEWORK_FIELD_WEIGHTS,
+    ),
+  );
+
+  const caseStudies = Object.entries(persona.case_studies ?? {}).map(([name, caseStudy]) => ({
+    name,
+    caseStudy,
+  }));
+
+  return {
+    frameworks: rank(documents, situation).map(({ index, score, terms }) => ({
+      name: frameworks[index][0],
+      score,
+      terms,
+    })),
+    caseStudies: rankCaseStudies(caseStudies, situation).map(
+      ({ name, score, terms, matchedSignals }) => ({ name, score, terms, matchedSignals }),
+    ),
+  };
+}
+
+/**
+ * Search the case studies of several personas (id -> definition) for a
+ * situation. Case studies matching no situation term are omitted.
+ */
+export function findCaseStudies(
+  personas: Map<string, PersonaDefinition>,
+  situation: string,
+  options: FindCaseStudiesOptions = {},
+): CaseStudyMatch[] {
+  const entries = [...personas].flatMap(([personaId, persona]) =>
+    Object.entries(persona.case_studies ?? {}).map(([name, caseStudy]) => ({
+      personaId,
+      name,
+      caseStudy,
+    })),
+  );
+
+  return rankCaseStudies(entries, situation)
+    .filter((match) => match.score > 0)
+    .slice(0, options.limit ?? 5);
+}
+
+/**
+ * Pick the count most relevant frameworks and case studies for a situation.
+ * When fewer than count match, the rest are filled in definition order.
+ */
+export function selectRelevantContent(
+  persona: PersonaDefinition,
+  situation: string,
+  count = DEFAULT_RELEVANT_COUNT,
+): RelevantContent {
+  const ranking = rankPersonaContent(persona, situation);
+  return {
+    frameworks: ranking.frameworks.slice(0, count).map((item) => item.name),
+    caseStudies: ranking.caseStudies.slice(0, count).map((item) => item.name),
+  };
+}
+
+function rankCaseStudies<T extends { name: string; caseStudy: CaseStudy }>(
+  entries: T[],
+  situation: string,
+): (T & CaseStudyScore)[] {
+  const documents = entries.map(({ caseStudy }) =>
+    weighDocument(
+      {
+        signals: (caseStudy.signals ?? []).join('\n'),
+        pattern: caseStudy.pattern,
+        lessons: (caseStudy.lessons ?? []).join('\n'),
+      },
+      CASE_STUDY_FIELD_WEIGHTS,
+    ),
+  );
+  const terms = new Set(queryTerms(situation).keys());
+
+  return rank(documents, situation).map(({ index, score, terms: words }) => {
+    const entry = entries[index];
+    const matchedSignals = (entry.caseStudy.signals ?? []).filter((signal) =>
+      tokenize(signal).some((term) => terms.has(term)),
+    );
+    return { ...entry, score, terms: words, matchedSignals };
+  });
+}
+
+/**
+ * Score documents for a situation, best first, by position in documents
+ */
+function rank(
+  documents: WeightedDocument<string>[],
+  situation: string,
+): { index: number; score: number; terms: string[] }[] {
+  const queryWords = queryTerms(situation);
+  const terms = [...queryWords.keys()];
+  const stats = getCorpusStats(documents);
+
+  const scored = documents.map((doc, index) => ({
+    index,
+    score: Math.round(scoreDocument(doc, terms, stats) * 100) / 100,
+    terms: terms.filter((term) => doc.termFrequencies.has(term)).map((t) => queryWords.get(t)!),
+  }));
+
+  // Array.prototype.sort is stable, so ties keep definition order
+  return scored.sort((a, b) => b.score - a.score);
+}
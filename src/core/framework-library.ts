@@ -0,0 +1,171 @@
+/**
+ * Framework Library
+ *
+ * Shared frameworks (such as SOLID) that personas reference instead of
+ * copying. A persona framework of the form `{ $ref: "lib:solid" }` is
+ * replaced by frameworks/solid.yaml from the library; any sibling keys
+ * override the library entry. The reference is remembered beside the
+ * resolved framework (not in it, so exports and publishes never see it),
+ * so personas sharing a library framework can be matched.
+ *
+ * Libraries are searched next to the personas directory (<root>/frameworks
+ * for <root>/personas/<id>), then in the library bundled with the package.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import type { Framework } from './types.js';
+
+// Module directory resolution for ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Prefix of framework library references
+ */
+export const FRAMEWORK_REF_PREFIX = 'lib:';
+
+/**
+ * Framework entry that points at the library
+ */
+export interface FrameworkReference extends Partial<Framework> {
+  $ref: string;
+}
+
+/**
+ * Library reference a resolved framework was loaded from
+ */
+export interface ResolvedFrameworkReference {
+  /** Library reference ("lib:solid") */
+  ref: string;
+  /** Sibling keys that override the library entry */
+  overrides: Partial<Framework>;
+}
+
+const resolvedReferences = new WeakMap<Framework, ResolvedFrameworkReference>();
+
+/**
+ * Check whether a framework entry is a library reference
+ */
+export function isFrameworkReference(value: unknown): value is FrameworkReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { $ref?: unknown }).$ref === 'string'
+  );
+}
+
+/**
+ * Get the framework library directories searched for a persona, in order
+ */
+export function getFrameworkLibraryDirs(personaDir?: string): string[] {
+  const dirs = [
+    ...(personaDir ? [join(resolve(personaDir), '../../frameworks')] : []),
+    join(__dirname, '../../frameworks'),
+    join(__dirname, '../../../frameworks'),
+  ];
+
+  return [...new Set(dirs)].filter((dir) => existsSync(dir));
+}
+
+/**
+ * Load a framework from the library by reference ("lib:solid")
+ */
+export function loadLibraryFramework(reference: string, personaDir?: string): Framework {
+  if (!reference.startsWith(FRAMEWORK_REF_PREFIX)) {
+    throw new Error(
+      `Unsupported framework reference "${reference}" (expected ${FRAMEWORK_REF_PREFIX}<name>)`,
+    );
+  }
+
+  const name = reference.slice(FRAMEWORK_REF_PREFIX.length);
+  if (!/^[\w-]+$/.test(name)) {
+    throw new Error(`Invalid framework library name: ${name}`);
+  }
+
+  const dirs = getFrameworkLibraryDirs(personaDir);
+  const path = findLibraryFile(name, dirs);
+  if (path) {
+    return parseYaml(readFileSync(path, 'utf-8')) as Framework;
+  }
+
+  throw new Error(
+    `Framework "${reference}" not found in the framework library. Searched:\n${dirs.join('\n')}`,
+  );
+}
+
+/**
+ * Check whether a reference resolves to the library bundled with the package,
+ * i.e. not to a project library next to the persona
+ */
+export function isBundledFrameworkReference(reference: string, personaDir: string): boolean {
+  const name = reference.slice(FRAMEWORK_REF_PREFIX.length);
+  const resolved = findLibraryFile(name, getFrameworkLibraryDirs(personaDir));
+  return resolved !== undefined && resolved === findLibraryFile(name, getFrameworkLibraryDirs());
+}
+
+function findLibraryFile(name: string, dirs: string[]): string | undefined {
+  return dirs.map((dir) => join(dir, `${name}.yaml`)).find((path) => existsSync(path));
+}
+
+/**
+ * Replace library references in a frameworks map with the library entries, in place
+ */
+export function resolveFrameworkRefs(
+  frameworks: Record<string, Framework | FrameworkReference> | undefined,
+  personaDir?: string,
+): void {
+  if (!frameworks) return;
+
+  for (const [key, framework] of Object.entries(frameworks)) {
+    if (!isFrameworkReference(framework)) continue;
+
+    const { $ref, ...overrides } = framework;
+    const resolved = { ...loadLibraryFramework($ref, personaDir), ...overrides };
+    resolvedReferences.set(resolved, { ref: $ref, overrides });
+    frameworks[key] = resolved;
+  }
+}
+
+/**
+ * Get the library reference a framework was resolved from, if any
+ */
+export function getFrameworkReference(
+  framework: Framework,
+): ResolvedFrameworkReference | undefined {
+  return resolvedReferences.get(framework);
+}
+
+/**
+ * Carry library references over to the frameworks of a merged definition,
+ * whose framework objects are copies of the originals
+ */
+export function copyFrameworkReferences(
+  from: Record<string, Framework> | undefined,
+  to: Record<string, Framework> | undefined,
+): void {
+  for (const [key, framework] of Object.entries(from ?? {})) {
+    const reference = resolvedReferences.get(framework);
+    if (reference && to?.[key]) {
+      resolvedReferences.set(to[key], reference);
+    }
+  }
+}
+
+/**
+ * Identity of a framework for overlap detection: its library reference (with
+ * any overrides), or its content for inline frameworks. Key names are
+ * deliberately ignored.
+ */
+export function getFrameworkIdentity(framework: Framework): string {
+  const reference = resolvedReferences.get(framework);
+  if (!reference) {
+    return JSON.stringify(framework);
+  }
+
+  return Object.keys(reference.overrides).length > 0
+    ? `${reference.ref} ${JSON.stringify(reference.overrides)}`
+    : reference.ref;
+}
@@ -17,6 +17,8 @@ export type {
   ValidationMarker,
   PersonaValidation,
   SampleResponse,
+  PersonaTestCase,
+  PersonaTestCategory,
   StyleReference,
   PersonaCategory,
   PersonaMetadata,
@@ -35,6 +37,8 @@ export type {
   DepartmentDefinition,
   LoadedDepartment,
   PromptGenerationOptions,
+  PromptDegradation,
+  BudgetedSystemPrompt,
 } from './types.js';
 
 // Persona Loader
@@ -54,9 +58,49 @@ export {
   getValidationMarkers,
   getSampleResponses,
   generateSystemPrompt,
+  generateBudgetedSystemPrompt,
+  PROMPT_DEGRADATION_ORDER,
   getPersonasDirectory,
+  getPersonaLineage,
 } from './persona-loader.js';
 
+// Content Relevance
+export {
+  rankPersonaContent,
+  selectRelevantContent,
+  findCaseStudies,
+  DEFAULT_RELEVANT_COUNT,
+} from './content-relevance.js';
+export type {
+  ContentScore,
+  CaseStudyScore,
+  CaseStudyMatch,
+  FindCaseStudiesOptions,
+  ContentRanking,
+  RelevantContent,
+} from './content-relevance.js';
+
+// Persona Inheritance
+export {
+  mergePersonaDefinitions,
+  resolveExtendsPath,
+  MERGE_DIRECTIVES,
+} from './persona-inheritance.js';
+
+// Framework Library
+export {
+  FRAMEWORK_REF_PREFIX,
+  isFrameworkReference,
+  getFrameworkLibraryDirs,
+  loadLibraryFramework,
+  isBundledFrameworkReference,
+  resolveFrameworkRefs,
+  getFrameworkReference,
+  copyFrameworkReferences,
+  getFrameworkIdentity,
+} from './framework-library.js';
+export type { FrameworkReference, ResolvedFrameworkReference } from './framework-library.js';
+
 // Validation Engine
 export {
   calculateFidelityScore,
@@ -66,3 +110,41 @@ export {
 } from './validation-engine.js';
 
 export type { SampleValidationResult, FidelityScoreOptions } from './validation-engine.js';
+
+// Tool Generator
+export {
+  generateFrameworkTools,
+  renderToolPrompt,
+  toInputSchema,
+  toToolName,
+  MAX_TOOL_NAME_LENGTH,
+  DEFAULT_TOOL_PROMPT_TEMPLATE,
+} from './tool-generator.js';
+
+// Persona Router
+export {
+  buildRoutingIndex,
+  routeRequest,
+  explainRoute,
+  tokenize,
+  ROUTING_FIELD_WEIGHTS,
+} from './persona-router.js';
+export type {
+  RoutingField,
+  RoutingDepartment,
+  RoutingIndex,
+  RouteMatch,
+  RouteReason,
+  RouteOptions,
+} from './persona-router.js';
+
+// Token Estimation
+export { estimateTokens, CHARS_PER_TOKEN } from './tokens.js';
+
+// Schema Validator
+export { findSchemaPath, validatePersonaSchema, formatSchemaError } from './schema-validator.js';
+export type { SchemaValidationResult } from './schema-validator.js';
+
+// Persona Importer
+export { importPersonaFromMarkdown, TODO_MARKER } from './persona-importer.js';
+export type { ImportResult } from './persona-importer.js';
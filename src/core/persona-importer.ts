@@ -0,0 +1,457 @@
+/**
+ * Persona Importer
+ *
+ * Turns an existing system prompt, CLAUDE.md or other markdown into a draft
+ * persona definition. Headings are matched heuristically to identity,
+ * voice, frameworks and case studies; bullet lists and paragraphs under
+ * them become the section contents. Required fields the document does not
+ * cover are filled with TODO markers for the author to complete.
+ */
+
+import type { CaseStudy, Framework, PersonaDefinition, PersonaVoice } from './types.js';
+
+/** Prefix of placeholder values in imported drafts */
+export const TODO_MARKER = 'TODO';
+
+/** Minimum list lengths the schema requires for voice fields */
+const VOICE_MINIMUMS: Record<'tone' | 'phrases' | 'style', number> = {
+  tone: 3,
+  phrases: 5,
+  style: 3,
+};
+
+/** Minimum must_include markers the schema requires */
+const MUST_INCLUDE_MINIMUM = 3;
+
+/**
+ * A heading and everything under it up to the next heading of the same or
+ * higher level
+ */
+interface MarkdownSection {
+  title: string;
+  level: number;
+  paragraphs: string[];
+  bullets: string[];
+  children: MarkdownSection[];
+}
+
+/**
+ * Result of importing a markdown document
+ */
+export interface ImportResult {
+  persona: PersonaDefinition;
+  /** Paths of fields holding TODO markers, e.g. "voice.phrases[3]" */
+  todos: string[];
+}
+
+type SectionKind =
+  | 'identity'
+  | 'role'
+  | 'tone'
+  | 'phrases'
+  | 'style'
+  | 'constraints'
+  | 'voice'
+  | 'frameworks'
+  | 'case_studies'
+  | 'notable_works';
+
+/** Heading keywords for each section kind, most specific first */
+const SECTION_PATTERNS: Array<[SectionKind, RegExp]> = [
+  ['case_studies', /case stud|stories|examples/i],
+  ['frameworks', /framework|mental model|principles|methods|methodolog/i],
+  ['notable_works', /notable works|publications|books|works/i],
+  ['phrases', /phrase|catchphrase|sayings|expressions|signature lines/i],
+  ['constraints', /constraint|never|avoid|don'?t|do not|boundaries|rules/i],
+  ['tone', /tone|personality/i],
+  ['style', /style|communicat/i],
+  ['voice', /voice/i],
+  ['role', /^role$|^title$/i],
+  ['identity', /about|background|identity|who you are|bio|overview/i],
+];
+
+/**
+ * Import a markdown or plain-prose document as a draft persona
+ */
+export function importPersonaFromMarkdown(markdown: string): ImportResult {
+  const root = parseSections(markdown);
+  const title = root.children.find((s) => s.level === 1);
+
+  const persona: PersonaDefinition = {
+    identity: { name: '', role: '', background: '' },
+    voice: { tone: [], phrases: [], style: [], constraints: [] },
+    frameworks: {},
+    validation: { must_include: [] },
+  };
+
+  // "# Name — Role" or "# Name: Role"
+  if (title) {
+    const [name, role] = title.title.split(/\s+[—–-]\s+|:\s+/, 2);
+    persona.identity.name = name.trim();
+    persona.identity.role = role?.trim() ?? '';
+  }
+
+  // Prose before the first subsection introduces the persona
+  const intro = [...root.paragraphs, ...(title?.paragraphs ?? [])];
+  applyIntroduction(persona, intro.join('\n\n'));
+
+  const sections = title
+    ? [...root.children.filter((s) => s !== title), ...title.children]
+    : root.children;
+  for (const section of sections) {
+    applySection(persona, section);
+  }
+
+  deriveValidationMarkers(persona);
+  const todos = fillTodos(persona);
+
+  // Canonical key order, validation last
+  const { identity, voice, frameworks, case_studies, validation } = persona;
+  return { persona: { identity, voice, frameworks, case_studies, validation }, todos };
+}
+
+/**
+ * Split markdown into a heading tree. Content before the first heading
+ * belongs to the root.
+ */
+function parseSections(markdown: string): MarkdownSection {
+  const root: MarkdownSection = { title: '', level: 0, paragraphs: [], bullets: [], children: [] };
+  const stack = [root];
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      stack[stack.length - 1].paragraphs.push(paragraph.join(' '));
+      paragraph = [];
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.trim().startsWith('```')) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    const bullet = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)$/);
+
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (stack[stack.length - 1].level >= level) stack.pop();
+      const section: MarkdownSection = {
+        title: stripInline(heading[2]),
+        level,
+        paragraphs: [],
+        bullets: [],
+        children: [],
+      };
+      stack[stack.length - 1].children.push(section);
+      stack.push(section);
+    } else if (bullet) {
+      flush();
+      stack[stack.length - 1].bullets.push(bullet[1].trim());
+    } else if (line.trim() === '') {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return root;
+}
+
+function classify(title: string): SectionKind | undefined {
+  return SECTION_PATTERNS.find(([, pattern]) => pattern.test(title))?.[0];
+}
+
+/**
+ * Pick identity details out of introductory prose ("You are X, a Y.")
+ */
+function applyIntroduction(persona: PersonaDefinition, text: string): void {
+  if (!text) return;
+
+  const youAre = text.match(
+    /\bYou are ([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)*)(?:,\s*(?:an?|the)\s+([^.,]+))?/,
+  );
+  if (youAre) {
+    persona.identity.name ||= youAre[1];
+    persona.identity.role ||= youAre[2]?.trim() ?? '';
+  }
+
+  persona.identity.background ||= text;
+}
+
+function applySection(persona: PersonaDefinition, section: MarkdownSection): void {
+  const kind = classify(section.title);
+  const text = section.paragraphs.join('\n\n');
+  const items = section.bullets.map(stripInline);
+  const voice = persona.voice as Required<PersonaVoice>;
+
+  switch (kind) {
+    case 'identity': {
+      // "Name: ...", "Role: ...", "Era: ..." bullets; other bullets extend the background
+      const details: string[] = [];
+      for (const bullet of section.bullets) {
+        const { term, text: value } = splitTerm(bullet);
+        if (/^name$/i.test(term)) persona.identity.name = value;
+        else if (/^(role|title)$/i.test(term)) persona.identity.role = value;
+        else if (/^era$/i.test(term)) persona.identity.era = value;
+        else details.push(stripInline(bullet));
+      }
+      persona.identity.background = [persona.identity.background, text, details.join('\n')]
+        .filter(Boolean)
+        .join('\n\n');
+      break;
+    }
+
+    case 'role':
+      persona.identity.role = text || items[0] || persona.identity.role;
+      break;
+
+    case 'notable_works':
+      persona.identity.notable_works = [...(persona.identity.notable_works ?? []), ...items];
+      break;
+
+    case 'tone':
+      voice.tone.push(...items, ...(items.length === 0 && text ? splitList(text) : []));
+      break;
+
+    case 'phrases':
+      voice.phrases.push(...items.map(unquote));
+      break;
+
+    case 'style':
+      voice.style.push(...items);
+      break;
+
+    case 'constraints':
+      voice.constraints.push(...items);
+      break;
+
+    case 'voice':
+      // Quoted lines are phrases, prohibitions are constraints, the rest is style
+      for (const item of items) {
+        if (/^["“']/.test(item)) voice.phrases.push(unquote(item));
+        else if (/^(never|don'?t|do not|avoid)\b/i.test(item)) voice.constraints.push(item);
+        else voice.style.push(item);
+      }
+      break;
+
+    case 'frameworks':
+      for (const child of section.children) {
+        persona.frameworks[toKey(child.title)] = parseFramework(child);
+      }
+      // "**Name**: description" bullets when there are no subsections
+      if (section.children.length === 0) {
+        for (const item of section.bullets) {
+          const { term, text: description } = splitTerm(item);
+          if (term) {
+            persona.frameworks[toKey(term)] = { description, concepts: {} };
+          }
+        }
+      }
+      return;
+
+    case 'case_studies':
+      persona.case_studies ??= {};
+      for (const child of section.children) {
+        persona.case_studies[toKey(child.title)] = parseCaseStudy(child);
+      }
+      return;
+
+    default:
+      break;
+  }
+
+  for (const child of section.children) {
+    applySection(persona, child);
+  }
+}
+
+/**
+ * A framework subsection: prose is the description, "**Term**: definition"
+ * bullets are concepts, questions are diagnostic questions
+ */
+function parseFramework(section: MarkdownSection): Framework {
+  const framework: Framework = {
+    description: section.paragraphs.join('\n\n'),
+    concepts: {},
+  };
+  const questions: string[] = [];
+  const mistakes: string[] = [];
+
+  const bullets = [
+    ...section.bullets.map((b) => ({ bullet: b, heading: '' })),
+    ...section.children.flatMap((c) => c.bullets.map((b) => ({ bullet: b, heading: c.title }))),
+  ];
+
+  for (const { bullet, heading } of bullets) {
+    const { term, text } = splitTerm(bullet);
+
+    if (/^when to use$/i.test(term)) {
+      framework.when_to_use = text;
+    } else if (/mistake|pitfall/i.test(heading)) {
+      mistakes.push(stripInline(bullet));
+    } else if (/question/i.test(heading) || (!term && bullet.trim().endsWith('?'))) {
+      questions.push(stripInline(bullet));
+    } else if (term) {
+      framework.concepts[toKey(term)] = { definition: text };
+    } else {
+      framework.concepts[toKey(bullet.split(/\s+/).slice(0, 4).join(' '))] = {
+        definition: stripInline(bullet),
+      };
+    }
+  }
+
+  const whenToUse = section.paragraphs.find((p) => /^when to use:/i.test(stripInline(p)));
+  if (whenToUse) {
+    framework.when_to_use = stripInline(whenToUse).replace(/^when to use:\s*/i, '');
+    framework.description = section.paragraphs.filter((p) => p !== whenToUse).join('\n\n');
+  }
+
+  if (questions.length > 0) framework.questions = questions;
+  if (mistakes.length > 0) framework.common_mistakes = mistakes;
+
+  return framework;
+}
+
+/**
+ * A case study subsection: prose is the story, "Pattern:" sets the pattern,
+ * signal and lesson bullets go to their lists
+ */
+function parseCaseStudy(section: MarkdownSection): CaseStudy {
+  const caseStudy: CaseStudy = { pattern: '', story: section.paragraphs.join('\n\n') };
+  const lessons: string[] = [];
+  const signals: string[] = [];
+
+  const bullets = [
+    ...section.bullets.map((b) => ({ bullet: b, heading: '' })),
+    ...section.children.flatMap((c) => c.bullets.map((b) => ({ bullet: b, heading: c.title }))),
+  ];
+
+  for (const { bullet, heading } of bullets) {
+    const { term, text } = splitTerm(bullet);
+    if (/^pattern$/i.test(term)) caseStudy.pattern = text;
+    else if (/^source$/i.test(term)) caseStudy.source = text;
+    else if (/^signals?$/i.test(term) || /signal/i.test(heading))
+      signals.push(term ? text : stripInline(bullet));
+    else lessons.push(stripInline(bullet));
+  }
+
+  const patternLine = section.paragraphs.find((p) => /^pattern:/i.test(stripInline(p)));
+  if (patternLine) {
+    caseStudy.pattern = stripInline(patternLine).replace(/^pattern:\s*/i, '');
+    caseStudy.story = section.paragraphs.filter((p) => p !== patternLine).join('\n\n');
+  }
+
+  caseStudy.pattern ||= section.title;
+  if (signals.length > 0) caseStudy.signals = signals;
+  if (lessons.length > 0) caseStudy.lessons = lessons;
+
+  return caseStudy;
+}
+
+/**
+ * Seed must_include markers from framework names so fidelity tests have a
+ * starting point
+ */
+function deriveValidationMarkers(persona: PersonaDefinition): void {
+  for (const name of Object.keys(persona.frameworks).slice(0, 5)) {
+    persona.validation.must_include.push({
+      pattern: name.replace(/_/g, ' '),
+      description: `Applies the ${name.replace(/_/g, ' ')} framework`,
+    });
+  }
+}
+
+/**
+ * Fill required fields the document did not cover with TODO markers and
+ * return their paths
+ */
+function fillTodos(persona: PersonaDefinition): string[] {
+  const todos: string[] = [];
+  const todo = (path: string, hint: string): string => {
+    todos.push(path);
+    return `${TODO_MARKER}: ${hint}`;
+  };
+
+  const { identity } = persona;
+  identity.name ||= todo('identity.name', 'display name');
+  identity.role ||= todo('identity.role', 'title or position');
+  identity.background ||= todo('identity.background', 'credentials, expertise and history');
+
+  const voice = persona.voice as Required<PersonaVoice>;
+  for (const field of ['tone', 'phrases', 'style'] as const) {
+    for (let i = voice[field].length; i < VOICE_MINIMUMS[field]; i++) {
+      voice[field].push(
+        todo(`voice.${field}[${i}]`, `add a ${field === 'phrases' ? 'phrase' : field}`),
+      );
+    }
+  }
+  if (voice.constraints.length === 0) {
+    delete persona.voice.constraints;
+  }
+
+  if (Object.keys(persona.frameworks).length === 0) {
+    persona.frameworks.todo_framework = {
+      description: todo('frameworks.todo_framework', 'describe a framework this persona uses'),
+      concepts: {},
+    };
+  }
+  for (const [name, framework] of Object.entries(persona.frameworks)) {
+    framework.description ||= todo(`frameworks.${name}.description`, 'describe the framework');
+  }
+  for (const [name, caseStudy] of Object.entries(persona.case_studies ?? {})) {
+    caseStudy.story ||= todo(`case_studies.${name}.story`, 'tell the story');
+  }
+
+  const markers = persona.validation.must_include;
+  for (let i = markers.length; i < MUST_INCLUDE_MINIMUM; i++) {
+    markers.push({
+      pattern: todo(`validation.must_include[${i}]`, 'pattern a faithful response must contain'),
+    });
+  }
+
+  return todos;
+}
+
+// Utility
+function splitTerm(bullet: string): { term: string; text: string } {
+  const match =
+    bullet.match(/^\*\*(.+?)\*\*\s*[:—–-]?\s*(.*)$/) ?? bullet.match(/^([^:]{1,40}):\s+(.+)$/);
+  return match
+    ? { term: stripInline(match[1]), text: stripInline(match[2]) }
+    : { term: '', text: bullet };
+}
+
+function splitList(text: string): string[] {
+  return text
+    .split(/[,;]\s*/)
+    .map((item) => item.replace(/\.$/, '').trim())
+    .filter(Boolean);
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/\*\*|__|`/g, '')
+    .replace(/(^|\s)[*_]([^*_]+)[*_]/g, '$1$2')
+    .trim();
+}
+
+function unquote(text: string): string {
+  return text.replace(/^["“']|["”']$/g, '').trim();
+}
+
+function toKey(title: string): string {
+  return (
+    stripInline(title)
+      .toLowerCase()
+      .replace(/^\d+[.)]\s*/, '')
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_|_$/g, '') || 'untitled'
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * Persona Inheritance
+ *
+ * Merge semantics for `extends:`. A child persona is deep-merged onto its
+ * parent: maps merge key by key, lists are appended (skipping duplicates),
+ * and scalars from the child win. Directive objects change how a value is
+ * merged:
+ *
+ *   voice:
+ *     phrases:
+ *       $remove: ["Old phrase"]      # drop list items (or map keys)
+ *       $append: ["New phrase"]      # add list items
+ *     tone:
+ *       $replace: [direct, terse]    # use this value as-is
+ */
+
+import { existsSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { homedir } from 'os';
+import { isDeepStrictEqual } from 'util';
+import type { PersonaDefinition } from './types.js';
+
+/**
+ * Directive keys recognized while merging
+ */
+export const MERGE_DIRECTIVES = ['$replace', '$remove', '$append'] as const;
+
+type Directive = Partial<Record<(typeof MERGE_DIRECTIVES)[number], unknown>>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDirective(value: unknown): value is Directive {
+  if (!isPlainObject(value)) return false;
+  const keys = Object.keys(value);
+  return (
+    keys.length > 0 && keys.every((key) => (MERGE_DIRECTIVES as readonly string[]).includes(key))
+  );
+}
+
+/**
+ * Append items to a list, skipping ones already present
+ */
+function appendUnique(base: unknown[], items: unknown[]): unknown[] {
+  const result = [...base];
+  for (const item of items) {
+    if (!result.some((existing) => isDeepStrictEqual(existing, item))) {
+      result.push(item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a directive object to a base value
+ */
+function applyDirective(base: unknown, directive: Directive, path: string): unknown {
+  if ('$replace' in directive) {
+    if (Object.keys(directive).length > 1) {
+      throw new Error(`Invalid merge directive at ${path}: $replace cannot be combined`);
+    }
+    return mergeValue(undefined, directive.$replace, path);
+  }
+
+  const remove = directive.$remove ?? [];
+  const append = directive.$append ?? [];
+  if (!Array.isArray(remove) || !Array.isArray(append)) {
+    throw new Error(`Invalid merge directive at ${path}: $remove and $append take lists`);
+  }
+
+  if (isPlainObject(base)) {
+    if (append.length > 0) {
+      throw new Error(`Invalid merge directive at ${path}: $append only applies to lists`);
+    }
+    return Object.fromEntries(Object.entries(base).filter(([key]) => !remove.includes(key)));
+  }
+
+  if (base === undefined && append.length === 0) {
+    return undefined;
+  }
+
+  if (base !== undefined && !Array.isArray(base)) {
+    throw new Error(`Invalid merge directive at ${path}: inherited value is not a list or map`);
+  }
+
+  const kept = (base ?? []).filter(
+    (item) => !remove.some((removed) => isDeepStrictEqual(item, removed)),
+  );
+  return appendUnique(kept, append);
+}
+
+/**
+ * Merge an override value onto a base value
+ */
+function mergeValue(base: unknown, override: unknown, path: string): unknown {
+  if (isDirective(override)) {
+    return applyDirective(base, override, path);
+  }
+
+  if (Array.isArray(override)) {
+    return Array.isArray(base) ? appendUnique(base, override) : [...override];
+  }
+
+  if (isPlainObject(override)) {
+    const result: Record<string, unknown> = isPlainObject(base) ? { ...base } : {};
+    for (const [key, value] of Object.entries(override)) {
+      const merged = mergeValue(result[key], value, path ? `${path}.${key}` : key);
+      if (merged === undefined) {
+        delete result[key];
+      } else {
+        result[key] = merged;
+      }
+    }
+    return result;
+  }
+
+  return override;
+}
+
+/**
+ * Deep-merge a child persona onto its parent, applying merge directives.
+ * The child's `extends` key is not carried into the result.
+ */
+export function mergePersonaDefinitions(
+  parent: PersonaDefinition,
+  child: Partial<PersonaDefinition>,
+): PersonaDefinition {
+  const overrides = { ...child };
+  delete overrides.extends;
+  return mergeValue(parent, overrides, '') as PersonaDefinition;
+}
+
+/**
+ * Resolve an `extends` reference to a persona.yaml path.
+ *
+ * Paths (./base, ../shared/reviewer.yaml, /abs/dir) resolve relative to the
+ * extending persona's directory. Bare ids resolve to a sibling persona
+ * directory, then to each of the search directories.
+ */
+export function resolveExtendsPath(
+  reference: string,
+  personaDir: string,
+  searchDirs: string[] = [],
+): string {
+  const toYaml = (path: string): string =>
+    existsSync(path) && statSync(path).isDirectory() ? join(path, 'persona.yaml') : path;
+
+  const isPath =
+    reference.startsWith('.') ||
+    reference.startsWith('~') ||
+    isAbsolute(reference) ||
+    /[/\\]/.test(reference) ||
+    /\.ya?ml$/.test(reference);
+
+  if (isPath) {
+    const expanded = reference.startsWith('~') ? reference.replace('~', homedir()) : reference;
+    const path = toYaml(resolve(personaDir, expanded));
+    if (!existsSync(path)) {
+      throw new Error(`Parent persona not found: ${reference} (resolved to ${path})`);
+    }
+    return path;
+  }
+
+  const candidates = [dirname(resolve(personaDir)), ...searchDirs].map((dir) =>
+    join(resolve(dir), reference, 'persona.yaml'),
+  );
+  const found = candidates.find((path) => existsSync(path));
+  if (!found) {
+    throw new Error(`Parent persona "${reference}" not found. Searched:\n${candidates.join('\n')}`);
+  }
+  return found;
+}
@@ -7,7 +7,7 @@
 
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { parse as parseYaml } from 'yaml';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import type {
   PersonaDefinition,
@@ -17,10 +17,17 @@ import type {
   PersonaVoice,
   ValidationMarker,
   SampleResponse,
+  PersonaTestCase,
   StyleReference,
   PersonaValidation,
   PromptGenerationOptions,
+  PromptDegradation,
+  BudgetedSystemPrompt,
 } from './types.js';
+import { estimateTokens } from './tokens.js';
+import { selectRelevantContent } from './content-relevance.js';
+import { mergePersonaDefinitions, resolveExtendsPath } from './persona-inheritance.js';
+import { copyFrameworkReferences, resolveFrameworkRefs } from './framework-library.js';
 
 // Module directory resolution for ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -40,9 +47,9 @@ export function loadPersonaFromFile(filePath: string): PersonaDefinition {
   const content = readFileSync(filePath, 'utf-8');
   const definition = parseYaml(content) as PersonaDefinition;
 
-  // Resolve convention-based external files before validation
+  // Resolve convention-based external files and inheritance before validation
   const personaDir = dirname(filePath);
-  resolveExternalFiles(definition, personaDir);
+  resolveExternalFiles(definition, personaDir, [resolve(filePath)]);
 
   // Basic validation
   validatePersonaStructure(definition);
@@ -55,14 +62,25 @@ export function loadPersonaFromFile(filePath: string): PersonaDefinition {
  *
  * Convention:
  *   frameworks/       → each .yaml becomes a key in definition.frameworks
+ *   { $ref: lib:x }   → framework replaced by the shared framework library entry
  *   case-studies/     → each .yaml becomes a key in definition.case_studies
  *   references/       → each .yaml becomes a key in definition.style_references
  *   validation.yaml   → merged into definition.validation
  *   samples.yaml      → merged into definition.sample_responses
+ *   tests.yaml        → merged into definition.test_cases (a map keyed by id,
+ *                       or a list of entries with an id); `file` inputs are
+ *                       read relative to the persona directory
  *
- * External files override inline keys with the same name.
+ * External files override inline keys with the same name. If the definition
+ * has an `extends` key, the result is then deep-merged onto the (fully
+ * resolved) parent persona. `inheritanceChain` lists the files already being
+ * resolved, for cycle detection.
  */
-export function resolveExternalFiles(definition: PersonaDefinition, personaDir: string): void {
+export function resolveExternalFiles(
+  definition: PersonaDefinition,
+  personaDir: string,
+  inheritanceChain: string[] = [resolve(personaDir, 'persona.yaml')],
+): void {
   // frameworks/ directory
   const frameworksDir = join(personaDir, 'frameworks');
   if (existsSync(frameworksDir)) {
@@ -78,6 +96,9 @@ export function resolveExternalFiles(definition: PersonaDefinition, personaDir:
     }
   }
 
+  // Shared framework library references
+  resolveFrameworkRefs(definition.frameworks, personaDir);
+
   // case-studies/ directory
   const caseStudiesDir = join(personaDir, 'case-studies');
   if (existsSync(caseStudiesDir)) {
@@ -123,6 +144,119 @@ export function resolveExternalFiles(definition: PersonaDefinition, personaDir:
     const parsed = parseYaml(content) as Record<string, SampleResponse>;
     definition.sample_responses = { ...definition.sample_responses, ...parsed };
   }
+
+  // tests.yaml
+  const testsFile = join(personaDir, 'tests.yaml');
+  if (existsSync(testsFile)) {
+    const content = readFileSync(testsFile, 'utf-8');
+    const parsed = parseYaml(content) as Record<string, PersonaTestCase> | PersonaTestCase[] | null;
+    definition.test_cases = { ...definition.test_cases, ...keyTestCases(parsed ?? {}) };
+  }
+  resolveTestCaseFiles(definition.test_cases, personaDir);
+
+  // extends: merge onto the parent persona
+  if (definition.extends) {
+    resolveInheritance(definition, personaDir, inheritanceChain);
+  }
+}
+
+/**
+ * Key a tests.yaml list by entry id; maps are returned as-is
+ */
+function keyTestCases(
+  tests: Record<string, PersonaTestCase> | PersonaTestCase[],
+): Record<string, PersonaTestCase> {
+  if (!Array.isArray(tests)) return tests;
+
+  const keyed: Record<string, PersonaTestCase> = {};
+  tests.forEach((test, index) => {
+    if (!test.id) {
+      throw new Error(`tests.yaml entry ${index + 1} has no id`);
+    }
+    keyed[test.id] = test;
+  });
+  return keyed;
+}
+
+/**
+ * Read `file` inputs of test cases into `input`, in place
+ */
+function resolveTestCaseFiles(
+  testCases: Record<string, PersonaTestCase> | undefined,
+  personaDir: string,
+): void {
+  for (const [key, test] of Object.entries(testCases ?? {})) {
+    if (!test.file || test.input !== undefined) continue;
+
+    const inputPath = resolve(personaDir, test.file);
+    if (!existsSync(inputPath)) {
+      throw new Error(`Test case "${test.id ?? key}" input file not found: ${inputPath}`);
+    }
+    test.input = readFileSync(inputPath, 'utf-8');
+  }
+}
+
+/**
+ * Merge a definition onto the persona it extends, in place
+ */
+function resolveInheritance(
+  definition: PersonaDefinition,
+  personaDir: string,
+  inheritanceChain: string[],
+): void {
+  const parentPath = resolveExtendsPath(definition.extends!, personaDir, getSearchDirectories());
+
+  if (inheritanceChain.includes(parentPath)) {
+    throw new Error(
+      `Circular persona inheritance: ${[...inheritanceChain, parentPath].join(' → ')}`,
+    );
+  }
+
+  const parent = parseYaml(readFileSync(parentPath, 'utf-8')) as PersonaDefinition;
+  resolveExternalFiles(parent, dirname(parentPath), [...inheritanceChain, parentPath]);
+
+  const merged = mergePersonaDefinitions(parent, definition);
+  copyFrameworkReferences(definition.frameworks, merged.frameworks);
+  for (const key of Object.keys(definition)) {
+    delete (definition as unknown as Record<string, unknown>)[key];
+  }
+  Object.assign(definition, merged);
+}
+
+/**
+ * Get the persona files a persona inherits from, nearest parent first
+ */
+export function getPersonaLineage(filePath: string): string[] {
+  const lineage: string[] = [];
+  let current = resolve(filePath);
+
+  for (;;) {
+    const raw = parseYaml(readFileSync(current, 'utf-8')) as Partial<PersonaDefinition> | null;
+    if (!raw?.extends) {
+      return lineage;
+    }
+
+    const parentPath = resolveExtendsPath(raw.extends, dirname(current), getSearchDirectories());
+    if (parentPath === resolve(filePath) || lineage.includes(parentPath)) {
+      throw new Error(
+        `Circular persona inheritance: ${[resolve(filePath), ...lineage, parentPath].join(' → ')}`,
+      );
+    }
+
+    lineage.push(parentPath);
+    current = parentPath;
+  }
+}
+
+/**
+ * Directories searched for bare `extends` ids after the sibling directory
+ */
+function getSearchDirectories(): string[] {
+  try {
+    return [getPersonasDirectory()];
+  } catch {
+    return [];
+  }
 }
 
 /**
@@ -300,16 +434,108 @@ function validatePersonaStructure(definition: PersonaDefinition): void {
   }
 }
 
+/**
+ * Order optional prompt content is dropped in to meet a token budget,
+ * least essential first
+ */
+export const PROMPT_DEGRADATION_ORDER: PromptDegradation[] = [
+  'style_references',
+  'case_study_stories',
+  'diagnostic_questions',
+];
+
 /**
  * Generate system prompt from persona definition
+ *
+ * With maxTokens set, optional sections are dropped until the prompt fits;
+ * use generateBudgetedSystemPrompt to find out what was dropped. With
+ * relevantTo set, only the frameworks and case studies most relevant to it
+ * are rendered in full and the rest are summarized.
  */
 export function generateSystemPrompt(
   persona: PersonaDefinition,
   options?: PromptGenerationOptions,
+): string {
+  if (options?.maxTokens !== undefined) {
+    return generateBudgetedSystemPrompt(persona, options).prompt;
+  }
+  return renderSystemPrompt(persona, getPromptDetail(persona, options), new Set());
+}
+
+/**
+ * Generate a system prompt within a token budget, degrading sections in
+ * PROMPT_DEGRADATION_ORDER until it fits. A degradation is only recorded
+ * when it shortens the prompt. If every degradation still leaves the prompt
+ * over budget, the most degraded prompt is returned with fits: false.
+ */
+export function generateBudgetedSystemPrompt(
+  persona: PersonaDefinition,
+  options: PromptGenerationOptions = {},
+): BudgetedSystemPrompt {
+  const detail = getPromptDetail(persona, options);
+  const budget = options.maxTokens ?? Infinity;
+  const omitted = new Set<PromptDegradation>();
+  const dropped: PromptDegradation[] = [];
+
+  let prompt = renderSystemPrompt(persona, detail, omitted);
+
+  for (const degradation of PROMPT_DEGRADATION_ORDER) {
+    if (estimateTokens(prompt) <= budget) break;
+
+    omitted.add(degradation);
+    const degraded = renderSystemPrompt(persona, detail, omitted);
+    if (degraded.length < prompt.length) {
+      dropped.push(degradation);
+      prompt = degraded;
+    }
+  }
+
+  const tokens = estimateTokens(prompt);
+  return { prompt, tokens, dropped, fits: tokens <= budget };
+}
+
+/**
+ * What a prompt renders in full; everything else is summarized
+ */
+interface PromptDetail {
+  /** Lean prompts leave out style references */
+  lean: boolean;
+  frameworks: Set<string>;
+  caseStudies: Set<string>;
+}
+
+function getPromptDetail(
+  persona: PersonaDefinition,
+  options?: PromptGenerationOptions,
+): PromptDetail {
+  const lean = options?.mode === 'lean';
+
+  if (options?.relevantTo) {
+    const relevant = selectRelevantContent(persona, options.relevantTo, options.relevantCount);
+    return {
+      lean,
+      frameworks: new Set(relevant.frameworks),
+      caseStudies: new Set(relevant.caseStudies),
+    };
+  }
+
+  return {
+    lean,
+    frameworks: new Set(lean ? [] : Object.keys(persona.frameworks)),
+    caseStudies: new Set(lean ? [] : Object.keys(persona.case_studies ?? {})),
+  };
+}
+
+/**
+ * Render a system prompt, leaving out the omitted optional sections
+ */
+function renderSystemPrompt(
+  persona: PersonaDefinition,
+  detail: PromptDetail,
+  omitted: Set<PromptDegradation>,
 ): string {
   const { identity, voice, frameworks, case_studies, style_references, analysis_patterns } =
     persona;
-  const lean = options?.mode === 'lean';
 
   const sections: string[] = [];
 
@@ -337,66 +563,65 @@ ${voice.style.map((s) => `- ${s}`).join('\n')}`);
 ${voice.constraints.map((c) => `- ${c}`).join('\n')}`);
   }
 
-  // Frameworks section
+  // Frameworks section: full detail first, then summaries
   const frameworkEntries = Object.entries(frameworks);
-  if (lean) {
-    sections.push(`## Analytical Frameworks
-
-${frameworkEntries
-  .map(([name, fw]) => {
-    const firstSentence = fw.description.trim().split(/\.\s/)[0] + '.';
-    return `- **${formatFrameworkName(name)}**: ${firstSentence} *(Use get_framework tool for details)*`;
-  })
-  .join('\n')}`);
-  } else {
-    sections.push(`## Analytical Frameworks
-
-${frameworkEntries
-  .map(
-    ([name, fw]) => `### ${formatFrameworkName(name)}
+  const fullFrameworks = frameworkEntries
+    .filter(([name]) => detail.frameworks.has(name))
+    .map(([name, fw]) => {
+      const concepts = Object.entries(fw.concepts).map(
+        ([cName, c]) => `- **${formatConceptName(cName)}**: ${c.definition}`,
+      );
+      const questions =
+        !omitted.has('diagnostic_questions') && fw.questions?.length
+          ? `\n\n**Diagnostic Questions**:\n${fw.questions.map((q) => `- ${q}`).join('\n')}`
+          : '';
+
+      return `### ${formatFrameworkName(name)}
 
 ${fw.description.trim()}
 
 **Key Concepts**:
-${Object.entries(fw.concepts)
-  .map(([cName, c]) => `- **${formatConceptName(cName)}**: ${c.definition}`)
-  .join('\n')}
-
-**Diagnostic Questions**:
-${(fw.questions ?? []).map((q) => `- ${q}`).join('\n')}`,
-  )
-  .join('\n\n')}`);
-  }
+${concepts.join('\n')}${questions}`;
+    });
+  const frameworkSummaries = frameworkEntries
+    .filter(([name]) => !detail.frameworks.has(name))
+    .map(([name, fw]) => {
+      const firstSentence = fw.description.trim().split(/\.\s/)[0] + '.';
+      return `- **${formatFrameworkName(name)}**: ${firstSentence} *(Use get_framework tool for details)*`;
+    });
+  sections.push(`## Analytical Frameworks
+
+${joinDetail(fullFrameworks, frameworkSummaries)}`);
 
   // Case studies if present
-  if (case_studies && Object.keys(case_studies).length > 0) {
-    if (lean) {
-      sections.push(`## Reference Cases
-
-${Object.entries(case_studies)
-  .map(
-    ([name, cs]) =>
-      `- **${formatConceptName(name)}**: ${cs.pattern} *(Use get_case_study tool for details)*`,
-  )
-  .join('\n')}`);
-    } else {
-      sections.push(`## Reference Cases
-
-${Object.entries(case_studies)
-  .map(
-    ([name, cs]) => `### ${formatConceptName(name)}
+  const caseEntries = Object.entries(case_studies ?? {});
+  if (caseEntries.length > 0) {
+    const fullCases = caseEntries
+      .filter(([name]) => detail.caseStudies.has(name))
+      .map(
+        ([name, cs]) => `### ${formatConceptName(name)}
 **Pattern**: ${cs.pattern}
-
-${cs.story.trim()}
-
+${omitted.has('case_study_stories') ? '' : `\n${cs.story.trim()}\n`}
 **When to reference**: ${(cs.signals ?? []).slice(0, 3).join(', ')}`,
-  )
-  .join('\n\n')}`);
-    }
+      );
+    const caseSummaries = caseEntries
+      .filter(([name]) => !detail.caseStudies.has(name))
+      .map(
+        ([name, cs]) =>
+          `- **${formatConceptName(name)}**: ${cs.pattern} *(Use get_case_study tool for details)*`,
+      );
+    sections.push(`## Reference Cases
+
+${joinDetail(fullCases, caseSummaries)}`);
   }
 
   // Style references if present (omitted in lean mode)
-  if (!lean && style_references && Object.keys(style_references).length > 0) {
+  if (
+    !detail.lean &&
+    !omitted.has('style_references') &&
+    style_references &&
+    Object.keys(style_references).length > 0
+  ) {
     sections.push(`## Design References
 
 ${Object.entries(style_references)
@@ -420,6 +645,13 @@ ${analysis_patterns.approach.map((step, i) => `${i + 1}. ${step}`).join('\n')}`)
   return sections.join('\n\n---\n\n');
 }
 
+/**
+ * Join full-detail blocks and a list of summaries
+ */
+function joinDetail(blocks: string[], summaries: string[]): string {
+  return [...blocks, summaries.join('\n')].filter(Boolean).join('\n\n');
+}
+
 /**
  * Format framework name for display (snake_case to Title Case)
  */
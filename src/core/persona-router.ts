@@ -0,0 +1,176 @@
+/**
+ * Persona Router
+ *
+ * Ranks personas for a request with a local BM25 scorer. Each persona is
+ * indexed as a set of weighted fields: its routing description
+ * (agent_config.description), framework when_to_use text, case-study
+ * signals, tags, role and department mission. Scoring is BM25F-style: term
+ * frequencies are combined across fields by weight before saturation.
+ */
+
+import type { PersonaDefinition } from './types.js';
+import { getCorpusStats, queryTerms, scoreDocument, weighDocument } from './bm25.js';
+import type { CorpusStats, WeightedDocument } from './bm25.js';
+
+export { tokenize } from './bm25.js';
+
+/**
+ * Fields a persona is indexed under
+ */
+export type RoutingField = 'description' | 'when_to_use' | 'signals' | 'tags' | 'role' | 'mission';
+
+/**
+ * Relative weight of each field. The routing description is written for
+ * delegation, so it counts most; department missions are shared by every
+ * persona in the department, so they only break ties.
+ */
+export const ROUTING_FIELD_WEIGHTS: Record<RoutingField, number> = {
+  description: 3,
+  when_to_use: 2,
+  signals: 1.5,
+  tags: 2,
+  role: 1,
+  mission: 0.5,
+};
+
+/**
+ * Department context used for the mission field
+ */
+export interface RoutingDepartment {
+  id: string;
+  mission: string;
+  personas: string[];
+}
+
+/**
+ * Indexed persona
+ */
+interface RoutingDocument extends WeightedDocument<RoutingField> {
+  id: string;
+  name: string;
+}
+
+/**
+ * BM25 index over a set of personas
+ */
+export interface RoutingIndex extends CorpusStats {
+  documents: RoutingDocument[];
+}
+
+/**
+ * Why a persona matched: query terms found in one field
+ */
+export interface RouteReason {
+  field: RoutingField;
+  terms: string[];
+}
+
+/**
+ * A ranked persona for a request
+ */
+export interface RouteMatch {
+  id: string;
+  name: string;
+  score: number;
+  reasons: RouteReason[];
+}
+
+/**
+ * Options for routing a request
+ */
+export interface RouteOptions {
+  /** Maximum matches returned (default 3) */
+  limit?: number;
+}
+
+/**
+ * Text of each routing field for a persona
+ */
+function getRoutingFields(
+  id: string,
+  persona: PersonaDefinition,
+  departments: RoutingDepartment[],
+): Record<RoutingField, string> {
+  const frameworks = Object.values(persona.frameworks);
+  const caseStudies = Object.values(persona.case_studies ?? {});
+  const department = departments.find(
+    (d) => d.personas.includes(id) || d.id === persona.metadata?.department,
+  );
+
+  return {
+    description: persona.agent_config?.description ?? '',
+    when_to_use: frameworks.map((fw) => fw.when_to_use ?? '').join('\n'),
+    signals: caseStudies.flatMap((cs) => cs.signals ?? []).join('\n'),
+    tags: (persona.metadata?.tags ?? []).join(' '),
+    role: persona.identity.role,
+    mission: department?.mission ?? '',
+  };
+}
+
+/**
+ * Build a routing index for personas (id -> definition)
+ */
+export function buildRoutingIndex(
+  personas: Map<string, PersonaDefinition>,
+  departments: RoutingDepartment[] = [],
+): RoutingIndex {
+  const documents: RoutingDocument[] = [...personas].map(([id, persona]) => ({
+    id,
+    name: persona.identity.name,
+    ...weighDocument(getRoutingFields(id, persona, departments), ROUTING_FIELD_WEIGHTS),
+  }));
+
+  return { documents, ...getCorpusStats(documents) };
+}
+
+/**
+ * Rank personas for a request. Personas matching no query term are omitted.
+ */
+export function routeRequest(
+  index: RoutingIndex,
+  request: string,
+  options: RouteOptions = {},
+): RouteMatch[] {
+  const queryWords = queryTerms(request);
+  const terms = [...queryWords.keys()];
+  const matches: RouteMatch[] = [];
+
+  for (const doc of index.documents) {
+    const score = scoreDocument(doc, terms, index);
+    if (score <= 0) continue;
+
+    const reasons: RouteReason[] = [];
+    for (const [field, fieldTerms] of doc.fieldTerms) {
+      const matched = terms.filter((term) => fieldTerms.has(term)).map((t) => queryWords.get(t)!);
+      if (matched.length > 0) {
+        reasons.push({ field, terms: matched });
+      }
+    }
+    reasons.sort((a, b) => ROUTING_FIELD_WEIGHTS[b.field] - ROUTING_FIELD_WEIGHTS[a.field]);
+
+    matches.push({ id: doc.id, name: doc.name, score: Math.round(score * 100) / 100, reasons });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, options.limit ?? 3);
+}
+
+/**
+ * One-line explanation of a match, e.g.
+ * "routing description (review, pull), framework usage (security)"
+ */
+export function explainRoute(match: RouteMatch): string {
+  const labels: Record<RoutingField, string> = {
+    description: 'routing description',
+    when_to_use: 'framework usage',
+    signals: 'case-study signals',
+    tags: 'tags',
+    role: 'role',
+    mission: 'department mission',
+  };
+
+  return match.reasons
+    .map((reason) => `${labels[reason.field]} (${reason.terms.join(', ')})`)
+    .join(', ');
+}
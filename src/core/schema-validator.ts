@@ -0,0 +1,93 @@
+/**
+ * Schema Validator
+ *
+ * Validates persona definitions against schema/persona-schema.json with Ajv
+ * and formats the errors for display. Used by the validate and import
+ * commands.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import AjvModule, { type ErrorObject } from 'ajv';
+
+// ESM compatibility - handle both default and named export
+const Ajv = AjvModule.default || AjvModule;
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+/**
+ * Result of validating a persona against the schema
+ */
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: ErrorObject[];
+}
+
+/**
+ * Locate the persona schema: the given path, or the bundled schema
+ */
+export function findSchemaPath(customPath?: string): string | null {
+  const candidates = customPath
+    ? [customPath]
+    : [
+        join(__dirname, '../../schema/persona-schema.json'),
+        join(__dirname, '../../../schema/persona-schema.json'),
+      ];
+
+  return candidates.find((path) => existsSync(path)) ?? null;
+}
+
+/**
+ * Validate a parsed persona against the schema
+ */
+export function validatePersonaSchema(
+  persona: unknown,
+  schemaPath?: string,
+): SchemaValidationResult {
+  const path = findSchemaPath(schemaPath);
+  if (!path) {
+    throw new Error(`Schema file not found${schemaPath ? `: ${schemaPath}` : ''}`);
+  }
+
+  const ajv = new Ajv({ allErrors: true, verbose: true });
+  const validate = ajv.compile(JSON.parse(readFileSync(path, 'utf-8')));
+  const valid = validate(persona) as boolean;
+
+  return { valid, errors: validate.errors ?? [] };
+}
+
+/**
+ * Format a schema error for display
+ */
+export function formatSchemaError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'required':
+      return `Missing required property: ${error.params.missingProperty}`;
+
+    case 'type':
+      return `Expected ${error.params.type}, got ${typeof error.params.type}`;
+
+    case 'minLength':
+      return `Value too short (minimum: ${error.params.limit} characters)`;
+
+    case 'minItems':
+      return `Array too short (minimum: ${error.params.limit} items)`;
+
+    case 'minProperties':
+      return `Object needs at least ${error.params.limit} properties`;
+
+    case 'enum':
+      return `Value must be one of: ${(error.params.allowedValues as string[]).join(', ')}`;
+
+    case 'pattern':
+      return `Value doesn't match required pattern`;
+
+    case 'additionalProperties':
+      return `Unknown property: ${error.params.additionalProperty}`;
+
+    default:
+      return error.message || `Validation error: ${error.keyword}`;
+  }
+}
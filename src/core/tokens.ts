@@ -0,0 +1,16 @@
+/**
+ * Token Estimation
+ *
+ * Rough token counts for budgeting prompts and exports without shipping a
+ * tokenizer: about four characters per token for English prose.
+ */
+
+/** Average characters per token used by the estimate */
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
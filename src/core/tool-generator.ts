@@ -0,0 +1,241 @@
+/**
+ * Tool Generator
+ *
+ * Derives dedicated MCP tools from a persona's frameworks. Each framework
+ * becomes one tool whose input parameters come from the framework's
+ * diagnostic questions and whose handler renders a templated prompt with
+ * the framework's concepts injected.
+ */
+
+import { createHash } from 'crypto';
+import type { PersonaDefinition, Framework, GeneratedTool, ToolParameter } from './types.js';
+
+/**
+ * Default prompt template for generated framework tools.
+ *
+ * Placeholders:
+ *   {{frameworks_title}} - display names of the injected frameworks
+ *   {{persona}}    - persona display name
+ *   {{role}}       - persona role
+ *   {{situation}}  - the user's situation
+ *   {{context}}    - optional additional context
+ *   {{frameworks}} - injected framework descriptions and concepts
+ *   {{answers}}    - answers supplied for the diagnostic questions
+ */
+export const DEFAULT_TOOL_PROMPT_TEMPLATE = `# {{frameworks_title}} — {{persona}}
+
+*{{role}}*
+
+## Situation
+
+{{situation}}
+
+{{context}}
+
+{{frameworks}}
+
+{{answers}}`;
+
+/** Maximum number of words from a question used to build its parameter name */
+const QUESTION_PARAM_WORDS = 6;
+
+/** MCP clients reject tool names longer than this */
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Build a snake_case tool name from arbitrary parts. Names over
+ * MAX_TOOL_NAME_LENGTH are truncated and get a hash suffix so they stay unique.
+ */
+export function toToolName(...parts: string[]): string {
+  const name = parts
+    .join('_')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (name.length <= MAX_TOOL_NAME_LENGTH) {
+    return name;
+  }
+
+  const hash = createHash('sha256').update(name).digest('hex').slice(0, 8);
+  const head = name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1).replace(/_+$/, '');
+  return `${head}_${hash}`;
+}
+
+/**
+ * Generate one tool per framework for a persona
+ */
+export function generateFrameworkTools(
+  personaId: string,
+  persona: PersonaDefinition,
+): GeneratedTool[] {
+  return Object.entries(persona.frameworks).map(([frameworkName, framework]) =>
+    generateFrameworkTool(personaId, persona, frameworkName, framework),
+  );
+}
+
+/**
+ * Generate the tool for a single framework
+ */
+function generateFrameworkTool(
+  personaId: string,
+  persona: PersonaDefinition,
+  frameworkName: string,
+  framework: Framework,
+): GeneratedTool {
+  const firstSentence = framework.description.trim().split(/\.\s/)[0].replace(/\.$/, '');
+  const whenToUse = framework.when_to_use ? ` Use when: ${framework.when_to_use.trim()}` : '';
+
+  return {
+    name: toToolName(personaId, frameworkName),
+    description: `Apply ${persona.identity.name}'s ${formatName(frameworkName)} framework. ${firstSentence}.${whenToUse}`,
+    parameters: buildParameters(framework),
+    frameworkInjection: [frameworkName],
+    promptTemplate: DEFAULT_TOOL_PROMPT_TEMPLATE,
+  };
+}
+
+/**
+ * Derive tool parameters from a framework's diagnostic questions
+ */
+function buildParameters(framework: Framework): ToolParameter[] {
+  const parameters: ToolParameter[] = [
+    {
+      name: 'situation',
+      type: 'string',
+      description: 'Describe the situation, decision, or question to analyze',
+      required: true,
+    },
+    {
+      name: 'context',
+      type: 'string',
+      description: 'Additional context about your organization, market, or constraints',
+      required: false,
+    },
+  ];
+
+  const usedNames = new Set(parameters.map((p) => p.name));
+
+  for (const question of framework.questions ?? []) {
+    const base = toToolName(...question.split(/\s+/).slice(0, QUESTION_PARAM_WORDS)) || 'question';
+    let name = base;
+    let suffix = 2;
+    while (usedNames.has(name)) {
+      name = `${base}_${suffix++}`;
+    }
+    usedNames.add(name);
+
+    parameters.push({
+      name,
+      type: 'string',
+      description: `Your answer to: ${question}`,
+      required: false,
+      question,
+    });
+  }
+
+  return parameters;
+}
+
+/**
+ * Convert generated tool parameters into a JSON Schema object
+ */
+export function toInputSchema(tool: GeneratedTool): {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required?: string[];
+} {
+  const properties: Record<string, unknown> = {};
+
+  for (const param of tool.parameters) {
+    properties[param.name] = {
+      type: param.type,
+      description: param.description,
+      ...(param.enum && { enum: param.enum }),
+      ...(param.default !== undefined && { default: param.default }),
+    };
+  }
+
+  const required = tool.parameters.filter((p) => p.required).map((p) => p.name);
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Render the prompt for a generated tool call
+ */
+export function renderToolPrompt(
+  tool: GeneratedTool,
+  persona: PersonaDefinition,
+  args: Record<string, unknown>,
+): string {
+  const injected = tool.frameworkInjection.filter((name) => persona.frameworks[name]);
+
+  const frameworksSection = injected
+    .map((name) => formatFrameworkSection(name, persona.frameworks[name]))
+    .join('\n\n');
+
+  const answers = tool.parameters
+    .filter((p) => p.question !== undefined)
+    .map((p) => {
+      const answer = typeof args[p.name] === 'string' ? (args[p.name] as string).trim() : '';
+      return answer ? `- **${p.question}**\n  ${answer}` : `- **${p.question}**\n  *(unanswered)*`;
+    });
+
+  const values: Record<string, string> = {
+    persona: persona.identity.name,
+    role: persona.identity.role,
+    frameworks_title: injected.map(formatName).join(' + '),
+    situation: String(args.situation ?? '').trim(),
+    context: args.context ? `**Additional Context**: ${String(args.context).trim()}` : '',
+    frameworks: frameworksSection,
+    answers: answers.length > 0 ? `## Diagnostic Questions\n\n${answers.join('\n')}` : '',
+  };
+
+  return tool.promptTemplate
+    .replace(/\{\{(\w+)\}\}/g, (match, key: string) => values[key] ?? match)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Format a framework with its concepts for prompt injection
+ */
+function formatFrameworkSection(name: string, framework: Framework): string {
+  const lines = [
+    `## ${formatName(name)}`,
+    '',
+    framework.description.trim(),
+    '',
+    '**Key Concepts**:',
+  ];
+
+  for (const [conceptName, concept] of Object.entries(framework.concepts)) {
+    lines.push(`- **${formatName(conceptName)}**: ${concept.definition}`);
+    if (concept.insight) {
+      lines.push(`  - *Insight*: ${concept.insight}`);
+    }
+  }
+
+  if (framework.common_mistakes?.length) {
+    lines.push('', '**Avoid**:');
+    for (const mistake of framework.common_mistakes) {
+      lines.push(`- ${mistake}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format snake_case/kebab-case names for display
+ */
+function formatName(name: string): string {
+  return name
+    .split(/[_-]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -137,6 +137,40 @@ export interface SampleResponse {
   explanation?: string;
 }
 
+// ============================================================================
+// Test Case Types
+// ============================================================================
+
+export type PersonaTestCategory = 'fidelity' | 'voice' | 'framework' | 'negative' | 'edge_case';
+
+/**
+ * Author-declared test case (tests.yaml). Scores come from the analyzer for
+ * the category: voice consistency, framework coverage, or fidelity.
+ */
+export interface PersonaTestCase {
+  /** Test id (defaults to the key in tests.yaml) */
+  id?: string;
+  description?: string;
+  /** Analyzer to score with (default fidelity) */
+  category?: PersonaTestCategory;
+  /** Text to score */
+  input?: string;
+  /** File with the text to score, relative to the persona directory */
+  file?: string;
+  /** Labels for --filter */
+  tags?: string[];
+  /** Whether the text is expected to pass (default true unless only max_score is set) */
+  should_pass?: boolean;
+  min_score?: number;
+  max_score?: number;
+  /** Regex patterns the text must match */
+  required_patterns?: string[];
+  /** Regex patterns the text must not match */
+  forbidden_patterns?: string[];
+  /** Framework keys the text must reference or apply */
+  expected_frameworks?: string[];
+}
+
 // ============================================================================
 // Metadata Types
 // ============================================================================
@@ -287,6 +321,8 @@ export interface AgentConfig {
 // ============================================================================
 
 export interface PersonaDefinition {
+  /** Parent persona (id or path) this persona is deep-merged onto */
+  extends?: string;
   /** Core identity of the persona */
   identity: PersonaIdentity;
   /** Communication characteristics */
@@ -303,6 +339,8 @@ export interface PersonaDefinition {
   style_references?: Record<string, StyleReference>;
   /** Example prompt/response pairs */
   sample_responses?: Record<string, SampleResponse>;
+  /** Author-declared test cases */
+  test_cases?: Record<string, PersonaTestCase>;
   /** Operational agent definition for Claude Agent SDK instantiation */
   agent_config?: AgentConfig;
   /** Administrative metadata */
@@ -316,6 +354,30 @@ export interface PersonaDefinition {
 export interface PromptGenerationOptions {
   /** 'full' includes all content (default). 'lean' provides summaries with tool-call hints. */
   mode?: 'full' | 'lean';
+  /** Token budget; optional sections are degraded in PROMPT_DEGRADATION_ORDER to fit */
+  maxTokens?: number;
+  /** Task text; only the frameworks and case studies most relevant to it get full detail */
+  relevantTo?: string;
+  /** How many frameworks and case studies get full detail with relevantTo (default 2) */
+  relevantCount?: number;
+}
+
+/**
+ * Optional prompt content that can be dropped to meet a token budget
+ */
+export type PromptDegradation = 'style_references' | 'case_study_stories' | 'diagnostic_questions';
+
+/**
+ * A system prompt generated against a token budget
+ */
+export interface BudgetedSystemPrompt {
+  prompt: string;
+  /** Estimated tokens of the prompt */
+  tokens: number;
+  /** Sections dropped to meet the budget, in order */
+  dropped: PromptDegradation[];
+  /** Whether the prompt fits the budget (false if still over after every degradation) */
+  fits: boolean;
 }
 
 // ============================================================================
@@ -359,6 +421,8 @@ export interface ToolParameter {
   required: boolean;
   default?: unknown;
   enum?: string[];
+  /** Diagnostic question this parameter answers (generated framework tools) */
+  question?: string;
 }
 
 export interface GeneratedTool {
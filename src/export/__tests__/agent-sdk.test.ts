@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import { exportAgents, renderAgentDefinition } from '../agent-sdk.js';
+import type { PersonaDefinition } from '../../core/types.js';
+
+function makePersona(overrides: Partial<PersonaDefinition> = {}): PersonaDefinition {
+  return {
+    identity: { name: 'Reviewer', role: 'Code Reviewer', background: 'Reviews code.' },
+    voice: { tone: ['direct'], phrases: ['Why?'], style: ['Terse'] },
+    frameworks: { review: { description: 'Review checklist', concepts: {} } },
+    validation: { must_include: [{ pattern: 'risk' }] },
+    ...overrides,
+  };
+}
+
+function parseAgentFile(content: string): { frontmatter: Record<string, string>; body: string } {
+  const [, frontmatter, body] = content.match(/^---\n([\s\S]*?)\n---\n\n([\s\S]*)$/)!;
+  return { frontmatter: parseYaml(frontmatter), body };
+}
+
+describe('renderAgentDefinition', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('writes frontmatter from agent_config and the generated system prompt', () => {
+    const persona = makePersona({
+      agent_config: {
+        description: 'Reviews code: security, quality. Does NOT modify code.',
+        model: 'sonnet',
+        tools: { groups: ['code_review'], exclude: ['Bash'] },
+      },
+    });
+
+    const { content, warnings } = renderAgentDefinition('reviewer', persona);
+    const { frontmatter, body } = parseAgentFile(content);
+
+    expect(frontmatter).toEqual({
+      name: 'reviewer',
+      description: 'Reviews code: security, quality. Does NOT modify code.',
+      tools: 'Read, Glob, Grep',
+      model: 'sonnet',
+    });
+    expect(body).toContain('# Reviewer');
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to identity for the description and omits unset tools and model', () => {
+    const { frontmatter } = parseAgentFile(
+      renderAgentDefinition('reviewer', makePersona()).content,
+    );
+
+    expect(frontmatter).toEqual({ name: 'reviewer', description: 'Reviewer: Code Reviewer' });
+  });
+
+  it('uses prompt_file from the prompts directory and warns when it is missing', () => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-sdk-'));
+    writeFileSync(join(dir, 'review.md'), 'You review code.\n');
+    const withFile = makePersona({ agent_config: { prompt_file: 'review.md' } });
+    const missing = makePersona({ agent_config: { prompt_file: 'gone.md' } });
+
+    expect(
+      parseAgentFile(renderAgentDefinition('a', withFile, { promptsDir: dir }).content).body,
+    ).toBe('You review code.\n');
+    expect(renderAgentDefinition('b', missing, { promptsDir: dir }).warnings[0]).toContain(
+      'Prompt file "gone.md" not found',
+    );
+  });
+
+  it('rejects unknown tool groups', () => {
+    const persona = makePersona({ agent_config: { tools: { groups: ['jira'] } } });
+
+    expect(() => renderAgentDefinition('a', persona)).toThrow(
+      'Persona "a": Unknown tool group(s): jira',
+    );
+  });
+});
+
+describe('exportAgents', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes one <id>.md file per persona', () => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-sdk-'));
+    const outDir = join(dir, '.claude', 'agents');
+
+    const files = exportAgents(
+      new Map([
+        ['reviewer', makePersona()],
+        ['architect', makePersona()],
+      ]),
+      outDir,
+    );
+
+    expect(files.map((f) => f.path)).toEqual([
+      join(outDir, 'reviewer.md'),
+      join(outDir, 'architect.md'),
+    ]);
+    expect(readFileSync(join(outDir, 'architect.md'), 'utf-8')).toContain('name: architect');
+  });
+});
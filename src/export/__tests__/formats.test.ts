@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { renderDocument } from '../formats.js';
+import { estimateTokens } from '../../core/tokens.js';
+import type { PersonaDefinition } from '../../core/types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: { name: 'Strategist', role: 'Advisor', background: 'Decades of advising.' },
+    voice: { tone: ['direct'], phrases: ['Why now?'], style: ['Terse'] },
+    frameworks: {
+      positioning: {
+        description: 'Where you compete and how you win.',
+        concepts: { trade_offs: { definition: 'Choosing what not to do', insight: 'Focus' } },
+        questions: ['What will you not do?'],
+      },
+    },
+    case_studies: {
+      airline: {
+        pattern: 'Focused low-cost positioning',
+        story: 'A regional airline refused to add hub routes. '.repeat(20),
+        signals: ['Competitors copying individual activities'],
+      },
+    },
+    sample_responses: {
+      pricing: {
+        prompt: 'Should we cut prices?',
+        good_response: 'Only if it fits your position.',
+        bad_response: 'Yes, cut them.',
+      },
+      growth: {
+        prompt: 'How do we grow?',
+        good_response: 'Deepen the position before widening it. '.repeat(10),
+      },
+    },
+    validation: { must_include: [{ pattern: 'position' }] },
+  };
+}
+
+describe('renderDocument', () => {
+  it('renders a markdown dossier with frameworks, cases and samples', () => {
+    const { content } = renderDocument(makePersona(), 'markdown');
+
+    expect(content).toContain('# Strategist');
+    expect(content).toContain('- **Trade Offs**: Choosing what not to do');
+    expect(content).toContain('  - *Insight*: Focus');
+    expect(content).toContain('### Airline');
+    expect(content).toContain('**Prompt**: Should we cut prices?');
+    expect(content).toContain('> Yes, cut them.');
+  });
+
+  it('builds a chat template with samples as few-shot turns', () => {
+    const messages = JSON.parse(renderDocument(makePersona(), 'chat-template').content);
+
+    expect(messages.map((m: { role: string }) => m.role)).toEqual([
+      'system',
+      'user',
+      'assistant',
+      'user',
+      'assistant',
+    ]);
+    expect(messages[0].content).toContain('Strategist');
+    expect(messages[1]).toEqual({ role: 'user', content: 'Should we cut prices?' });
+  });
+
+  it('exports the resolved definition as JSON', () => {
+    const persona = makePersona();
+
+    expect(JSON.parse(renderDocument(persona, 'json').content)).toEqual(persona);
+  });
+
+  it('drops the last samples first to fit a token budget', () => {
+    const persona = makePersona();
+    const full = renderDocument(persona, 'json');
+
+    const result = renderDocument(persona, 'json', { maxTokens: full.tokens - 50 });
+
+    expect(result.dropped).toEqual(['sample response "growth"']);
+    expect(result.tokens).toBeLessThanOrEqual(full.tokens - 50);
+    expect(JSON.parse(result.content).sample_responses).toHaveProperty('pricing');
+  });
+
+  it('switches chat templates to the lean prompt before dropping examples', () => {
+    const persona = makePersona();
+    const full = renderDocument(persona, 'chat-template');
+    const lean = renderDocument(persona, 'chat-template', { mode: 'lean' });
+
+    const result = renderDocument(persona, 'chat-template', { maxTokens: lean.tokens });
+
+    expect(lean.tokens).toBeLessThan(full.tokens);
+    expect(result.dropped).toEqual(['full prompt (switched to lean)']);
+  });
+
+  it('degrades prompt sections before switching to the lean prompt', () => {
+    const persona = makePersona();
+    const full = renderDocument(persona, 'prompt');
+
+    const result = renderDocument(persona, 'prompt', { maxTokens: full.tokens - 100 });
+
+    expect(result.dropped).toEqual(['case study stories']);
+    expect(result.content).toContain('### Positioning');
+    expect(result.content).not.toContain('regional airline');
+  });
+
+  it('truncates text formats once nothing is left to drop', () => {
+    const result = renderDocument(makePersona(), 'markdown', { maxTokens: 40 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.dropped).toEqual([
+      'sample response "growth"',
+      'sample response "pricing"',
+      'case studies',
+    ]);
+    expect(estimateTokens(result.content)).toBeLessThanOrEqual(40);
+    expect(result.content).toContain('[Truncated to fit 40 tokens]');
+  });
+
+  it('refuses to truncate JSON formats', () => {
+    expect(() => renderDocument(makePersona(), 'json', { maxTokens: 20 })).toThrow(
+      'Cannot fit json export within 20 tokens',
+    );
+  });
+});
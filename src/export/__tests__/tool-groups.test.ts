@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  DEFAULT_AGENT_TOOLS,
+  DEFAULT_TOOL_GROUPS,
+  loadToolGroups,
+  resolveAgentTools,
+} from '../tool-groups.js';
+
+describe('resolveAgentTools', () => {
+  const groups = {
+    review: ['Read', 'Grep', 'Bash'],
+    github: ['mcp__github__get_pull_request', 'Bash'],
+  };
+
+  it('expands groups, adds additional tools and applies exclusions', () => {
+    const result = resolveAgentTools(
+      { groups: ['review', 'github'], additional: ['WebFetch'], exclude: ['Bash'] },
+      groups,
+    );
+
+    expect(result).toEqual({
+      tools: ['Read', 'Grep', 'mcp__github__get_pull_request', 'WebFetch'],
+    });
+  });
+
+  it('rejects unknown groups', () => {
+    expect(() => resolveAgentTools({ groups: ['review', 'jira'] }, groups)).toThrow(
+      'Unknown tool group(s): jira',
+    );
+  });
+
+  it('applies exclusions alone to the default tools', () => {
+    expect(resolveAgentTools({ exclude: ['Bash', 'WebSearch'] }).tools).toEqual(
+      DEFAULT_AGENT_TOOLS.filter((tool) => tool !== 'Bash' && tool !== 'WebSearch'),
+    );
+    expect(DEFAULT_AGENT_TOOLS).toEqual([
+      'Read',
+      'Write',
+      'Edit',
+      'Glob',
+      'Grep',
+      'Bash',
+      'WebFetch',
+      'WebSearch',
+    ]);
+  });
+
+  it('leaves tools unset when nothing is configured', () => {
+    expect(resolveAgentTools(undefined).tools).toBeUndefined();
+    expect(resolveAgentTools({}).tools).toBeUndefined();
+  });
+});
+
+describe('loadToolGroups', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('layers the mapping file over the built-in groups', () => {
+    dir = mkdtempSync(join(tmpdir(), 'tool-groups-'));
+    const file = join(dir, 'groups.yaml');
+    writeFileSync(file, 'groups:\n  code_review: [Read]\n  linear: [mcp__linear__get_issue]\n');
+
+    const mapping = loadToolGroups(file);
+
+    expect(mapping.code_review).toEqual(['Read']);
+    expect(mapping.linear).toEqual(['mcp__linear__get_issue']);
+    expect(mapping.coding).toEqual(DEFAULT_TOOL_GROUPS.coding);
+  });
+
+  it('rejects missing files and malformed groups', () => {
+    dir = mkdtempSync(join(tmpdir(), 'tool-groups-'));
+    const file = join(dir, 'groups.yaml');
+    writeFileSync(file, 'groups:\n  github: Bash\n');
+
+    expect(() => loadToolGroups(join(dir, 'missing.yaml'))).toThrow('not found');
+    expect(() => loadToolGroups(file)).toThrow('must be a list of tool names');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Agent SDK Export
+ *
+ * Renders personas as Claude Agent SDK subagent definitions: a markdown file
+ * per persona with frontmatter (name, description, tools, model) followed by
+ * the system prompt, written to `.claude/agents/<id>.md`.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import { generateSystemPrompt } from '../core/persona-loader.js';
+import type { PersonaDefinition } from '../core/types.js';
+import { DEFAULT_TOOL_GROUPS, resolveAgentTools } from './tool-groups.js';
+import type { ToolGroupMapping } from './tool-groups.js';
+
+/**
+ * Default output directory for subagent files
+ */
+export const AGENT_SDK_OUTPUT_DIR = join('.claude', 'agents');
+
+/**
+ * Options for rendering a subagent definition
+ */
+export interface AgentExportOptions {
+  /** Group -> tool mapping (default: built-in groups) */
+  toolGroups?: ToolGroupMapping;
+  /** Directory `agent_config.prompt_file` is relative to */
+  promptsDir?: string;
+}
+
+/**
+ * A rendered subagent definition
+ */
+export interface AgentDefinitionFile {
+  id: string;
+  content: string;
+  /** Problems that did not stop the export (missing prompt file) */
+  warnings: string[];
+}
+
+/**
+ * Render a persona as a subagent markdown file
+ */
+export function renderAgentDefinition(
+  id: string,
+  persona: PersonaDefinition,
+  options: AgentExportOptions = {},
+): AgentDefinitionFile {
+  const config = persona.agent_config;
+  const warnings: string[] = [];
+
+  let tools: string[] | undefined;
+  try {
+    ({ tools } = resolveAgentTools(config?.tools, options.toolGroups ?? DEFAULT_TOOL_GROUPS));
+  } catch (error) {
+    throw new Error(`Persona "${id}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let prompt = generateSystemPrompt(persona);
+  if (config?.prompt_file) {
+    const promptPath = options.promptsDir
+      ? join(options.promptsDir, config.prompt_file)
+      : undefined;
+    if (promptPath && existsSync(promptPath)) {
+      prompt = readFileSync(promptPath, 'utf-8');
+    } else {
+      warnings.push(
+        `Prompt file "${config.prompt_file}" not found${options.promptsDir ? ` in ${options.promptsDir}` : ''}; using the generated system prompt`,
+      );
+    }
+  }
+
+  const frontmatter: Record<string, string> = {
+    name: id,
+    description: (
+      config?.description ?? `${persona.identity.name}: ${persona.identity.role}`
+    ).trim(),
+  };
+  if (tools) {
+    frontmatter.tools = tools.join(', ');
+  }
+  if (config?.model) {
+    frontmatter.model = config.model;
+  }
+
+  const content = `---\n${stringifyYaml(frontmatter, { lineWidth: 0 })}---\n\n${prompt.trim()}\n`;
+
+  return { id, content, warnings };
+}
+
+/**
+ * Write subagent files for personas (id -> definition) into outDir.
+ * Returns the written paths with any warnings.
+ */
+export function exportAgents(
+  personas: Map<string, PersonaDefinition>,
+  outDir: string = AGENT_SDK_OUTPUT_DIR,
+  options: AgentExportOptions = {},
+): Array<AgentDefinitionFile & { path: string }> {
+  mkdirSync(outDir, { recursive: true });
+
+  return [...personas].map(([id, persona]) => {
+    const file = renderAgentDefinition(id, persona, options);
+    const path = join(outDir, `${id}.md`);
+    writeFileSync(path, file.content);
+    return { ...file, path };
+  });
+}
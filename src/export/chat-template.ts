@@ -0,0 +1,37 @@
+/**
+ * Chat Template
+ *
+ * Builds a chat message array for harnesses that take OpenAI-style
+ * messages: the persona's system prompt followed by its sample responses
+ * as user/assistant few-shot turns.
+ */
+
+import { generateSystemPrompt } from '../core/persona-loader.js';
+import type { PersonaDefinition, PromptGenerationOptions } from '../core/types.js';
+
+/**
+ * One message in a chat template
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Build the system message and few-shot examples for a persona
+ */
+export function buildChatTemplate(
+  persona: PersonaDefinition,
+  options?: PromptGenerationOptions,
+): ChatMessage[] {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: generateSystemPrompt(persona, options).trim() },
+  ];
+
+  for (const sample of Object.values(persona.sample_responses ?? {})) {
+    messages.push({ role: 'user', content: sample.prompt.trim() });
+    messages.push({ role: 'assistant', content: sample.good_response.trim() });
+  }
+
+  return messages;
+}
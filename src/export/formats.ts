@@ -0,0 +1,177 @@
+/**
+ * Export Formats
+ *
+ * Renders a persona as a plain system prompt, resolved JSON definition,
+ * markdown dossier or chat template, optionally capped at a token budget.
+ * Over budget, plain prompts first degrade their own sections (see
+ * generateBudgetedSystemPrompt); then optional content is dropped one step
+ * at a time (lean prompt, sample responses, style references, case studies,
+ * analysis patterns). Text formats are truncated as a last resort, JSON
+ * formats fail instead.
+ */
+
+import { generateBudgetedSystemPrompt, generateSystemPrompt } from '../core/persona-loader.js';
+import { estimateTokens, CHARS_PER_TOKEN } from '../core/tokens.js';
+import type { PersonaDefinition } from '../core/types.js';
+import { renderMarkdownDossier } from './markdown.js';
+import { buildChatTemplate } from './chat-template.js';
+
+/**
+ * Formats rendered to a single document (agent-sdk is handled separately)
+ */
+export type DocumentFormat = 'prompt' | 'json' | 'markdown' | 'chat-template';
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['prompt', 'json', 'markdown', 'chat-template'];
+
+/**
+ * File extension for each document format
+ */
+export const FORMAT_EXTENSIONS: Record<DocumentFormat, string> = {
+  prompt: '.prompt.md',
+  json: '.json',
+  markdown: '.md',
+  'chat-template': '.chat.json',
+};
+
+/**
+ * Options for rendering a document
+ */
+export interface DocumentExportOptions {
+  /** System prompt mode for prompt and chat-template (default 'full') */
+  mode?: 'full' | 'lean';
+  /** Token budget for the output */
+  maxTokens?: number;
+}
+
+/**
+ * A rendered document
+ */
+export interface DocumentExport {
+  content: string;
+  /** Estimated tokens of the content */
+  tokens: number;
+  /** What was left out to meet the token budget, in order */
+  dropped: string[];
+  /** Whether the content was cut off at the budget */
+  truncated: boolean;
+}
+
+interface RenderState {
+  persona: PersonaDefinition;
+  mode: 'full' | 'lean';
+  maxTokens?: number;
+}
+
+interface Reduction {
+  label: string;
+  apply: (state: RenderState) => RenderState;
+}
+
+/**
+ * Render a persona in a document format
+ */
+export function renderDocument(
+  persona: PersonaDefinition,
+  format: DocumentFormat,
+  options: DocumentExportOptions = {},
+): DocumentExport {
+  const budget = options.maxTokens;
+  let state: RenderState = { persona, mode: options.mode ?? 'full', maxTokens: budget };
+  let content = render(state, format);
+  const reductions: string[] = [];
+  const dropped = () => [...getPromptDegradations(state, format), ...reductions];
+
+  if (budget === undefined || estimateTokens(content) <= budget) {
+    return { content, tokens: estimateTokens(content), dropped: dropped(), truncated: false };
+  }
+
+  for (const reduction of getReductions(state, format)) {
+    state = reduction.apply(state);
+    reductions.push(reduction.label);
+    content = render(state, format);
+    if (estimateTokens(content) <= budget) {
+      return { content, tokens: estimateTokens(content), dropped: dropped(), truncated: false };
+    }
+  }
+
+  if (format === 'json' || format === 'chat-template') {
+    throw new Error(
+      `Cannot fit ${format} export within ${budget} tokens (needs at least ${estimateTokens(content)})`,
+    );
+  }
+
+  const marker = `\n\n[Truncated to fit ${budget} tokens]\n`;
+  const keep = Math.max(0, budget * CHARS_PER_TOKEN - marker.length);
+  content = content.slice(0, keep).trimEnd() + marker;
+
+  return { content, tokens: estimateTokens(content), dropped: dropped(), truncated: true };
+}
+
+function render(state: RenderState, format: DocumentFormat): string {
+  switch (format) {
+    case 'prompt':
+      return generateSystemPrompt(state.persona, { mode: state.mode, maxTokens: state.maxTokens });
+    case 'json':
+      return JSON.stringify(state.persona, null, 2) + '\n';
+    case 'markdown':
+      return renderMarkdownDossier(state.persona);
+    case 'chat-template':
+      return JSON.stringify(buildChatTemplate(state.persona, { mode: state.mode }), null, 2) + '\n';
+  }
+}
+
+/**
+ * Prompt sections degraded to fit the budget, for plain prompts
+ */
+function getPromptDegradations(state: RenderState, format: DocumentFormat): string[] {
+  if (format !== 'prompt' || state.maxTokens === undefined) return [];
+  const { dropped } = generateBudgetedSystemPrompt(state.persona, {
+    mode: state.mode,
+    maxTokens: state.maxTokens,
+  });
+  return dropped.map((degradation) => degradation.replace(/_/g, ' '));
+}
+
+/**
+ * Budget reductions applicable to a persona in a format, cheapest loss first
+ */
+function getReductions(state: RenderState, format: DocumentFormat): Reduction[] {
+  const { persona } = state;
+  const reductions: Reduction[] = [];
+
+  if ((format === 'prompt' || format === 'chat-template') && state.mode === 'full') {
+    reductions.push({
+      label: 'full prompt (switched to lean)',
+      apply: (s) => ({ ...s, mode: 'lean' }),
+    });
+  }
+
+  // Prompts never include sample responses; drop the last examples first
+  if (format !== 'prompt') {
+    for (const name of Object.keys(persona.sample_responses ?? {}).reverse()) {
+      reductions.push({
+        label: `sample response "${name}"`,
+        apply: (s) => ({
+          ...s,
+          persona: { ...s.persona, sample_responses: omit(s.persona.sample_responses, name) },
+        }),
+      });
+    }
+  }
+
+  const sections = ['style_references', 'case_studies', 'analysis_patterns'] as const;
+  for (const section of sections) {
+    if (persona[section] && Object.keys(persona[section]!).length > 0) {
+      reductions.push({
+        label: section.replace(/_/g, ' '),
+        apply: (s) => ({ ...s, persona: { ...s.persona, [section]: undefined } }),
+      });
+    }
+  }
+
+  return reductions;
+}
+
+function omit<T>(record: Record<string, T> | undefined, key: string): Record<string, T> {
+  return Object.fromEntries(Object.entries(record ?? {}).filter(([name]) => name !== key));
+}
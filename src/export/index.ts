@@ -0,0 +1,39 @@
+/**
+ * Export Module
+ *
+ * Converts personas into formats consumed outside the MCP server.
+ *
+ * Components:
+ * - Tool Groups: Resolve agent_config.tools into concrete tool lists
+ * - Agent SDK: Claude Agent SDK subagent definitions
+ * - Formats: System prompt, JSON, markdown dossier and chat template, with token budgets
+ */
+
+// Tool Groups
+export {
+  DEFAULT_TOOL_GROUPS,
+  DEFAULT_TOOL_GROUPS_FILE,
+  DEFAULT_AGENT_TOOLS,
+  loadToolGroups,
+  resolveAgentTools,
+} from './tool-groups.js';
+
+export type { ToolGroupMapping, ResolvedAgentTools } from './tool-groups.js';
+
+// Agent SDK
+export { AGENT_SDK_OUTPUT_DIR, renderAgentDefinition, exportAgents } from './agent-sdk.js';
+
+export type { AgentExportOptions, AgentDefinitionFile } from './agent-sdk.js';
+
+// Formats
+export { DOCUMENT_FORMATS, FORMAT_EXTENSIONS, renderDocument } from './formats.js';
+
+export type { DocumentFormat, DocumentExportOptions, DocumentExport } from './formats.js';
+
+// Markdown Dossier
+export { renderMarkdownDossier } from './markdown.js';
+
+// Chat Template
+export { buildChatTemplate } from './chat-template.js';
+
+export type { ChatMessage } from './chat-template.js';
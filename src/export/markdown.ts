@@ -0,0 +1,167 @@
+/**
+ * Markdown Dossier
+ *
+ * Renders a persona as a human-readable document with everything in the
+ * definition: identity, voice, all frameworks with their concepts, case
+ * studies, analysis patterns, style references and sample responses.
+ */
+
+import type { Framework, PersonaDefinition } from '../core/types.js';
+
+/**
+ * Render a persona as a markdown dossier
+ */
+export function renderMarkdownDossier(persona: PersonaDefinition): string {
+  const { identity, voice } = persona;
+  const lines = [`# ${identity.name}\n`, `*${identity.role}*\n`];
+
+  if (identity.era) {
+    lines.push(`**Era**: ${identity.era}\n`);
+  }
+  lines.push(`${identity.background.trim()}\n`);
+  if (identity.notable_works?.length) {
+    lines.push(`**Notable works**:`);
+    identity.notable_works.forEach((work) => lines.push(`- ${work}`));
+    lines.push('');
+  }
+
+  lines.push(`## Voice\n`);
+  lines.push(`**Tone**: ${voice.tone.join(', ')}\n`);
+  lines.push(`**Characteristic phrases**:`);
+  voice.phrases.forEach((phrase) => lines.push(`- "${phrase}"`));
+  lines.push(`\n**Style**:`);
+  voice.style.forEach((style) => lines.push(`- ${style}`));
+  if (voice.constraints?.length) {
+    lines.push(`\n**Never**:`);
+    voice.constraints.forEach((constraint) => lines.push(`- ${constraint}`));
+  }
+  lines.push('');
+
+  lines.push(`## Frameworks\n`);
+  for (const [name, framework] of Object.entries(persona.frameworks)) {
+    lines.push(...renderFramework(name, framework));
+  }
+
+  const caseStudies = Object.entries(persona.case_studies ?? {});
+  if (caseStudies.length > 0) {
+    lines.push(`## Case Studies\n`);
+    for (const [name, cs] of caseStudies) {
+      lines.push(`### ${formatName(name)}\n`);
+      lines.push(`**Pattern**: ${cs.pattern}\n`);
+      lines.push(`${cs.story.trim()}\n`);
+      if (cs.signals?.length) {
+        lines.push(`**Signals**:`);
+        cs.signals.forEach((signal) => lines.push(`- ${signal}`));
+        lines.push('');
+      }
+      if (cs.lessons?.length) {
+        lines.push(`**Lessons**:`);
+        cs.lessons.forEach((lesson) => lines.push(`- ${lesson}`));
+        lines.push('');
+      }
+      if (cs.source) {
+        lines.push(`*Source: ${cs.source}*\n`);
+      }
+    }
+  }
+
+  const patterns = persona.analysis_patterns;
+  if (patterns && (patterns.approach?.length || patterns.output_structure?.length)) {
+    lines.push(`## Analysis Approach\n`);
+    patterns.approach?.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+    if (patterns.output_structure?.length) {
+      lines.push(`\n**Output structure**:`);
+      for (const section of patterns.output_structure) {
+        lines.push(`- **${section.section}**${section.purpose ? `: ${section.purpose}` : ''}`);
+      }
+    }
+    if (patterns.synthesis_guidance) {
+      lines.push(`\n${patterns.synthesis_guidance.trim()}`);
+    }
+    lines.push('');
+  }
+
+  const references = Object.entries(persona.style_references ?? {});
+  if (references.length > 0) {
+    lines.push(`## Style References\n`);
+    for (const [name, ref] of references) {
+      lines.push(`### ${formatName(name)}\n`);
+      lines.push(`${ref.description.trim()}\n`);
+      lines.push(`**Emotional quality**: ${ref.emotional_quality}\n`);
+      lines.push(`**Design principles**:`);
+      ref.design_principles.forEach((principle) => lines.push(`- ${principle}`));
+      lines.push('');
+    }
+  }
+
+  const samples = Object.entries(persona.sample_responses ?? {});
+  if (samples.length > 0) {
+    lines.push(`## Sample Responses\n`);
+    for (const [name, sample] of samples) {
+      lines.push(`### ${formatName(name)}\n`);
+      lines.push(`**Prompt**: ${sample.prompt.trim()}\n`);
+      lines.push(`**In character**:\n`);
+      lines.push(`${quote(sample.good_response)}\n`);
+      if (sample.bad_response) {
+        lines.push(`**Out of character**:\n`);
+        lines.push(`${quote(sample.bad_response)}\n`);
+      }
+      if (sample.explanation) {
+        lines.push(`${sample.explanation.trim()}\n`);
+      }
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function renderFramework(name: string, framework: Framework): string[] {
+  const lines = [`### ${formatName(name)}\n`, `${framework.description.trim()}\n`];
+
+  if (framework.when_to_use) {
+    lines.push(`**When to use**: ${framework.when_to_use.trim()}\n`);
+  }
+
+  const concepts = Object.entries(framework.concepts ?? {});
+  if (concepts.length > 0) {
+    lines.push(`**Concepts**:`);
+    for (const [conceptName, concept] of concepts) {
+      lines.push(`- **${formatName(conceptName)}**: ${concept.definition.trim()}`);
+      if (concept.insight) {
+        lines.push(`  - *Insight*: ${concept.insight.trim()}`);
+      }
+      concept.examples?.forEach((example) => lines.push(`  - *Example*: ${example}`));
+    }
+    lines.push('');
+  }
+
+  if (framework.questions?.length) {
+    lines.push(`**Diagnostic questions**:`);
+    framework.questions.forEach((question) => lines.push(`- ${question}`));
+    lines.push('');
+  }
+
+  if (framework.common_mistakes?.length) {
+    lines.push(`**Common mistakes**:`);
+    framework.common_mistakes.forEach((mistake) => lines.push(`- ${mistake}`));
+    lines.push('');
+  }
+
+  return lines;
+}
+
+// Utility
+function quote(text: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+}
+
+function formatName(name: string): string {
+  return name
+    .split(/[_-]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
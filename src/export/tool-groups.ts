@@ -0,0 +1,117 @@
+/**
+ * Tool Groups
+ *
+ * Resolves an agent's `agent_config.tools` (named groups, additional tools
+ * and exclusions) into a concrete tool list. Groups map to tool names via a
+ * YAML mapping file layered over built-in defaults for Claude's own tools.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import type { AgentToolConfig } from '../core/types.js';
+
+/**
+ * Group name -> tool names
+ */
+export type ToolGroupMapping = Record<string, string[]>;
+
+/**
+ * Default mapping file, looked up in the working directory
+ */
+export const DEFAULT_TOOL_GROUPS_FILE = 'tool-groups.yaml';
+
+/**
+ * Built-in groups for Claude's own tools. Integration groups (github,
+ * linear, slack, ...) depend on the MCP servers installed, so they come
+ * from the mapping file.
+ */
+export const DEFAULT_TOOL_GROUPS: ToolGroupMapping = {
+  file: ['Read', 'Write', 'Edit', 'Glob', 'Grep'],
+  coding: ['Read', 'Write', 'Edit', 'Glob', 'Grep', 'Bash'],
+  code_review: ['Read', 'Glob', 'Grep', 'Bash'],
+  qa: ['Read', 'Glob', 'Grep', 'Bash'],
+  web: ['WebFetch', 'WebSearch'],
+};
+
+/**
+ * Claude's own tools, which exclusions apply to when no groups or
+ * additional tools are configured
+ */
+export const DEFAULT_AGENT_TOOLS: string[] = [
+  ...new Set(Object.values(DEFAULT_TOOL_GROUPS).flat()),
+];
+
+/**
+ * Resolved tool list for an agent
+ */
+export interface ResolvedAgentTools {
+  /** Tool names, or undefined when the agent configures no tools (inherit all) */
+  tools?: string[];
+}
+
+/**
+ * Load a group mapping file (`groups: { name: [tools] }`) layered over the
+ * built-in groups. Without a path, uses tool-groups.yaml when present.
+ */
+export function loadToolGroups(filePath?: string): ToolGroupMapping {
+  const path = filePath ?? DEFAULT_TOOL_GROUPS_FILE;
+
+  if (!existsSync(path)) {
+    if (filePath) {
+      throw new Error(`Tool group mapping not found: ${filePath}`);
+    }
+    return { ...DEFAULT_TOOL_GROUPS };
+  }
+
+  const content = parseYaml(readFileSync(path, 'utf-8')) as { groups?: unknown } | null;
+  const groups = content?.groups;
+
+  if (!groups || typeof groups !== 'object' || Array.isArray(groups)) {
+    throw new Error(`Tool group mapping ${path} must have a "groups" map`);
+  }
+
+  const mapping: ToolGroupMapping = { ...DEFAULT_TOOL_GROUPS };
+  for (const [name, tools] of Object.entries(groups)) {
+    if (!Array.isArray(tools) || !tools.every((tool) => typeof tool === 'string')) {
+      throw new Error(`Tool group "${name}" in ${path} must be a list of tool names`);
+    }
+    mapping[name] = tools;
+  }
+
+  return mapping;
+}
+
+/**
+ * Resolve groups and additional tools, then apply exclusions. Order follows
+ * first appearance; duplicates are dropped. Exclusions alone apply to
+ * DEFAULT_AGENT_TOOLS. Throws on groups missing from the mapping.
+ */
+export function resolveAgentTools(
+  config: AgentToolConfig | undefined,
+  groups: ToolGroupMapping = DEFAULT_TOOL_GROUPS,
+): ResolvedAgentTools {
+  if (
+    !config ||
+    (!config.groups?.length && !config.additional?.length && !config.exclude?.length)
+  ) {
+    return {};
+  }
+
+  const unknownGroups = (config.groups ?? []).filter((group) => !groups[group]);
+  if (unknownGroups.length > 0) {
+    throw new Error(
+      `Unknown tool group(s): ${unknownGroups.join(', ')} (available: ${Object.keys(groups).join(', ')})`,
+    );
+  }
+
+  const tools = new Set<string>();
+  if (!config.groups?.length && !config.additional?.length) {
+    DEFAULT_AGENT_TOOLS.forEach((tool) => tools.add(tool));
+  }
+
+  (config.groups ?? []).forEach((group) => groups[group].forEach((tool) => tools.add(tool)));
+  (config.additional ?? []).forEach((tool) => tools.add(tool));
+  (config.exclude ?? []).forEach((tool) => tools.delete(tool));
+
+  return { tools: [...tools] };
+}
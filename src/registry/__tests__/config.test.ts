@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  loadAcademyConfig,
+  addRegistry,
+  removeRegistry,
+  getConfiguredRegistries,
+  selectRegistries,
+  DEFAULT_REGISTRY_NAME,
+} from '../config.js';
+import { DEFAULT_REGISTRY_CONFIG } from '../types.js';
+
+describe('academy config', () => {
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-config-test-'));
+    configPath = join(tempDir, 'config.yaml');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns an empty config when the file does not exist', () => {
+    expect(loadAcademyConfig(configPath)).toEqual({ registries: [] });
+  });
+
+  it('falls back to the default registry when none are configured', () => {
+    const registries = getConfiguredRegistries(configPath);
+
+    expect(registries).toHaveLength(1);
+    expect(registries[0]).toMatchObject({
+      name: DEFAULT_REGISTRY_NAME,
+      repository: DEFAULT_REGISTRY_CONFIG.repository,
+    });
+  });
+
+  it('adds registries with inferred types and persists them', () => {
+    const added = addRegistry(
+      { name: 'company-internal', url: 'git+ssh://git.internal/personas.git', priority: 100 },
+      configPath,
+    );
+
+    expect(added.type).toBe('git');
+    expect(readFileSync(configPath, 'utf-8')).toContain('company-internal');
+    expect(loadAcademyConfig(configPath).registries).toHaveLength(1);
+  });
+
+  it('rejects duplicate names and invalid URLs', () => {
+    addRegistry({ name: 'public', url: 'm2ai-portfolio/persona-registry' }, configPath);
+
+    expect(() => addRegistry({ name: 'public', url: 'other/registry' }, configPath)).toThrow(
+      'already exists',
+    );
+    expect(() => addRegistry({ name: 'broken', url: 'not a registry' }, configPath)).toThrow(
+      'Unrecognized registry',
+    );
+  });
+
+  it('removes registries by name', () => {
+    addRegistry({ name: 'team-sandbox', url: 'file:///srv/sandbox' }, configPath);
+
+    expect(removeRegistry('team-sandbox', configPath)).toBe(true);
+    expect(removeRegistry('team-sandbox', configPath)).toBe(false);
+    expect(loadAcademyConfig(configPath).registries).toEqual([]);
+  });
+
+  it('orders registries by priority, highest first', () => {
+    writeFileSync(
+      configPath,
+      `registries:
+  - name: public
+    url: m2ai-portfolio/persona-registry
+    priority: 10
+  - name: team-sandbox
+    url: file:///srv/sandbox
+  - name: company-internal
+    url: https://personas.internal/registry
+    branch: stable
+    priority: 100
+`,
+    );
+
+    const registries = getConfiguredRegistries(configPath);
+
+    expect(registries.map((r) => r.name)).toEqual(['company-internal', 'public', 'team-sandbox']);
+    expect(registries[0]).toMatchObject({ type: 'http', branch: 'stable', priority: 100 });
+    expect(registries[2]).toMatchObject({ type: 'file', repository: '/srv/sandbox', priority: 0 });
+  });
+
+  it('rejects malformed config files', () => {
+    writeFileSync(configPath, 'registries:\n  - name: missing-url\n');
+
+    expect(() => loadAcademyConfig(configPath)).toThrow('needs a name and url');
+  });
+
+  describe('selectRegistries', () => {
+    beforeEach(() => {
+      addRegistry({ name: 'public', url: 'm2ai-portfolio/persona-registry' }, configPath);
+      addRegistry({ name: 'internal', url: 'file:///srv/internal', priority: 5 }, configPath);
+    });
+
+    it('uses all configured registries by default', () => {
+      expect(selectRegistries({}, configPath).map((r) => r.name)).toEqual(['internal', 'public']);
+    });
+
+    it('selects a configured registry by name', () => {
+      const [selected, ...rest] = selectRegistries({ registry: 'public' }, configPath);
+
+      expect(rest).toEqual([]);
+      expect(selected).toMatchObject({ name: 'public', type: 'github' });
+    });
+
+    it('accepts an ad-hoc registry URL and branch override', () => {
+      const selected = selectRegistries(
+        { registry: 'other-org/registry', branch: 'dev' },
+        configPath,
+      );
+
+      expect(selected).toEqual([
+        expect.objectContaining({
+          name: 'other-org/registry',
+          type: 'github',
+          repository: 'other-org/registry',
+          branch: 'dev',
+        }),
+      ]);
+    });
+  });
+});
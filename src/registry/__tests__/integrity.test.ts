@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, appendFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  computeContentHash,
+  verifyContentHash,
+  generateSigningKeyPair,
+  isSigningPublicKey,
+  signContent,
+  verifySignature,
+  writeSignatureFile,
+  verifyCachedPersona,
+} from '../integrity.js';
+import { cachePersona, getCachedPersona } from '../cache-manager.js';
+import { pullPersona, pullPersonas, pullFromRegistries } from '../registry-client.js';
+import { createRegistryEntry } from '../index-builder.js';
+import type { RegistryConfig, TrustedKey } from '../types.js';
+
+const PERSONA_YAML = `identity:
+  name: "Signed Persona"
+  role: "Tester"
+  background: "Tests signatures."
+
+frameworks:
+  testing:
+    description: "A testing framework"
+
+metadata:
+  version: "1.0.0"
+`;
+
+const { privateKey, publicKey } = generateSigningKeyPair();
+const TRUSTED: TrustedKey[] = [{ id: 'academy', publicKey }];
+
+describe('content hashes', () => {
+  it('hashes content as sha256:<hex>', () => {
+    const hash = computeContentHash(PERSONA_YAML);
+
+    expect(hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(verifyContentHash(PERSONA_YAML, hash)).toBe(true);
+    expect(verifyContentHash(PERSONA_YAML + '\n', hash)).toBe(false);
+  });
+
+  it('rejects unsupported hash algorithms', () => {
+    expect(() => verifyContentHash(PERSONA_YAML, 'md5:abc')).toThrow('Unsupported hash algorithm');
+  });
+});
+
+describe('signatures', () => {
+  it('verifies signatures from trusted keys', () => {
+    const signature = signContent(PERSONA_YAML, privateKey, 'academy');
+
+    expect(signature.keyId).toBe('academy');
+    expect(verifySignature(PERSONA_YAML, signature, TRUSTED)).toBe('valid');
+  });
+
+  it('detects modified content', () => {
+    const signature = signContent(PERSONA_YAML, privateKey, 'academy');
+
+    expect(verifySignature(PERSONA_YAML.replace('Tester', 'Attacker'), signature, TRUSTED)).toBe(
+      'invalid',
+    );
+  });
+
+  it('reports signatures from unknown keys as untrusted', () => {
+    const other = generateSigningKeyPair();
+    const signature = signContent(PERSONA_YAML, other.privateKey, 'other');
+
+    expect(verifySignature(PERSONA_YAML, signature, TRUSTED)).toBe('untrusted');
+    expect(verifySignature(PERSONA_YAML, { ...signature, keyId: 'academy' }, TRUSTED)).toBe(
+      'invalid',
+    );
+  });
+
+  it('recognizes ed25519 public keys', () => {
+    expect(isSigningPublicKey(publicKey)).toBe(true);
+    expect(isSigningPublicKey(privateKey)).toBe(false);
+    expect(isSigningPublicKey('not a key')).toBe(false);
+  });
+});
+
+describe('verified caching and pulls', () => {
+  let tempDir: string;
+  let config: RegistryConfig;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-integrity-test-'));
+    mkdirSync(join(tempDir, 'registry', 'personas', 'signed-persona'), { recursive: true });
+    config = {
+      name: 'local',
+      type: 'file',
+      repository: join(tempDir, 'registry'),
+      branch: 'main',
+      basePath: 'personas',
+      cacheDir: join(tempDir, 'cache', 'personas'),
+      trustedKeys: TRUSTED,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writePersona(content: string = PERSONA_YAML): string {
+    const yamlPath = join(tempDir, 'registry', 'personas', 'signed-persona', 'persona.yaml');
+    writeFileSync(yamlPath, content);
+    return yamlPath;
+  }
+
+  it('refuses to cache content that does not match the entry hash', () => {
+    const entry = createRegistryEntry('signed-persona', {});
+    entry.hash = computeContentHash('something else');
+
+    expect(() => cachePersona(entry, PERSONA_YAML, undefined, config)).toThrow(
+      'Content hash mismatch',
+    );
+  });
+
+  it('refuses to cache content with an invalid trusted signature', () => {
+    const entry = createRegistryEntry('signed-persona', {});
+    entry.signature = signContent('something else', privateKey, 'academy');
+
+    expect(() => cachePersona(entry, PERSONA_YAML, undefined, config)).toThrow('Invalid signature');
+  });
+
+  it('pulls signed personas and reports the signing key', async () => {
+    const yamlPath = writePersona();
+    writeSignatureFile(yamlPath, signContent(PERSONA_YAML, privateKey, 'academy'));
+
+    const [result] = await pullFromRegistries(['signed-persona'], false, [config]);
+
+    expect(result.success).toBe(true);
+    expect(result.signedBy).toBe('academy');
+  });
+
+  it('fails pulls whose signature does not match the content', async () => {
+    const yamlPath = writePersona();
+    writeSignatureFile(yamlPath, signContent('tampered', privateKey, 'academy'));
+
+    const [result] = await pullFromRegistries(['signed-persona'], false, [config]);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Invalid signature');
+  });
+
+  it('checks batch pulls against the registry index', async () => {
+    const yamlPath = writePersona();
+    writeSignatureFile(yamlPath, signContent('tampered', privateKey, 'academy'));
+
+    const [result] = await pullPersonas(['signed-persona'], false, config);
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Invalid signature');
+  });
+
+  it('classifies cached personas by integrity', async () => {
+    const yamlPath = writePersona();
+    writeSignatureFile(yamlPath, signContent(PERSONA_YAML, privateKey, 'academy'));
+    await pullFromRegistries(['signed-persona'], false, [config]);
+
+    const cached = getCachedPersona('signed-persona', config)!;
+
+    expect(verifyCachedPersona(cached, TRUSTED)).toBe('verified');
+    expect(verifyCachedPersona(cached, [])).toBe('untrusted');
+    expect(verifyCachedPersona({ ...cached, signature: undefined }, TRUSTED)).toBe('unsigned');
+    expect(verifyCachedPersona({ ...cached, hash: '', signature: undefined })).toBe('tampered');
+
+    appendFileSync(join(cached.localPath, 'persona.yaml'), '# edited\n');
+    expect(verifyCachedPersona(cached, TRUSTED)).toBe('tampered');
+  });
+
+  it('records the content hash of unsigned pulls', async () => {
+    writePersona();
+
+    const result = await pullPersona('signed-persona', false, config);
+
+    expect(result.success).toBe(true);
+    expect(result.signedBy).toBeUndefined();
+    expect(getCachedPersona('signed-persona', config)?.hash).toBe(computeContentHash(PERSONA_YAML));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createEmptyLockfile, loadLockfile, saveLockfile, lockPullResults } from '../lockfile.js';
+import type { PullResult } from '../types.js';
+
+function makeResult(overrides: Partial<PullResult> = {}): PullResult {
+  return {
+    success: true,
+    personaId: 'christensen',
+    action: 'downloaded',
+    message: 'ok',
+    version: '1.2.3',
+    registry: 'public',
+    sha: 'abc123',
+    hash: 'sha256:abc123',
+    ...overrides,
+  };
+}
+
+describe('lockfile', () => {
+  let tempDir: string;
+  let lockfilePath: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-lock-test-'));
+    lockfilePath = join(tempDir, 'persona-lock.yaml');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('returns null when the lockfile does not exist', () => {
+    expect(loadLockfile(lockfilePath)).toBeNull();
+  });
+
+  it('round-trips personas sorted by id', () => {
+    const lockfile = createEmptyLockfile();
+    lockfile.personas.porter = { version: '2.0.0', registry: 'public' };
+    lockfile.personas.christensen = { version: '1.2.3', sha: 'abc', registry: 'internal' };
+
+    saveLockfile(lockfile, lockfilePath);
+
+    const content = readFileSync(lockfilePath, 'utf-8');
+    expect(content).toMatch(/^# This file is generated/);
+    expect(content.indexOf('christensen')).toBeLessThan(content.indexOf('porter'));
+    expect(loadLockfile(lockfilePath)).toEqual(lockfile);
+  });
+
+  it('rejects lockfiles with an unknown version', () => {
+    writeFileSync(lockfilePath, 'lockfileVersion: 99\npersonas: {}\n');
+
+    expect(() => loadLockfile(lockfilePath)).toThrow('Unsupported lockfile version');
+  });
+
+  it('records successful pulls and counts changes', () => {
+    const lockfile = createEmptyLockfile();
+
+    const changed = lockPullResults(lockfile, [
+      makeResult({ requested: '^1.2' }),
+      makeResult({ personaId: 'porter', success: false, action: 'failed' }),
+    ]);
+
+    expect(changed).toBe(1);
+    expect(lockfile.personas).toEqual({
+      christensen: {
+        version: '1.2.3',
+        sha: 'abc123',
+        hash: 'sha256:abc123',
+        registry: 'public',
+        requested: '^1.2',
+      },
+    });
+
+    expect(lockPullResults(lockfile, [makeResult({ requested: '^1.2' })])).toBe(0);
+  });
+});
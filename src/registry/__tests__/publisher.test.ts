@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { simpleGit } from 'simple-git';
+import { parse as parseYaml } from 'yaml';
+import { pushPersona } from '../publisher.js';
+import { loadPersonaFromFile } from '../../core/persona-loader.js';
+import { computeBlobSha } from '../index-builder.js';
+import type { RegistryConfig, RegistryIndex } from '../types.js';
+
+const PERSONA_YAML = `# Test persona
+identity:
+  name: "Test Persona"
+  role: "Tester"
+  background: "Tests things."
+
+voice:
+  tone: ["direct"]
+  phrases: ["Let's test it"]
+  style: ["Concise"]
+
+frameworks:
+  testing:
+    description: "A testing framework"
+    concepts:
+      coverage:
+        definition: "How much is tested"
+
+validation:
+  must_include:
+    - pattern: "test"
+
+metadata:
+  version: "1.2.3"
+  author: "Academy"
+  category: "technical-architect"
+`;
+
+describe('pushPersona (local bare registry)', () => {
+  let tempDir: string;
+  let bareRepo: string;
+  let personaDir: string;
+  let config: RegistryConfig;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-push-test-'));
+    bareRepo = join(tempDir, 'registry.git');
+    await simpleGit().raw(['init', '--bare', '--initial-branch=main', bareRepo]);
+
+    // Seed the registry with an initial commit on main
+    const seedDir = join(tempDir, 'seed');
+    await simpleGit().clone(bareRepo, seedDir);
+    const seed = simpleGit(seedDir);
+    await seed.addConfig('user.name', 'seed');
+    await seed.addConfig('user.email', 'seed@localhost');
+    await seed.checkoutLocalBranch('main');
+    writeFileSync(join(seedDir, 'README.md'), '# Registry\n');
+    await seed.add('.');
+    await seed.commit('Initial commit');
+    await seed.push('origin', 'main');
+
+    personaDir = join(tempDir, 'personas', 'test-persona');
+    mkdirSync(join(personaDir, 'case-studies'), { recursive: true });
+    writeFileSync(join(personaDir, 'persona.yaml'), PERSONA_YAML);
+    writeFileSync(
+      join(personaDir, 'case-studies', 'example.yaml'),
+      'pattern: "Example"\nstory: "A story"',
+    );
+
+    config = {
+      type: 'git',
+      repository: bareRepo,
+      branch: 'main',
+      basePath: 'personas',
+      cacheDir: join(tempDir, 'cache'),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function readBranch(branch: string): Promise<string> {
+    const checkout = join(mkdtempSync(join(tempDir, 'checkout-')), 'repo');
+    await simpleGit().clone(bareRepo, checkout, ['--branch', branch]);
+    return checkout;
+  }
+
+  async function mergeIntoMain(branch: string): Promise<void> {
+    const checkout = await readBranch('main');
+    const git = simpleGit(checkout);
+    await git.addConfig('user.name', 'seed');
+    await git.addConfig('user.email', 'seed@localhost');
+    await git.merge([`origin/${branch}`]);
+    await git.push('origin', 'main');
+  }
+
+  it('pushes a branch with the persona, bumped version, and index entry', async () => {
+    const result = await pushPersona(personaDir, {}, config);
+
+    expect(result.success).toBe(true);
+    expect(result.action).toBe('created');
+    expect(result.commitSha).toMatch(/^[0-9a-f]{40}$/);
+    expect(result.pullRequestUrl).toBeUndefined();
+
+    const checkout = await readBranch('persona/test-persona-v1.2.4');
+    const pushedYaml = readFileSync(join(checkout, 'personas/test-persona/persona.yaml'), 'utf-8');
+    expect(pushedYaml).toContain('# Test persona');
+    expect(parseYaml(pushedYaml).metadata.version).toBe('1.2.4');
+    expect(existsSync(join(checkout, 'personas/test-persona/case-studies/example.yaml'))).toBe(
+      true,
+    );
+
+    const index = JSON.parse(
+      readFileSync(join(checkout, 'personas/index.json'), 'utf-8'),
+    ) as RegistryIndex;
+    expect(index.totalPersonas).toBe(1);
+    expect(index.categories['technical-architect']).toBe(1);
+    expect(index.personas[0]).toMatchObject({
+      id: 'test-persona',
+      version: '1.2.4',
+      frameworkCount: 1,
+      caseStudyCount: 1,
+      sha: computeBlobSha(pushedYaml),
+    });
+  });
+
+  it('writes the bumped version back to the local persona after pushing', async () => {
+    await pushPersona(personaDir, { bump: 'minor' }, config);
+
+    const local = parseYaml(readFileSync(join(personaDir, 'persona.yaml'), 'utf-8'));
+    expect(local.metadata.version).toBe('1.3.0');
+  });
+
+  it('archives the previous version when publishing a new one', async () => {
+    await pushPersona(personaDir, {}, config);
+    await mergeIntoMain('persona/test-persona-v1.2.4');
+
+    const result = await pushPersona(personaDir, { bump: 'minor' }, config);
+    expect(result.action).toBe('updated');
+
+    const checkout = await readBranch('persona/test-persona-v1.3.0');
+    const index = JSON.parse(
+      readFileSync(join(checkout, 'personas/index.json'), 'utf-8'),
+    ) as RegistryIndex;
+    expect(index.personas[0].versions).toEqual([
+      expect.objectContaining({ version: '1.3.0', path: 'test-persona/persona.yaml' }),
+      expect.objectContaining({
+        version: '1.2.4',
+        path: 'test-persona/versions/1.2.4/persona.yaml',
+      }),
+    ]);
+
+    const archived = readFileSync(
+      join(checkout, 'personas/test-persona/versions/1.2.4/persona.yaml'),
+      'utf-8',
+    );
+    expect(parseYaml(archived).metadata.version).toBe('1.2.4');
+  });
+
+  it('publishes personas with outside dependencies flattened', async () => {
+    const childDir = join(tempDir, 'personas', 'child-persona');
+    mkdirSync(join(childDir, 'frameworks'), { recursive: true });
+    writeFileSync(
+      join(childDir, 'persona.yaml'),
+      'extends: test-persona\nidentity:\n  name: "Child Persona"\n',
+    );
+    writeFileSync(join(childDir, 'frameworks', 'review.yaml'), '$ref: "lib:house-review"\n');
+    mkdirSync(join(tempDir, 'frameworks'));
+    writeFileSync(
+      join(tempDir, 'frameworks', 'house-review.yaml'),
+      'description: "House review checklist"\n',
+    );
+
+    const result = await pushPersona(childDir, {}, config);
+    expect(result.success).toBe(true);
+
+    const checkout = await readBranch('persona/child-persona-v1.2.4');
+    const publishedDir = join(checkout, 'personas/child-persona');
+    expect(existsSync(join(publishedDir, 'frameworks'))).toBe(false);
+
+    // Loads without the parent persona or the project library
+    const isolated = join(mkdtempSync(join(tmpdir(), 'persona-pulled-')), 'child-persona');
+    mkdirSync(isolated);
+    writeFileSync(
+      join(isolated, 'persona.yaml'),
+      readFileSync(join(publishedDir, 'persona.yaml'), 'utf-8'),
+    );
+    const pulled = loadPersonaFromFile(join(isolated, 'persona.yaml'));
+    rmSync(join(isolated, '..'), { recursive: true, force: true });
+
+    expect(pulled.identity.name).toBe('Child Persona');
+    expect(pulled.extends).toBeUndefined();
+    expect(Object.keys(pulled.frameworks)).toEqual(['testing', 'review']);
+    expect(pulled.frameworks.review).toEqual({ description: 'House review checklist' });
+    expect(pulled.metadata?.version).toBe('1.2.4');
+
+    // The local persona keeps its extends and only gets the version bump
+    const local = parseYaml(readFileSync(join(childDir, 'persona.yaml'), 'utf-8'));
+    expect(local).toMatchObject({ extends: 'test-persona', metadata: { version: '1.2.4' } });
+  });
+
+  it('fails without pushing when the persona is invalid', async () => {
+    writeFileSync(join(personaDir, 'persona.yaml'), 'identity:\n  name: "Broken"\n');
+
+    const result = await pushPersona(personaDir, {}, config);
+
+    expect(result.success).toBe(false);
+    expect(result.action).toBe('failed');
+    expect(result.message).toContain('Invalid persona definition');
+
+    const branches = await simpleGit(bareRepo).branch();
+    expect(branches.all).toEqual(['main']);
+  });
+
+  it('refuses to push to registries that are not git-backed', async () => {
+    const result = await pushPersona(personaDir, {}, { ...config, type: 'http' });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('not supported');
+  });
+});
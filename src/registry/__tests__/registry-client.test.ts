@@ -0,0 +1,435 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { simpleGit } from 'simple-git';
+import {
+  parseRegistryUrl,
+  isGitHubRepository,
+  getRegistryBackend,
+  fetchRegistryIndex,
+  pullPersona,
+  checkRegistryAccess,
+  fetchMergedRegistryIndex,
+  pullFromRegistries,
+  pullLocked,
+  parsePersonaSpec,
+} from '../registry-client.js';
+import { createEmptyLockfile } from '../lockfile.js';
+import { getCachedPersona } from '../cache-manager.js';
+import { computeBlobSha } from '../index-builder.js';
+import { computeContentHash } from '../integrity.js';
+import type { RegistryConfig } from '../types.js';
+
+const PERSONA_YAML = `identity:
+  name: "Test Persona"
+  role: "Tester"
+  background: "Tests things."
+
+frameworks:
+  testing:
+    description: "A testing framework"
+
+metadata:
+  version: "2.0.0"
+  author: "Academy"
+  category: "domain-expert"
+  tags: ["testing"]
+`;
+
+/**
+ * Create a registry layout (<root>/personas/<id>/persona.yaml) on disk
+ */
+function writeRegistry(root: string, personaIds: string[] = ['test-persona']): void {
+  for (const personaId of personaIds) {
+    mkdirSync(join(root, 'personas', personaId), { recursive: true });
+    writeFileSync(join(root, 'personas', personaId, 'persona.yaml'), PERSONA_YAML);
+  }
+}
+
+function makeConfig(overrides: Partial<RegistryConfig>, cacheRoot: string): RegistryConfig {
+  return {
+    type: 'file',
+    repository: '',
+    branch: 'main',
+    basePath: 'personas',
+    cacheDir: join(cacheRoot, 'cache', 'personas'),
+    ...overrides,
+  };
+}
+
+describe('parseRegistryUrl', () => {
+  it('detects GitHub shorthand', () => {
+    expect(parseRegistryUrl('your-org/persona-registry')).toEqual({
+      type: 'github',
+      repository: 'your-org/persona-registry',
+    });
+  });
+
+  it('detects file:// URLs', () => {
+    expect(parseRegistryUrl('file:///srv/persona-registry')).toEqual({
+      type: 'file',
+      repository: '/srv/persona-registry',
+    });
+  });
+
+  it('detects git URLs and strips the git+ prefix', () => {
+    expect(parseRegistryUrl('git+ssh://git@git.internal/registry.git')).toEqual({
+      type: 'git',
+      repository: 'ssh://git@git.internal/registry.git',
+    });
+    expect(parseRegistryUrl('git@git.internal:team/registry.git').type).toBe('git');
+    expect(parseRegistryUrl('https://git.internal/team/registry.git').type).toBe('git');
+  });
+
+  it('detects static HTTP registries', () => {
+    expect(parseRegistryUrl('https://personas.internal/registry')).toEqual({
+      type: 'http',
+      repository: 'https://personas.internal/registry',
+    });
+  });
+
+  it('rejects unrecognized values', () => {
+    expect(() => parseRegistryUrl('not a registry')).toThrow('Unrecognized registry');
+  });
+});
+
+describe('parsePersonaSpec', () => {
+  it('splits ids and version ranges', () => {
+    expect(parsePersonaSpec('christensen')).toEqual({ id: 'christensen' });
+    expect(parsePersonaSpec('christensen@^1.2')).toEqual({ id: 'christensen', range: '^1.2' });
+  });
+
+  it('rejects invalid ranges', () => {
+    expect(() => parsePersonaSpec('christensen@soon')).toThrow('Invalid persona spec');
+  });
+});
+
+describe('isGitHubRepository', () => {
+  it('recognizes owner/repo shorthand', () => {
+    expect(isGitHubRepository('m2ai-portfolio/persona-registry')).toBe(true);
+  });
+
+  it('rejects git URLs and paths', () => {
+    expect(isGitHubRepository('/srv/git/registry.git')).toBe(false);
+    expect(isGitHubRepository('git@github.com:org/registry.git')).toBe(false);
+    expect(isGitHubRepository('file:///srv/git/registry.git')).toBe(false);
+  });
+});
+
+describe('registry backends', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-registry-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('file backend', () => {
+    it('builds an index by scanning when index.json is missing', async () => {
+      const root = join(tempDir, 'registry');
+      writeRegistry(root);
+      const config = makeConfig({ repository: `file://${root}` }, tempDir);
+
+      const index = await fetchRegistryIndex(config);
+
+      expect(index.totalPersonas).toBe(1);
+      expect(index.personas[0]).toMatchObject({
+        id: 'test-persona',
+        version: '2.0.0',
+        tags: ['testing'],
+        sha: computeBlobSha(PERSONA_YAML),
+      });
+    });
+
+    it('pulls a persona into the cache and detects it is current', async () => {
+      const root = join(tempDir, 'registry');
+      writeRegistry(root);
+      const config = makeConfig({ repository: root }, tempDir);
+
+      const first = await pullPersona('test-persona', false, config);
+      expect(first.success).toBe(true);
+      expect(readFileSync(join(first.localPath!, 'persona.yaml'), 'utf-8')).toBe(PERSONA_YAML);
+
+      const second = await pullPersona('test-persona', false, config);
+      expect(second.action).toBe('already-current');
+    });
+
+    it('reports missing directories as inaccessible', async () => {
+      const config = makeConfig({ repository: join(tempDir, 'missing') }, tempDir);
+
+      const access = await checkRegistryAccess(config);
+
+      expect(access.accessible).toBe(false);
+    });
+  });
+
+  describe('git backend', () => {
+    it('clones the registry and serves personas from the checkout', async () => {
+      const source = join(tempDir, 'source');
+      writeRegistry(source);
+      const git = simpleGit();
+      await git.raw(['init', '--initial-branch=main', source]);
+      const repo = simpleGit(source);
+      await repo.addConfig('user.name', 'test');
+      await repo.addConfig('user.email', 'test@localhost');
+      await repo.add('.');
+      await repo.commit('Add persona');
+
+      const config = makeConfig({ type: 'git', repository: `git+file://${source}` }, tempDir);
+      const backend = getRegistryBackend(config);
+
+      expect((await backend.checkAccess()).accessible).toBe(true);
+      const index = await backend.fetchIndex();
+      expect(index.personas.map((p) => p.id)).toEqual(['test-persona']);
+
+      const result = await pullPersona('test-persona', false, config, { backend });
+      expect(result.success).toBe(true);
+      expect(existsSync(join(tempDir, 'cache', 'registries'))).toBe(true);
+    });
+
+    it('reports unreachable remotes as inaccessible', async () => {
+      const config = makeConfig(
+        { type: 'git', repository: `file://${join(tempDir, 'missing.git')}` },
+        tempDir,
+      );
+
+      const access = await checkRegistryAccess(config);
+
+      expect(access.accessible).toBe(false);
+    });
+  });
+
+  describe('http backend', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      const index = {
+        schemaVersion: '1.0.0',
+        totalPersonas: 1,
+        personas: [{ id: 'test-persona' }],
+      };
+      server = createServer((req, res) => {
+        if (req.url === '/registry/personas/index.json') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(index));
+        } else if (req.url === '/registry/personas/test-persona/persona.yaml') {
+          res.writeHead(200, { 'Content-Type': 'text/yaml' });
+          res.end(PERSONA_YAML);
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/registry/`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('fetches the index and personas from a static server', async () => {
+      const config = makeConfig({ type: 'http', repository: baseUrl }, tempDir);
+
+      const index = await fetchRegistryIndex(config);
+      expect(index.personas.map((p) => p.id)).toEqual(['test-persona']);
+
+      const persona = await getRegistryBackend(config).fetchPersona('test-persona');
+      expect(persona).toEqual({ content: PERSONA_YAML, sha: computeBlobSha(PERSONA_YAML) });
+    });
+
+    it('fails pulls for personas the server does not host', async () => {
+      const config = makeConfig({ type: 'http', repository: baseUrl }, tempDir);
+
+      const result = await pullPersona('missing', false, config);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('404');
+    });
+
+    it('rejects index paths that escape the registry', async () => {
+      const backend = getRegistryBackend(
+        makeConfig({ type: 'http', repository: baseUrl }, tempDir),
+      );
+
+      for (const path of ['../secrets.yaml', '/etc/passwd', 'a/../../b.yaml', '%2e%2e/x.yaml']) {
+        await expect(backend.fetchPersona('test-persona', path)).rejects.toThrow(
+          'Persona path escapes the registry',
+        );
+      }
+    });
+  });
+
+  describe('multiple registries', () => {
+    function makeRegistries(): RegistryConfig[] {
+      writeRegistry(join(tempDir, 'internal'), ['shared', 'internal-only']);
+      writeRegistry(join(tempDir, 'public'), ['shared', 'public-only']);
+
+      return [
+        makeConfig({ name: 'internal', repository: join(tempDir, 'internal') }, tempDir),
+        makeConfig({ name: 'public', repository: join(tempDir, 'public') }, tempDir),
+      ];
+    }
+
+    it('merges indexes with the first registry winning duplicates', async () => {
+      const merged = await fetchMergedRegistryIndex(makeRegistries());
+
+      expect(merged.errors).toEqual([]);
+      expect(merged.personas.map((p) => [p.id, p.registry, p.alsoIn])).toEqual([
+        ['internal-only', 'internal', []],
+        ['shared', 'internal', ['public']],
+        ['public-only', 'public', []],
+      ]);
+    });
+
+    it('reports registries that fail without dropping the others', async () => {
+      const configs = [
+        makeConfig({ name: 'broken', type: 'http', repository: 'http://127.0.0.1:1' }, tempDir),
+        ...makeRegistries(),
+      ];
+
+      const merged = await fetchMergedRegistryIndex(configs);
+
+      expect(merged.errors.map((e) => e.registry)).toEqual(['broken']);
+      expect(merged.personas).toHaveLength(3);
+    });
+
+    it('pulls each persona from its highest-priority registry and records provenance', async () => {
+      const configs = makeRegistries();
+
+      const results = await pullFromRegistries(
+        ['shared', 'public-only', 'missing'],
+        false,
+        configs,
+      );
+
+      expect(results.map((r) => [r.personaId, r.success, r.registry])).toEqual([
+        ['shared', true, 'internal'],
+        ['public-only', true, 'public'],
+        ['missing', false, 'public'],
+      ]);
+      expect(getCachedPersona('shared', configs[0])?.registry).toEqual({
+        name: 'internal',
+        type: 'file',
+        repository: join(tempDir, 'internal'),
+        branch: 'main',
+      });
+    });
+  });
+
+  describe('versions and lockfile', () => {
+    const versionedYaml = (version: string) =>
+      PERSONA_YAML.replace('version: "2.0.0"', `version: "${version}"`);
+
+    let config: RegistryConfig;
+
+    beforeEach(() => {
+      const personaDir = join(tempDir, 'registry', 'personas', 'versioned');
+      for (const version of ['1.2.0', '1.3.0']) {
+        mkdirSync(join(personaDir, 'versions', version), { recursive: true });
+        writeFileSync(
+          join(personaDir, 'versions', version, 'persona.yaml'),
+          versionedYaml(version),
+        );
+      }
+      writeFileSync(join(personaDir, 'persona.yaml'), versionedYaml('2.0.0'));
+
+      config = makeConfig({ name: 'internal', repository: join(tempDir, 'registry') }, tempDir);
+    });
+
+    it('lists archived versions in a scanned index', async () => {
+      const index = await fetchRegistryIndex(config);
+
+      expect(index.personas[0].versions?.map((v) => v.version)).toEqual([
+        '2.0.0',
+        '1.3.0',
+        '1.2.0',
+      ]);
+    });
+
+    it('pulls the highest version matching a range', async () => {
+      const [result] = await pullFromRegistries(['versioned@^1.2'], false, [config]);
+
+      expect(result).toMatchObject({ success: true, version: '1.3.0', requested: '^1.2' });
+      expect(readFileSync(join(result.localPath!, 'persona.yaml'), 'utf-8')).toContain('1.3.0');
+    });
+
+    it('compares cached versions semantically', async () => {
+      await pullFromRegistries(['versioned@^1.2'], false, [config]);
+
+      const [same] = await pullFromRegistries(['versioned@~1.3'], false, [config]);
+      const [latest] = await pullFromRegistries(['versioned'], false, [config]);
+
+      expect(same.action).toBe('already-current');
+      expect(latest).toMatchObject({ action: 'updated', version: '2.0.0' });
+    });
+
+    it('reports available versions when a range matches nothing', async () => {
+      const [result] = await pullFromRegistries(['versioned@^3'], false, [config]);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('available: 2.0.0, 1.3.0, 1.2.0');
+    });
+
+    it('pulls the exact locked version, even when archived', async () => {
+      const lockfile = createEmptyLockfile();
+      lockfile.personas.versioned = {
+        version: '1.2.0',
+        sha: computeBlobSha(versionedYaml('1.2.0')),
+        hash: computeContentHash(versionedYaml('1.2.0')),
+        registry: 'internal',
+      };
+
+      const [result] = await pullLocked(lockfile, [], false, [config]);
+
+      expect(result).toMatchObject({
+        success: true,
+        version: '1.2.0',
+        hash: computeContentHash(versionedYaml('1.2.0')),
+      });
+    });
+
+    it('fails frozen pulls when the locked hash is missing or does not match', async () => {
+      const lockfile = createEmptyLockfile();
+      lockfile.personas.versioned = { version: '1.2.0', registry: 'internal' };
+
+      const [unhashed] = await pullLocked(lockfile, [], false, [config]);
+      expect(unhashed.success).toBe(false);
+      expect(unhashed.message).toContain('has no content hash');
+
+      lockfile.personas.versioned.hash = computeContentHash(versionedYaml('1.3.0'));
+      const [mismatched] = await pullLocked(lockfile, [], false, [config]);
+      expect(mismatched.success).toBe(false);
+      expect(mismatched.message).toContain('locked hash');
+    });
+
+    it('fails frozen pulls on SHA mismatch, unknown registries, or unsatisfied ranges', async () => {
+      const lockfile = createEmptyLockfile();
+      lockfile.personas.versioned = {
+        version: '1.2.0',
+        sha: 'deadbeef',
+        hash: computeContentHash(versionedYaml('1.2.0')),
+        registry: 'internal',
+      };
+      lockfile.personas.other = { version: '1.0.0', hash: 'sha256:00', registry: 'elsewhere' };
+
+      const results = await pullLocked(lockfile, [], false, [config]);
+      expect(results.map((r) => r.success)).toEqual([false, false]);
+      expect(results[0].message).toContain('locked SHA');
+      expect(results[1].message).toContain('not configured');
+
+      const [unsatisfied] = await pullLocked(lockfile, ['versioned@^2'], false, [config]);
+      expect(unsatisfied.message).toContain('does not satisfy ^2');
+
+      const [missing] = await pullLocked(lockfile, ['porter'], false, [config]);
+      expect(missing.message).toContain('not in the lockfile');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseVersion,
+  formatVersion,
+  bumpVersion,
+  compareVersions,
+  satisfies,
+  maxSatisfying,
+  isValidRange,
+} from '../semver.js';
+
+describe('parseVersion', () => {
+  it('parses full and partial versions', () => {
+    expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3 });
+    expect(parseVersion('v1.2')).toEqual({ major: 1, minor: 2, patch: 0 });
+    expect(parseVersion('2')).toEqual({ major: 2, minor: 0, patch: 0 });
+  });
+
+  it('returns null for invalid versions', () => {
+    expect(parseVersion('latest')).toBeNull();
+    expect(parseVersion('1.2.3.4')).toBeNull();
+  });
+});
+
+describe('bumpVersion', () => {
+  it('bumps each level and resets lower components', () => {
+    expect(bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+    expect(bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+    expect(bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+  });
+
+  it('treats a missing version as 0.0.0', () => {
+    expect(bumpVersion(undefined)).toBe('0.0.1');
+  });
+
+  it('throws on invalid versions', () => {
+    expect(() => bumpVersion('next')).toThrow('Invalid version');
+  });
+
+  it('round-trips through formatVersion', () => {
+    expect(formatVersion(parseVersion('v3.1')!)).toBe('3.1.0');
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+});
+
+describe('satisfies', () => {
+  it('matches caret ranges', () => {
+    expect(satisfies('1.4.0', '^1.2')).toBe(true);
+    expect(satisfies('2.0.0', '^1.2')).toBe(false);
+    expect(satisfies('1.1.9', '^1.2')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.3')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.3')).toBe(false);
+  });
+
+  it('matches tilde ranges', () => {
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.3')).toBe(false);
+  });
+
+  it('matches exact versions and x-ranges', () => {
+    expect(satisfies('1.2.3', '1.2.3')).toBe(true);
+    expect(satisfies('1.2.4', '1.2.3')).toBe(false);
+    expect(satisfies('1.2.4', '1.2')).toBe(true);
+    expect(satisfies('1.9.0', '1.x')).toBe(true);
+    expect(satisfies('3.0.0', '*')).toBe(true);
+    expect(satisfies('3.0.0', 'latest')).toBe(true);
+  });
+
+  it('matches comparator sets and alternatives', () => {
+    expect(satisfies('1.5.0', '>=1.2.0 <2.0.0')).toBe(true);
+    expect(satisfies('2.0.0', '>=1.2.0 <2.0.0')).toBe(false);
+    expect(satisfies('3.1.0', '^1.0 || ^3.0')).toBe(true);
+  });
+
+  it('throws on invalid ranges', () => {
+    expect(isValidRange('^1.2')).toBe(true);
+    expect(isValidRange('soon')).toBe(false);
+    expect(() => satisfies('1.0.0', 'soon')).toThrow('Invalid version range');
+  });
+});
+
+describe('maxSatisfying', () => {
+  it('returns the highest matching version', () => {
+    const versions = ['1.0.0', '1.2.0', '1.3.1', '2.0.0'];
+
+    expect(maxSatisfying(versions, '^1.2')).toBe('1.3.1');
+    expect(maxSatisfying(versions, '~1.2')).toBe('1.2.0');
+    expect(maxSatisfying(versions, '^3')).toBeNull();
+  });
+});
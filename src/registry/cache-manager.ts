@@ -6,12 +6,20 @@
  */
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
-import { join, dirname } from 'path';
+import { join } from 'path';
 import { homedir } from 'os';
-import type { CacheIndex, CachedPersona, RegistryEntry, RegistryConfig } from './types.js';
+import type {
+  CacheIndex,
+  CachedPersona,
+  RegistryEntry,
+  RegistryConfig,
+  RegistrySource,
+} from './types.js';
 import { DEFAULT_REGISTRY_CONFIG } from './types.js';
+import { compareVersions } from './semver.js';
+import { computeContentHash, verifyContentHash, verifySignature } from './integrity.js';
 
-const CACHE_VERSION = '1.0.0';
+const CACHE_VERSION = '1.1.0';
 const CACHE_INDEX_FILE = 'cache-index.json';
 
 /**
@@ -54,17 +62,51 @@ export function loadCacheIndex(config: RegistryConfig = DEFAULT_REGISTRY_CONFIG)
   const indexPath = join(cacheDir, CACHE_INDEX_FILE);
 
   if (!existsSync(indexPath)) {
-    return createEmptyCacheIndex(config);
+    return createEmptyCacheIndex();
   }
 
   try {
     const content = readFileSync(indexPath, 'utf-8');
-    return JSON.parse(content) as CacheIndex;
+    return migrateCacheIndex(JSON.parse(content));
   } catch {
-    return createEmptyCacheIndex(config);
+    return createEmptyCacheIndex();
   }
 }
 
+/**
+ * Upgrade a 1.0 cache index, which recorded a single registry for the
+ * whole cache, to per-persona provenance
+ */
+function migrateCacheIndex(index: CacheIndex & { registry?: string }): CacheIndex {
+  const { registry, ...rest } = index;
+  if (registry === undefined) {
+    return index;
+  }
+
+  for (const cached of Object.values(rest.personas)) {
+    cached.registry ??= {
+      name: registry,
+      type: 'github',
+      repository: registry,
+      branch: DEFAULT_REGISTRY_CONFIG.branch,
+    };
+  }
+
+  return { ...rest, version: CACHE_VERSION };
+}
+
+/**
+ * Describe the registry a config points at, for cache provenance
+ */
+export function getRegistrySource(config: RegistryConfig): RegistrySource {
+  return {
+    name: config.name ?? config.repository,
+    type: config.type,
+    repository: config.repository,
+    branch: config.branch,
+  };
+}
+
 /**
  * Save the cache index
  */
@@ -82,11 +124,10 @@ export function saveCacheIndex(
 /**
  * Create an empty cache index
  */
-function createEmptyCacheIndex(config: RegistryConfig): CacheIndex {
+function createEmptyCacheIndex(): CacheIndex {
   return {
     version: CACHE_VERSION,
     lastUpdated: new Date().toISOString(),
-    registry: config.repository,
     personas: {},
   };
 }
@@ -122,7 +163,9 @@ export function getCachedPersona(
 }
 
 /**
- * Add or update a persona in the cache
+ * Add or update a persona in the cache.
+ * Throws if the content does not match the entry's hash, or if its
+ * signature comes from a trusted key but does not verify.
  */
 export function cachePersona(
   entry: RegistryEntry,
@@ -130,6 +173,19 @@ export function cachePersona(
   sha?: string,
   config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
 ): CachedPersona {
+  if (entry.hash && !verifyContentHash(content, entry.hash)) {
+    throw new Error(
+      `Content hash mismatch for "${entry.id}" (expected ${entry.hash}, got ${computeContentHash(content)})`,
+    );
+  }
+
+  if (
+    entry.signature &&
+    verifySignature(content, entry.signature, config.trustedKeys) === 'invalid'
+  ) {
+    throw new Error(`Invalid signature for "${entry.id}" (key ${entry.signature.keyId})`);
+  }
+
   const cacheDir = ensureCacheDir(config);
   const personaPath = join(cacheDir, entry.id);
 
@@ -149,6 +205,9 @@ export function cachePersona(
     localPath: personaPath,
     cachedAt: new Date().toISOString(),
     cachedSha: sha,
+    hash: computeContentHash(content),
+    ...(entry.signature && { signature: entry.signature }),
+    registry: getRegistrySource(config),
     hasLocalChanges: false,
   };
 
@@ -197,16 +256,19 @@ export function listCachedPersonas(
 }
 
 /**
- * Check if a cached persona needs updating
+ * Check if a cached persona needs updating.
+ * A different version (compared semantically) or SHA means an update.
  */
 export function needsUpdate(
   personaId: string,
   remoteSha: string,
   config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+  remoteVersion?: string,
 ): boolean {
   const cached = getCachedPersona(personaId, config);
 
   if (!cached) return true;
+  if (remoteVersion && compareVersions(cached.entry.version, remoteVersion) !== 0) return true;
   if (!cached.cachedSha) return true;
 
   return cached.cachedSha !== remoteSha;
@@ -244,7 +306,7 @@ export function clearCache(config: RegistryConfig = DEFAULT_REGISTRY_CONFIG): nu
   }
 
   // Reset cache index
-  const emptyIndex = createEmptyCacheIndex(config);
+  const emptyIndex = createEmptyCacheIndex();
   saveCacheIndex(emptyIndex, config);
 
   return count;
@@ -0,0 +1,232 @@
+/**
+ * Academy Config
+ *
+ * Loads and saves ~/.persona-academy/config.yaml, which lists the named
+ * registries (with priorities) that remote, pull, and push use by default,
+ * and the public keys trusted to sign personas.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { homedir } from 'os';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { AcademyConfig, RegistryConfig, RegistryDefinition, TrustedKey } from './types.js';
+import { DEFAULT_REGISTRY_CONFIG } from './types.js';
+import { parseRegistryUrl } from './registry-client.js';
+import { isSigningPublicKey } from './integrity.js';
+
+/**
+ * Default location of the Academy config file
+ */
+export const DEFAULT_CONFIG_PATH = '~/.persona-academy/config.yaml';
+
+/**
+ * Name used for the built-in registry when none are configured
+ */
+export const DEFAULT_REGISTRY_NAME = 'default';
+
+/**
+ * Resolve the config file path (PERSONA_ACADEMY_CONFIG overrides the default)
+ */
+export function resolveConfigPath(configPath?: string): string {
+  const path = configPath ?? process.env.PERSONA_ACADEMY_CONFIG ?? DEFAULT_CONFIG_PATH;
+  return path.startsWith('~') ? path.replace('~', homedir()) : path;
+}
+
+/**
+ * Load the Academy config. Returns an empty config if the file does not exist.
+ */
+export function loadAcademyConfig(configPath?: string): AcademyConfig {
+  const path = resolveConfigPath(configPath);
+
+  if (!existsSync(path)) {
+    return { registries: [] };
+  }
+
+  let raw: Partial<AcademyConfig> | null;
+  try {
+    raw = parseYaml(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const registries = raw?.registries ?? [];
+  if (!Array.isArray(registries)) {
+    throw new Error(`Invalid config file ${path}: "registries" must be a list`);
+  }
+
+  for (const registry of registries) {
+    if (!registry?.name || !registry?.url) {
+      throw new Error(`Invalid config file ${path}: every registry needs a name and url`);
+    }
+  }
+
+  const trustedKeys = raw?.trustedKeys ?? [];
+  if (!Array.isArray(trustedKeys)) {
+    throw new Error(`Invalid config file ${path}: "trustedKeys" must be a list`);
+  }
+
+  for (const key of trustedKeys) {
+    if (!key?.id || !key?.publicKey) {
+      throw new Error(`Invalid config file ${path}: every trusted key needs an id and publicKey`);
+    }
+  }
+
+  return { ...raw, registries, ...(raw?.trustedKeys && { trustedKeys }) };
+}
+
+/**
+ * Save the Academy config
+ */
+export function saveAcademyConfig(config: AcademyConfig, configPath?: string): void {
+  const path = resolveConfigPath(configPath);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, stringifyYaml(config));
+}
+
+/**
+ * Add a named registry to the config
+ */
+export function addRegistry(registry: RegistryDefinition, configPath?: string): RegistryDefinition {
+  const config = loadAcademyConfig(configPath);
+
+  if (config.registries.some((r) => r.name === registry.name)) {
+    throw new Error(`Registry "${registry.name}" already exists`);
+  }
+
+  // Validate the URL and record the inferred type
+  const { type } = parseRegistryUrl(registry.url);
+  const added: RegistryDefinition = { ...registry, type: registry.type ?? type };
+
+  config.registries.push(added);
+  saveAcademyConfig(config, configPath);
+  return added;
+}
+
+/**
+ * Remove a named registry from the config.
+ * Returns whether a registry was removed.
+ */
+export function removeRegistry(name: string, configPath?: string): boolean {
+  const config = loadAcademyConfig(configPath);
+  const remaining = config.registries.filter((r) => r.name !== name);
+
+  if (remaining.length === config.registries.length) {
+    return false;
+  }
+
+  saveAcademyConfig({ ...config, registries: remaining }, configPath);
+  return true;
+}
+
+/**
+ * Trust a public key for persona signatures
+ */
+export function addTrustedKey(key: TrustedKey, configPath?: string): TrustedKey {
+  const config = loadAcademyConfig(configPath);
+  const trustedKeys = config.trustedKeys ?? [];
+
+  if (trustedKeys.some((k) => k.id === key.id)) {
+    throw new Error(`Trusted key "${key.id}" already exists`);
+  }
+
+  if (!isSigningPublicKey(key.publicKey)) {
+    throw new Error(`Key "${key.id}" is not an ed25519 public key in PEM format`);
+  }
+
+  const added: TrustedKey = { id: key.id, publicKey: key.publicKey.trim() + '\n' };
+  saveAcademyConfig({ ...config, trustedKeys: [...trustedKeys, added] }, configPath);
+  return added;
+}
+
+/**
+ * Stop trusting a public key.
+ * Returns whether a key was removed.
+ */
+export function removeTrustedKey(id: string, configPath?: string): boolean {
+  const config = loadAcademyConfig(configPath);
+  const trustedKeys = config.trustedKeys ?? [];
+  const remaining = trustedKeys.filter((k) => k.id !== id);
+
+  if (remaining.length === trustedKeys.length) {
+    return false;
+  }
+
+  saveAcademyConfig({ ...config, trustedKeys: remaining }, configPath);
+  return true;
+}
+
+/**
+ * Get the public keys trusted to sign personas
+ */
+export function getTrustedKeys(configPath?: string): TrustedKey[] {
+  return loadAcademyConfig(configPath).trustedKeys ?? [];
+}
+
+/**
+ * Convert a configured registry to a registry config
+ */
+export function toRegistryConfig(registry: RegistryDefinition): RegistryConfig {
+  const parsed = parseRegistryUrl(registry.url);
+
+  return {
+    ...DEFAULT_REGISTRY_CONFIG,
+    ...parsed,
+    ...(registry.type && { type: registry.type }),
+    ...(registry.branch && { branch: registry.branch }),
+    ...(registry.basePath && { basePath: registry.basePath }),
+    name: registry.name,
+    priority: registry.priority ?? 0,
+  };
+}
+
+/**
+ * Get configured registries in priority order (highest first), each
+ * carrying the trusted keys. Falls back to the default registry when none
+ * are configured.
+ */
+export function getConfiguredRegistries(configPath?: string): RegistryConfig[] {
+  const { registries, trustedKeys = [] } = loadAcademyConfig(configPath);
+
+  if (registries.length === 0) {
+    return [{ ...DEFAULT_REGISTRY_CONFIG, name: DEFAULT_REGISTRY_NAME, priority: 0, trustedKeys }];
+  }
+
+  // Array.prototype.sort is stable, so equal priorities keep file order
+  return registries
+    .map((registry) => ({ ...toRegistryConfig(registry), trustedKeys }))
+    .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * Select the registries for a CLI invocation.
+ *
+ * --registry may name a configured registry or give a registry URL; without
+ * it, all configured registries are used. --branch overrides the branch.
+ */
+export function selectRegistries(
+  options: { registry?: string; branch?: string } = {},
+  configPath?: string,
+): RegistryConfig[] {
+  const configured = getConfiguredRegistries(configPath);
+  let selected = configured;
+
+  if (options.registry) {
+    const named = configured.find((r) => r.name === options.registry);
+    selected = named
+      ? [named]
+      : [
+          {
+            ...DEFAULT_REGISTRY_CONFIG,
+            ...parseRegistryUrl(options.registry),
+            name: options.registry,
+            priority: 0,
+            trustedKeys: getTrustedKeys(configPath),
+          },
+        ];
+  }
+
+  return options.branch ? selected.map((r) => ({ ...r, branch: options.branch! })) : selected;
+}
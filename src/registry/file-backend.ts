@@ -0,0 +1,173 @@
+/**
+ * File Registry Backend
+ *
+ * Serves a registry from a directory on the local filesystem. If the
+ * directory has no index.json, the index is built by scanning for
+ * persona.yaml files (and archived versions under <id>/versions/),
+ * picking up detached signatures from persona.yaml.sig files.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join, resolve, relative, basename } from 'path';
+import { homedir } from 'os';
+import { parse as parseYaml } from 'yaml';
+import type {
+  RegistryConfig,
+  RegistryIndex,
+  RegistryEntry,
+  RegistryVersion,
+  RegistryBackend,
+  RegistryAccess,
+  FetchedPersona,
+} from './types.js';
+import {
+  createEmptyRegistryIndex,
+  createRegistryEntry,
+  upsertRegistryEntry,
+  computeBlobSha,
+} from './index-builder.js';
+import { compareVersions } from './semver.js';
+import { computeContentHash, readSignatureFile } from './integrity.js';
+
+/**
+ * Resolve a file registry location to an absolute directory
+ */
+export function resolveRegistryDir(repository: string): string {
+  const path = repository.replace(/^file:\/\//, '');
+  return resolve(path.startsWith('~') ? path.replace('~', homedir()) : path);
+}
+
+/**
+ * Build an index by scanning a personas directory
+ */
+function scanRegistryIndex(
+  personasDir: string,
+  registryDir: string,
+  branch: string,
+): RegistryIndex {
+  const index = createEmptyRegistryIndex('local', basename(registryDir), branch);
+
+  if (!existsSync(personasDir)) {
+    return index;
+  }
+
+  for (const dirent of readdirSync(personasDir, { withFileTypes: true })) {
+    const yamlPath = join(personasDir, dirent.name, 'persona.yaml');
+    if (!dirent.isDirectory() || !existsSync(yamlPath)) {
+      continue;
+    }
+
+    try {
+      const content = readFileSync(yamlPath, 'utf-8');
+      const entry = createRegistryEntry(
+        dirent.name,
+        parseYaml(content) ?? {},
+        computeBlobSha(content),
+      );
+      entry.hash = computeContentHash(content);
+      const signature = readSignatureFile(yamlPath);
+      if (signature) entry.signature = signature;
+      entry.versions = scanVersions(personasDir, dirent.name, entry);
+      upsertRegistryEntry(index, entry);
+    } catch {
+      // Skip personas that cannot be parsed
+    }
+  }
+
+  return index;
+}
+
+/**
+ * List a persona's versions: the latest persona.yaml plus any archived
+ * versions under <id>/versions/<version>/persona.yaml
+ */
+function scanVersions(
+  personasDir: string,
+  personaId: string,
+  latest: RegistryEntry,
+): RegistryVersion[] {
+  const versions: RegistryVersion[] = [
+    {
+      version: latest.version,
+      sha: latest.sha,
+      path: `${personaId}/persona.yaml`,
+      hash: latest.hash,
+      ...(latest.signature && { signature: latest.signature }),
+    },
+  ];
+  const versionsDir = join(personasDir, personaId, 'versions');
+
+  if (existsSync(versionsDir)) {
+    for (const dirent of readdirSync(versionsDir, { withFileTypes: true })) {
+      const yamlPath = join(versionsDir, dirent.name, 'persona.yaml');
+      if (!dirent.isDirectory() || !existsSync(yamlPath) || dirent.name === latest.version) {
+        continue;
+      }
+
+      const content = readFileSync(yamlPath, 'utf-8');
+      const signature = readSignatureFile(yamlPath);
+      versions.push({
+        version: dirent.name,
+        sha: computeBlobSha(content),
+        path: `${personaId}/versions/${dirent.name}/persona.yaml`,
+        hash: computeContentHash(content),
+        ...(signature && { signature }),
+      });
+    }
+  }
+
+  return versions.sort((a, b) => compareVersions(b.version, a.version));
+}
+
+/**
+ * Create a registry backend for a local directory
+ */
+export function createFileBackend(config: RegistryConfig): RegistryBackend {
+  const registryDir = resolveRegistryDir(config.repository);
+  const personasDir = join(registryDir, config.basePath);
+
+  return {
+    type: 'file',
+
+    async fetchIndex(): Promise<RegistryIndex> {
+      const indexPath = join(personasDir, 'index.json');
+
+      if (!existsSync(indexPath)) {
+        return scanRegistryIndex(personasDir, registryDir, config.branch);
+      }
+
+      return JSON.parse(readFileSync(indexPath, 'utf-8')) as RegistryIndex;
+    },
+
+    async fetchPersona(personaId: string, path?: string): Promise<FetchedPersona> {
+      const yamlPath = resolve(personasDir, path ?? join(personaId, 'persona.yaml'));
+
+      if (relative(personasDir, yamlPath).startsWith('..')) {
+        throw new Error(`Persona path escapes the registry: ${path}`);
+      }
+
+      if (!existsSync(yamlPath)) {
+        throw new Error(`Persona "${personaId}" not found in ${personasDir}`);
+      }
+
+      const content = readFileSync(yamlPath, 'utf-8');
+      return { content, sha: computeBlobSha(content) };
+    },
+
+    async checkAccess(): Promise<RegistryAccess> {
+      if (!existsSync(personasDir)) {
+        return {
+          accessible: false,
+          authenticated: false,
+          message: `Registry directory not found: ${personasDir}`,
+        };
+      }
+
+      return {
+        accessible: true,
+        authenticated: false,
+        message: `Registry accessible at ${personasDir}`,
+      };
+    },
+  };
+}
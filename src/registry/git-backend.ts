@@ -0,0 +1,114 @@
+/**
+ * Git Registry Backend
+ *
+ * Serves a registry from any git remote (ssh, https, or a local path).
+ * The registry is kept as a shallow checkout next to the persona cache
+ * and refreshed once per backend instance.
+ */
+
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { createHash } from 'crypto';
+import { simpleGit } from 'simple-git';
+import type {
+  RegistryConfig,
+  RegistryIndex,
+  RegistryBackend,
+  RegistryAccess,
+  FetchedPersona,
+} from './types.js';
+import { resolveCacheDir } from './cache-manager.js';
+import { createFileBackend } from './file-backend.js';
+
+/**
+ * Convert a registry location to a URL git understands.
+ * Strips the "git+" scheme prefix and resolves local paths.
+ */
+export function toGitUrl(repository: string): string {
+  const url = repository.replace(/^git\+/, '');
+  return existsSync(url) ? resolve(url) : url;
+}
+
+/**
+ * Get the local checkout directory for a git registry
+ */
+export function getRegistryCheckoutDir(config: RegistryConfig): string {
+  const key = createHash('sha1')
+    .update(`${toGitUrl(config.repository)}#${config.branch}`)
+    .digest('hex')
+    .slice(0, 12);
+  return join(dirname(resolveCacheDir(config)), 'registries', key);
+}
+
+/**
+ * Clone or refresh the registry checkout
+ */
+async function syncCheckout(config: RegistryConfig, checkoutDir: string): Promise<void> {
+  const url = toGitUrl(config.repository);
+
+  if (existsSync(join(checkoutDir, '.git'))) {
+    const git = simpleGit(checkoutDir);
+    await git.remote(['set-url', 'origin', url]);
+    await git.fetch(['--depth', '1', 'origin', config.branch]);
+    await git.reset(['--hard', 'FETCH_HEAD']);
+    return;
+  }
+
+  rmSync(checkoutDir, { recursive: true, force: true });
+  mkdirSync(dirname(checkoutDir), { recursive: true });
+  await simpleGit().clone(url, checkoutDir, [
+    '--depth',
+    '1',
+    '--single-branch',
+    '--branch',
+    config.branch,
+  ]);
+}
+
+/**
+ * Create a registry backend for a git remote
+ */
+export function createGitBackend(config: RegistryConfig): RegistryBackend {
+  const checkoutDir = getRegistryCheckoutDir(config);
+  const files = createFileBackend({ ...config, type: 'file', repository: checkoutDir });
+
+  let synced: Promise<void> | undefined;
+  const sync = (): Promise<void> => {
+    synced ??= syncCheckout(config, checkoutDir).catch((error) => {
+      synced = undefined;
+      throw error;
+    });
+    return synced;
+  };
+
+  return {
+    type: 'git',
+
+    async fetchIndex(): Promise<RegistryIndex> {
+      await sync();
+      return files.fetchIndex();
+    },
+
+    async fetchPersona(personaId: string, path?: string): Promise<FetchedPersona> {
+      await sync();
+      return files.fetchPersona(personaId, path);
+    },
+
+    async checkAccess(): Promise<RegistryAccess> {
+      try {
+        await sync();
+        return {
+          accessible: true,
+          authenticated: false,
+          message: `Registry accessible at ${config.repository} (${config.branch})`,
+        };
+      } catch (error) {
+        return {
+          accessible: false,
+          authenticated: false,
+          message: error instanceof Error ? error.message : 'Failed to access registry',
+        };
+      }
+    },
+  };
+}
@@ -5,14 +5,15 @@
  * Supports both authenticated and unauthenticated requests.
  */
 
-import type { RegistryConfig, RegistryIndex, RegistryEntry, PullResult } from './types.js';
+import type {
+  RegistryConfig,
+  RegistryIndex,
+  RegistryBackend,
+  RegistryAccess,
+  FetchedPersona,
+} from './types.js';
 import { DEFAULT_REGISTRY_CONFIG } from './types.js';
-import {
-  cachePersona,
-  getCachedPersona,
-  needsUpdate,
-  getCachedPersonaPath,
-} from './cache-manager.js';
+import { createEmptyRegistryIndex } from './index-builder.js';
 
 const GITHUB_API_BASE = 'https://api.github.com';
 const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com';
@@ -20,7 +21,7 @@ const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com';
 /**
  * Parse repository string into owner and name
  */
-function parseRepository(repo: string): { owner: string; name: string } {
+export function parseRepository(repo: string): { owner: string; name: string } {
   const [owner, name] = repo.split('/');
   if (!owner || !name) {
     throw new Error(`Invalid repository format: ${repo}. Expected "owner/repo"`);
@@ -31,7 +32,7 @@ function parseRepository(repo: string): { owner: string; name: string } {
 /**
  * Get GitHub token from environment
  */
-function getGitHubToken(): string | undefined {
+export function getGitHubToken(): string | undefined {
   return process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
 }
 
@@ -85,206 +86,98 @@ async function fetchRawContent(repo: string, branch: string, path: string): Prom
 }
 
 /**
- * Fetch the registry index
+ * Create a registry backend for a GitHub repository
  */
-export async function fetchRegistryIndex(
+export function createGitHubBackend(
   config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<RegistryIndex> {
-  const indexPath = `${config.basePath}/index.json`;
+): RegistryBackend {
+  return {
+    type: 'github',
+
+    async fetchIndex(): Promise<RegistryIndex> {
+      const indexPath = `${config.basePath}/index.json`;
+
+      try {
+        const content = await fetchRawContent(config.repository, config.branch, indexPath);
+        return JSON.parse(content) as RegistryIndex;
+      } catch (error) {
+        // If index doesn't exist, return empty registry
+        if (error instanceof Error && error.message.includes('404')) {
+          const { owner, name } = parseRepository(config.repository);
+          return createEmptyRegistryIndex(owner, name, config.branch);
+        }
+        throw error;
+      }
+    },
 
-  try {
-    const content = await fetchRawContent(config.repository, config.branch, indexPath);
-    return JSON.parse(content) as RegistryIndex;
-  } catch (error) {
-    // If index doesn't exist, return empty registry
-    if (error instanceof Error && error.message.includes('404')) {
-      const { owner, name } = parseRepository(config.repository);
-      return {
-        schemaVersion: '1.0.0',
-        generated: new Date().toISOString(),
-        repository: { owner, name, branch: config.branch },
-        totalPersonas: 0,
-        categories: {
-          'business-strategist': 0,
-          'technical-architect': 0,
-          'domain-expert': 0,
-          creative: 0,
-          custom: 0,
-        },
-        personas: [],
-      };
-    }
-    throw error;
-  }
-}
+    async fetchPersona(personaId: string, path?: string): Promise<FetchedPersona> {
+      const personaPath = `${config.basePath}/${path ?? `${personaId}/persona.yaml`}`;
 
-/**
- * Fetch a specific persona from the registry
- */
-export async function fetchPersona(
-  personaId: string,
-  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<{ content: string; sha?: string }> {
-  const personaPath = `${config.basePath}/${personaId}/persona.yaml`;
+      // Try to get SHA via API for version tracking
+      let sha: string | undefined;
+      try {
+        const { owner, name } = parseRepository(config.repository);
+        const response = await githubRequest<{ sha: string }>(
+          `/repos/${owner}/${name}/contents/${personaPath}?ref=${config.branch}`,
+        );
+        sha = response.sha;
+      } catch {
+        // SHA fetch is optional, continue without it
+      }
 
-  // Try to get SHA via API for version tracking
-  let sha: string | undefined;
-  try {
-    const { owner, name } = parseRepository(config.repository);
-    const response = await githubRequest<{ sha: string }>(
-      `/repos/${owner}/${name}/contents/${personaPath}?ref=${config.branch}`,
-    );
-    sha = response.sha;
-  } catch {
-    // SHA fetch is optional, continue without it
-  }
-
-  const content = await fetchRawContent(config.repository, config.branch, personaPath);
+      const content = await fetchRawContent(config.repository, config.branch, personaPath);
 
-  return { content, sha };
-}
+      return { content, sha };
+    },
 
-/**
- * List all personas in the registry
- */
-export async function listRegistryPersonas(
-  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<RegistryEntry[]> {
-  const index = await fetchRegistryIndex(config);
-  return index.personas;
+    async checkAccess(): Promise<RegistryAccess> {
+      try {
+        const { owner, name } = parseRepository(config.repository);
+
+        // Try to access the repository
+        await githubRequest(`/repos/${owner}/${name}`);
+
+        const token = getGitHubToken();
+
+        return {
+          accessible: true,
+          authenticated: !!token,
+          message: token
+            ? 'Registry accessible with authentication'
+            : 'Registry accessible (unauthenticated - rate limits apply)',
+        };
+      } catch (error) {
+        return {
+          accessible: false,
+          authenticated: false,
+          message: error instanceof Error ? error.message : 'Failed to access registry',
+        };
+      }
+    },
+  };
 }
 
 /**
- * Search personas in the registry
+ * Open a pull request against the registry repository
  */
-export async function searchRegistryPersonas(
-  query: string,
+export async function createPullRequest(
+  head: string,
+  title: string,
+  body: string,
   config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<RegistryEntry[]> {
-  const index = await fetchRegistryIndex(config);
-  const lowerQuery = query.toLowerCase();
-
-  return index.personas.filter(
-    (p) =>
-      p.name.toLowerCase().includes(lowerQuery) ||
-      p.summary.toLowerCase().includes(lowerQuery) ||
-      p.tags.some((t) => t.toLowerCase().includes(lowerQuery)),
+): Promise<{ url: string; number: number }> {
+  const { owner, name } = parseRepository(config.repository);
+
+  const response = await githubRequest<{ html_url: string; number: number }>(
+    `/repos/${owner}/${name}/pulls`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, head, base: config.branch, body }),
+    },
   );
-}
 
-/**
- * Pull a persona from the registry to local cache
- */
-export async function pullPersona(
-  personaId: string,
-  force: boolean = false,
-  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<PullResult> {
-  try {
-    // Fetch the persona content and SHA
-    const { content, sha } = await fetchPersona(personaId, config);
-
-    // Check if update is needed
-    if (!force && sha && !needsUpdate(personaId, sha, config)) {
-      const cached = getCachedPersona(personaId, config);
-      return {
-        success: true,
-        personaId,
-        action: 'already-current',
-        localPath: cached?.localPath,
-        message: `Persona "${personaId}" is already up to date`,
-        version: cached?.entry.version,
-      };
-    }
-
-    // Parse the persona to get metadata
-    const { parse: parseYaml } = await import('yaml');
-    const persona = parseYaml(content);
-
-    // Create registry entry from persona
-    const entry: RegistryEntry = {
-      id: personaId,
-      name: persona.identity?.name ?? personaId,
-      summary: persona.identity?.role ?? '',
-      author: persona.metadata?.author ?? 'Unknown',
-      version: persona.metadata?.version ?? '1.0.0',
-      category: persona.metadata?.category ?? 'custom',
-      tags: persona.metadata?.tags ?? [],
-      frameworkCount: Object.keys(persona.frameworks ?? {}).length,
-      caseStudyCount: Object.keys(persona.case_studies ?? {}).length,
-      updated: persona.metadata?.updated ?? new Date().toISOString(),
-      sha,
-    };
-
-    // Cache the persona
-    const cached = cachePersona(entry, content, sha, config);
-
-    const action = getCachedPersona(personaId, config) ? 'updated' : 'downloaded';
-
-    return {
-      success: true,
-      personaId,
-      action,
-      localPath: cached.localPath,
-      message: `Successfully ${action} "${entry.name}" (${entry.version})`,
-      version: entry.version,
-    };
-  } catch (error) {
-    return {
-      success: false,
-      personaId,
-      action: 'failed',
-      message: error instanceof Error ? error.message : `Failed to pull persona "${personaId}"`,
-    };
-  }
-}
-
-/**
- * Pull multiple personas
- */
-export async function pullPersonas(
-  personaIds: string[],
-  force: boolean = false,
-  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<PullResult[]> {
-  const results: PullResult[] = [];
-
-  for (const personaId of personaIds) {
-    const result = await pullPersona(personaId, force, config);
-    results.push(result);
-  }
-
-  return results;
-}
-
-/**
- * Check if registry is accessible
- */
-export async function checkRegistryAccess(
-  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
-): Promise<{ accessible: boolean; authenticated: boolean; message: string }> {
-  try {
-    const { owner, name } = parseRepository(config.repository);
-
-    // Try to access the repository
-    await githubRequest(`/repos/${owner}/${name}`);
-
-    const token = getGitHubToken();
-
-    return {
-      accessible: true,
-      authenticated: !!token,
-      message: token
-        ? 'Registry accessible with authentication'
-        : 'Registry accessible (unauthenticated - rate limits apply)',
-    };
-  } catch (error) {
-    return {
-      accessible: false,
-      authenticated: false,
-      message: error instanceof Error ? error.message : 'Failed to access registry',
-    };
-  }
+  return { url: response.html_url, number: response.number };
 }
 
 /**
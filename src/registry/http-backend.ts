@@ -0,0 +1,99 @@
+/**
+ * HTTP Registry Backend
+ *
+ * Serves a registry from any static HTTP server that hosts the registry
+ * layout: <base>/<basePath>/index.json and <base>/<basePath>/<id>/persona.yaml
+ * (older versions at the paths listed in the index).
+ */
+
+import type {
+  RegistryConfig,
+  RegistryIndex,
+  RegistryBackend,
+  RegistryAccess,
+  FetchedPersona,
+} from './types.js';
+import { posix } from 'path';
+import { computeBlobSha } from './index-builder.js';
+
+/**
+ * Build a URL for a path within the registry
+ */
+function registryUrl(config: RegistryConfig, path: string): string {
+  const base = config.repository.replace(/\/+$/, '');
+  const basePath = config.basePath.replace(/^\/+|\/+$/g, '');
+  return [base, basePath, path].filter(Boolean).join('/');
+}
+
+/**
+ * Normalize a persona path from the index, rejecting paths that would leave
+ * the registry base (absolute paths, `..` segments, or full URLs)
+ */
+function personaPath(personaId: string, path?: string): string {
+  const requested = path ?? `${personaId}/persona.yaml`;
+  const normalized = posix.normalize(decodeURIComponent(requested).replace(/\\/g, '/'));
+
+  if (
+    posix.isAbsolute(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../') ||
+    /^[a-z][a-z0-9+.-]*:/i.test(normalized)
+  ) {
+    throw new Error(`Persona path escapes the registry: ${requested}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Fetch a text file from the registry server
+ */
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'persona-academy-cli',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Create a registry backend for a static HTTP server
+ */
+export function createHttpBackend(config: RegistryConfig): RegistryBackend {
+  return {
+    type: 'http',
+
+    async fetchIndex(): Promise<RegistryIndex> {
+      const content = await fetchText(registryUrl(config, 'index.json'));
+      return JSON.parse(content) as RegistryIndex;
+    },
+
+    async fetchPersona(personaId: string, path?: string): Promise<FetchedPersona> {
+      const content = await fetchText(registryUrl(config, personaPath(personaId, path)));
+      return { content, sha: computeBlobSha(content) };
+    },
+
+    async checkAccess(): Promise<RegistryAccess> {
+      try {
+        await fetchText(registryUrl(config, 'index.json'));
+        return {
+          accessible: true,
+          authenticated: false,
+          message: `Registry accessible at ${config.repository}`,
+        };
+      } catch (error) {
+        return {
+          accessible: false,
+          authenticated: false,
+          message: error instanceof Error ? error.message : 'Failed to access registry',
+        };
+      }
+    },
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Registry Index Builder
+ *
+ * Creates and updates registry index.json files and their entries.
+ */
+
+import { createHash } from 'crypto';
+import type { PersonaCategory, PersonaDefinition } from '../core/types.js';
+import type { RegistryIndex, RegistryEntry, RegistryVersion } from './types.js';
+import { compareVersions, maxSatisfying } from './semver.js';
+
+const INDEX_SCHEMA_VERSION = '1.0.0';
+
+/**
+ * Create an empty registry index
+ */
+export function createEmptyRegistryIndex(
+  owner: string,
+  name: string,
+  branch: string,
+): RegistryIndex {
+  return {
+    schemaVersion: INDEX_SCHEMA_VERSION,
+    generated: new Date().toISOString(),
+    repository: { owner, name, branch },
+    totalPersonas: 0,
+    categories: {
+      'business-strategist': 0,
+      'technical-architect': 0,
+      'domain-expert': 0,
+      creative: 0,
+      custom: 0,
+    },
+    personas: [],
+  };
+}
+
+/**
+ * Create a registry entry from a (possibly partial) persona definition
+ */
+export function createRegistryEntry(
+  personaId: string,
+  persona: Partial<PersonaDefinition>,
+  sha?: string,
+): RegistryEntry {
+  return {
+    id: personaId,
+    name: persona.identity?.name ?? personaId,
+    summary: persona.identity?.role ?? '',
+    author: persona.metadata?.author ?? 'Unknown',
+    version: persona.metadata?.version ?? '1.0.0',
+    category: persona.metadata?.category ?? 'custom',
+    tags: persona.metadata?.tags ?? [],
+    frameworkCount: Object.keys(persona.frameworks ?? {}).length,
+    caseStudyCount: Object.keys(persona.case_studies ?? {}).length,
+    updated: persona.metadata?.updated ?? new Date().toISOString(),
+    sha,
+  };
+}
+
+/**
+ * Insert or replace an entry in the index, recomputing totals.
+ * Returns whether the entry already existed.
+ */
+export function upsertRegistryEntry(index: RegistryIndex, entry: RegistryEntry): boolean {
+  const existing = index.personas.findIndex((p) => p.id === entry.id);
+
+  if (existing >= 0) {
+    index.personas[existing] = entry;
+  } else {
+    index.personas.push(entry);
+    index.personas.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  recomputeIndexTotals(index);
+  return existing >= 0;
+}
+
+/**
+ * Get the published versions of an entry, newest first.
+ * Entries without a version list only offer their current version.
+ */
+export function getEntryVersions(entry: RegistryEntry): RegistryVersion[] {
+  if (entry.versions && entry.versions.length > 0) {
+    return [...entry.versions].sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  return [
+    {
+      version: entry.version,
+      sha: entry.sha,
+      updated: entry.updated,
+      ...(entry.hash && { hash: entry.hash }),
+      ...(entry.signature && { signature: entry.signature }),
+    },
+  ];
+}
+
+/**
+ * Resolve the newest version of an entry that satisfies a range.
+ * Returns null if no published version matches.
+ */
+export function resolveEntryVersion(entry: RegistryEntry, range: string): RegistryVersion | null {
+  const versions = getEntryVersions(entry);
+  const best = maxSatisfying(
+    versions.map((v) => v.version),
+    range,
+  );
+
+  return versions.find((v) => v.version === best) ?? null;
+}
+
+/**
+ * Build the version list for a newly published version. The previous
+ * latest version moves to its archive path, <id>/versions/<version>/persona.yaml.
+ */
+export function addEntryVersion(
+  previous: RegistryEntry | undefined,
+  current: RegistryVersion,
+  personaId: string,
+): RegistryVersion[] {
+  const latestPath = `${personaId}/persona.yaml`;
+  const earlier = (previous ? getEntryVersions(previous) : [])
+    .filter((v) => v.version !== current.version)
+    .map((v) =>
+      !v.path || v.path === latestPath
+        ? { ...v, path: `${personaId}/versions/${v.version}/persona.yaml` }
+        : v,
+    );
+
+  return [{ ...current, path: latestPath }, ...earlier].sort((a, b) =>
+    compareVersions(b.version, a.version),
+  );
+}
+
+/**
+ * Recompute the derived totals of an index
+ */
+function recomputeIndexTotals(index: RegistryIndex): void {
+  const categories: Record<PersonaCategory, number> = {
+    'business-strategist': 0,
+    'technical-architect': 0,
+    'domain-expert': 0,
+    creative: 0,
+    custom: 0,
+  };
+
+  for (const persona of index.personas) {
+    categories[persona.category] = (categories[persona.category] ?? 0) + 1;
+  }
+
+  index.categories = categories;
+  index.totalPersonas = index.personas.length;
+  index.generated = new Date().toISOString();
+}
+
+/**
+ * Compute the git blob SHA of file content.
+ * Matches the `sha` GitHub reports for a file, so cached SHAs stay comparable.
+ */
+export function computeBlobSha(content: string): string {
+  const buffer = Buffer.from(content, 'utf-8');
+  return createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex');
+}
@@ -6,13 +6,28 @@
 
 // Types
 export type {
+  RegistryType,
   RegistryConfig,
+  RegistryDefinition,
+  AcademyConfig,
+  TrustedKey,
+  PersonaSignature,
+  RegistrySource,
   RegistryEntry,
+  RegistryVersion,
+  MergedRegistryEntry,
+  MergedRegistryIndex,
   RegistryIndex,
+  RegistryAccess,
+  RegistryBackend,
+  FetchedPersona,
   CachedPersona,
   CacheIndex,
   PullResult,
+  PullOptions,
   PushResult,
+  Lockfile,
+  LockedPersona,
   RegistrySearchOptions,
 } from './types.js';
 
@@ -34,16 +49,98 @@ export {
   markLocalChanges,
   clearCache,
   getCacheStats,
+  getRegistrySource,
 } from './cache-manager.js';
 
-// GitHub Client
+// Academy Config
 export {
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_REGISTRY_NAME,
+  resolveConfigPath,
+  loadAcademyConfig,
+  saveAcademyConfig,
+  addRegistry,
+  removeRegistry,
+  addTrustedKey,
+  removeTrustedKey,
+  getTrustedKeys,
+  toRegistryConfig,
+  getConfiguredRegistries,
+  selectRegistries,
+} from './config.js';
+
+// Registry Client
+export {
+  isGitHubRepository,
+  parseRegistryUrl,
+  getRegistryBackend,
   fetchRegistryIndex,
   fetchPersona,
   listRegistryPersonas,
   searchRegistryPersonas,
+  matchesRegistryQuery,
+  fetchMergedRegistryIndex,
   pullPersona,
   pullPersonas,
+  pullFromRegistries,
+  pullLocked,
+  parsePersonaSpec,
   checkRegistryAccess,
-  getRateLimitStatus,
-} from './github-client.js';
+} from './registry-client.js';
+
+// Lockfile
+export {
+  LOCKFILE_NAME,
+  createEmptyLockfile,
+  loadLockfile,
+  saveLockfile,
+  lockPullResults,
+} from './lockfile.js';
+
+// Registry Backends
+export { createGitHubBackend, getRateLimitStatus, createPullRequest } from './github-client.js';
+export { createFileBackend, resolveRegistryDir } from './file-backend.js';
+export { createGitBackend, getRegistryCheckoutDir, toGitUrl } from './git-backend.js';
+export { createHttpBackend } from './http-backend.js';
+
+// Index Builder
+export {
+  createEmptyRegistryIndex,
+  createRegistryEntry,
+  upsertRegistryEntry,
+  getEntryVersions,
+  resolveEntryVersion,
+  addEntryVersion,
+  computeBlobSha,
+} from './index-builder.js';
+
+// Integrity
+export {
+  SIGNATURE_SUFFIX,
+  computeContentHash,
+  verifyContentHash,
+  generateSigningKeyPair,
+  isSigningPublicKey,
+  signContent,
+  verifySignature,
+  readSignatureFile,
+  writeSignatureFile,
+  verifyCachedPersona,
+} from './integrity.js';
+export type { SignatureStatus, IntegrityStatus } from './integrity.js';
+
+// Publisher
+export { pushPersona } from './publisher.js';
+export type { PushOptions } from './publisher.js';
+
+// Semantic Versioning
+export {
+  parseVersion,
+  formatVersion,
+  bumpVersion,
+  compareVersions,
+  satisfies,
+  maxSatisfying,
+  isValidRange,
+} from './semver.js';
+export type { SemVer, BumpLevel } from './semver.js';
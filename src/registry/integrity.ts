@@ -0,0 +1,180 @@
+/**
+ * Persona Integrity
+ *
+ * Content hashes and detached ed25519 signatures for registry personas.
+ * Hashes detect corrupted or tampered downloads and cache files; signatures
+ * prove a persona was published by a holder of a trusted key.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { CachedPersona, PersonaSignature, TrustedKey } from './types.js';
+
+const HASH_ALGORITHM = 'sha256';
+
+/**
+ * Suffix of the detached signature file stored next to a persona.yaml
+ */
+export const SIGNATURE_SUFFIX = '.sig';
+
+/**
+ * Result of verifying a signature
+ * - valid: signed by a trusted key
+ * - invalid: the signature does not match the content
+ * - untrusted: signed by a key that is not in the trusted keys list
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'untrusted';
+
+/**
+ * Integrity of a cached persona
+ * - verified: untampered and signed by a trusted key
+ * - unsigned: untampered but carries no signature
+ * - untrusted: untampered but signed by an unknown key
+ * - tampered: content differs from (or has no) hash recorded at pull time, or the
+ *   signature is invalid
+ */
+export type IntegrityStatus = 'verified' | 'unsigned' | 'untrusted' | 'tampered';
+
+/**
+ * Compute the content hash of a persona file ("sha256:<hex>")
+ */
+export function computeContentHash(content: string): string {
+  const digest = createHash(HASH_ALGORITHM).update(content, 'utf-8').digest('hex');
+  return `${HASH_ALGORITHM}:${digest}`;
+}
+
+/**
+ * Check content against a "sha256:<hex>" hash
+ */
+export function verifyContentHash(content: string, hash: string): boolean {
+  const [algorithm] = hash.split(':');
+  if (algorithm !== HASH_ALGORITHM) {
+    throw new Error(`Unsupported hash algorithm: ${algorithm}`);
+  }
+
+  return computeContentHash(content) === hash;
+}
+
+/**
+ * Generate an ed25519 key pair as PEM strings
+ */
+export function generateSigningKeyPair(): { privateKey: string; publicKey: string } {
+  return generateKeyPairSync('ed25519', {
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+}
+
+/**
+ * Check that a PEM string is an ed25519 public key
+ */
+export function isSigningPublicKey(publicKey: string): boolean {
+  // createPublicKey also accepts private keys, which must never end up in config
+  if (publicKey.includes('PRIVATE KEY')) {
+    return false;
+  }
+
+  try {
+    return createPublicKey(publicKey).asymmetricKeyType === 'ed25519';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a detached ed25519 signature of persona content
+ */
+export function signContent(content: string, privateKey: string, keyId: string): PersonaSignature {
+  const signature = sign(null, Buffer.from(content, 'utf-8'), createPrivateKey(privateKey));
+  return { keyId, signature: signature.toString('base64') };
+}
+
+/**
+ * Verify a detached signature against the trusted keys
+ */
+export function verifySignature(
+  content: string,
+  signature: PersonaSignature,
+  trustedKeys: TrustedKey[] = [],
+): SignatureStatus {
+  const key = trustedKeys.find((k) => k.id === signature.keyId);
+  if (!key) {
+    return 'untrusted';
+  }
+
+  try {
+    const valid = verify(
+      null,
+      Buffer.from(content, 'utf-8'),
+      createPublicKey(key.publicKey),
+      Buffer.from(signature.signature, 'base64'),
+    );
+    return valid ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
+
+/**
+ * Read the detached signature stored next to a persona.yaml, if any
+ */
+export function readSignatureFile(yamlPath: string): PersonaSignature | undefined {
+  const signaturePath = yamlPath + SIGNATURE_SUFFIX;
+  if (!existsSync(signaturePath)) {
+    return undefined;
+  }
+
+  const signature = JSON.parse(readFileSync(signaturePath, 'utf-8')) as Partial<PersonaSignature>;
+  if (typeof signature.keyId !== 'string' || typeof signature.signature !== 'string') {
+    throw new Error(`Invalid signature file: ${signaturePath}`);
+  }
+
+  return { keyId: signature.keyId, signature: signature.signature };
+}
+
+/**
+ * Write a detached signature next to a persona.yaml
+ */
+export function writeSignatureFile(yamlPath: string, signature: PersonaSignature): void {
+  writeFileSync(yamlPath + SIGNATURE_SUFFIX, JSON.stringify(signature, null, 2) + '\n');
+}
+
+/**
+ * Re-check a cached persona against the hash and signature recorded when it was pulled
+ */
+export function verifyCachedPersona(
+  cached: CachedPersona,
+  trustedKeys: TrustedKey[] = [],
+): IntegrityStatus {
+  const yamlPath = join(cached.localPath, 'persona.yaml');
+  if (!existsSync(yamlPath)) {
+    return 'tampered';
+  }
+
+  const content = readFileSync(yamlPath, 'utf-8');
+
+  if (!cached.hash || !verifyContentHash(content, cached.hash)) {
+    return 'tampered';
+  }
+
+  if (!cached.signature) {
+    return 'unsigned';
+  }
+
+  switch (verifySignature(content, cached.signature, trustedKeys)) {
+    case 'valid':
+      return 'verified';
+    case 'untrusted':
+      return 'untrusted';
+    case 'invalid':
+      return 'tampered';
+  }
+}
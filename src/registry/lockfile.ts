@@ -0,0 +1,95 @@
+/**
+ * Persona Lockfile
+ *
+ * Reads and writes persona-lock.yaml, which pins the exact version, SHA,
+ * content hash and registry of every pulled persona so a team (or CI) can reproduce
+ * the same persona set with `pull --frozen`.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { Lockfile, LockedPersona, PullResult } from './types.js';
+
+/**
+ * Default lockfile name
+ */
+export const LOCKFILE_NAME = 'persona-lock.yaml';
+
+const LOCKFILE_VERSION = 1;
+
+const LOCKFILE_HEADER =
+  '# This file is generated by persona-academy pull. Do not edit it by hand.\n';
+
+/**
+ * Create an empty lockfile
+ */
+export function createEmptyLockfile(): Lockfile {
+  return { lockfileVersion: LOCKFILE_VERSION, personas: {} };
+}
+
+/**
+ * Load a lockfile. Returns null if it does not exist.
+ */
+export function loadLockfile(lockfilePath: string = LOCKFILE_NAME): Lockfile | null {
+  if (!existsSync(lockfilePath)) {
+    return null;
+  }
+
+  const raw = parseYaml(readFileSync(lockfilePath, 'utf-8')) as Partial<Lockfile> | null;
+
+  if (!raw || typeof raw.personas !== 'object' || raw.personas === null) {
+    throw new Error(`Invalid lockfile ${lockfilePath}: missing "personas"`);
+  }
+
+  if (raw.lockfileVersion !== LOCKFILE_VERSION) {
+    throw new Error(
+      `Unsupported lockfile version ${raw.lockfileVersion} in ${lockfilePath} (expected ${LOCKFILE_VERSION})`,
+    );
+  }
+
+  return { lockfileVersion: raw.lockfileVersion, personas: raw.personas };
+}
+
+/**
+ * Save a lockfile, with personas sorted by id for stable diffs
+ */
+export function saveLockfile(lockfile: Lockfile, lockfilePath: string = LOCKFILE_NAME): void {
+  const personas: Record<string, LockedPersona> = {};
+  for (const id of Object.keys(lockfile.personas).sort()) {
+    personas[id] = lockfile.personas[id];
+  }
+
+  writeFileSync(
+    lockfilePath,
+    LOCKFILE_HEADER + stringifyYaml({ lockfileVersion: lockfile.lockfileVersion, personas }),
+  );
+}
+
+/**
+ * Record successful pull results in a lockfile.
+ * Returns the number of entries that were added or changed.
+ */
+export function lockPullResults(lockfile: Lockfile, results: PullResult[]): number {
+  let changed = 0;
+
+  for (const result of results) {
+    if (!result.success || !result.version || !result.registry) {
+      continue;
+    }
+
+    const locked: LockedPersona = {
+      version: result.version,
+      ...(result.sha && { sha: result.sha }),
+      ...(result.hash && { hash: result.hash }),
+      registry: result.registry,
+      ...(result.requested && { requested: result.requested }),
+    };
+
+    if (JSON.stringify(lockfile.personas[result.personaId]) !== JSON.stringify(locked)) {
+      lockfile.personas[result.personaId] = locked;
+      changed++;
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,338 @@
+/**
+ * Registry Publisher
+ *
+ * Publishes local personas to a git-backed registry: validates the persona,
+ * bumps its version, archives the previous version, regenerates the
+ * registry index entry with the content hash (and an optional ed25519
+ * signature), and pushes a branch (opening a pull request for GitHub
+ * registries). Supports github and git registries.
+ *
+ * Personas that depend on files outside their directory (`extends`, or
+ * `$ref: lib:*` entries from a project framework library) are published
+ * flattened: persona.yaml holds the fully resolved definition, so the
+ * pulled copy loads on its own and the content hash covers what it inherits.
+ */
+
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  writeFileSync,
+  rmSync,
+  cpSync,
+  mkdirSync,
+  readdirSync,
+} from 'fs';
+import { join, basename, relative, resolve } from 'path';
+import { tmpdir } from 'os';
+import { simpleGit } from 'simple-git';
+import { Document, parseDocument } from 'yaml';
+import { loadPersonaFromFile } from '../core/persona-loader.js';
+import { getFrameworkReference, isBundledFrameworkReference } from '../core/framework-library.js';
+import type { PersonaDefinition } from '../core/types.js';
+import type { RegistryConfig, RegistryIndex, PushResult } from './types.js';
+import { DEFAULT_REGISTRY_CONFIG } from './types.js';
+import { bumpVersion } from './semver.js';
+import type { BumpLevel } from './semver.js';
+import {
+  createEmptyRegistryIndex,
+  createRegistryEntry,
+  upsertRegistryEntry,
+  addEntryVersion,
+  computeBlobSha,
+} from './index-builder.js';
+import { createPullRequest, getGitHubToken, parseRepository } from './github-client.js';
+import { toGitUrl } from './git-backend.js';
+import {
+  computeContentHash,
+  signContent,
+  writeSignatureFile,
+  SIGNATURE_SUFFIX,
+} from './integrity.js';
+
+/**
+ * Options for pushing a persona
+ */
+export interface PushOptions {
+  /** Version bump level, or 'none' to publish the current version (default: patch) */
+  bump?: BumpLevel | 'none';
+  /** Custom commit message */
+  message?: string;
+  /** Open a pull request after pushing (GitHub registries only, default: true) */
+  pullRequest?: boolean;
+  /** Sign the published persona.yaml with this ed25519 private key */
+  signingKey?: { keyId: string; privateKey: string };
+}
+
+/**
+ * Convention-based files the loader merges into persona.yaml; a flattened
+ * persona.yaml already contains them
+ */
+const MERGED_SOURCES = [
+  'frameworks',
+  'case-studies',
+  'references',
+  'validation.yaml',
+  'samples.yaml',
+  'tests.yaml',
+];
+
+/**
+ * Resolve the git URL to clone for a registry
+ */
+function resolveGitUrl(config: RegistryConfig): string {
+  switch (config.type) {
+    case 'github': {
+      const { owner, name } = parseRepository(config.repository);
+      const token = getGitHubToken();
+      const auth = token ? `x-access-token:${token}@` : '';
+      return `https://${auth}github.com/${owner}/${name}.git`;
+    }
+    case 'git':
+      return toGitUrl(config.repository);
+    default:
+      throw new Error(`Pushing to ${config.type} registries is not supported; use a git registry`);
+  }
+}
+
+/**
+ * Describe a registry repository as owner/name for the index header
+ */
+function describeRepository(config: RegistryConfig): { owner: string; name: string } {
+  if (config.type === 'github') {
+    return parseRepository(config.repository);
+  }
+
+  const segments = config.repository
+    .replace(/\.git\/?$/, '')
+    .split(/[/:]/)
+    .filter(Boolean);
+  return {
+    owner: segments[segments.length - 2] ?? 'local',
+    name: segments[segments.length - 1] ?? 'registry',
+  };
+}
+
+/**
+ * Push a local persona directory to the registry
+ */
+export async function pushPersona(
+  personaDir: string,
+  options: PushOptions = {},
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<PushResult> {
+  const sourceDir = resolve(personaDir);
+  const personaId = basename(sourceDir);
+  const yamlPath = join(sourceDir, 'persona.yaml');
+
+  let workDir: string | undefined;
+
+  try {
+    if (!existsSync(yamlPath)) {
+      throw new Error(`Persona file not found: ${yamlPath}`);
+    }
+
+    if (config.type === 'github' && !getGitHubToken()) {
+      throw new Error('GITHUB_TOKEN (or GH_TOKEN) is required to push to a GitHub registry');
+    }
+
+    // Validate before touching anything
+    const definition = loadPersonaFromFile(yamlPath);
+
+    // Bump version in the YAML document, preserving comments and layout
+    const document = parseDocument(readFileSync(yamlPath, 'utf-8'));
+    const parent = document.get('extends') as string | undefined;
+    const flatten = needsFlattening(definition, parent, sourceDir);
+    const currentVersion = definition.metadata?.version;
+    const version =
+      options.bump === 'none'
+        ? (currentVersion ?? '1.0.0')
+        : bumpVersion(currentVersion, options.bump ?? 'patch');
+    const updated = new Date().toISOString().slice(0, 10);
+    document.setIn(['metadata', 'version'], version);
+    document.setIn(['metadata', 'updated'], updated);
+
+    // Flattened personas publish the resolved definition instead
+    const published = flatten
+      ? createFlattenedDocument(
+          { ...definition, metadata: { ...definition.metadata, version, updated } },
+          personaId,
+          parent,
+        )
+      : document;
+    const content = published.toString();
+    const hash = computeContentHash(content);
+    const signature =
+      options.signingKey &&
+      signContent(content, options.signingKey.privateKey, options.signingKey.keyId);
+
+    // Clone the registry and branch off the base branch
+    const gitUrl = resolveGitUrl(config);
+    workDir = mkdtempSync(join(tmpdir(), 'persona-push-'));
+    await simpleGit().clone(gitUrl, workDir);
+    const git = simpleGit(workDir);
+
+    const branchName = `persona/${personaId}-v${version}`;
+    const remoteBranches = await git.branch(['-r']);
+    if (remoteBranches.all.includes(`origin/${config.branch}`)) {
+      await git.checkoutBranch(branchName, `origin/${config.branch}`);
+    } else {
+      await git.checkoutLocalBranch(branchName);
+    }
+
+    // Load the registry index
+    const registryDir = join(workDir, config.basePath);
+    const targetDir = join(registryDir, personaId);
+    const indexPath = join(registryDir, 'index.json');
+    const { owner, name } = describeRepository(config);
+    const index: RegistryIndex = existsSync(indexPath)
+      ? (JSON.parse(readFileSync(indexPath, 'utf-8')) as RegistryIndex)
+      : createEmptyRegistryIndex(owner, name, config.branch);
+    const previous = index.personas.find((p) => p.id === personaId);
+
+    // Archive the previous latest version so it stays resolvable
+    const latestYaml = join(targetDir, 'persona.yaml');
+    if (previous && previous.version !== version && existsSync(latestYaml)) {
+      const archiveDir = join(targetDir, 'versions', previous.version);
+      mkdirSync(archiveDir, { recursive: true });
+      cpSync(latestYaml, join(archiveDir, 'persona.yaml'));
+      if (existsSync(latestYaml + SIGNATURE_SUFFIX)) {
+        cpSync(latestYaml + SIGNATURE_SUFFIX, join(archiveDir, 'persona.yaml' + SIGNATURE_SUFFIX));
+      }
+    }
+
+    // Copy persona files into the registry, keeping archived versions
+    if (existsSync(targetDir)) {
+      for (const child of readdirSync(targetDir)) {
+        if (child !== 'versions') {
+          rmSync(join(targetDir, child), { recursive: true, force: true });
+        }
+      }
+    }
+    mkdirSync(targetDir, { recursive: true });
+    cpSync(sourceDir, targetDir, {
+      recursive: true,
+      filter: (src) =>
+        !basename(src).startsWith('.') &&
+        !basename(src).endsWith(SIGNATURE_SUFFIX) &&
+        !(flatten && MERGED_SOURCES.includes(relative(sourceDir, src))),
+    });
+    writeFileSync(latestYaml, content);
+    if (signature) {
+      writeSignatureFile(latestYaml, signature);
+    }
+
+    // Regenerate the index entry
+    const sha = computeBlobSha(content);
+    const entry = createRegistryEntry(
+      personaId,
+      { ...definition, metadata: { ...definition.metadata, version, updated } },
+      sha,
+    );
+    entry.hash = hash;
+    if (signature) entry.signature = signature;
+    entry.versions = addEntryVersion(
+      previous,
+      { version, sha, updated, hash, ...(signature && { signature }) },
+      personaId,
+    );
+    const existed = upsertRegistryEntry(index, entry);
+    writeFileSync(indexPath, JSON.stringify(index, null, 2) + '\n');
+
+    // Commit and push the branch
+    await ensureGitIdentity(git);
+    await git.add('.');
+    await git.commit(options.message ?? `Publish ${personaId} v${version}`);
+    const commitSha = (await git.revparse(['HEAD'])).trim();
+    await git.push('origin', branchName, ['--set-upstream']);
+
+    // Open a pull request for GitHub registries
+    let pullRequestUrl: string | undefined;
+    if (config.type === 'github' && options.pullRequest !== false) {
+      const pr = await createPullRequest(
+        branchName,
+        `Publish ${entry.name} v${version}`,
+        `Publishes \`${personaId}\` v${version} (${entry.frameworkCount} frameworks, ${entry.caseStudyCount} case studies).`,
+        config,
+      );
+      pullRequestUrl = pr.url;
+    }
+
+    // Only record the bump locally once the push succeeded
+    writeFileSync(yamlPath, document.toString());
+
+    const action = existed ? 'updated' : 'created';
+    return {
+      success: true,
+      personaId,
+      action,
+      message: pullRequestUrl
+        ? `Pushed "${entry.name}" v${version} and opened ${pullRequestUrl}`
+        : `Pushed "${entry.name}" v${version} to branch ${branchName}`,
+      pullRequestUrl,
+      commitSha,
+    };
+  } catch (error) {
+    const token = getGitHubToken();
+    const message =
+      error instanceof Error ? error.message : `Failed to push persona "${personaId}"`;
+    return {
+      success: false,
+      personaId,
+      action: 'failed',
+      // Never echo the token embedded in the clone URL
+      message: token ? message.split(token).join('***') : message,
+    };
+  } finally {
+    if (workDir) {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Check whether a persona only loads with files outside its directory
+ */
+function needsFlattening(
+  definition: PersonaDefinition,
+  parent: string | undefined,
+  personaDir: string,
+): boolean {
+  return (
+    parent !== undefined ||
+    Object.values(definition.frameworks ?? {}).some((framework) => {
+      const reference = getFrameworkReference(framework);
+      return reference !== undefined && !isBundledFrameworkReference(reference.ref, personaDir);
+    })
+  );
+}
+
+/**
+ * Build a standalone persona.yaml document from a resolved definition
+ */
+function createFlattenedDocument(
+  definition: PersonaDefinition,
+  personaId: string,
+  parent: string | undefined,
+): Document {
+  const document = new Document(definition);
+  document.commentBefore = parent
+    ? ` ${personaId}: flattened for publishing (extends ${parent})`
+    : ` ${personaId}: flattened for publishing (project framework library)`;
+  return document;
+}
+
+/**
+ * Make sure commits can be created even without a global git identity
+ */
+async function ensureGitIdentity(git: ReturnType<typeof simpleGit>): Promise<void> {
+  const userName = await git.getConfig('user.name');
+  if (!userName.value) {
+    await git.addConfig('user.name', 'persona-academy');
+  }
+
+  const userEmail = await git.getConfig('user.email');
+  if (!userEmail.value) {
+    await git.addConfig('user.email', 'persona-academy@localhost');
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * Registry Client
+ *
+ * Backend-agnostic registry operations. Resolves the backend for a
+ * registry config (GitHub, local directory, git remote, or static HTTP),
+ * merges listings across registries by priority, and pulls personas into
+ * the local cache, resolving version ranges and lockfile pins.
+ */
+
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type {
+  RegistryConfig,
+  RegistryIndex,
+  RegistryEntry,
+  RegistryBackend,
+  RegistryAccess,
+  FetchedPersona,
+  MergedRegistryIndex,
+  RegistryVersion,
+  PullOptions,
+  PullResult,
+  Lockfile,
+} from './types.js';
+import { DEFAULT_REGISTRY_CONFIG } from './types.js';
+import { cachePersona, getCachedPersona, needsUpdate } from './cache-manager.js';
+import {
+  createRegistryEntry,
+  createEmptyRegistryIndex,
+  getEntryVersions,
+  resolveEntryVersion,
+} from './index-builder.js';
+import { compareVersions, isValidRange, satisfies } from './semver.js';
+import { computeContentHash, verifySignature } from './integrity.js';
+import { createGitHubBackend } from './github-client.js';
+import { createFileBackend, resolveRegistryDir } from './file-backend.js';
+import { createGitBackend } from './git-backend.js';
+import { createHttpBackend } from './http-backend.js';
+
+/**
+ * Check whether a repository string is a GitHub "owner/repo" shorthand
+ */
+export function isGitHubRepository(repository: string): boolean {
+  return /^[\w.-]+\/[\w.-]+$/.test(repository) && !existsSync(repository);
+}
+
+/**
+ * Parse a --registry value into a backend type and location.
+ *
+ * Accepts:
+ * - owner/repo                        → github
+ * - file:///path/to/registry          → file
+ * - git+ssh://…, git+https://…, git@… → git
+ * - https://host/path                 → http (static index)
+ * - an existing local path            → git if it is a repository, otherwise file
+ */
+export function parseRegistryUrl(registry: string): Pick<RegistryConfig, 'type' | 'repository'> {
+  if (registry.startsWith('file://')) {
+    return { type: 'file', repository: resolveRegistryDir(registry) };
+  }
+
+  if (registry.startsWith('git+')) {
+    return { type: 'git', repository: registry.slice('git+'.length) };
+  }
+
+  if (/^(ssh:\/\/|git@|git:\/\/)/.test(registry) || /\.git\/?$/.test(registry)) {
+    return { type: 'git', repository: registry };
+  }
+
+  if (/^https?:\/\//.test(registry)) {
+    return { type: 'http', repository: registry };
+  }
+
+  if (isGitHubRepository(registry)) {
+    return { type: 'github', repository: registry };
+  }
+
+  if (existsSync(registry)) {
+    const path = resolve(registry);
+    const isRepository = existsSync(join(path, '.git')) || existsSync(join(path, 'HEAD'));
+    return { type: isRepository ? 'git' : 'file', repository: path };
+  }
+
+  throw new Error(
+    `Unrecognized registry: ${registry}. Expected owner/repo, file://, git+ssh://, or https:// URL`,
+  );
+}
+
+/**
+ * Create the backend for a registry config
+ */
+export function getRegistryBackend(
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): RegistryBackend {
+  switch (config.type) {
+    case 'file':
+      return createFileBackend(config);
+    case 'git':
+      return createGitBackend(config);
+    case 'http':
+      return createHttpBackend(config);
+    case 'github':
+    default:
+      return createGitHubBackend(config);
+  }
+}
+
+/**
+ * Fetch the registry index
+ */
+export async function fetchRegistryIndex(
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<RegistryIndex> {
+  return getRegistryBackend(config).fetchIndex();
+}
+
+/**
+ * Fetch a specific persona from the registry
+ */
+export async function fetchPersona(
+  personaId: string,
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<FetchedPersona> {
+  return getRegistryBackend(config).fetchPersona(personaId);
+}
+
+/**
+ * List all personas in the registry
+ */
+export async function listRegistryPersonas(
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<RegistryEntry[]> {
+  const index = await fetchRegistryIndex(config);
+  return index.personas;
+}
+
+/**
+ * Search personas in the registry
+ */
+export async function searchRegistryPersonas(
+  query: string,
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<RegistryEntry[]> {
+  const index = await fetchRegistryIndex(config);
+  return index.personas.filter((p) => matchesRegistryQuery(p, query));
+}
+
+/**
+ * Check whether an entry matches a search query (name, summary, or tags)
+ */
+export function matchesRegistryQuery(entry: RegistryEntry, query: string): boolean {
+  const lowerQuery = query.toLowerCase();
+
+  return (
+    entry.name.toLowerCase().includes(lowerQuery) ||
+    entry.summary.toLowerCase().includes(lowerQuery) ||
+    entry.tags.some((t) => t.toLowerCase().includes(lowerQuery))
+  );
+}
+
+/**
+ * Fetch and merge the indexes of several registries.
+ *
+ * Registries are expected in priority order (highest first); when several
+ * provide the same persona, the first one wins and the others are listed
+ * in `alsoIn`. Registries that fail are reported in `errors`.
+ */
+export async function fetchMergedRegistryIndex(
+  configs: RegistryConfig[],
+): Promise<MergedRegistryIndex> {
+  const merged: MergedRegistryIndex = { personas: [], errors: [] };
+  const byId = new Map<string, MergedRegistryIndex['personas'][number]>();
+
+  for (const config of configs) {
+    const registry = config.name ?? config.repository;
+
+    let index: RegistryIndex;
+    try {
+      index = await fetchRegistryIndex(config);
+    } catch (error) {
+      merged.errors.push({
+        registry,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    for (const entry of index.personas) {
+      const existing = byId.get(entry.id);
+      if (existing) {
+        existing.alsoIn.push(registry);
+        continue;
+      }
+
+      const mergedEntry = { ...entry, registry, alsoIn: [] };
+      byId.set(entry.id, mergedEntry);
+      merged.personas.push(mergedEntry);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Parse a pull spec ("christensen", "christensen@^1.2") into an id and range
+ */
+export function parsePersonaSpec(spec: string): { id: string; range?: string } {
+  const at = spec.indexOf('@');
+  if (at < 0) {
+    return { id: spec };
+  }
+
+  const id = spec.slice(0, at);
+  const range = spec.slice(at + 1);
+
+  if (!id || !isValidRange(range)) {
+    throw new Error(`Invalid persona spec: ${spec}. Expected <id> or <id>@<version-range>`);
+  }
+
+  return { id, range };
+}
+
+/**
+ * Pull a persona from the registry to local cache
+ */
+export async function pullPersona(
+  personaId: string,
+  force: boolean = false,
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+  options: PullOptions = {},
+): Promise<PullResult> {
+  const { version, expectedSha, expectedHash, requested } = options;
+  const integrity = version ?? options.integrity;
+  const backend = options.backend ?? getRegistryBackend(config);
+
+  try {
+    // Fetch the persona content and SHA
+    const { content, sha } = await backend.fetchPersona(personaId, version?.path);
+
+    if (expectedSha && sha !== expectedSha) {
+      throw new Error(
+        `Persona "${personaId}" does not match the locked SHA (expected ${expectedSha}, got ${sha ?? 'none'})`,
+      );
+    }
+
+    const hash = computeContentHash(content);
+    if (expectedHash && hash !== expectedHash) {
+      throw new Error(
+        `Persona "${personaId}" does not match the locked hash (expected ${expectedHash}, got ${hash})`,
+      );
+    }
+
+    // Check if update is needed
+    if (!force && sha && !needsUpdate(personaId, sha, config, version?.version)) {
+      const cached = getCachedPersona(personaId, config);
+      return {
+        success: true,
+        personaId,
+        action: 'already-current',
+        localPath: cached?.localPath,
+        message: `Persona "${personaId}" is already up to date`,
+        version: cached?.entry.version,
+        registry: config.name,
+        sha,
+        hash,
+        requested,
+      };
+    }
+
+    // Parse the persona to get metadata
+    const persona = parseYaml(content);
+
+    // Create registry entry from persona, carrying the index's hash and signature
+    const entry = createRegistryEntry(personaId, persona, sha);
+    if (integrity?.hash) entry.hash = integrity.hash;
+    if (integrity?.signature) entry.signature = integrity.signature;
+
+    // Cache the persona (verifying its hash and signature)
+    const action = getCachedPersona(personaId, config) ? 'updated' : 'downloaded';
+    const cached = cachePersona(entry, content, sha, config);
+    const signedBy =
+      entry.signature && verifySignature(content, entry.signature, config.trustedKeys) === 'valid'
+        ? entry.signature.keyId
+        : undefined;
+
+    return {
+      success: true,
+      personaId,
+      action,
+      localPath: cached.localPath,
+      message: `Successfully ${action} "${entry.name}" (${entry.version})`,
+      version: entry.version,
+      registry: config.name,
+      sha,
+      hash,
+      requested,
+      signedBy,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      personaId,
+      action: 'failed',
+      message: error instanceof Error ? error.message : `Failed to pull persona "${personaId}"`,
+      registry: config.name,
+      requested,
+    };
+  }
+}
+
+/**
+ * Pull multiple personas, checking each against the hash and signature in
+ * the registry index
+ */
+export async function pullPersonas(
+  personaIds: string[],
+  force: boolean = false,
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<PullResult[]> {
+  const backend = getRegistryBackend(config);
+  const index = await backend
+    .fetchIndex()
+    .catch(() => createEmptyRegistryIndex('', '', config.branch));
+  const results: PullResult[] = [];
+
+  for (const personaId of personaIds) {
+    const entry = index.personas.find((p) => p.id === personaId);
+    const result = await pullPersona(personaId, force, config, { backend, integrity: entry });
+    results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Build a failed pull result
+ */
+function pullFailure(personaId: string, message: string, requested?: string): PullResult {
+  return { success: false, personaId, action: 'failed', message, requested };
+}
+
+/**
+ * Pull personas from several registries (highest priority first).
+ *
+ * Specs may carry a version range ("christensen@^1.2"), resolved against
+ * the versions listed in the registry index. Each persona is pulled from
+ * the highest-priority registry whose index lists it; personas missing
+ * from every index are tried against each registry in turn.
+ */
+export async function pullFromRegistries(
+  specs: string[],
+  force: boolean = false,
+  configs: RegistryConfig[] = [DEFAULT_REGISTRY_CONFIG],
+  merged?: MergedRegistryIndex,
+): Promise<PullResult[]> {
+  const { personas } = merged ?? (await fetchMergedRegistryIndex(configs));
+  const backends = new Map(configs.map((config) => [config, getRegistryBackend(config)]));
+  const results: PullResult[] = [];
+
+  for (const spec of specs) {
+    let id: string;
+    let range: string | undefined;
+    try {
+      ({ id, range } = parsePersonaSpec(spec));
+    } catch (error) {
+      results.push(pullFailure(spec, error instanceof Error ? error.message : String(error)));
+      continue;
+    }
+
+    const listed = personas.find((p) => p.id === id);
+
+    // Resolve the version range against the index
+    let version: RegistryVersion | undefined;
+    if (range) {
+      if (!listed) {
+        results.push(pullFailure(id, `Persona "${id}" not found in any registry index`, range));
+        continue;
+      }
+
+      version = resolveEntryVersion(listed, range) ?? undefined;
+      if (!version) {
+        const available = getEntryVersions(listed).map((v) => v.version);
+        results.push(
+          pullFailure(
+            id,
+            `No version of "${id}" matches ${range} (available: ${available.join(', ')})`,
+            range,
+          ),
+        );
+        continue;
+      }
+    }
+
+    const candidates = listed
+      ? configs.filter((c) => (c.name ?? c.repository) === listed.registry)
+      : configs;
+
+    let result: PullResult | undefined;
+    for (const config of candidates) {
+      result = await pullPersona(id, force, config, {
+        backend: backends.get(config),
+        version,
+        integrity: listed,
+        requested: range,
+      });
+      if (result.success) {
+        break;
+      }
+    }
+
+    results.push(result ?? pullFailure(id, `Persona "${id}" not found in any registry`, range));
+  }
+
+  return results;
+}
+
+/**
+ * Pull exactly the versions pinned in a lockfile.
+ *
+ * Each persona is fetched from the registry recorded in the lockfile and
+ * must match the locked content hash (and SHA, if recorded). Specs default
+ * to every locked persona; a spec with a range fails if the locked version
+ * does not satisfy it.
+ */
+export async function pullLocked(
+  lockfile: Lockfile,
+  specs: string[] = [],
+  force: boolean = false,
+  configs: RegistryConfig[] = [DEFAULT_REGISTRY_CONFIG],
+): Promise<PullResult[]> {
+  const targets = specs.length > 0 ? specs : Object.keys(lockfile.personas);
+  const backends = new Map<RegistryConfig, RegistryBackend>();
+  const indexes = new Map<RegistryConfig, Promise<RegistryIndex>>();
+  const results: PullResult[] = [];
+
+  for (const spec of targets) {
+    let id: string;
+    let range: string | undefined;
+    try {
+      ({ id, range } = parsePersonaSpec(spec));
+    } catch (error) {
+      results.push(pullFailure(spec, error instanceof Error ? error.message : String(error)));
+      continue;
+    }
+
+    const locked = lockfile.personas[id];
+    if (!locked) {
+      results.push(pullFailure(id, `Persona "${id}" is not in the lockfile`, range));
+      continue;
+    }
+
+    if (!locked.hash) {
+      results.push(
+        pullFailure(
+          id,
+          `Lockfile entry for "${id}" has no content hash; run "persona-academy pull ${id}" to re-lock it`,
+          range,
+        ),
+      );
+      continue;
+    }
+
+    if (range && !satisfies(locked.version, range)) {
+      results.push(
+        pullFailure(
+          id,
+          `Lockfile pins "${id}" to ${locked.version}, which does not satisfy ${range}`,
+          range,
+        ),
+      );
+      continue;
+    }
+
+    const config = configs.find((c) => (c.name ?? c.repository) === locked.registry);
+    if (!config) {
+      results.push(
+        pullFailure(id, `Registry "${locked.registry}" from the lockfile is not configured`),
+      );
+      continue;
+    }
+
+    if (!backends.has(config)) {
+      backends.set(config, getRegistryBackend(config));
+    }
+    const backend = backends.get(config)!;
+
+    // Find where the locked version lives (it may have been archived since)
+    if (!indexes.has(config)) {
+      indexes.set(
+        config,
+        backend.fetchIndex().catch(() => createEmptyRegistryIndex('', '', config.branch)),
+      );
+    }
+    const index = await indexes.get(config)!;
+    const entry = index.personas.find((p) => p.id === id);
+    const version = (entry &&
+      getEntryVersions(entry).find((v) => compareVersions(v.version, locked.version) === 0)) || {
+      version: locked.version,
+    };
+
+    results.push(
+      await pullPersona(id, force, config, {
+        backend,
+        version,
+        expectedSha: locked.sha,
+        expectedHash: locked.hash,
+        requested: locked.requested,
+      }),
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Check if registry is accessible
+ */
+export async function checkRegistryAccess(
+  config: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+): Promise<RegistryAccess> {
+  return getRegistryBackend(config).checkAccess();
+}
@@ -0,0 +1,238 @@
+/**
+ * Semantic Versioning
+ *
+ * Minimal semver helpers for persona metadata versions.
+ */
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * Version bump level
+ */
+export type BumpLevel = 'major' | 'minor' | 'patch';
+
+/**
+ * Parse a version string ("1.2.3", "v1.2", "2") into its components.
+ * Returns null if the string is not a valid version.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2] ?? '0', 10),
+    patch: parseInt(match[3] ?? '0', 10),
+  };
+}
+
+/**
+ * Format a parsed version as "major.minor.patch"
+ */
+export function formatVersion(version: SemVer): string {
+  return `${version.major}.${version.minor}.${version.patch}`;
+}
+
+/**
+ * Bump a version string by the given level
+ */
+export function bumpVersion(version: string | undefined, level: BumpLevel = 'patch'): string {
+  const parsed = parseVersion(version ?? '0.0.0');
+  if (!parsed) {
+    throw new Error(`Invalid version: ${version}. Expected "major.minor.patch"`);
+  }
+
+  switch (level) {
+    case 'major':
+      return formatVersion({ major: parsed.major + 1, minor: 0, patch: 0 });
+    case 'minor':
+      return formatVersion({ major: parsed.major, minor: parsed.minor + 1, patch: 0 });
+    case 'patch':
+      return formatVersion({ ...parsed, patch: parsed.patch + 1 });
+  }
+}
+
+/**
+ * Compare two versions. Returns a negative number if a < b, positive if a > b,
+ * and 0 if they are equal. Invalid versions sort before valid ones.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  if (!left || !right) {
+    return (left ? 1 : 0) - (right ? 1 : 0);
+  }
+
+  return left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+}
+
+/**
+ * Comparator in a version range, e.g. ">=1.2.0"
+ */
+interface Comparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: SemVer;
+}
+
+/**
+ * Expand one range term ("^1.2", "~1.2.3", "1.x", ">=1.0.0", "1.2") into comparators
+ */
+function parseRangeTerm(term: string): Comparator[] | null {
+  const match = term.match(
+    /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/,
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, operator, ...parts] = match;
+  const numbers = parts.map((part) =>
+    part === undefined || /^[xX*]$/.test(part) ? undefined : parseInt(part, 10),
+  );
+  const [major, minor, patch] = numbers;
+
+  // "*" or "x" matches everything
+  if (major === undefined) {
+    return [];
+  }
+
+  const lower: SemVer = { major, minor: minor ?? 0, patch: patch ?? 0 };
+
+  switch (operator) {
+    case '^': {
+      // Allow changes that do not modify the left-most non-zero component
+      const upper: SemVer =
+        major > 0 || minor === undefined
+          ? { major: major + 1, minor: 0, patch: 0 }
+          : minor > 0 || patch === undefined
+            ? { major, minor: minor + 1, patch: 0 }
+            : { major, minor, patch: patch + 1 };
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~': {
+      const upper: SemVer =
+        minor === undefined
+          ? { major: major + 1, minor: 0, patch: 0 }
+          : { major, minor: minor + 1, patch: 0 };
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return [{ operator, version: lower }];
+    default: {
+      // Exact version, or an x-range for partial versions ("1", "1.2", "1.2.x")
+      if (patch !== undefined) {
+        return [{ operator: '=', version: lower }];
+      }
+      const upper: SemVer =
+        minor === undefined
+          ? { major: major + 1, minor: 0, patch: 0 }
+          : { major, minor: minor + 1, patch: 0 };
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+  }
+}
+
+/**
+ * Check whether a version satisfies a comparator
+ */
+function testComparator(version: string, comparator: Comparator): boolean {
+  const diff = compareVersions(version, formatVersion(comparator.version));
+
+  switch (comparator.operator) {
+    case '<':
+      return diff < 0;
+    case '<=':
+      return diff <= 0;
+    case '>':
+      return diff > 0;
+    case '>=':
+      return diff >= 0;
+    case '=':
+      return diff === 0;
+  }
+}
+
+/**
+ * Check whether a string is a valid version range
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Parse a range into alternatives ("||") of comparator sets (space-separated)
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const trimmed = range.trim();
+  if (trimmed === '' || trimmed === 'latest') {
+    return [[]];
+  }
+
+  const alternatives: Comparator[][] = [];
+  for (const alternative of trimmed.split('||')) {
+    const comparators: Comparator[] = [];
+    for (const term of alternative.trim().split(/\s+/)) {
+      const parsed = parseRangeTerm(term);
+      if (!parsed) {
+        return null;
+      }
+      comparators.push(...parsed);
+    }
+    alternatives.push(comparators);
+  }
+
+  return alternatives;
+}
+
+/**
+ * Check whether a version satisfies a range.
+ *
+ * Supports exact versions, "^" and "~" ranges, x-ranges ("1.x", "1.2"),
+ * comparators (">=1.0.0 <2.0.0"), "||" alternatives, and "*" / "latest".
+ */
+export function satisfies(version: string, range: string): boolean {
+  if (!parseVersion(version)) {
+    return false;
+  }
+
+  const alternatives = parseRange(range);
+  if (!alternatives) {
+    throw new Error(`Invalid version range: ${range}`);
+  }
+
+  return alternatives.some((comparators) => comparators.every((c) => testComparator(version, c)));
+}
+
+/**
+ * Get the highest version that satisfies a range, or null if none does
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  const matching = versions.filter((v) => satisfies(v, range));
+  if (matching.length === 0) {
+    return null;
+  }
+
+  return matching.sort(compareVersions)[matching.length - 1];
+}
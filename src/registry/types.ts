@@ -6,11 +6,30 @@
 
 import type { PersonaCategory } from '../core/types.js';
 
+/**
+ * Registry backend type
+ *
+ * - github: GitHub repository ("owner/repo") via the GitHub API
+ * - file: Directory on the local filesystem
+ * - git: Any git remote, cloned with git
+ * - http: Static HTTP server hosting index.json
+ */
+export type RegistryType = 'github' | 'file' | 'git' | 'http';
+
 /**
  * Registry configuration
  */
 export interface RegistryConfig {
-  /** GitHub repository in format "owner/repo" */
+  /** Registry name (from config.yaml, or the --registry value) */
+  name?: string;
+  /** Priority when merging registries; higher wins (default: 0) */
+  priority?: number;
+  /** Backend used to reach the registry */
+  type: RegistryType;
+  /**
+   * Registry location: "owner/repo" for github, a directory for file,
+   * a git URL for git, or a base URL for http
+   */
   repository: string;
   /** Branch to use (default: main) */
   branch: string;
@@ -18,18 +37,101 @@ export interface RegistryConfig {
   basePath: string;
   /** Local cache directory */
   cacheDir: string;
+  /** Keys trusted to sign personas from this registry */
+  trustedKeys?: TrustedKey[];
 }
 
 /**
  * Default registry configuration
  */
 export const DEFAULT_REGISTRY_CONFIG: RegistryConfig = {
+  type: 'github',
   repository: 'm2ai-portfolio/persona-registry',
   branch: 'main',
   basePath: 'personas',
   cacheDir: '~/.persona-academy/personas',
 };
 
+/**
+ * Registry as declared in ~/.persona-academy/config.yaml
+ */
+export interface RegistryDefinition {
+  /** Unique registry name (e.g. company-internal) */
+  name: string;
+  /** Registry location: owner/repo, file://, git+ssh://, or https:// URL */
+  url: string;
+  /** Backend type (inferred from url when omitted) */
+  type?: RegistryType;
+  /** Branch to use (default: main) */
+  branch?: string;
+  /** Base path within the registry for personas (default: personas) */
+  basePath?: string;
+  /** Priority when merging registries; higher wins (default: 0) */
+  priority?: number;
+}
+
+/**
+ * Academy configuration file structure
+ */
+export interface AcademyConfig {
+  /** Configured registries */
+  registries: RegistryDefinition[];
+  /** Public keys trusted to sign personas */
+  trustedKeys?: TrustedKey[];
+}
+
+/**
+ * Public key trusted to sign personas
+ */
+export interface TrustedKey {
+  /** Key identifier referenced by signatures */
+  id: string;
+  /** ed25519 public key (PEM) */
+  publicKey: string;
+}
+
+/**
+ * Detached signature of a persona.yaml
+ */
+export interface PersonaSignature {
+  /** Id of the key that produced the signature */
+  keyId: string;
+  /** Base64 ed25519 signature of the persona.yaml bytes */
+  signature: string;
+}
+
+/**
+ * Where a persona came from
+ */
+export interface RegistrySource {
+  /** Registry name */
+  name: string;
+  /** Backend type */
+  type: RegistryType;
+  /** Registry location */
+  repository: string;
+  /** Branch */
+  branch: string;
+}
+
+/**
+ * A published version of a persona
+ */
+export interface RegistryVersion {
+  /** Semantic version */
+  version: string;
+  /** Git blob SHA of this version's persona.yaml */
+  sha?: string;
+  /** Path to this version's persona.yaml, relative to basePath (default: <id>/persona.yaml) */
+  path?: string;
+  /** Content hash of this version's persona.yaml ("sha256:<hex>") */
+  hash?: string;
+  /** Detached signature of this version's persona.yaml */
+  signature?: PersonaSignature;
+  /** When this version was published */
+  updated?: string;
+}
+
 /**
  * Entry in the registry index
  */
@@ -56,6 +158,12 @@ export interface RegistryEntry {
   updated: string;
   /** SHA of the latest commit for this persona */
   sha?: string;
+  /** Content hash of the latest persona.yaml ("sha256:<hex>") */
+  hash?: string;
+  /** Detached signature of the latest persona.yaml */
+  signature?: PersonaSignature;
+  /** All published versions, newest first (defaults to just `version`) */
+  versions?: RegistryVersion[];
 }
 
 /**
@@ -80,6 +188,59 @@ export interface RegistryIndex {
   personas: RegistryEntry[];
 }
 
+/**
+ * Registry entry merged across registries
+ */
+export interface MergedRegistryEntry extends RegistryEntry {
+  /** Name of the registry the entry is served from */
+  registry: string;
+  /** Lower-priority registries that also provide this persona */
+  alsoIn: string[];
+}
+
+/**
+ * Registry index merged across registries
+ */
+export interface MergedRegistryIndex {
+  /** Personas, deduplicated by id in priority order */
+  personas: MergedRegistryEntry[];
+  /** Registries that could not be read */
+  errors: Array<{ registry: string; message: string }>;
+}
+
+/**
+ * Registry access check result
+ */
+export interface RegistryAccess {
+  accessible: boolean;
+  authenticated: boolean;
+  message: string;
+}
+
+/**
+ * Persona file fetched from a registry
+ */
+export interface FetchedPersona {
+  /** Raw persona.yaml content */
+  content: string;
+  /** Git blob SHA of the content, for update detection */
+  sha?: string;
+}
+
+/**
+ * Backend that serves a registry index and persona files
+ */
+export interface RegistryBackend {
+  /** Backend type */
+  readonly type: RegistryType;
+  /** Fetch the registry index */
+  fetchIndex(): Promise<RegistryIndex>;
+  /** Fetch a persona's persona.yaml (or the file at `path`, relative to basePath) */
+  fetchPersona(personaId: string, path?: string): Promise<FetchedPersona>;
+  /** Check that the registry can be reached */
+  checkAccess(): Promise<RegistryAccess>;
+}
+
 /**
  * Cached persona metadata
  */
@@ -92,6 +253,12 @@ export interface CachedPersona {
   cachedAt: string;
   /** SHA when cached (for update detection) */
   cachedSha?: string;
+  /** Content hash of persona.yaml as written to the cache (for tamper detection) */
+  hash: string;
+  /** Signature the persona was published with */
+  signature?: PersonaSignature;
+  /** Registry the persona was pulled from */
+  registry: RegistrySource;
   /** Whether local changes exist */
   hasLocalChanges: boolean;
 }
@@ -104,8 +271,6 @@ export interface CacheIndex {
   version: string;
   /** When the cache was last updated */
   lastUpdated: string;
-  /** Registry this cache is from */
-  registry: string;
   /** Cached personas */
   personas: Record<string, CachedPersona>;
 }
@@ -120,6 +285,60 @@ export interface PullResult {
   localPath?: string;
   message: string;
   version?: string;
+  /** Registry the persona was pulled from */
+  registry?: string;
+  /** SHA of the pulled persona.yaml */
+  sha?: string;
+  /** Content hash of the pulled persona.yaml ("sha256:<hex>") */
+  hash?: string;
+  /** Version range that was requested, if any */
+  requested?: string;
+  /** Id of the trusted key that signed the persona, if verified */
+  signedBy?: string;
+}
+
+/**
+ * Options for pulling a single persona
+ */
+export interface PullOptions {
+  /** Backend to reuse (created from the config if omitted) */
+  backend?: RegistryBackend;
+  /** Specific version to pull (defaults to the latest persona.yaml) */
+  version?: RegistryVersion;
+  /** Expected hash and signature of the latest persona.yaml, from the index */
+  integrity?: Pick<RegistryEntry, 'hash' | 'signature'>;
+  /** Fail unless the fetched content has this SHA */
+  expectedSha?: string;
+  /** Fail unless the fetched content has this content hash */
+  expectedHash?: string;
+  /** Version range that was requested, recorded on the result */
+  requested?: string;
+}
+
+/**
+ * Persona pinned in persona-lock.yaml
+ */
+export interface LockedPersona {
+  /** Exact version pulled */
+  version: string;
+  /** SHA of the pulled persona.yaml */
+  sha?: string;
+  /** Content hash of the pulled persona.yaml ("sha256:<hex>"); frozen pulls require it */
+  hash?: string;
+  /** Name of the registry it was pulled from */
+  registry: string;
+  /** Version range that was requested, if any */
+  requested?: string;
+}
+
+/**
+ * persona-lock.yaml file structure
+ */
+export interface Lockfile {
+  /** Lockfile format version */
+  lockfileVersion: number;
+  /** Pinned personas by id */
+  personas: Record<string, LockedPersona>;
 }
 
 /**
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, isAuthorized } from '../http-transport.js';
+import type { HttpServerHandle } from '../http-transport.js';
+import { createMcpServer } from '../server.js';
+import { PersonaManager } from '../persona-manager.js';
+
+const TOKEN = 'test-token';
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test', version: '1.0.0' },
+  },
+});
+
+function personaYaml(name: string): string {
+  return `identity:
+  name: "${name}"
+  role: "Advisor"
+  background: "Advises."
+
+voice:
+  tone: [direct]
+  phrases: ["Why?"]
+  style: ["Terse"]
+
+frameworks:
+  analysis:
+    description: "Analysis"
+    concepts: {}
+
+validation:
+  must_include:
+    - pattern: "risk"
+`;
+}
+
+describe('HTTP transport', () => {
+  let tempDir: string;
+  let http: HttpServerHandle;
+  const manager = new PersonaManager();
+
+  beforeAll(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-http-test-'));
+    for (const id of ['alpha', 'beta']) {
+      mkdirSync(join(tempDir, id));
+      writeFileSync(join(tempDir, id, 'persona.yaml'), personaYaml(id));
+    }
+    manager.initialize({ localDir: tempDir, includeCache: false, defaultPersona: 'alpha' });
+
+    http = await startHttpServer({
+      port: 0,
+      authToken: TOKEN,
+      createSession: (sessionId) => ({
+        server: createMcpServer(manager.createSession(sessionId)),
+        close: () => manager.endSession(sessionId),
+      }),
+      health: () => ({ personas: 2 }),
+    });
+  });
+
+  afterAll(async () => {
+    await http.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function connect(token = TOKEN): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(http.url), {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } },
+      }),
+    );
+    return client;
+  }
+
+  function startSessionServer(sessionIdleTimeoutMs?: number): Promise<HttpServerHandle> {
+    return startHttpServer({
+      port: 0,
+      createSession: (sessionId) => ({
+        server: createMcpServer(manager.createSession(sessionId)),
+        close: () => manager.endSession(sessionId),
+      }),
+      sessionIdleTimeoutMs,
+    });
+  }
+
+  async function activePersona(client: Client): Promise<string> {
+    const result = await client.callTool({ name: 'get_active_persona', arguments: {} });
+    return (result.content as { text: string }[])[0].text;
+  }
+
+  it('checks bearer tokens', () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized('Bearer wrong', TOKEN)).toBe(false);
+    expect(isAuthorized(undefined, TOKEN)).toBe(false);
+    expect(isAuthorized(TOKEN, TOKEN)).toBe(false);
+  });
+
+  it('serves /healthz without authentication', async () => {
+    const response = await fetch(http.url.replace('/mcp', '/healthz'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok', personas: 2 });
+  });
+
+  it('rejects MCP requests without a valid token', async () => {
+    const response = await fetch(http.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+    await expect(connect('wrong')).rejects.toThrow();
+  });
+
+  it('keeps an active persona per session', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    try {
+      await first.callTool({ name: 'switch_persona', arguments: { persona_id: 'beta' } });
+
+      expect(await activePersona(first)).toContain('beta');
+      expect(await activePersona(second)).toContain('alpha');
+      expect(manager.defaultSession.getActivePersonaId()).toBe('alpha');
+      expect(manager.getSessionCount()).toBe(2);
+
+      const tools = await first.listTools();
+      expect(tools.tools.map((t) => t.name)).toContain('beta_analysis');
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it('closes sessions whose initialize request fails', async () => {
+    const server = await startSessionServer();
+    const sessionsBefore = manager.getSessionCount();
+
+    try {
+      // The transport rejects POSTs that do not accept an event stream
+      const response = await fetch(server.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: INITIALIZE,
+      });
+
+      expect(response.status).toBe(406);
+      expect(manager.getSessionCount()).toBe(sessionsBefore);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('closes sessions that stay idle past the timeout', async () => {
+    const server = await startSessionServer(50);
+    const sessionsBefore = manager.getSessionCount();
+
+    try {
+      const response = await fetch(server.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: INITIALIZE,
+      });
+      await response.text();
+
+      expect(response.headers.get('mcp-session-id')).toBeTruthy();
+      await vi.waitFor(() => expect(manager.getSessionCount()).toBe(sessionsBefore));
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, appendFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PersonaManager } from '../persona-manager.js';
+import { handleToolCall, getAllTools } from '../tools.js';
+import { cachePersona } from '../../registry/cache-manager.js';
+import { computeContentHash } from '../../registry/integrity.js';
+import { createRegistryEntry } from '../../registry/index-builder.js';
+
+function personaYaml(name: string, framework = 'analysis'): string {
+  return `identity:
+  name: "${name}"
+  role: "Advisor"
+  background: "Advises."
+
+voice:
+  tone: [direct]
+  phrases: ["Why?"]
+  style: ["Terse"]
+
+frameworks:
+  ${framework}:
+    description: "${framework}"
+    concepts: {}
+
+validation:
+  must_include:
+    - pattern: "risk"
+`;
+}
+
+describe('PersonaManager', () => {
+  let tempDir: string;
+  let manager: PersonaManager;
+
+  function writePersona(id: string, content: string): void {
+    mkdirSync(join(tempDir, id), { recursive: true });
+    writeFileSync(join(tempDir, id, 'persona.yaml'), content);
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-manager-test-'));
+    writePersona('alpha', personaYaml('Alpha'));
+    writePersona('beta', personaYaml('Beta', 'pricing'));
+    writePersona('broken', 'identity: [unclosed\n');
+    manager = new PersonaManager();
+    manager.initialize({ localDir: tempDir, includeCache: false, defaultPersona: 'alpha' });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('loads valid personas into the catalog and skips invalid ones', () => {
+    expect(manager.getPersonaIds().sort()).toEqual(['alpha', 'beta']);
+    expect(manager.listPersonas().find((p) => p.id === 'beta')).toMatchObject({
+      name: 'Beta',
+      frameworkCount: 1,
+      source: 'local',
+    });
+    expect(manager.defaultSession.getActivePersonaId()).toBe('alpha');
+  });
+
+  it('keeps an active persona per session', () => {
+    const first = manager.createSession('first');
+    const second = manager.createSession('second');
+
+    expect(first.switchPersona('beta').success).toBe(true);
+
+    expect(first.getActivePersona()?.definition.identity.name).toBe('Beta');
+    expect(second.getActivePersonaId()).toBe('alpha');
+    expect(manager.defaultSession.getActivePersonaId()).toBe('alpha');
+    expect(first.switchPersona('missing')).toMatchObject({ success: false });
+    expect(first.getActivePersonaId()).toBe('beta');
+  });
+
+  it('does not share state between managers', () => {
+    const other = new PersonaManager();
+
+    expect(other.getPersonaCount()).toBe(0);
+    expect(other.defaultSession.getActivePersona()).toBeNull();
+    expect(manager.getPersonaCount()).toBe(2);
+  });
+
+  it('swaps in a new catalog on refresh without mutating loaded personas', () => {
+    const session = manager.createSession();
+    const before = session.getActivePersona()!;
+
+    writePersona('alpha', personaYaml('Alpha v2'));
+    manager.refreshPersonas(['alpha']);
+
+    expect(before.definition.identity.name).toBe('Alpha');
+    expect(session.getActivePersona()?.definition.identity.name).toBe('Alpha v2');
+    expect(manager.reloadPersona('alpha')).toBe(true);
+    expect(manager.reloadPersona('missing')).toBe(false);
+  });
+
+  it('runs tool handlers against the given session', () => {
+    const session = manager.createSession();
+
+    expect(handleToolCall('switch_persona', { persona_id: 'beta' }, session)).toContain('Beta');
+    expect(getAllTools(session).map((t) => t.name)).toContain('beta_pricing');
+    expect(getAllTools(manager.defaultSession).map((t) => t.name)).toContain('alpha_analysis');
+    expect(handleToolCall('get_active_persona', {}, manager.defaultSession)).toContain('Alpha');
+  });
+
+  it('keeps existing sessions when re-initialized', () => {
+    const defaultSession = manager.defaultSession;
+    const open = manager.createSession('open');
+    open.switchPersona('beta');
+
+    manager.initialize({ localDir: tempDir, includeCache: false, defaultPersona: 'beta' });
+
+    expect(manager.defaultSession).toBe(defaultSession);
+    expect(defaultSession.getActivePersonaId()).toBe('beta');
+    expect(manager.getSessionCount()).toBe(1);
+    expect(open.getActivePersona()?.definition.identity.name).toBe('Beta');
+  });
+
+  it('verifies cached personas again when reloading them', () => {
+    const home = process.env.HOME;
+    process.env.HOME = join(tempDir, 'home');
+
+    try {
+      const content = personaYaml('Gamma');
+      const cached = cachePersona(
+        { ...createRegistryEntry('gamma', {}), hash: computeContentHash(content) },
+        content,
+      );
+      manager.initialize({ localDir: join(tempDir, 'none'), verifyCache: 'verify' });
+      expect(manager.getPersonaIds()).toEqual(['gamma']);
+
+      appendFileSync(join(cached.localPath, 'persona.yaml'), '# edited after pulling\n');
+
+      expect(manager.reloadPersona('gamma')).toBe(false);
+      expect(manager.getPersona('gamma')?.definition.identity.name).toBe('Gamma');
+    } finally {
+      process.env.HOME = home;
+    }
+  });
+
+  it('ends sessions', () => {
+    manager.createSession('temporary');
+    expect(manager.getSessionCount()).toBe(1);
+
+    manager.endSession('temporary');
+    expect(manager.getSessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  initializeManager,
+  refreshPersonas,
+  getActivePersona,
+  getActivePersonaId,
+  getPersona,
+  hasPersona,
+} from '../persona-manager.js';
+import { getChangedPersonaId, watchPersonas } from '../persona-watcher.js';
+
+function personaYaml(name: string, frameworks = ['analysis']): string {
+  return `identity:
+  name: "${name}"
+  role: "Advisor"
+  background: "Advises."
+
+voice:
+  tone: [direct]
+  phrases: ["Why?"]
+  style: ["Terse"]
+
+frameworks:
+${frameworks.map((key) => `  ${key}:\n    description: "${key}"\n    concepts: {}`).join('\n')}
+
+validation:
+  must_include:
+    - pattern: "risk"
+`;
+}
+
+describe('refreshPersonas', () => {
+  let tempDir: string;
+
+  function writePersona(id: string, content: string): void {
+    mkdirSync(join(tempDir, id), { recursive: true });
+    writeFileSync(join(tempDir, id, 'persona.yaml'), content);
+  }
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'persona-refresh-test-'));
+    writePersona('alpha', personaYaml('Alpha'));
+    writePersona('beta', personaYaml('Beta'));
+    initializeManager({ localDir: tempDir, includeCache: false, defaultPersona: 'alpha' });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('swaps in the new version and keeps the active persona selected', () => {
+    writePersona('alpha', personaYaml('Alpha v2', ['analysis', 'pricing']));
+
+    expect(refreshPersonas(['alpha'])).toEqual([{ id: 'alpha', status: 'reloaded' }]);
+    expect(getActivePersonaId()).toBe('alpha');
+    expect(getActivePersona()?.definition.identity.name).toBe('Alpha v2');
+    expect(getActivePersona()?.systemPrompt).toContain('Alpha v2');
+    expect(Object.keys(getActivePersona()!.definition.frameworks)).toEqual(['analysis', 'pricing']);
+  });
+
+  it('keeps the previous version when the new YAML is invalid', () => {
+    writePersona('alpha', 'identity: [unclosed\n');
+
+    const [result] = refreshPersonas(['alpha']);
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toBeDefined();
+    expect(getActivePersona()?.definition.identity.name).toBe('Alpha');
+  });
+
+  it('picks up changes to external files', () => {
+    mkdirSync(join(tempDir, 'beta', 'frameworks'));
+    writeFileSync(
+      join(tempDir, 'beta', 'frameworks', 'pricing.yaml'),
+      'description: "Pricing"\nconcepts: {}\n',
+    );
+
+    refreshPersonas(['beta']);
+
+    expect(Object.keys(getPersona('beta')!.definition.frameworks)).toContain('pricing');
+  });
+
+  it('refreshes personas that extend a changed persona', () => {
+    writePersona('gamma', 'extends: alpha\nidentity:\n  name: "Gamma"\n');
+    refreshPersonas(['gamma']);
+    writePersona('alpha', personaYaml('Alpha v2', ['analysis', 'pricing']));
+
+    const results = refreshPersonas(['alpha']);
+
+    expect(results.map((r) => r.id).sort()).toEqual(['alpha', 'gamma']);
+    expect(Object.keys(getPersona('gamma')!.definition.frameworks)).toContain('pricing');
+  });
+
+  it('adds new personas and removes deleted ones', () => {
+    writePersona('gamma', personaYaml('Gamma'));
+    rmSync(join(tempDir, 'beta'), { recursive: true });
+
+    const results = refreshPersonas(['gamma', 'beta']);
+
+    expect(results).toEqual([
+      { id: 'gamma', status: 'added' },
+      { id: 'beta', status: 'removed' },
+    ]);
+    expect(hasPersona('gamma')).toBe(true);
+    expect(hasPersona('beta')).toBe(false);
+  });
+
+  it('keeps the active persona when its directory is deleted', () => {
+    rmSync(join(tempDir, 'alpha'), { recursive: true });
+
+    expect(refreshPersonas(['alpha'])[0].status).toBe('failed');
+    expect(getActivePersonaId()).toBe('alpha');
+    expect(hasPersona('alpha')).toBe(true);
+  });
+});
+
+describe('getChangedPersonaId', () => {
+  it('maps watched paths to persona ids', () => {
+    expect(getChangedPersonaId('porter/persona.yaml')).toBe('porter');
+    expect(getChangedPersonaId('porter/frameworks/five_forces.yaml')).toBe('porter');
+    expect(getChangedPersonaId('porter')).toBe('porter');
+    expect(getChangedPersonaId('.DS_Store')).toBeNull();
+  });
+});
+
+describe('watchPersonas', () => {
+  let rootDir: string;
+  let personasDir: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'persona-watch-test-'));
+    personasDir = join(rootDir, 'personas');
+    mkdirSync(join(personasDir, 'alpha', 'case-studies'), { recursive: true });
+    mkdirSync(join(personasDir, 'beta'), { recursive: true });
+    mkdirSync(join(rootDir, 'frameworks'));
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('debounces bursts of changes into one notification', async () => {
+    const onChange = vi.fn();
+    const watcher = watchPersonas({ personasDir, debounceMs: 100, onChange });
+
+    try {
+      writeFileSync(join(personasDir, 'alpha', 'persona.yaml'), 'a');
+      writeFileSync(join(personasDir, 'alpha', 'case-studies', 'launch.yaml'), 'b');
+      writeFileSync(join(personasDir, 'beta', 'samples.yaml'), 'c');
+
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 3000 });
+      await new Promise((r) => setTimeout(r, 250));
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect([...onChange.mock.calls[0][0]].sort()).toEqual(['alpha', 'beta']);
+      expect(onChange.mock.calls[0][1]).toBe(false);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it('reports changes to the framework library', async () => {
+    const onChange = vi.fn();
+    const watcher = watchPersonas({ personasDir, debounceMs: 50, onChange });
+
+    try {
+      writeFileSync(join(rootDir, 'frameworks', 'solid.yaml'), 'description: x');
+
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledWith([], true), { timeout: 3000 });
+    } finally {
+      watcher.close();
+    }
+  });
+});
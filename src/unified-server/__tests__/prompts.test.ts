@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { LoadedPersona } from '../../core/types.js';
+import { estimateTokens } from '../../core/tokens.js';
+
+vi.mock('../persona-manager.js', () => ({
+  listPersonas: vi.fn(),
+  getPersona: vi.fn(),
+}));
+
+import { listPrompts, getPrompt } from '../prompts.js';
+import { listPersonas, getPersona } from '../persona-manager.js';
+
+function makeLoadedPersona(): LoadedPersona {
+  return {
+    definition: {
+      identity: { name: 'Michael Porter', role: 'Competitive Strategist', background: 'HBS.' },
+      voice: { tone: ['analytical'], phrases: ['What is the industry structure?'], style: [] },
+      frameworks: {
+        five_forces: {
+          description: 'Industry structure analysis.',
+          concepts: { rivalry: { definition: 'Competition among incumbents' } },
+        },
+      },
+      validation: { must_include: [{ pattern: 'forces' }] },
+    },
+    sourcePath: '/personas/porter/persona.yaml',
+    systemPrompt: 'FULL PROMPT',
+    loadedAt: new Date(),
+  };
+}
+
+describe('prompts', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(listPersonas).mockReturnValue([
+      {
+        id: 'porter',
+        name: 'Michael Porter',
+        role: 'Competitive Strategist',
+        category: 'business-strategist',
+        frameworkCount: 1,
+        caseStudyCount: 0,
+        source: 'local',
+      },
+    ]);
+    vi.mocked(getPersona).mockImplementation((id) =>
+      id === 'porter' ? makeLoadedPersona() : null,
+    );
+  });
+
+  it('lists one prompt per persona with mode, budget and question arguments', () => {
+    const [prompt] = listPrompts();
+
+    expect(prompt.name).toBe('porter');
+    expect(prompt.description).toContain('Michael Porter');
+    expect(prompt.arguments.map((a) => a.name)).toEqual([
+      'mode',
+      'max_tokens',
+      'question',
+      'top_k',
+    ]);
+  });
+
+  it('returns the full system prompt by default', () => {
+    const result = getPrompt('porter');
+
+    expect(result.messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'FULL PROMPT' } },
+    ]);
+  });
+
+  it('generates the lean prompt and appends the question', () => {
+    const result = getPrompt('porter', { mode: 'lean', question: 'Should we enter Brazil?' });
+
+    expect(result.messages).toHaveLength(2);
+    expect(result.messages[0].content.text).toContain('# Michael Porter');
+    expect(result.messages[0].content.text).not.toBe('FULL PROMPT');
+    expect(result.messages[1].content.text).toBe('Should we enter Brazil?');
+  });
+
+  it('regenerates the full prompt within a token budget', () => {
+    const persona = makeLoadedPersona();
+    persona.definition.frameworks.five_forces.questions = ['Who holds the power?'];
+    persona.definition.case_studies = {
+      airlines: {
+        pattern: 'Structurally unattractive industry',
+        story: 'Airlines created value and captured none of it. '.repeat(40),
+        signals: ['Low margins'],
+      },
+    };
+    persona.definition.style_references = {
+      bauhaus: {
+        description: 'Form follows function. '.repeat(40),
+        design_principles: ['Economy'],
+        emotional_quality: 'Rigorous',
+      },
+    };
+    vi.mocked(getPersona).mockReturnValue(persona);
+
+    const prompt = getPrompt('porter', { max_tokens: '250' }).messages[0].content.text;
+
+    expect(estimateTokens(prompt)).toBeLessThanOrEqual(250);
+    // Style references and case-study stories go first; the questions still fit
+    expect(prompt).not.toContain('## Design References');
+    expect(prompt).not.toContain('captured none of it');
+    expect(prompt).toContain('**Pattern**: Structurally unattractive industry');
+    expect(prompt).toContain('- Who holds the power?');
+    expect(prompt).toContain('### Five Forces');
+  });
+
+  it('details only the frameworks relevant to the question with top_k', () => {
+    const persona = makeLoadedPersona();
+    persona.definition.frameworks.value_chain = {
+      description: 'Activities that create value.',
+      concepts: { margin: { definition: 'Value minus the cost of activities' } },
+      when_to_use: 'When costs are out of line with competitors',
+    };
+    vi.mocked(getPersona).mockReturnValue(persona);
+
+    const result = getPrompt('porter', { question: 'Why are our costs so high?', top_k: '1' });
+    const prompt = result.messages[0].content.text;
+
+    expect(prompt).toContain('### Value Chain');
+    expect(prompt).not.toContain('### Five Forces');
+    expect(prompt).toContain('- **Five Forces**: Industry structure analysis.');
+    expect(result.messages[1].content.text).toBe('Why are our costs so high?');
+  });
+
+  it('rejects unknown personas, modes and budgets', () => {
+    expect(() => getPrompt('nobody')).toThrow('Prompt "nobody" not found');
+    expect(() => getPrompt('porter', { mode: 'short' })).toThrow('Invalid mode "short"');
+    expect(() => getPrompt('porter', { max_tokens: 'lots' })).toThrow('Invalid max_tokens "lots"');
+  });
+});
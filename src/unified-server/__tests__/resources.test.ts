@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { LoadedPersona } from '../../core/types.js';
+
+vi.mock('../persona-manager.js', () => ({
+  listPersonas: vi.fn(),
+  getPersona: vi.fn(),
+}));
+
+import { listResources, readResource, parseResourceUri } from '../resources.js';
+import { listPersonas, getPersona } from '../persona-manager.js';
+
+function makeLoadedPersona(): LoadedPersona {
+  return {
+    definition: {
+      identity: { name: 'Clayton Christensen', role: 'Professor', background: 'HBS.' },
+      voice: { tone: ['academic'], phrases: ['What job?'], style: [] },
+      frameworks: {
+        jobs_to_be_done: {
+          description: 'Understanding customer motivation.\nCustomers hire products.',
+          concepts: { functional_job: { definition: 'The practical task' } },
+          questions: ['What job is the customer hiring this for?'],
+        },
+      },
+      case_studies: {
+        milkshake: {
+          pattern: 'Jobs-to-be-done discovery',
+          story: 'Commuters hired milkshakes.',
+        },
+      },
+      validation: { must_include: [{ pattern: 'job' }] },
+    },
+    sourcePath: '/personas/christensen/persona.yaml',
+    systemPrompt: '',
+    loadedAt: new Date(),
+  };
+}
+
+describe('resources', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(listPersonas).mockReturnValue([
+      {
+        id: 'christensen',
+        name: 'Clayton Christensen',
+        role: 'Professor',
+        category: 'business-strategist',
+        frameworkCount: 1,
+        caseStudyCount: 1,
+        source: 'local',
+      },
+    ]);
+    vi.mocked(getPersona).mockImplementation((id) =>
+      id === 'christensen' ? makeLoadedPersona() : null,
+    );
+  });
+
+  it('parses persona resource URIs', () => {
+    expect(parseResourceUri('persona://christensen/frameworks/jobs_to_be_done')).toEqual({
+      personaId: 'christensen',
+      kind: 'frameworks',
+      name: 'jobs_to_be_done',
+    });
+    expect(parseResourceUri('persona://christensen/case-studies/milkshake')?.kind).toBe(
+      'case-studies',
+    );
+    expect(parseResourceUri('persona://christensen/voice')).toBeNull();
+    expect(parseResourceUri('file:///etc/passwd')).toBeNull();
+  });
+
+  it('lists frameworks and case studies of every persona', () => {
+    const resources = listResources();
+
+    expect(resources.map((r) => r.uri)).toEqual([
+      'persona://christensen/frameworks/jobs_to_be_done',
+      'persona://christensen/case-studies/milkshake',
+    ]);
+    expect(resources[0].description).toBe('Understanding customer motivation.');
+    expect(resources[1].description).toBe('Jobs-to-be-done discovery');
+  });
+
+  it('reads frameworks and case studies as markdown', () => {
+    const framework = readResource('persona://christensen/frameworks/jobs_to_be_done');
+    expect(framework.mimeType).toBe('text/markdown');
+    expect(framework.text).toContain('# Jobs To Be Done');
+    expect(framework.text).toContain('What job is the customer hiring this for?');
+
+    const caseStudy = readResource('persona://christensen/case-studies/milkshake');
+    expect(caseStudy.text).toContain('Commuters hired milkshakes.');
+  });
+
+  it('reports unknown resources', () => {
+    expect(() => readResource('persona://christensen/frameworks/nope')).toThrow(
+      'Framework "nope" not found',
+    );
+    expect(() => readResource('persona://nobody/case-studies/milkshake')).toThrow(
+      'Persona "nobody" not found',
+    );
+    expect(() => readResource('https://example.com')).toThrow('Unsupported resource URI');
+  });
+});
@@ -25,12 +25,19 @@ vi.mock('../../departments/index.js', () => ({
 import {
   handleListPersonas,
   handleSwitchPersona,
+  handleRouteRequest,
   handlePersonaAnalyze,
   handleGetFramework,
   handleGetCaseStudy,
+  handleFindCaseStudies,
   handleGetActivePersona,
   handleListDepartments,
+  handlePanelAnalyze,
   handleToolCall,
+  handleGeneratedTool,
+  getPersonaTools,
+  getAllTools,
+  ALL_TOOLS,
 } from '../tools.js';
 
 import {
@@ -38,6 +45,7 @@ import {
   switchPersona,
   getActivePersona,
   getActivePersonaId,
+  getPersona,
   getRandomPhrase,
 } from '../persona-manager.js';
 
@@ -200,6 +208,7 @@ const mockListPersonas = listPersonas as ReturnType<typeof vi.fn>;
 const mockSwitchPersona = switchPersona as ReturnType<typeof vi.fn>;
 const mockGetActivePersona = getActivePersona as ReturnType<typeof vi.fn>;
 const mockGetActivePersonaId = getActivePersonaId as ReturnType<typeof vi.fn>;
+const mockGetPersona = getPersona as ReturnType<typeof vi.fn>;
 const mockGetRandomPhrase = getRandomPhrase as ReturnType<typeof vi.fn>;
 const mockListDepartments = listDepartments as ReturnType<typeof vi.fn>;
 const mockGetDepartment = getDepartment as ReturnType<typeof vi.fn>;
@@ -336,6 +345,82 @@ describe('handleSwitchPersona', () => {
     expect(result).toContain('Failed to switch persona');
     expect(result).toContain('Persona "unknown" not found');
   });
+
+  it('activates the best match for the request when auto is set', () => {
+    const persona = makeLoadedPersona();
+    mockListPersonas.mockReturnValue([makePersonaSummary()]);
+    mockGetPersona.mockReturnValue(persona);
+    mockListDepartments.mockReturnValue([]);
+    mockSwitchPersona.mockReturnValue({ success: true, persona, message: 'ok' });
+
+    const result = handleSwitchPersona({
+      auto: true,
+      request: 'Incumbents keep ceding low-margin segments to new entrants',
+    });
+
+    expect(mockSwitchPersona).toHaveBeenCalledWith('christensen');
+    expect(result).toContain('# Switched to Clayton Christensen');
+    expect(result).toContain('**Why**: Best match for your request');
+    expect(result).toContain('case-study signals (incumbents, ceding, low, margin, segments');
+  });
+
+  it('does not switch when auto finds no match', () => {
+    mockListPersonas.mockReturnValue([makePersonaSummary()]);
+    mockGetPersona.mockReturnValue(makeLoadedPersona());
+    mockListDepartments.mockReturnValue([]);
+
+    const result = handleSwitchPersona({ auto: true, request: 'quantum chromodynamics' });
+
+    expect(result).toBe(
+      'No persona matches "quantum chromodynamics". Use list_personas to choose one.',
+    );
+    expect(mockSwitchPersona).not.toHaveBeenCalled();
+  });
+
+  it('requires a persona_id or a request', () => {
+    expect(handleSwitchPersona({})).toContain('Provide a persona_id');
+    expect(handleSwitchPersona({ auto: true })).toContain('needs a "request"');
+  });
+});
+
+describe('handleRouteRequest', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('ranks personas using department missions', () => {
+    mockListPersonas.mockReturnValue([
+      makePersonaSummary(),
+      makePersonaSummary({ id: 'porter', name: 'Michael Porter' }),
+    ]);
+    mockGetPersona.mockImplementation((id: string) =>
+      id === 'porter'
+        ? makeLoadedPersona({
+            definition: {
+              ...makeLoadedPersona().definition,
+              identity: { name: 'Michael Porter', role: 'Strategist', background: 'HBS' },
+              case_studies: {},
+            },
+          })
+        : makeLoadedPersona(),
+    );
+    mockListDepartments.mockReturnValue([
+      makeDepartmentSummary({ id: 'pricing', mission: 'Pricing strategy', personas: ['porter'] }),
+    ]);
+
+    const result = handleRouteRequest({ request: 'pricing for incumbents' });
+
+    expect(result).toContain('# Routing: "pricing for incumbents"');
+    expect(result.indexOf('Clayton Christensen')).toBeLessThan(result.indexOf('Michael Porter'));
+    expect(result).toContain('- **Matched**: department mission (pricing)');
+  });
+
+  it('reports when nothing matches', () => {
+    mockListPersonas.mockReturnValue([]);
+    mockListDepartments.mockReturnValue([]);
+
+    expect(handleRouteRequest({ request: 'anything' })).toContain('No persona matches');
+  });
 });
 
 describe('handlePersonaAnalyze', () => {
@@ -394,6 +479,33 @@ describe('handlePersonaAnalyze', () => {
     expect(result).toContain('### Jobs To Be Done');
     expect(result).not.toContain('### Disruption Theory');
   });
+
+  it('details only the top_k most relevant frameworks and case studies', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+
+    const result = handlePersonaAnalyze({
+      situation: 'What emotional outcome do customers want from the practical task?',
+      top_k: 1,
+    });
+
+    expect(result).toContain('*The 1 most relevant to your situation:*');
+    expect(result).toContain('### Jobs To Be Done');
+    expect(result).not.toContain('### Disruption Theory');
+    expect(result).toContain('**Other Frameworks** (use `get_framework` for details):');
+    expect(result).toContain('- **Disruption Theory**: Theory of disruptive innovation');
+    expect(result).toContain('**Other Case Studies** (use `get_case_study` for details):');
+  });
+
+  it('orders case studies by relevance to the situation', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+
+    const result = handlePersonaAnalyze({
+      situation: 'Customers show unexpected usage patterns for our product.',
+    });
+
+    expect(result.indexOf('### Milkshake')).toBeLessThan(result.indexOf('### Steel Minimills'));
+    expect(result).toContain('**Watch for these signals**: **Unexpected usage patterns**');
+  });
 });
 
 describe('handleGetFramework', () => {
@@ -485,6 +597,77 @@ describe('handleGetCaseStudy', () => {
   });
 });
 
+describe('handleFindCaseStudies', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('returns error when no active persona and all_personas is not set', () => {
+    mockGetActivePersona.mockReturnValue(null);
+
+    const result = handleFindCaseStudies({ situation: 'Incumbents retreating' });
+
+    expect(result).toContain('No persona is currently active');
+  });
+
+  it('ranks the active persona case studies and highlights matched signals', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    const result = handleFindCaseStudies({
+      situation: 'New entrants keep improving quality at the bottom of our market',
+    });
+
+    expect(result).toContain('## 1. Steel Minimills');
+    expect(result).toContain(
+      '- **Signals**: **New entrants improving quality**, Incumbents ceding low-margin segments',
+    );
+    expect(result).toContain('- **Lessons**: Disruption starts at the bottom');
+    expect(result).not.toContain('Milkshake');
+    expect(result).not.toContain('**Persona**');
+  });
+
+  it('searches every loaded persona with all_personas', () => {
+    mockListPersonas.mockReturnValue([
+      makePersonaSummary(),
+      makePersonaSummary({ id: 'porter', name: 'Michael Porter' }),
+    ]);
+    mockGetPersona.mockImplementation((id: string) =>
+      id === 'porter'
+        ? makeLoadedPersona({
+            definition: {
+              ...makeLoadedPersona().definition,
+              identity: { name: 'Michael Porter', role: 'Strategist', background: 'HBS' },
+              case_studies: {
+                southwest: {
+                  pattern: 'Fit across activities',
+                  story: 'Southwest tailored every activity to short-haul service.',
+                  signals: ['Rivals copying individual activities'],
+                },
+              },
+            },
+          })
+        : makeLoadedPersona(),
+    );
+
+    const result = handleFindCaseStudies({
+      situation: 'Rivals are copying our activities',
+      all_personas: true,
+    });
+
+    expect(result).toContain('## 1. Southwest');
+    expect(result).toContain('- **Persona**: Michael Porter (porter)');
+    expect(result).toContain('Switch to the persona');
+  });
+
+  it('reports when nothing matches', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    expect(handleFindCaseStudies({ situation: 'zebra' })).toBe('No case study matches "zebra".');
+  });
+});
+
 describe('handleGetActivePersona', () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -583,6 +766,86 @@ describe('handleListDepartments', () => {
   });
 });
 
+describe('handlePanelAnalyze', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function makePorter(): LoadedPersona {
+    const base = makeLoadedPersona();
+    return {
+      ...base,
+      definition: {
+        ...base.definition,
+        identity: { ...base.definition.identity, name: 'Michael Porter', role: 'Strategist' },
+        voice: { ...base.definition.voice, tone: ['analytical', 'precise'] },
+        frameworks: {
+          five_forces: {
+            description: 'Industry structure analysis. Five forces shape profitability.',
+            concepts: {},
+            questions: ['How strong is buyer power?'],
+          },
+          jobs_to_be_done: base.definition.frameworks.jobs_to_be_done,
+        },
+      },
+    };
+  }
+
+  function mockPersonas(): void {
+    mockGetPersona.mockImplementation((id: string) =>
+      id === 'christensen' ? makeLoadedPersona() : id === 'porter' ? makePorter() : undefined,
+    );
+  }
+
+  it('renders a round table for the given personas', () => {
+    mockPersonas();
+
+    const result = handlePanelAnalyze({
+      situation: 'Should we launch a budget product line?',
+      persona_ids: ['christensen', 'porter'],
+    });
+
+    expect(result).toContain('# Panel: Clayton Christensen · Michael Porter');
+    expect(result).toContain('Should we launch a budget product line?');
+    expect(result).toContain('### Michael Porter');
+    expect(result).toContain('**Five Forces** (only on this panel)');
+    expect(result).toContain('### Clayton Christensen vs Michael Porter');
+    expect(result).toContain('## Synthesis');
+  });
+
+  it('uses the personas of a department', () => {
+    mockPersonas();
+    mockGetDepartment.mockReturnValue(
+      makeDepartmentDefinition({ personas: ['christensen', 'porter'] }),
+    );
+
+    const result = handlePanelAnalyze({ situation: 'Pricing', department: 'business-strategy' });
+
+    expect(mockGetDepartment).toHaveBeenCalledWith('business-strategy');
+    expect(result).toContain('# Panel: Clayton Christensen · Michael Porter');
+  });
+
+  it('reports unknown departments and personas', () => {
+    mockPersonas();
+    mockGetDepartment.mockReturnValue(undefined);
+
+    expect(handlePanelAnalyze({ situation: 'x', department: 'nope' })).toContain(
+      'Department "nope" not found',
+    );
+    expect(handlePanelAnalyze({ situation: 'x', persona_ids: ['christensen', 'ghost'] })).toContain(
+      'Persona(s) not found: ghost',
+    );
+  });
+
+  it('requires at least two personas', () => {
+    mockPersonas();
+
+    const result = handlePanelAnalyze({ situation: 'x', persona_ids: ['christensen'] });
+
+    expect(result).toContain('A panel needs at least 2 personas');
+  });
+});
+
 describe('handleToolCall', () => {
   beforeEach(() => {
     vi.resetAllMocks();
@@ -652,9 +915,71 @@ describe('handleToolCall', () => {
     expect(result).toBe('No departments configured.');
   });
 
+  it('routes panel_analyze to handlePanelAnalyze', () => {
+    const result = handleToolCall('panel_analyze', { situation: 'x', persona_ids: [] });
+
+    expect(result).toContain('A panel needs at least 2 personas');
+  });
+
   it('returns "Unknown tool" message for unrecognized tool names', () => {
     const result = handleToolCall('nonexistent_tool', {});
 
     expect(result).toBe('Unknown tool: nonexistent_tool');
   });
 });
+
+describe('generated framework tools', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('returns no persona tools when no persona is active', () => {
+    mockGetActivePersona.mockReturnValue(null);
+    mockGetActivePersonaId.mockReturnValue(null);
+
+    expect(getPersonaTools()).toEqual([]);
+    expect(getAllTools().map((t) => t.name)).toEqual(ALL_TOOLS.map((t) => t.name));
+  });
+
+  it('adds one tool per framework of the active persona', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    const names = getAllTools().map((t) => t.name);
+
+    expect(names).toContain('list_personas');
+    expect(names).toContain('christensen_disruption_theory');
+    expect(names).toContain('christensen_jobs_to_be_done');
+    expect(names).toHaveLength(ALL_TOOLS.length + 2);
+  });
+
+  it('routes generated tool calls through handleToolCall', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    const result = handleToolCall('christensen_disruption_theory', {
+      situation: 'A cheaper competitor entered our market.',
+    });
+
+    expect(result).toContain('# Disruption Theory — Clayton Christensen');
+    expect(result).toContain('A cheaper competitor entered our market.');
+    expect(result).toContain('- **New Market**: Creating demand where none existed');
+    expect(result).toContain('## Diagnostic Questions');
+  });
+
+  it('requires a situation for generated tools', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    const result = handleGeneratedTool('christensen_disruption_theory', {});
+
+    expect(result).toBe('Tool "christensen_disruption_theory" requires a "situation" argument.');
+  });
+
+  it('returns null for names that are not generated tools', () => {
+    mockGetActivePersona.mockReturnValue(makeLoadedPersona());
+    mockGetActivePersonaId.mockReturnValue('christensen');
+
+    expect(handleGeneratedTool('porter_five_forces', { situation: 'x' })).toBeNull();
+  });
+});
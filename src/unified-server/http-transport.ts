@@ -0,0 +1,283 @@
+/**
+ * HTTP Transport for Unified Persona Server
+ *
+ * Serves MCP over the streamable HTTP transport so a team can share one
+ * persona server. Each MCP session gets its own transport and server
+ * instance (and with it its own active persona). Sessions that fail to
+ * initialize are closed right away; sessions without requests for
+ * `sessionIdleTimeoutMs` are closed as abandoned.
+ *
+ * Endpoints:
+ *   POST/GET/DELETE /mcp   MCP streamable HTTP (bearer auth when a token is set)
+ *   GET /healthz           Liveness and basic stats, never authenticated
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Path of the MCP endpoint
+ */
+export const MCP_ENDPOINT = '/mcp';
+
+/**
+ * Path of the health check endpoint
+ */
+export const HEALTH_ENDPOINT = '/healthz';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Default time after which a session without requests is closed
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * MCP server bound to one HTTP session
+ */
+export interface HttpSession {
+  server: Server;
+  /** Called once the session is closed by the client or the server shuts down */
+  close(): void;
+}
+
+/**
+ * Options for the HTTP server
+ */
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  /** When set, /mcp requires "Authorization: Bearer <token>" */
+  authToken?: string;
+  /** Create the MCP server for a new session */
+  createSession: (sessionId: string) => HttpSession;
+  /** Extra fields reported by /healthz */
+  health?: () => Record<string, unknown>;
+  /** Close sessions without requests for this long (0 disables expiry) */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * Transport of an initialized session, with its idle tracking
+ */
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  /** Requests (including open streams) still in progress */
+  pending: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Running HTTP server
+ */
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Check an Authorization header against the expected bearer token
+ */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+
+  // Compare digests so the comparison is constant-time regardless of length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Start serving MCP over HTTP
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const {
+    port,
+    host = '127.0.0.1',
+    authToken,
+    sessionIdleTimeoutMs = DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+  } = options;
+  const sessions = new Map<string, SessionEntry>();
+
+  function scheduleExpiry(entry: SessionEntry): void {
+    clearTimeout(entry.idleTimer);
+    if (sessionIdleTimeoutMs > 0 && entry.pending === 0) {
+      entry.idleTimer = setTimeout(() => {
+        entry.transport
+          .close()
+          .catch((error) => console.error('Failed to close idle session:', error));
+      }, sessionIdleTimeoutMs);
+      entry.idleTimer.unref();
+    }
+  }
+
+  /**
+   * Hold off expiry while a request on the session is in progress
+   */
+  function trackRequest(entry: SessionEntry, res: ServerResponse): void {
+    entry.pending++;
+    clearTimeout(entry.idleTimer);
+    res.once('close', () => {
+      entry.pending--;
+      scheduleExpiry(entry);
+    });
+  }
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (pathname === HEALTH_ENDPOINT && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size, ...options.health?.() });
+      return;
+    }
+
+    if (pathname !== MCP_ENDPOINT) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (authToken && !isAuthorized(req.headers.authorization, authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Unknown or missing session ID');
+        return;
+      }
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      sendJsonRpcError(
+        res,
+        400,
+        -32700,
+        `Parse error: ${error instanceof Error ? error.message : 'invalid JSON'}`,
+      );
+      return;
+    }
+
+    if (existing) {
+      trackRequest(existing, res);
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32000, 'Session not found');
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'No session ID provided and not an initialize request');
+      return;
+    }
+
+    // New session: a fresh transport and MCP server, registered once initialized
+    const id = randomUUID();
+    const session = options.createSession(id);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      onsessioninitialized: () => {
+        const entry: SessionEntry = { transport, pending: 0 };
+        sessions.set(id, entry);
+        scheduleExpiry(entry);
+      },
+    });
+    transport.onclose = () => {
+      clearTimeout(sessions.get(id)?.idleTimer);
+      sessions.delete(id);
+      session.close();
+    };
+
+    try {
+      await session.server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A failed initialize leaves nothing a client could resume
+      if (!sessions.has(id)) {
+        await transport.close();
+      }
+    }
+  }
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const displayHost = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${displayHost}:${address.port}${MCP_ENDPOINT}`,
+    async close(): Promise<void> {
+      for (const { transport } of Array.from(sessions.values())) {
+        await transport.close();
+      }
+      await new Promise<void>((resolvePromise) => httpServer.close(() => resolvePromise()));
+    },
+  };
+}
+
+/**
+ * Read a request body, up to MAX_BODY_BYTES
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
@@ -4,29 +4,75 @@
  *
  * A single MCP server that can load and switch between multiple personas.
  * Use with Claude Desktop or Claude Code for strategic advisory with
- * different thinking frameworks.
+ * different thinking frameworks. Personas are also offered as MCP prompts,
+ * and their frameworks and case studies as persona:// resources.
  *
  * Usage:
  *   node dist/unified-server/index.js
  *   node dist/unified-server/index.js --personas ./personas --default christensen
+ *   node dist/unified-server/index.js --require-signed
+ *   node dist/unified-server/index.js --no-watch
+ *   node dist/unified-server/index.js --prompt-budget 2000
+ *   node dist/unified-server/index.js --transport http --port 3333 --auth-token <token>
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { initializeManager, getActivePersona, getPersonaCount } from './persona-manager.js';
-import { ALL_TOOLS, handleToolCall } from './tools.js';
+import {
+  initializeManager,
+  getActivePersona,
+  getPersonaCount,
+  getRejectedPersonas,
+  refreshPersonas,
+  createSession,
+  endSession,
+} from './persona-manager.js';
+import type { CacheVerification, PersonaSession } from './persona-manager.js';
+import { getAllTools } from './tools.js';
+import { createMcpServer } from './server.js';
+import { watchPersonas } from './persona-watcher.js';
+import { startHttpServer } from './http-transport.js';
+import { existsSync } from 'fs';
+import { getTrustedKeys } from '../registry/config.js';
+
+/**
+ * Environment variable holding the bearer token for the HTTP transport
+ */
+const AUTH_TOKEN_ENV = 'PERSONA_ACADEMY_AUTH_TOKEN';
+
+/**
+ * Connected MCP server and the session whose active persona it serves
+ * (no session for stdio, which uses the default session)
+ */
+interface Connection {
+  server: Server;
+  session?: PersonaSession;
+}
 
 // Parse command line arguments
 function parseArgs(): {
   personasDir: string;
   defaultPersona?: string;
   includeCache: boolean;
+  verifyCache: CacheVerification;
+  promptBudget?: number;
+  watch: boolean;
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  authToken?: string;
 } {
   const args = process.argv.slice(2);
   let personasDir = './personas';
   let defaultPersona: string | undefined;
   let includeCache = true;
+  let verifyCache: CacheVerification = 'off';
+  let promptBudget: number | undefined;
+  let watch = true;
+  let transport: 'stdio' | 'http' = 'stdio';
+  let port = 3333;
+  let host = '127.0.0.1';
+  let authToken = process.env[AUTH_TOKEN_ENV] || undefined;
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
@@ -41,10 +87,56 @@ function parseArgs(): {
       case '--no-cache':
         includeCache = false;
         break;
+      case '--verify-cache':
+        if (verifyCache === 'off') verifyCache = 'verify';
+        break;
+      case '--require-signed':
+        verifyCache = 'signed';
+        break;
+      case '--prompt-budget':
+        promptBudget = parseInt(args[++i], 10);
+        if (!Number.isInteger(promptBudget) || promptBudget <= 0) {
+          throw new Error(`Invalid prompt budget: ${args[i]}`);
+        }
+        break;
+      case '--no-watch':
+        watch = false;
+        break;
+      case '--transport': {
+        const value = args[++i];
+        if (value !== 'stdio' && value !== 'http') {
+          throw new Error(`Invalid transport "${value}". Expected "stdio" or "http".`);
+        }
+        transport = value;
+        break;
+      }
+      case '--port':
+        port = parseInt(args[++i], 10);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port: ${args[i]}`);
+        }
+        break;
+      case '--host':
+        host = args[++i];
+        break;
+      case '--auth-token':
+        authToken = args[++i];
+        break;
     }
   }
 
-  return { personasDir, defaultPersona, includeCache };
+  return {
+    personasDir,
+    defaultPersona,
+    includeCache,
+    verifyCache,
+    promptBudget,
+    watch,
+    transport,
+    port,
+    host,
+    authToken,
+  };
 }
 
 async function main() {
@@ -55,80 +147,102 @@ async function main() {
     localDir: config.personasDir,
     includeCache: config.includeCache,
     defaultPersona: config.defaultPersona,
+    verifyCache: config.verifyCache,
+    trustedKeys: config.verifyCache === 'signed' ? getTrustedKeys() : [],
+    promptBudget: config.promptBudget,
   });
 
+  for (const rejected of getRejectedPersonas()) {
+    console.error(`Refusing cached persona "${rejected.id}": ${rejected.status}`);
+  }
+
   if (discovered.length === 0) {
     console.error('No personas found. Check your personas directory.');
     console.error(`Searched: ${config.personasDir}`);
     process.exit(1);
   }
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'persona-academy',
-      version: '0.1.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    },
-  );
-
-  // Handle tools/list
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: ALL_TOOLS.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      })),
-    };
-  });
-
-  // Handle tools/call
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-
-    try {
-      const result = handleToolCall(name, args ?? {});
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: result,
-          },
-        ],
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
-    }
-  });
+  const connections = new Set<Connection>();
 
   // Log startup info to stderr (stdout is for MCP protocol)
   const activePersona = getActivePersona();
   console.error(`Persona Academy MCP Server starting...`);
   console.error(`  Personas loaded: ${getPersonaCount()}`);
   console.error(`  Active persona: ${activePersona?.definition.identity.name ?? 'none'}`);
-  console.error(`  Available tools: ${ALL_TOOLS.length}`);
+  console.error(`  Available tools: ${getAllTools().length}`);
 
-  // Connect via stdio
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (config.transport === 'http') {
+    if (!config.authToken && !['127.0.0.1', 'localhost', '::1'].includes(config.host)) {
+      console.error(
+        `Warning: serving on ${config.host} without authentication. Set --auth-token or ${AUTH_TOKEN_ENV}.`,
+      );
+    }
 
-  console.error('Server connected and ready.');
+    const http = await startHttpServer({
+      port: config.port,
+      host: config.host,
+      authToken: config.authToken,
+      createSession: (sessionId) => {
+        const session = createSession(sessionId);
+        const connection: Connection = { server: createMcpServer(session), session };
+        connections.add(connection);
+        return {
+          server: connection.server,
+          close: () => {
+            connections.delete(connection);
+            endSession(sessionId);
+          },
+        };
+      },
+      health: () => ({ personas: getPersonaCount() }),
+    });
+
+    console.error(`Server listening on ${http.url}${config.authToken ? ' (bearer auth)' : ''}`);
+  } else {
+    // Connect via stdio
+    const server = createMcpServer();
+    connections.add({ server });
+    await server.connect(new StdioServerTransport());
+
+    console.error('Server connected and ready.');
+  }
+
+  // Hot-reload edited personas; invalid edits keep the previous version
+  if (config.watch && existsSync(config.personasDir)) {
+    watchPersonas({
+      personasDir: config.personasDir,
+      onChange: (personaIds, libraryChanged) => {
+        const toolsBefore = new Map(
+          Array.from(connections, (c) => [c, JSON.stringify(getAllTools(c.session))]),
+        );
+        let personasChanged = false;
+
+        for (const result of refreshPersonas(libraryChanged ? undefined : personaIds)) {
+          if (result.status === 'failed') {
+            console.error(`Keeping previous version of persona "${result.id}": ${result.error}`);
+          } else {
+            console.error(`Persona "${result.id}" ${result.status}`);
+            personasChanged = true;
+          }
+        }
+
+        const notify = (send: () => Promise<void>) =>
+          send().catch((error) => console.error('Failed to send list change:', error));
+
+        for (const [connection, tools] of toolsBefore) {
+          const { server, session } = connection;
+          if (JSON.stringify(getAllTools(session)) !== tools) {
+            notify(() => server.sendToolListChanged());
+          }
+          if (personasChanged) {
+            notify(() => server.sendPromptListChanged());
+            notify(() => server.sendResourceListChanged());
+          }
+        }
+      },
+    });
+    console.error(`Watching ${config.personasDir} for changes.`);
+  }
 }
 
 main().catch((error) => {
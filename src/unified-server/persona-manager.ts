@@ -3,22 +3,28 @@
  *
  * Manages loading, switching, and accessing personas at runtime.
  * Provides the core functionality for the multi-persona MCP server.
+ *
+ * A PersonaManager owns an immutable catalog of loaded personas; reloading
+ * builds a new catalog and swaps it in. Each PersonaSession keeps its own
+ * active persona against that shared catalog, so concurrent clients (and
+ * test suites) don't switch personas for each other. The function exports
+ * below are a facade over a default manager instance and its default session.
  */
 
+import { randomUUID } from 'crypto';
 import { existsSync, readdirSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import {
-  loadPersona,
   loadPersonaFromFile,
   generateSystemPrompt,
   clearPersonaCache,
+  getPersonaLineage,
 } from '../core/persona-loader.js';
 import type { PersonaDefinition, LoadedPersona } from '../core/types.js';
-import {
-  listCachedPersonas,
-  getCachedPersonaPath,
-  resolveCacheDir,
-} from '../registry/cache-manager.js';
+import { getCachedPersona, listCachedPersonas } from '../registry/cache-manager.js';
+import { verifyCachedPersona } from '../registry/integrity.js';
+import type { IntegrityStatus } from '../registry/integrity.js';
+import type { CachedPersona, TrustedKey } from '../registry/types.js';
 import { discoverDepartments } from '../departments/index.js';
 
 /**
@@ -36,102 +42,100 @@ export interface PersonaSummary {
 }
 
 /**
- * Manager state
+ * How strictly cached personas are checked before they are served
+ * - off: serve every cached persona
+ * - verify: refuse cached personas whose content changed since they were pulled
+ * - signed: also refuse cached personas without a valid signature from a trusted key
  */
-interface ManagerState {
-  activePersonaId: string | null;
-  loadedPersonas: Map<string, LoadedPersona>;
-  personaSources: Map<string, string>; // id -> path
+export type CacheVerification = 'off' | 'verify' | 'signed';
+
+/**
+ * Cached persona that was refused by cache verification
+ */
+export interface RejectedPersona {
+  id: string;
+  status: IntegrityStatus;
 }
 
-// Global state
-const state: ManagerState = {
-  activePersonaId: null,
-  loadedPersonas: new Map(),
-  personaSources: new Map(),
-};
+/**
+ * Outcome of re-reading a persona from disk
+ * - reloaded: the new version replaced the previous one
+ * - added: a persona directory appeared
+ * - removed: a persona directory disappeared
+ * - failed: the new version is invalid; the previous version is kept
+ */
+export interface PersonaRefreshResult {
+  id: string;
+  status: 'reloaded' | 'added' | 'removed' | 'failed';
+  error?: string;
+}
 
 /**
- * Initialize the persona manager with available personas
+ * Options for initializing a persona manager
  */
-export function initializeManager(options: {
+export interface PersonaManagerOptions {
   localDir?: string;
   includeCache?: boolean;
   defaultPersona?: string;
   departmentsDir?: string;
-}): PersonaSummary[] {
-  const {
-    localDir = './personas',
-    includeCache = true,
-    defaultPersona,
-    departmentsDir = './departments',
-  } = options;
-
-  // Clear any existing state
-  state.loadedPersonas.clear();
-  state.personaSources.clear();
-  state.activePersonaId = null;
-  clearPersonaCache();
-
-  // Discover departments
-  discoverDepartments(departmentsDir);
-
-  const discovered: PersonaSummary[] = [];
-
-  // Discover local personas
-  if (existsSync(localDir)) {
-    const entries = readdirSync(localDir, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const yamlPath = join(localDir, entry.name, 'persona.yaml');
-        if (existsSync(yamlPath)) {
-          try {
-            const persona = loadPersonaFromFile(yamlPath);
-            const summary = createSummary(entry.name, persona, 'local');
-            discovered.push(summary);
-            state.personaSources.set(entry.name, yamlPath);
-          } catch {
-            // Skip invalid personas
-          }
-        }
-      }
-    }
-  }
+  verifyCache?: CacheVerification;
+  trustedKeys?: TrustedKey[];
+  /** Token budget for generated system prompts */
+  promptBudget?: number;
+}
 
-  // Discover cached personas
-  if (includeCache) {
-    const cached = listCachedPersonas();
+/**
+ * Result of switching personas
+ */
+export interface SwitchResult {
+  success: boolean;
+  persona?: LoadedPersona;
+  message: string;
+}
 
-    for (const cachedPersona of cached) {
-      // Skip if already found in local
-      if (state.personaSources.has(cachedPersona.entry.id)) {
-        continue;
-      }
+/**
+ * What tool handlers need from a session
+ */
+export interface SessionContext {
+  listPersonas(): PersonaSummary[];
+  getPersona(personaId: string): LoadedPersona | null;
+  getActivePersona(): LoadedPersona | null;
+  getActivePersonaId(): string | null;
+  switchPersona(personaId: string): SwitchResult;
+  getRandomPhrase(): string | null;
+}
 
-      const yamlPath = join(cachedPersona.localPath, 'persona.yaml');
-      if (existsSync(yamlPath)) {
-        try {
-          const persona = loadPersonaFromFile(yamlPath);
-          const summary = createSummary(cachedPersona.entry.id, persona, 'cache');
-          discovered.push(summary);
-          state.personaSources.set(cachedPersona.entry.id, yamlPath);
-        } catch {
-          // Skip invalid personas
-        }
-      }
-    }
-  }
+/**
+ * Catalog entry: a fully loaded persona and where it came from
+ */
+interface CatalogEntry {
+  source: 'local' | 'cache';
+  persona: LoadedPersona;
+}
 
-  // Set default persona if specified and available
-  if (defaultPersona && state.personaSources.has(defaultPersona)) {
-    switchPersona(defaultPersona);
-  } else if (discovered.length > 0) {
-    // Auto-select first persona
-    switchPersona(discovered[0].id);
-  }
+/**
+ * Immutable snapshot of the available personas (id -> entry)
+ */
+type PersonaCatalog = ReadonlyMap<string, CatalogEntry>;
 
-  return discovered;
+/**
+ * Load a persona file into a catalog entry
+ */
+function loadEntry(
+  yamlPath: string,
+  source: 'local' | 'cache',
+  promptBudget?: number,
+): CatalogEntry {
+  const definition = loadPersonaFromFile(yamlPath);
+  return {
+    source,
+    persona: {
+      definition,
+      sourcePath: yamlPath,
+      systemPrompt: generateSystemPrompt(definition, { maxTokens: promptBudget }),
+      loadedAt: new Date(),
+    },
+  };
 }
 
 /**
@@ -155,202 +159,547 @@ function createSummary(
 }
 
 /**
- * List all available personas
+ * One client's view of a manager: its own active persona over the shared catalog
  */
-export function listPersonas(): PersonaSummary[] {
-  const summaries: PersonaSummary[] = [];
+export class PersonaSession implements SessionContext {
+  constructor(
+    readonly id: string,
+    private readonly manager: PersonaManager,
+    private activeId: string | null = null,
+  ) {}
+
+  /**
+   * List all available personas
+   */
+  listPersonas(): PersonaSummary[] {
+    return this.manager.listPersonas();
+  }
+
+  /**
+   * Get persona by ID (without switching)
+   */
+  getPersona(personaId: string): LoadedPersona | null {
+    return this.manager.getPersona(personaId);
+  }
+
+  /**
+   * Get the currently active persona
+   */
+  getActivePersona(): LoadedPersona | null {
+    return this.activeId ? this.manager.getPersona(this.activeId) : null;
+  }
+
+  /**
+   * Get the active persona ID
+   */
+  getActivePersonaId(): string | null {
+    return this.activeId;
+  }
+
+  /**
+   * Switch to a different persona
+   */
+  switchPersona(personaId: string): SwitchResult {
+    const persona = this.manager.getPersona(personaId);
+    if (!persona) {
+      return {
+        success: false,
+        message: `Persona "${personaId}" not found. Available: ${this.manager.getPersonaIds().join(', ')}`,
+      };
+    }
+
+    this.activeId = personaId;
+
+    return {
+      success: true,
+      persona,
+      message: `Switched to ${persona.definition.identity.name}`,
+    };
+  }
+
+  /**
+   * Select a persona without checking the catalog, or clear the selection.
+   * Used by the manager when it rebuilds the catalog.
+   */
+  resetActivePersona(personaId: string | null): void {
+    this.activeId = personaId;
+  }
+
+  /**
+   * Get the system prompt for the active persona
+   */
+  getActiveSystemPrompt(): string | null {
+    return this.getActivePersona()?.systemPrompt ?? null;
+  }
+
+  /**
+   * Get frameworks from the active persona
+   */
+  getActiveFrameworks(): string[] {
+    const persona = this.getActivePersona();
+    if (!persona) return [];
+    return Object.keys(persona.definition.frameworks);
+  }
+
+  /**
+   * Get diagnostic questions from a framework
+   */
+  getFrameworkQuestions(frameworkName: string): string[] {
+    const persona = this.getActivePersona();
+    if (!persona) return [];
+
+    const framework = persona.definition.frameworks[frameworkName];
+    return framework?.questions ?? [];
+  }
+
+  /**
+   * Get case studies from the active persona
+   */
+  getActiveCaseStudies(): string[] {
+    const persona = this.getActivePersona();
+    if (!persona) return [];
+    return Object.keys(persona.definition.case_studies ?? {});
+  }
+
+  /**
+   * Get a random characteristic phrase from the active persona
+   */
+  getRandomPhrase(): string | null {
+    const persona = this.getActivePersona();
+    if (!persona) return null;
+
+    const phrases = persona.definition.voice.phrases;
+    return phrases[Math.floor(Math.random() * phrases.length)];
+  }
+}
+
+/**
+ * Persona catalog plus the sessions selecting personas from it
+ */
+export class PersonaManager {
+  private catalog: PersonaCatalog = new Map();
+  private localDir: string | null = null;
+  private promptBudget: number | undefined;
+  private verifyCache: CacheVerification = 'off';
+  private trustedKeys: TrustedKey[] = [];
+  private rejectedPersonas: RejectedPersona[] = [];
+  private readonly sessions = new Map<string, PersonaSession>();
+
+  /** Session used when no session is given (stdio server, CLI, facade functions) */
+  readonly defaultSession = new PersonaSession('default', this);
+
+  /**
+   * Discover and load the available personas, replacing any previous catalog.
+   * Existing sessions are kept; the default session selects the new default.
+   */
+  initialize(options: PersonaManagerOptions): PersonaSummary[] {
+    const {
+      localDir = './personas',
+      includeCache = true,
+      defaultPersona,
+      departmentsDir = './departments',
+      verifyCache = 'off',
+      trustedKeys = [],
+      promptBudget,
+    } = options;
+
+    const catalog = new Map<string, CatalogEntry>();
+    this.rejectedPersonas = [];
+    this.localDir = localDir;
+    this.promptBudget = promptBudget;
+    this.verifyCache = verifyCache;
+    this.trustedKeys = trustedKeys;
+    clearPersonaCache();
+
+    // Discover departments
+    discoverDepartments(departmentsDir);
+
+    // Discover local personas
+    if (existsSync(localDir)) {
+      const entries = readdirSync(localDir, { withFileTypes: true });
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          const yamlPath = join(localDir, entry.name, 'persona.yaml');
+          if (existsSync(yamlPath)) {
+            try {
+              catalog.set(entry.name, loadEntry(yamlPath, 'local', this.promptBudget));
+            } catch {
+              // Skip invalid personas
+            }
+          }
+        }
+      }
+    }
+
+    // Discover cached personas
+    if (includeCache) {
+      for (const cachedPersona of listCachedPersonas()) {
+        // Skip if already found in local
+        if (catalog.has(cachedPersona.entry.id)) {
+          continue;
+        }
+
+        const refused = this.checkCachedPersona(cachedPersona);
+        if (refused) {
+          this.rejectedPersonas.push({ id: cachedPersona.entry.id, status: refused });
+          continue;
+        }
+
+        const yamlPath = join(cachedPersona.localPath, 'persona.yaml');
+        if (existsSync(yamlPath)) {
+          try {
+            catalog.set(cachedPersona.entry.id, loadEntry(yamlPath, 'cache', this.promptBudget));
+          } catch {
+            // Skip invalid personas
+          }
+        }
+      }
+    }
+
+    this.catalog = catalog;
+
+    // Set default persona if specified and available, else auto-select the first one
+    const [firstId] = catalog.keys();
+    const activeId = defaultPersona && catalog.has(defaultPersona) ? defaultPersona : firstId;
+    this.defaultSession.resetActivePersona(activeId ?? null);
+
+    return this.listPersonas();
+  }
+
+  /**
+   * Get cached personas refused by the last initialize call
+   */
+  getRejectedPersonas(): RejectedPersona[] {
+    return [...this.rejectedPersonas];
+  }
+
+  /**
+   * List all available personas
+   */
+  listPersonas(): PersonaSummary[] {
+    return Array.from(this.catalog, ([id, { source, persona }]) =>
+      createSummary(id, persona.definition, source),
+    );
+  }
+
+  /**
+   * Get the ids of all available personas
+   */
+  getPersonaIds(): string[] {
+    return Array.from(this.catalog.keys());
+  }
+
+  /**
+   * Get persona by ID
+   */
+  getPersona(personaId: string): LoadedPersona | null {
+    return this.catalog.get(personaId)?.persona ?? null;
+  }
+
+  /**
+   * Check if a persona is available
+   */
+  hasPersona(personaId: string): boolean {
+    return this.catalog.has(personaId);
+  }
+
+  /**
+   * Get the count of available personas
+   */
+  getPersonaCount(): number {
+    return this.catalog.size;
+  }
+
+  /**
+   * Open a session. It starts out with the default session's active persona.
+   */
+  createSession(id: string = randomUUID()): PersonaSession {
+    const session = new PersonaSession(id, this, this.defaultSession.getActivePersonaId());
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  /**
+   * Close a session
+   */
+  endSession(id: string): void {
+    this.sessions.delete(id);
+  }
+
+  /**
+   * Get the number of open sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Reload a specific persona from its source file.
+   * Returns false if the persona is unknown, its new version is invalid, or
+   * (for cached personas) it no longer passes cache verification.
+   */
+  reloadPersona(personaId: string): boolean {
+    const entry = this.catalog.get(personaId);
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.source === 'cache') {
+      const cached = getCachedPersona(personaId);
+      if (!cached || this.checkCachedPersona(cached)) {
+        return false;
+      }
+    }
 
-  for (const [id, path] of state.personaSources.entries()) {
     try {
-      const persona = loadPersonaFromFile(path);
-      const source = path.includes('.persona-academy') ? 'cache' : 'local';
-      summaries.push(createSummary(id, persona, source));
+      const catalog = new Map(this.catalog);
+      catalog.set(personaId, loadEntry(entry.persona.sourcePath, entry.source, this.promptBudget));
+      this.catalog = catalog;
+      return true;
     } catch {
-      // Skip invalid
+      return false;
+    }
+  }
+
+  /**
+   * Re-read local personas from disk after their files changed.
+   *
+   * Personas extending a changed persona are refreshed too; without ids, every
+   * local persona is. Each persona is loaded and validated in full, and the
+   * new catalog is swapped in at once, so a half-edited or invalid YAML file
+   * leaves the previous version in place. Active personas stay selected.
+   */
+  refreshPersonas(personaIds?: string[]): PersonaRefreshResult[] {
+    if (!this.localDir) {
+      return [];
+    }
+
+    const localDir = this.localDir;
+    const localIds = Array.from(this.catalog)
+      .filter(([, entry]) => entry.source === 'local')
+      .map(([id]) => id);
+
+    const ids = new Set(personaIds ?? localIds);
+    const changedPaths = Array.from(ids).map((id) => resolve(localDir, id, 'persona.yaml'));
+    for (const id of localIds) {
+      if (ids.has(id)) continue;
+      try {
+        const lineage = getPersonaLineage(this.catalog.get(id)!.persona.sourcePath);
+        if (lineage.some((path) => changedPaths.includes(path))) {
+          ids.add(id);
+        }
+      } catch {
+        // Broken inheritance surfaces when the persona itself is refreshed
+      }
+    }
+
+    const catalog = new Map(this.catalog);
+    const results: PersonaRefreshResult[] = [];
+
+    for (const id of ids) {
+      const known = catalog.get(id);
+      if (known && known.source !== 'local') {
+        continue;
+      }
+
+      const yamlPath = join(localDir, id, 'persona.yaml');
+
+      if (!existsSync(yamlPath)) {
+        if (!known) continue;
+        if (this.isActiveAnywhere(id)) {
+          results.push({
+            id,
+            status: 'failed',
+            error: 'persona.yaml was removed; keeping the active version',
+          });
+          continue;
+        }
+        catalog.delete(id);
+        results.push({ id, status: 'removed' });
+        continue;
+      }
+
+      try {
+        catalog.set(id, loadEntry(yamlPath, 'local', this.promptBudget));
+        results.push({ id, status: known ? 'reloaded' : 'added' });
+      } catch (error) {
+        results.push({
+          id,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // Swap in the new catalog only once every persona was processed
+    this.catalog = catalog;
+    return results;
+  }
+
+  /**
+   * Get the integrity status a cached persona is refused for, or null if it may be served
+   */
+  private checkCachedPersona(cached: CachedPersona): IntegrityStatus | null {
+    if (this.verifyCache === 'off') {
+      return null;
     }
+
+    const status = verifyCachedPersona(cached, this.trustedKeys);
+    return status === 'tampered' || (this.verifyCache === 'signed' && status !== 'verified')
+      ? status
+      : null;
+  }
+
+  /**
+   * Check whether a persona is active in the default session or any open session
+   */
+  private isActiveAnywhere(personaId: string): boolean {
+    return [this.defaultSession, ...this.sessions.values()].some(
+      (session) => session.getActivePersonaId() === personaId,
+    );
   }
+}
+
+// Default instance behind the function exports
+const defaultManager = new PersonaManager();
+
+/**
+ * Get the default persona manager
+ */
+export function getDefaultManager(): PersonaManager {
+  return defaultManager;
+}
+
+/**
+ * Initialize the persona manager with available personas
+ */
+export function initializeManager(options: PersonaManagerOptions): PersonaSummary[] {
+  return defaultManager.initialize(options);
+}
 
-  return summaries;
+/**
+ * Get cached personas refused by the last initializeManager call
+ */
+export function getRejectedPersonas(): RejectedPersona[] {
+  return defaultManager.getRejectedPersonas();
+}
+
+/**
+ * List all available personas
+ */
+export function listPersonas(): PersonaSummary[] {
+  return defaultManager.listPersonas();
 }
 
 /**
  * Get the currently active persona
  */
 export function getActivePersona(): LoadedPersona | null {
-  if (!state.activePersonaId) {
-    return null;
-  }
-
-  return state.loadedPersonas.get(state.activePersonaId) ?? null;
+  return defaultManager.defaultSession.getActivePersona();
 }
 
 /**
  * Get the active persona ID
  */
 export function getActivePersonaId(): string | null {
-  return state.activePersonaId;
+  return defaultManager.defaultSession.getActivePersonaId();
 }
 
 /**
  * Switch to a different persona
  */
-export function switchPersona(personaId: string): {
-  success: boolean;
-  persona?: LoadedPersona;
-  message: string;
-} {
-  // Check if persona is available
-  const path = state.personaSources.get(personaId);
-  if (!path) {
-    return {
-      success: false,
-      message: `Persona "${personaId}" not found. Available: ${Array.from(state.personaSources.keys()).join(', ')}`,
-    };
-  }
-
-  // Load if not already loaded
-  if (!state.loadedPersonas.has(personaId)) {
-    try {
-      const definition = loadPersonaFromFile(path);
-      const systemPrompt = generateSystemPrompt(definition);
-
-      const loaded: LoadedPersona = {
-        definition,
-        sourcePath: path,
-        systemPrompt,
-        loadedAt: new Date(),
-      };
-
-      state.loadedPersonas.set(personaId, loaded);
-    } catch (error) {
-      return {
-        success: false,
-        message: `Failed to load persona "${personaId}": ${error instanceof Error ? error.message : 'Unknown error'}`,
-      };
-    }
-  }
-
-  // Switch active persona
-  state.activePersonaId = personaId;
-  const persona = state.loadedPersonas.get(personaId)!;
-
-  return {
-    success: true,
-    persona,
-    message: `Switched to ${persona.definition.identity.name}`,
-  };
+export function switchPersona(personaId: string): SwitchResult {
+  return defaultManager.defaultSession.switchPersona(personaId);
 }
 
 /**
  * Get persona by ID (without switching)
  */
 export function getPersona(personaId: string): LoadedPersona | null {
-  // Return from cache if loaded
-  if (state.loadedPersonas.has(personaId)) {
-    return state.loadedPersonas.get(personaId)!;
-  }
-
-  // Try to load
-  const path = state.personaSources.get(personaId);
-  if (!path) {
-    return null;
-  }
-
-  try {
-    const definition = loadPersonaFromFile(path);
-    const systemPrompt = generateSystemPrompt(definition);
-
-    const loaded: LoadedPersona = {
-      definition,
-      sourcePath: path,
-      systemPrompt,
-      loadedAt: new Date(),
-    };
-
-    state.loadedPersonas.set(personaId, loaded);
-    return loaded;
-  } catch {
-    return null;
-  }
+  return defaultManager.getPersona(personaId);
 }
 
 /**
  * Get the system prompt for the active persona
  */
 export function getActiveSystemPrompt(): string | null {
-  const persona = getActivePersona();
-  return persona?.systemPrompt ?? null;
+  return defaultManager.defaultSession.getActiveSystemPrompt();
 }
 
 /**
  * Get frameworks from the active persona
  */
 export function getActiveFrameworks(): string[] {
-  const persona = getActivePersona();
-  if (!persona) return [];
-  return Object.keys(persona.definition.frameworks);
+  return defaultManager.defaultSession.getActiveFrameworks();
 }
 
 /**
  * Get diagnostic questions from a framework
  */
 export function getFrameworkQuestions(frameworkName: string): string[] {
-  const persona = getActivePersona();
-  if (!persona) return [];
-
-  const framework = persona.definition.frameworks[frameworkName];
-  return framework?.questions ?? [];
+  return defaultManager.defaultSession.getFrameworkQuestions(frameworkName);
 }
 
 /**
  * Get case studies from the active persona
  */
 export function getActiveCaseStudies(): string[] {
-  const persona = getActivePersona();
-  if (!persona) return [];
-  return Object.keys(persona.definition.case_studies ?? {});
+  return defaultManager.defaultSession.getActiveCaseStudies();
 }
 
 /**
  * Get a random characteristic phrase from the active persona
  */
 export function getRandomPhrase(): string | null {
-  const persona = getActivePersona();
-  if (!persona) return null;
-
-  const phrases = persona.definition.voice.phrases;
-  return phrases[Math.floor(Math.random() * phrases.length)];
+  return defaultManager.defaultSession.getRandomPhrase();
 }
 
 /**
  * Check if a persona is available
  */
 export function hasPersona(personaId: string): boolean {
-  return state.personaSources.has(personaId);
+  return defaultManager.hasPersona(personaId);
 }
 
 /**
  * Get the count of available personas
  */
 export function getPersonaCount(): number {
-  return state.personaSources.size;
+  return defaultManager.getPersonaCount();
 }
 
 /**
- * Reload a specific persona (clear cache and reload)
+ * Reload a specific persona from its source file
  */
 export function reloadPersona(personaId: string): boolean {
-  if (!state.personaSources.has(personaId)) {
-    return false;
-  }
+  return defaultManager.reloadPersona(personaId);
+}
 
-  // Remove from loaded cache
-  state.loadedPersonas.delete(personaId);
+/**
+ * Re-read local personas from disk after their files changed
+ */
+export function refreshPersonas(personaIds?: string[]): PersonaRefreshResult[] {
+  return defaultManager.refreshPersonas(personaIds);
+}
 
-  // If this was active, re-switch to trigger reload
-  if (state.activePersonaId === personaId) {
-    switchPersona(personaId);
-  }
+/**
+ * Open a session on the default manager
+ */
+export function createSession(id?: string): PersonaSession {
+  return defaultManager.createSession(id);
+}
 
-  return true;
+/**
+ * Close a session on the default manager
+ */
+export function endSession(id: string): void {
+  defaultManager.endSession(id);
+}
+
+/**
+ * Get the number of open sessions on the default manager
+ */
+export function getSessionCount(): number {
+  return defaultManager.getSessionCount();
 }
@@ -0,0 +1,105 @@
+/**
+ * Persona Watcher
+ *
+ * Watches the personas directory (persona.yaml plus frameworks/, case-studies/,
+ * references/, validation.yaml, samples.yaml and tests.yaml) and the shared
+ * framework library next to it. Bursts of file events, such as an editor saving
+ * several files, are debounced into a single change notification.
+ */
+
+import { existsSync, watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { join, resolve, sep } from 'path';
+
+/**
+ * Default quiet period before changes are reported, in milliseconds
+ */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 250;
+
+/**
+ * Options for watching personas
+ */
+export interface PersonaWatcherOptions {
+  personasDir: string;
+  /** Shared framework library; defaults to <personasDir>/../frameworks */
+  libraryDir?: string;
+  debounceMs?: number;
+  /** Called with the changed persona ids; libraryChanged means every persona may be affected */
+  onChange: (personaIds: string[], libraryChanged: boolean) => void;
+}
+
+/**
+ * Running persona watcher
+ */
+export interface PersonaWatcher {
+  close(): void;
+}
+
+/**
+ * Map a path reported by the watcher (relative to the personas directory)
+ * to the id of the persona it belongs to
+ */
+export function getChangedPersonaId(filename: string): string | null {
+  const [id] = filename.split(/[/\\]/);
+  if (!id || id.startsWith('.')) {
+    return null;
+  }
+  return id;
+}
+
+/**
+ * Start watching personas for changes
+ */
+export function watchPersonas(options: PersonaWatcherOptions): PersonaWatcher {
+  const personasDir = resolve(options.personasDir);
+  const libraryDir = resolve(options.libraryDir ?? join(personasDir, '..', 'frameworks'));
+  const debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+
+  const pending = new Set<string>();
+  let libraryChanged = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      const ids = Array.from(pending);
+      const library = libraryChanged;
+      pending.clear();
+      libraryChanged = false;
+      options.onChange(ids, library);
+    }, debounceMs);
+  };
+
+  const watchers: FSWatcher[] = [
+    watch(personasDir, { recursive: true }, (_event, filename) => {
+      const id = filename ? getChangedPersonaId(filename.toString()) : null;
+      if (!id) return;
+      pending.add(id);
+      schedule();
+    }),
+  ];
+
+  // The library directory may be nested in (or equal to) the personas directory
+  if (
+    existsSync(libraryDir) &&
+    libraryDir !== personasDir &&
+    !libraryDir.startsWith(personasDir + sep)
+  ) {
+    watchers.push(
+      watch(libraryDir, { recursive: true }, () => {
+        libraryChanged = true;
+        schedule();
+      }),
+    );
+  }
+
+  return {
+    close(): void {
+      if (timer) clearTimeout(timer);
+      for (const watcher of watchers) {
+        watcher.close();
+      }
+    },
+  };
+}
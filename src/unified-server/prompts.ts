@@ -0,0 +1,123 @@
+/**
+ * MCP Prompts for Unified Persona Server
+ *
+ * Exposes each persona's system prompt as an MCP prompt, so clients that
+ * support prompts can attach a persona without calling tools.
+ */
+
+import { listPersonas, getPersona } from './persona-manager.js';
+import { generateSystemPrompt } from '../core/persona-loader.js';
+
+/**
+ * Prompt argument definition for MCP
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt definition for MCP
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/**
+ * Message returned by prompts/get
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+/**
+ * Arguments accepted by every persona prompt
+ */
+const PERSONA_PROMPT_ARGUMENTS: PromptArgument[] = [
+  {
+    name: 'mode',
+    description:
+      '"full" includes every framework and case study (default); "lean" summarizes them with tool-call hints',
+  },
+  {
+    name: 'max_tokens',
+    description:
+      'Optional token budget; style references, case-study stories and diagnostic questions are dropped in that order to fit',
+  },
+  {
+    name: 'question',
+    description: 'Optional question to ask the persona right away',
+  },
+  {
+    name: 'top_k',
+    description:
+      'With a question, give full detail to only the top_k frameworks and case studies most relevant to it and summarize the rest',
+  },
+];
+
+/**
+ * List one prompt per available persona
+ */
+export function listPrompts(): PromptDefinition[] {
+  return listPersonas().map((persona) => ({
+    name: persona.id,
+    description: `Adopt the persona of ${persona.name} (${persona.role})`,
+    arguments: PERSONA_PROMPT_ARGUMENTS,
+  }));
+}
+
+/**
+ * Get a persona prompt by persona id
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, string | undefined> = {},
+): { description: string; messages: PromptMessage[] } {
+  const persona = getPersona(name);
+  if (!persona) {
+    throw new Error(`Prompt "${name}" not found. Use prompts/list to see available personas.`);
+  }
+
+  const mode = args.mode ?? 'full';
+  if (mode !== 'full' && mode !== 'lean') {
+    throw new Error(`Invalid mode "${mode}". Expected "full" or "lean".`);
+  }
+
+  const maxTokens = args.max_tokens ? parseInt(args.max_tokens, 10) : undefined;
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens <= 0)) {
+    throw new Error(`Invalid max_tokens "${args.max_tokens}". Expected a positive integer.`);
+  }
+
+  const topK = args.top_k ? parseInt(args.top_k, 10) : undefined;
+  if (topK !== undefined && (!Number.isInteger(topK) || topK <= 0)) {
+    throw new Error(`Invalid top_k "${args.top_k}". Expected a positive integer.`);
+  }
+  const relevantTo = topK !== undefined ? args.question?.trim() || undefined : undefined;
+
+  const systemPrompt =
+    mode === 'lean' || maxTokens !== undefined || relevantTo !== undefined
+      ? generateSystemPrompt(persona.definition, {
+          mode,
+          maxTokens,
+          relevantTo,
+          relevantCount: topK,
+        })
+      : persona.systemPrompt;
+
+  const messages: PromptMessage[] = [
+    { role: 'user', content: { type: 'text', text: systemPrompt } },
+  ];
+  if (args.question?.trim()) {
+    messages.push({ role: 'user', content: { type: 'text', text: args.question.trim() } });
+  }
+
+  const { name: personaName, role } = persona.definition.identity;
+  return {
+    description: `${personaName} (${role}), ${mode} mode`,
+    messages,
+  };
+}
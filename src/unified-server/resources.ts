@@ -0,0 +1,128 @@
+/**
+ * MCP Resources for Unified Persona Server
+ *
+ * Exposes persona frameworks and case studies as readable resources:
+ *   persona://<persona-id>/frameworks/<name>
+ *   persona://<persona-id>/case-studies/<name>
+ */
+
+import { listPersonas, getPersona } from './persona-manager.js';
+import { renderFramework, renderCaseStudy } from './tools.js';
+
+/**
+ * URI scheme for persona resources
+ */
+export const PERSONA_RESOURCE_SCHEME = 'persona://';
+
+/**
+ * Resource definition for MCP
+ */
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+/**
+ * Resource content returned by resources/read
+ */
+export interface ResourceContent {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+type ResourceKind = 'frameworks' | 'case-studies';
+
+/**
+ * Build the URI of a persona framework or case study
+ */
+export function toResourceUri(personaId: string, kind: ResourceKind, name: string): string {
+  return `${PERSONA_RESOURCE_SCHEME}${personaId}/${kind}/${name}`;
+}
+
+/**
+ * Parse a persona resource URI. Returns null if the URI is not one.
+ */
+export function parseResourceUri(
+  uri: string,
+): { personaId: string; kind: ResourceKind; name: string } | null {
+  const match = /^persona:\/\/([^/]+)\/(frameworks|case-studies)\/([^/]+)$/.exec(uri);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    personaId: decodeURIComponent(match[1]),
+    kind: match[2] as ResourceKind,
+    name: decodeURIComponent(match[3]),
+  };
+}
+
+/**
+ * List the frameworks and case studies of every available persona
+ */
+export function listResources(): ResourceDefinition[] {
+  const resources: ResourceDefinition[] = [];
+
+  for (const summary of listPersonas()) {
+    const persona = getPersona(summary.id);
+    if (!persona) continue;
+
+    const def = persona.definition;
+
+    for (const [name, framework] of Object.entries(def.frameworks)) {
+      resources.push({
+        uri: toResourceUri(summary.id, 'frameworks', name),
+        name: `${def.identity.name}: ${name}`,
+        description: framework.description.trim().split('\n')[0],
+        mimeType: 'text/markdown',
+      });
+    }
+
+    for (const [name, caseStudy] of Object.entries(def.case_studies ?? {})) {
+      resources.push({
+        uri: toResourceUri(summary.id, 'case-studies', name),
+        name: `${def.identity.name}: ${name}`,
+        description: caseStudy.pattern,
+        mimeType: 'text/markdown',
+      });
+    }
+  }
+
+  return resources;
+}
+
+/**
+ * Read a persona framework or case study by URI
+ */
+export function readResource(uri: string): ResourceContent {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw new Error(
+      `Unsupported resource URI: ${uri}. Expected ${PERSONA_RESOURCE_SCHEME}<persona>/frameworks/<name> or ${PERSONA_RESOURCE_SCHEME}<persona>/case-studies/<name>`,
+    );
+  }
+
+  const persona = getPersona(parsed.personaId);
+  if (!persona) {
+    throw new Error(`Persona "${parsed.personaId}" not found`);
+  }
+
+  const def = persona.definition;
+
+  if (parsed.kind === 'frameworks') {
+    const framework = def.frameworks[parsed.name];
+    if (!framework) {
+      throw new Error(`Framework "${parsed.name}" not found in persona "${parsed.personaId}"`);
+    }
+    return { uri, mimeType: 'text/markdown', text: renderFramework(def, parsed.name, framework) };
+  }
+
+  const caseStudy = def.case_studies?.[parsed.name];
+  if (!caseStudy) {
+    throw new Error(`Case study "${parsed.name}" not found in persona "${parsed.personaId}"`);
+  }
+  return { uri, mimeType: 'text/markdown', text: renderCaseStudy(def, parsed.name, caseStudy) };
+}
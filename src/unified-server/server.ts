@@ -0,0 +1,113 @@
+/**
+ * MCP Server Factory
+ *
+ * Builds the MCP server with the persona tools, prompts and resources. The
+ * stdio transport uses one server; the HTTP transport creates one per
+ * session so each client keeps its own active persona.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getActivePersonaId } from './persona-manager.js';
+import type { SessionContext } from './persona-manager.js';
+import { getAllTools, handleToolCall } from './tools.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import { listResources, readResource } from './resources.js';
+
+/**
+ * Create an MCP server. Requests are handled with the session's active persona
+ * (the default session's without one).
+ */
+export function createMcpServer(session?: SessionContext): Server {
+  const activePersonaId = () => (session ? session.getActivePersonaId() : getActivePersonaId());
+
+  const server = new Server(
+    {
+      name: 'persona-academy',
+      version: '0.1.0',
+    },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        prompts: { listChanged: true },
+        resources: { listChanged: true },
+      },
+    },
+  );
+
+  // Handle tools/list
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: getAllTools(session).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      })),
+    };
+  });
+
+  // Handle tools/call
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      const previousPersonaId = activePersonaId();
+      const result = handleToolCall(name, args ?? {}, session);
+
+      // Framework tools are generated per persona, so a switch changes the tool list
+      if (activePersonaId() !== previousPersonaId) {
+        server
+          .sendToolListChanged()
+          .catch((error) => console.error('Failed to send tool list change:', error));
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: result,
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  // Handle prompts/list and prompts/get
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Handle resources/list and resources/read
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [readResource(request.params.uri)] };
+  });
+
+  return server;
+}
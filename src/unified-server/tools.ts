@@ -11,12 +11,29 @@ import {
   getActivePersona,
   getActivePersonaId,
   getPersona,
-  getActiveFrameworks,
-  getFrameworkQuestions,
-  getActiveCaseStudies,
   getRandomPhrase,
 } from './persona-manager.js';
+import type { SessionContext } from './persona-manager.js';
 import { listDepartments, getDepartment } from '../departments/index.js';
+import { generateFrameworkTools, renderToolPrompt, toInputSchema } from '../core/tool-generator.js';
+import { buildRoutingIndex, routeRequest, explainRoute } from '../core/persona-router.js';
+import { findCaseStudies, rankPersonaContent } from '../core/content-relevance.js';
+import type { RouteMatch } from '../core/persona-router.js';
+import { buildPanel, formatPanel, MIN_PANEL_SIZE } from '../validation/panel.js';
+import type { CaseStudy, Framework, GeneratedTool, PersonaDefinition } from '../core/types.js';
+
+/**
+ * Session context used when a handler is called without one: the default
+ * session of the default persona manager
+ */
+const defaultContext: SessionContext = {
+  listPersonas: () => listPersonas(),
+  getPersona: (personaId) => getPersona(personaId),
+  getActivePersona: () => getActivePersona(),
+  getActivePersonaId: () => getActivePersonaId(),
+  switchPersona: (personaId) => switchPersona(personaId),
+  getRandomPhrase: () => getRandomPhrase(),
+};
 
 /**
  * Tool definitions for MCP
@@ -58,9 +75,12 @@ export const listPersonasTool: ToolDefinition = {
 /**
  * Handle list_personas tool call
  */
-export function handleListPersonas(args: { category?: string; department?: string }): string {
-  const personas = listPersonas();
-  const activeId = getActivePersonaId();
+export function handleListPersonas(
+  args: { category?: string; department?: string },
+  ctx: SessionContext = defaultContext,
+): string {
+  const personas = ctx.listPersonas();
+  const activeId = ctx.getActivePersonaId();
 
   let filtered = personas;
   if (args.category) {
@@ -107,7 +127,7 @@ export function handleListPersonas(args: { category?: string; department?: strin
 export const switchPersonaTool: ToolDefinition = {
   name: 'switch_persona',
   description:
-    'Switch to a different persona. The new persona will be used for all subsequent analysis and advice. Use list_personas to see available options.',
+    'Switch to a different persona. The new persona will be used for all subsequent analysis and advice. Use list_personas to see available options, or set auto with a request to activate the best match.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -115,16 +135,44 @@ export const switchPersonaTool: ToolDefinition = {
         type: 'string',
         description: 'The ID of the persona to switch to (e.g., "christensen", "porter")',
       },
+      auto: {
+        type: 'boolean',
+        description: 'Activate the persona that best matches the request instead of persona_id',
+      },
+      request: {
+        type: 'string',
+        description: 'The task to route when auto is set',
+      },
     },
-    required: ['persona_id'],
   },
 };
 
 /**
  * Handle switch_persona tool call
  */
-export function handleSwitchPersona(args: { persona_id: string }): string {
-  const result = switchPersona(args.persona_id);
+export function handleSwitchPersona(
+  args: { persona_id?: string; auto?: boolean; request?: string },
+  ctx: SessionContext = defaultContext,
+): string {
+  let personaId = args.persona_id;
+  let route: RouteMatch | undefined;
+
+  if (args.auto) {
+    if (!args.request) {
+      return 'Automatic switching needs a "request" describing the task.';
+    }
+    route = rankPersonas(args.request, 1, ctx)[0];
+    if (!route) {
+      return `No persona matches "${args.request}". Use list_personas to choose one.`;
+    }
+    personaId = route.id;
+  }
+
+  if (!personaId) {
+    return 'Provide a persona_id, or set auto with a request to pick the best match.';
+  }
+
+  const result = ctx.switchPersona(personaId);
 
   if (!result.success) {
     return `Failed to switch persona: ${result.message}`;
@@ -133,12 +181,15 @@ export function handleSwitchPersona(args: { persona_id: string }): string {
   const persona = result.persona!;
   const def = persona.definition;
 
-  const lines = [
-    `# Switched to ${def.identity.name}\n`,
-    `**Role**: ${def.identity.role}\n`,
-    `**Background**: ${def.identity.background.trim()}\n`,
-    `## Frameworks Available`,
-  ];
+  const lines = [`# Switched to ${def.identity.name}\n`, `**Role**: ${def.identity.role}\n`];
+
+  if (route) {
+    lines.push(
+      `**Why**: Best match for your request (score ${route.score}) on ${explainRoute(route)}\n`,
+    );
+  }
+
+  lines.push(`**Background**: ${def.identity.background.trim()}\n`, `## Frameworks Available`);
 
   for (const [name, fw] of Object.entries(def.frameworks)) {
     lines.push(`- **${formatName(name)}**: ${fw.description.split('\n')[0].trim()}`);
@@ -163,6 +214,82 @@ export function handleSwitchPersona(args: { persona_id: string }): string {
   return lines.join('\n');
 }
 
+/**
+ * Route Request Tool
+ */
+export const routeRequestTool: ToolDefinition = {
+  name: 'route_request',
+  description:
+    'Rank personas for a task by matching it against their routing descriptions, framework usage, case-study signals, tags and department missions.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      request: {
+        type: 'string',
+        description: 'The task or question to route',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of personas to return (default 3)',
+      },
+    },
+    required: ['request'],
+  },
+};
+
+/**
+ * Handle route_request tool call
+ */
+export function handleRouteRequest(
+  args: { request: string; limit?: number },
+  ctx: SessionContext = defaultContext,
+): string {
+  const matches = rankPersonas(args.request, args.limit ?? 3, ctx);
+
+  if (matches.length === 0) {
+    return `No persona matches "${args.request}". Use list_personas to choose one.`;
+  }
+
+  const lines = [`# Routing: "${args.request}"\n`];
+
+  matches.forEach((match, index) => {
+    lines.push(`## ${index + 1}. ${match.name}`);
+    lines.push(`- **ID**: ${match.id}`);
+    lines.push(`- **Score**: ${match.score}`);
+    lines.push(`- **Matched**: ${explainRoute(match)}`);
+    lines.push('');
+  });
+
+  lines.push(
+    `Use \`switch_persona\` with the persona ID, or with \`auto\` and the request, to activate the top match.`,
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Rank the session's personas for a request
+ */
+function rankPersonas(request: string, limit: number, ctx: SessionContext): RouteMatch[] {
+  return routeRequest(buildRoutingIndex(getAllDefinitions(ctx), listDepartments()), request, {
+    limit,
+  });
+}
+
+/**
+ * Definitions of every persona available to the session (id -> definition)
+ */
+function getAllDefinitions(ctx: SessionContext): Map<string, PersonaDefinition> {
+  const personas = new Map<string, PersonaDefinition>();
+  for (const summary of ctx.listPersonas()) {
+    const persona = ctx.getPersona(summary.id);
+    if (persona) {
+      personas.set(summary.id, persona.definition);
+    }
+  }
+  return personas;
+}
+
 /**
  * Persona Analyze Tool
  */
@@ -186,6 +313,11 @@ export const personaAnalyzeTool: ToolDefinition = {
         items: { type: 'string' },
         description: 'Specific frameworks to focus on (optional, uses all if not specified)',
       },
+      top_k: {
+        type: 'number',
+        description:
+          'Without focus_frameworks, give full detail to only the top_k frameworks and case studies most relevant to the situation and summarize the rest (optional)',
+      },
     },
     required: ['situation'],
   },
@@ -194,12 +326,16 @@ export const personaAnalyzeTool: ToolDefinition = {
 /**
  * Handle persona_analyze tool call
  */
-export function handlePersonaAnalyze(args: {
-  situation: string;
-  context?: string;
-  focus_frameworks?: string[];
-}): string {
-  const persona = getActivePersona();
+export function handlePersonaAnalyze(
+  args: {
+    situation: string;
+    context?: string;
+    focus_frameworks?: string[];
+    top_k?: number;
+  },
+  ctx: SessionContext = defaultContext,
+): string {
+  const persona = ctx.getActivePersona();
 
   if (!persona) {
     return 'No persona is currently active. Use `switch_persona` to activate one first.';
@@ -213,7 +349,7 @@ export function handlePersonaAnalyze(args: {
   const lines = [`# Analysis by ${def.identity.name}\n`, `*${def.identity.role}*\n`];
 
   // Add characteristic opening
-  const phrase = getRandomPhrase();
+  const phrase = ctx.getRandomPhrase();
   if (phrase) {
     lines.push(`> ${phrase}\n`);
   }
@@ -226,12 +362,22 @@ export function handlePersonaAnalyze(args: {
   }
   lines.push('');
 
+  const ranking = rankPersonaContent(def, [args.situation, args.context ?? ''].join('\n'));
+
+  // Relevance selection of frameworks applies only when none are named
+  const topK = args.focus_frameworks?.length ? undefined : args.top_k || undefined;
+
   // Framework analysis sections
   const targetFrameworks = args.focus_frameworks?.length
     ? args.focus_frameworks.filter((f) => frameworks[f])
-    : Object.keys(frameworks);
+    : topK
+      ? ranking.frameworks.slice(0, topK).map((item) => item.name)
+      : Object.keys(frameworks);
 
   lines.push(`## Framework Analysis\n`);
+  if (topK) {
+    lines.push(`*The ${targetFrameworks.length} most relevant to your situation:*\n`);
+  }
 
   for (const fwName of targetFrameworks) {
     const fw = frameworks[fwName];
@@ -257,15 +403,40 @@ export function handlePersonaAnalyze(args: {
     lines.push('');
   }
 
-  // Relevant case studies
-  if (Object.keys(caseStudies).length > 0) {
+  if (topK) {
+    const others = ranking.frameworks.slice(topK);
+    if (others.length > 0) {
+      lines.push(`**Other Frameworks** (use \`get_framework\` for details):`);
+      for (const { name } of others) {
+        lines.push(
+          `- **${formatName(name)}**: ${frameworks[name].description.trim().split('\n')[0]}`,
+        );
+      }
+      lines.push('');
+    }
+  }
+
+  // Case studies ranked by how well their signals, pattern and lessons match
+  const targetCases = ranking.caseStudies.slice(0, topK ?? 3);
+
+  if (targetCases.length > 0) {
     lines.push(`## Potentially Relevant Case Studies\n`);
-    for (const [csName, cs] of Object.entries(caseStudies).slice(0, 3)) {
+    for (const { name: csName, matchedSignals } of targetCases) {
+      const cs = caseStudies[csName];
       lines.push(`### ${formatName(csName)}`);
       lines.push(`**Pattern**: ${cs.pattern}`);
       lines.push(`${cs.story.trim().split('\n')[0]}...`);
       if (cs.signals?.length) {
-        lines.push(`\n**Watch for these signals**: ${cs.signals.slice(0, 3).join(', ')}`);
+        lines.push(`\n**Watch for these signals**: ${formatSignals(cs.signals, matchedSignals)}`);
+      }
+      lines.push('');
+    }
+
+    const others = topK ? ranking.caseStudies.slice(topK) : [];
+    if (others.length > 0) {
+      lines.push(`**Other Case Studies** (use \`get_case_study\` for details):`);
+      for (const { name } of others) {
+        lines.push(`- **${formatName(name)}**: ${caseStudies[name].pattern}`);
       }
       lines.push('');
     }
@@ -312,8 +483,11 @@ export const getFrameworkTool: ToolDefinition = {
 /**
  * Handle get_framework tool call
  */
-export function handleGetFramework(args: { framework_name: string }): string {
-  const persona = getActivePersona();
+export function handleGetFramework(
+  args: { framework_name: string },
+  ctx: SessionContext = defaultContext,
+): string {
+  const persona = ctx.getActivePersona();
 
   if (!persona) {
     return 'No persona is currently active. Use `switch_persona` to activate one first.';
@@ -327,8 +501,19 @@ export function handleGetFramework(args: { framework_name: string }): string {
     return `Framework "${args.framework_name}" not found. Available frameworks: ${available}`;
   }
 
+  return renderFramework(def, args.framework_name, framework);
+}
+
+/**
+ * Render a framework as markdown (shared by get_framework and persona:// resources)
+ */
+export function renderFramework(
+  def: PersonaDefinition,
+  frameworkName: string,
+  framework: Framework,
+): string {
   const lines = [
-    `# ${formatName(args.framework_name)}\n`,
+    `# ${formatName(frameworkName)}\n`,
     `*From ${def.identity.name}'s toolkit*\n`,
     `## Description\n`,
     framework.description.trim(),
@@ -397,8 +582,11 @@ export const getCaseStudyTool: ToolDefinition = {
 /**
  * Handle get_case_study tool call
  */
-export function handleGetCaseStudy(args: { case_name: string }): string {
-  const persona = getActivePersona();
+export function handleGetCaseStudy(
+  args: { case_name: string },
+  ctx: SessionContext = defaultContext,
+): string {
+  const persona = ctx.getActivePersona();
 
   if (!persona) {
     return 'No persona is currently active. Use `switch_persona` to activate one first.';
@@ -413,8 +601,112 @@ export function handleGetCaseStudy(args: { case_name: string }): string {
     return `Case study "${args.case_name}" not found. Available: ${available}`;
   }
 
+  return renderCaseStudy(def, args.case_name, caseStudy);
+}
+
+/**
+ * Find Case Studies Tool
+ */
+export const findCaseStudiesTool: ToolDefinition = {
+  name: 'find_case_studies',
+  description:
+    'Find the case studies that best match a situation by overlap with their signals, pattern and lessons. Searches the active persona, or every loaded persona with all_personas.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      situation: {
+        type: 'string',
+        description: 'The situation to find precedents for',
+      },
+      all_personas: {
+        type: 'boolean',
+        description:
+          'Search the case studies of every loaded persona (default: active persona only)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of case studies to return (default 5)',
+      },
+    },
+    required: ['situation'],
+  },
+};
+
+/**
+ * Handle find_case_studies tool call
+ */
+export function handleFindCaseStudies(
+  args: { situation: string; all_personas?: boolean; limit?: number },
+  ctx: SessionContext = defaultContext,
+): string {
+  let personas: Map<string, PersonaDefinition>;
+
+  if (args.all_personas) {
+    personas = getAllDefinitions(ctx);
+  } else {
+    const persona = ctx.getActivePersona();
+    const personaId = ctx.getActivePersonaId();
+    if (!persona || !personaId) {
+      return 'No persona is currently active. Use `switch_persona` to activate one first, or set `all_personas`.';
+    }
+    personas = new Map([[personaId, persona.definition]]);
+  }
+
+  const matches = findCaseStudies(personas, args.situation, { limit: args.limit ?? 5 });
+
+  if (matches.length === 0) {
+    return `No case study matches "${args.situation}".`;
+  }
+
+  const lines = [`# Case Studies: "${args.situation}"\n`];
+
+  matches.forEach((match, index) => {
+    const { caseStudy } = match;
+    lines.push(`## ${index + 1}. ${formatName(match.name)}`);
+    if (args.all_personas) {
+      lines.push(
+        `- **Persona**: ${personas.get(match.personaId)!.identity.name} (${match.personaId})`,
+      );
+    }
+    lines.push(`- **Pattern**: ${caseStudy.pattern}`);
+    lines.push(`- **Score**: ${match.score}`);
+    if (caseStudy.signals?.length) {
+      lines.push(`- **Signals**: ${formatSignals(caseStudy.signals, match.matchedSignals)}`);
+    }
+    if (caseStudy.lessons?.length) {
+      lines.push(`- **Lessons**: ${caseStudy.lessons.join('; ')}`);
+    }
+    lines.push(`- **Matched**: ${match.terms.join(', ')}`);
+    lines.push('');
+  });
+
+  lines.push(
+    args.all_personas
+      ? 'Switch to the persona and use `get_case_study` for the full story.'
+      : 'Use `get_case_study` for the full story.',
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Up to three signals, matched ones first and in bold
+ */
+function formatSignals(signals: string[], matched: string[]): string {
+  const unmatched = signals.filter((signal) => !matched.includes(signal));
+  return [...matched.map((signal) => `**${signal}**`), ...unmatched].slice(0, 3).join(', ');
+}
+
+/**
+ * Render a case study as markdown (shared by get_case_study and persona:// resources)
+ */
+export function renderCaseStudy(
+  def: PersonaDefinition,
+  caseName: string,
+  caseStudy: CaseStudy,
+): string {
   const lines = [
-    `# ${formatName(args.case_name)}\n`,
+    `# ${formatName(caseName)}\n`,
     `*Case study from ${def.identity.name}*\n`,
     `## Pattern\n`,
     caseStudy.pattern,
@@ -465,8 +757,8 @@ export const getActivePersonaTool: ToolDefinition = {
 /**
  * Handle get_active_persona tool call
  */
-export function handleGetActivePersona(): string {
-  const persona = getActivePersona();
+export function handleGetActivePersona(ctx: SessionContext = defaultContext): string {
+  const persona = ctx.getActivePersona();
 
   if (!persona) {
     return 'No persona is currently active. Use `list_personas` to see available personas and `switch_persona` to activate one.';
@@ -557,49 +849,208 @@ export function handleListDepartments(): string {
   return lines.join('\n');
 }
 
+/**
+ * Panel Analyze Tool
+ */
+export const panelAnalyzeTool: ToolDefinition = {
+  name: 'panel_analyze',
+  description:
+    "Convene a panel of personas on one situation. Returns a round-table scaffold with each persona's framework lens, their points of likely disagreement, and a synthesis section. Pick personas by ID or a whole department.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      situation: {
+        type: 'string',
+        description: 'Describe the situation, decision, or question for the panel',
+      },
+      persona_ids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: `IDs of the panelists (at least ${MIN_PANEL_SIZE})`,
+      },
+      department: {
+        type: 'string',
+        description: 'Use every persona in this department as the panel',
+      },
+      context: {
+        type: 'string',
+        description: 'Additional context about the situation (optional)',
+      },
+    },
+    required: ['situation'],
+  },
+};
+
+/**
+ * Handle panel_analyze tool call
+ */
+export function handlePanelAnalyze(
+  args: { situation: string; persona_ids?: string[]; department?: string; context?: string },
+  ctx: SessionContext = defaultContext,
+): string {
+  let ids = args.persona_ids ?? [];
+
+  if (args.department) {
+    const department = getDepartment(args.department);
+    if (!department) {
+      return `Department "${args.department}" not found. Use list_departments to see available departments.`;
+    }
+    ids = [...new Set([...ids, ...department.personas])];
+  }
+
+  const personas = new Map<string, PersonaDefinition>();
+  const missing: string[] = [];
+  for (const id of ids) {
+    const persona = ctx.getPersona(id);
+    if (persona) {
+      personas.set(id, persona.definition);
+    } else {
+      missing.push(id);
+    }
+  }
+
+  if (missing.length > 0) {
+    return `Persona(s) not found: ${missing.join(', ')}. Use list_personas to see available options.`;
+  }
+  if (personas.size < MIN_PANEL_SIZE) {
+    return `A panel needs at least ${MIN_PANEL_SIZE} personas. Pass persona_ids or a department.`;
+  }
+
+  try {
+    return formatPanel(buildPanel(personas, { situation: args.situation, context: args.context }));
+  } catch (error) {
+    return `Failed to build panel: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
 /**
  * All tool definitions
  */
 export const ALL_TOOLS: ToolDefinition[] = [
   listPersonasTool,
   switchPersonaTool,
+  routeRequestTool,
   personaAnalyzeTool,
   getFrameworkTool,
   getCaseStudyTool,
+  findCaseStudiesTool,
   getActivePersonaTool,
   listDepartmentsTool,
+  panelAnalyzeTool,
 ];
 
+/**
+ * Get the framework tools generated for the active persona
+ */
+export function getPersonaTools(ctx: SessionContext = defaultContext): GeneratedTool[] {
+  const persona = ctx.getActivePersona();
+  const personaId = ctx.getActivePersonaId();
+
+  if (!persona || !personaId) {
+    return [];
+  }
+
+  return generateFrameworkTools(personaId, persona.definition);
+}
+
+/**
+ * All tool definitions: static tools plus the active persona's framework tools
+ */
+export function getAllTools(ctx: SessionContext = defaultContext): ToolDefinition[] {
+  const generated = getPersonaTools(ctx).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool),
+  }));
+
+  return [...ALL_TOOLS, ...generated];
+}
+
+/**
+ * Handle a call to a generated framework tool.
+ * Returns null if no generated tool matches the name.
+ */
+export function handleGeneratedTool(
+  toolName: string,
+  args: Record<string, unknown>,
+  ctx: SessionContext = defaultContext,
+): string | null {
+  const tool = getPersonaTools(ctx).find((t) => t.name === toolName);
+  if (!tool) {
+    return null;
+  }
+
+  if (typeof args.situation !== 'string' || !args.situation.trim()) {
+    return `Tool "${toolName}" requires a "situation" argument.`;
+  }
+
+  const persona = ctx.getActivePersona()!;
+  return renderToolPrompt(tool, persona.definition, args);
+}
+
 /**
  * Tool handler dispatch
  */
-export function handleToolCall(toolName: string, args: Record<string, unknown>): string {
+export function handleToolCall(
+  toolName: string,
+  args: Record<string, unknown>,
+  ctx: SessionContext = defaultContext,
+): string {
   switch (toolName) {
     case 'list_personas':
-      return handleListPersonas(args as { category?: string; department?: string });
+      return handleListPersonas(args as { category?: string; department?: string }, ctx);
 
     case 'switch_persona':
-      return handleSwitchPersona(args as { persona_id: string });
+      return handleSwitchPersona(
+        args as { persona_id?: string; auto?: boolean; request?: string },
+        ctx,
+      );
+
+    case 'route_request':
+      return handleRouteRequest(args as { request: string; limit?: number }, ctx);
 
     case 'persona_analyze':
       return handlePersonaAnalyze(
-        args as { situation: string; context?: string; focus_frameworks?: string[] },
+        args as {
+          situation: string;
+          context?: string;
+          focus_frameworks?: string[];
+          top_k?: number;
+        },
+        ctx,
       );
 
     case 'get_framework':
-      return handleGetFramework(args as { framework_name: string });
+      return handleGetFramework(args as { framework_name: string }, ctx);
 
     case 'get_case_study':
-      return handleGetCaseStudy(args as { case_name: string });
+      return handleGetCaseStudy(args as { case_name: string }, ctx);
+
+    case 'find_case_studies':
+      return handleFindCaseStudies(
+        args as { situation: string; all_personas?: boolean; limit?: number },
+        ctx,
+      );
 
     case 'get_active_persona':
-      return handleGetActivePersona();
+      return handleGetActivePersona(ctx);
 
     case 'list_departments':
       return handleListDepartments();
 
+    case 'panel_analyze':
+      return handlePanelAnalyze(
+        args as {
+          situation: string;
+          persona_ids?: string[];
+          department?: string;
+          context?: string;
+        },
+        ctx,
+      );
+
     default:
-      return `Unknown tool: ${toolName}`;
+      return handleGeneratedTool(toolName, args, ctx) ?? `Unknown tool: ${toolName}`;
   }
 }
 
@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  createBaseline,
+  compareToBaseline,
+  generateBaselineMarkdown,
+  loadBaseline,
+  saveBaseline,
+} from '../baseline.js';
+import type { PersonaBaseline, TestResult, TestSuiteResult } from '../types.js';
+
+function makeBaseline(overrides: Partial<PersonaBaseline> = {}): PersonaBaseline {
+  return {
+    personaId: 'strategist',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    scorer: 'heuristic',
+    metrics: { overall: 70, fidelity: 80, voiceConsistency: 60, frameworkCoverage: 50 },
+    tests: {
+      sample_good_growth: { passed: true, score: 80 },
+      voice_phrases: { passed: true },
+    },
+    ...overrides,
+  };
+}
+
+describe('createBaseline', () => {
+  it('records each test outcome with the direction it is expected to go', () => {
+    const result = (id: string, shouldPass: boolean, actualScore: number): TestResult => ({
+      testCase: { id, description: id, category: 'fidelity', input: '', expected: { shouldPass } },
+      passed: true,
+      actualScore,
+      executionTime: 0,
+    });
+    const suite: TestSuiteResult = {
+      personaId: 'strategist',
+      totalTests: 2,
+      passedTests: 2,
+      failedTests: 0,
+      passRate: 100,
+      results: [result('sample_good_growth', true, 80), result('edge_unrelated', false, 10)],
+      totalExecutionTime: 0,
+      timestamp: new Date(),
+    };
+
+    expect(createBaseline('strategist', undefined, suite).tests).toEqual({
+      sample_good_growth: { passed: true, score: 80, shouldPass: true },
+      edge_unrelated: { passed: true, score: 10, shouldPass: false },
+    });
+  });
+});
+
+describe('compareToBaseline', () => {
+  it('reports per-metric deltas and flags drops beyond the tolerance', () => {
+    const current = makeBaseline({
+      metrics: { overall: 68, fidelity: 75, voiceConsistency: 65, frameworkCoverage: 50 },
+    });
+
+    const comparison = compareToBaseline(makeBaseline(), current, 2);
+
+    expect(comparison.metrics.map((m) => [m.metric, m.delta, m.regressed])).toEqual([
+      ['overall', -2, false],
+      ['fidelity', -5, true],
+      ['voiceConsistency', 5, false],
+      ['frameworkCoverage', 0, false],
+    ]);
+    expect(comparison.regressions).toBe(1);
+    expect(comparison.passed).toBe(false);
+  });
+
+  it('flags tests that stop passing and lists added and removed tests', () => {
+    const current = makeBaseline({
+      tests: {
+        sample_good_growth: { passed: true, score: 81 },
+        voice_phrases: { passed: false },
+        framework_positioning: { passed: true },
+      },
+    });
+
+    const tests = compareToBaseline(makeBaseline(), current).tests;
+
+    expect(tests.find((t) => t.testId === 'sample_good_growth')).toMatchObject({
+      status: 'changed',
+      delta: 1,
+      regressed: false,
+    });
+    expect(tests.find((t) => t.testId === 'voice_phrases')).toMatchObject({
+      status: 'changed',
+      regressed: true,
+    });
+    expect(tests.find((t) => t.testId === 'framework_positioning')?.status).toBe('added');
+  });
+
+  it('treats rising scores as regressions for tests expected to fail', () => {
+    const baseline = makeBaseline({
+      tests: {
+        sample_bad_jargon: { passed: true, score: 20, shouldPass: false },
+        edge_unrelated: { passed: true, score: 30, shouldPass: false },
+      },
+    });
+    const current = makeBaseline({
+      tests: {
+        sample_bad_jargon: { passed: true, score: 35, shouldPass: false },
+        edge_unrelated: { passed: true, score: 10, shouldPass: false },
+      },
+    });
+
+    const tests = compareToBaseline(baseline, current, 5).tests;
+
+    expect(tests.map((t) => [t.testId, t.delta, t.regressed])).toEqual([
+      ['sample_bad_jargon', 15, true],
+      ['edge_unrelated', -20, false],
+    ]);
+  });
+
+  it('compares tests only when either run has no report metrics', () => {
+    const comparison = compareToBaseline(makeBaseline({ metrics: undefined }), makeBaseline());
+
+    expect(comparison.metrics).toEqual([]);
+    expect(comparison.passed).toBe(true);
+  });
+});
+
+describe('generateBaselineMarkdown', () => {
+  it('renders metric and changed-test tables', () => {
+    const current = makeBaseline({
+      metrics: { overall: 60, fidelity: 80, voiceConsistency: 60, frameworkCoverage: 50 },
+      tests: { sample_good_growth: { passed: false, score: 65 }, voice_phrases: { passed: true } },
+    });
+
+    const markdown = generateBaselineMarkdown(compareToBaseline(makeBaseline(), current));
+
+    expect(markdown).toContain('### ❌ Persona quality: `strategist` vs baseline');
+    expect(markdown).toContain('| Overall | 70 | 60 | -10 ❌ |');
+    expect(markdown).toContain('| Fidelity | 80 | 80 | ±0 |');
+    expect(markdown).toContain('| `sample_good_growth` | pass (80) | fail (65) | -15 ❌ |');
+    expect(markdown).not.toContain('voice_phrases');
+    expect(markdown).toContain('**2 regression(s)** beyond tolerance 0.');
+  });
+});
+
+describe('saveBaseline / loadBaseline', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips a baseline through <dir>/<id>.json', () => {
+    dir = mkdtempSync(join(tmpdir(), 'baseline-test-'));
+    const baseline = makeBaseline();
+
+    expect(saveBaseline(baseline, dir)).toBe(join(dir, 'strategist.json'));
+    expect(loadBaseline('strategist', dir)).toEqual(baseline);
+    expect(loadBaseline('missing', dir)).toBeUndefined();
+  });
+});
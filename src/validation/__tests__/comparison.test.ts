@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { comparePersonaCharacteristics } from '../comparison.js';
+import { resolveFrameworkRefs } from '../../core/framework-library.js';
+import type { Framework, PersonaDefinition } from '../../core/types.js';
+
+function makePersona(frameworks: Record<string, Framework>): PersonaDefinition {
+  return {
+    identity: { name: 'Test', role: 'Tester', background: 'Background' },
+    voice: { tone: ['direct'], phrases: ['Why?'], style: ['Terse'] },
+    frameworks,
+    validation: { must_include: [{ pattern: 'risk' }] },
+  };
+}
+
+function makeLibraryPersona(frameworks: Record<string, object>): PersonaDefinition {
+  const resolved = frameworks as Record<string, Framework>;
+  resolveFrameworkRefs(resolved);
+  return makePersona(resolved);
+}
+
+describe('comparePersonaCharacteristics', () => {
+  it('counts frameworks shared through the library under different keys', () => {
+    const reviewer = makeLibraryPersona({ design_principles: { $ref: 'lib:solid' } });
+    const architect = makeLibraryPersona({ solid: { $ref: 'lib:solid' } });
+
+    expect(comparePersonaCharacteristics(reviewer, architect).frameworkOverlap).toBe(100);
+  });
+
+  it('does not count library frameworks with different overrides as shared', () => {
+    const reviewer = makeLibraryPersona({ solid: { $ref: 'lib:solid' } });
+    const architect = makeLibraryPersona({
+      solid: { $ref: 'lib:solid', when_to_use: 'Architecture reviews' },
+    });
+
+    expect(comparePersonaCharacteristics(reviewer, architect).frameworkOverlap).toBe(0);
+  });
+
+  it('does not count frameworks that only share a key name', () => {
+    const strategist = makePersona({ risk: { description: 'Market risk', concepts: {} } });
+    const engineer = makePersona({ risk: { description: 'Failure modes', concepts: {} } });
+
+    expect(comparePersonaCharacteristics(strategist, engineer).frameworkOverlap).toBe(0);
+  });
+
+  it('counts verbatim copies of inline frameworks', () => {
+    const framework: Framework = { description: 'Kaizen', concepts: {} };
+
+    expect(
+      comparePersonaCharacteristics(
+        makePersona({ kaizen: framework }),
+        makePersona({ kaizen_analysis: { ...framework } }),
+      ).frameworkOverlap,
+    ).toBe(100);
+  });
+});
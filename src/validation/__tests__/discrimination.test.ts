@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { runDiscriminationTests, formatDiscriminationResults } from '../discrimination.js';
+import type { PersonaDefinition } from '../../core/types.js';
+
+function makePersona(name: string, marker: string, response: string): PersonaDefinition {
+  return {
+    identity: { name, role: 'Advisor', background: 'Background' },
+    voice: { tone: ['direct'], phrases: [], style: ['Terse'] },
+    frameworks: {},
+    validation: { must_include: [{ pattern: marker }] },
+    sample_responses: {
+      answer: { prompt: 'What should we do?', good_response: response },
+    },
+  };
+}
+
+describe('runDiscriminationTests', () => {
+  it('passes when each sample picks out its own persona', () => {
+    const personas = new Map([
+      ['strategist', makePersona('Strategist', 'trade-?offs?', 'Choose your trade-offs.')],
+      ['engineer', makePersona('Engineer', 'latency', 'Measure the latency first.')],
+    ]);
+
+    const result = runDiscriminationTests(personas);
+
+    expect(result.passed).toBe(true);
+    expect(result.confusionMatrix).toEqual({
+      strategist: { strategist: 1 },
+      engineer: { engineer: 1 },
+    });
+    expect(result.samples[0]).toMatchObject({
+      personaId: 'strategist',
+      bestMatch: 'strategist',
+      runnerUp: { personaId: 'engineer' },
+    });
+    expect(result.unseparatedPairs).toEqual([]);
+  });
+
+  it('fails samples without a clear lead and flags pairs the markers do not separate', () => {
+    const personas = new Map([
+      ['strategist', makePersona('Strategist', 'trade-?offs?', 'Choose your trade-offs.')],
+      ['economist', makePersona('Economist', 'trade-?offs?', 'Every choice has trade-offs.')],
+      ['engineer', makePersona('Engineer', 'latency', 'Measure the latency first.')],
+    ]);
+
+    const result = runDiscriminationTests(personas, { margin: 5 });
+
+    expect(result.failedSamples).toBe(2);
+    expect(result.samples.find((s) => s.personaId === 'engineer')?.passed).toBe(true);
+    expect(result.unseparatedPairs.map((pair) => pair.personas)).toEqual([
+      ['strategist', 'economist'],
+    ]);
+    expect(result.unseparatedPairs[0].markerGap).toBe(0);
+    expect(formatDiscriminationResults(result)).toContain(
+      '⚠ strategist ↔ economist: fidelity gap 0 on strategist/answer',
+    );
+  });
+
+  it('tests only the given owners', () => {
+    const personas = new Map([
+      ['strategist', makePersona('Strategist', 'trade-?offs?', 'Choose your trade-offs.')],
+      ['engineer', makePersona('Engineer', 'latency', 'Measure the latency first.')],
+    ]);
+
+    const result = runDiscriminationTests(personas, { owners: ['engineer'] });
+
+    expect(result.samples.map((s) => s.personaId)).toEqual(['engineer']);
+    expect(Object.keys(result.confusionMatrix)).toEqual(['engineer']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runLiveTests, createStubReply, formatLiveResults } from '../live-runner.js';
+import { startMockModelServer, MOCK_OPENAI_PATH } from '../mock-model-server.js';
+import type { MockModelReply, MockModelServer } from '../mock-model-server.js';
+import type { PersonaDefinition } from '../../core/types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: { name: 'Strategist', role: 'Advisor', background: 'Decades of advising.' },
+    voice: { tone: ['direct'], phrases: ['Why now?'], style: ['Terse'] },
+    frameworks: {
+      positioning: {
+        description: 'Choosing a position',
+        concepts: { trade_offs: { definition: 'Choosing what not to do' } },
+      },
+    },
+    validation: {
+      must_include: [{ pattern: 'trade-?offs?' }, { pattern: 'position' }],
+    },
+    sample_responses: {
+      growth: {
+        prompt: 'Should we serve every customer?',
+        good_response: 'No. Your position depends on trade-offs: choose what not to do.',
+      },
+    },
+  };
+}
+
+describe('runLiveTests', () => {
+  let server: MockModelServer;
+  let cacheDir: string;
+
+  async function start(reply: MockModelReply) {
+    server = await startMockModelServer(reply);
+    return { url: server.url + MOCK_OPENAI_PATH, model: 'test-model' };
+  }
+
+  beforeEach(() => {
+    cacheDir = mkdtempSync(join(tmpdir(), 'live-runner-test-'));
+  });
+
+  afterEach(async () => {
+    await server?.close();
+    rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('shows no drift when the stub answers with canned responses', async () => {
+    const persona = makePersona();
+    const endpoint = await start(createStubReply(persona));
+
+    const results = await runLiveTests(persona, { endpoint, personaId: 'porter' });
+
+    expect(results.personaId).toBe('porter');
+    expect(results.passedSamples).toBe(1);
+    expect(results.averageDrift).toEqual({
+      fidelity: 0,
+      voiceConsistency: 0,
+      frameworkCoverage: 0,
+    });
+    expect(server.requests[0].system).toContain('# Strategist');
+    expect(server.requests[0].prompt).toBe('Should we serve every customer?');
+  });
+
+  it('reports drift and failures for off-persona responses', async () => {
+    const endpoint = await start(() => 'Sure, serve everyone and grow fast.');
+
+    const results = await runLiveTests(makePersona(), { endpoint });
+
+    expect(results.failedSamples).toBe(1);
+    expect(results.results[0].drift.fidelity).toBeLessThan(0);
+    expect(formatLiveResults(results)).toContain('FAILED: 1/1 live response(s) below threshold');
+  });
+
+  it('reuses cached responses until refreshed', async () => {
+    let calls = 0;
+    const endpoint = await start(() => `Response ${++calls}`);
+
+    await runLiveTests(makePersona(), { endpoint, cacheDir });
+    const rerun = await runLiveTests(makePersona(), { endpoint, cacheDir });
+
+    expect(calls).toBe(1);
+    expect(rerun.results[0]).toMatchObject({ cached: true, response: 'Response 1' });
+    expect(readdirSync(cacheDir)).toHaveLength(1);
+
+    const refreshed = await runLiveTests(makePersona(), { endpoint, cacheDir, refresh: true });
+    expect(refreshed.results[0]).toMatchObject({ cached: false, response: 'Response 2' });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { buildPanel, formatPanel } from '../panel.js';
+import type { Framework, PersonaDefinition } from '../../core/types.js';
+
+function makePersona(
+  name: string,
+  tone: string[],
+  frameworks: Record<string, Framework>,
+): PersonaDefinition {
+  return {
+    identity: { name, role: `${name} role`, background: 'Background' },
+    voice: { tone, phrases: [`${name} says hello.`], style: ['Terse'] },
+    frameworks,
+    validation: { must_include: [{ pattern: 'risk' }] },
+  };
+}
+
+const SHARED: Framework = {
+  description: 'Shared lens. Everyone uses it.',
+  concepts: {},
+  questions: ['What is shared?'],
+};
+
+function makePanel(): Map<string, PersonaDefinition> {
+  return new Map([
+    [
+      'strategist',
+      makePersona('Strategist', ['analytical', 'direct'], {
+        shared: SHARED,
+        five_forces: {
+          description: 'Industry structure. Forces shape profit.',
+          concepts: {},
+          questions: ['Who has power?', 'What are the barriers?', 'What substitutes exist?'],
+        },
+      }),
+    ],
+    [
+      'engineer',
+      makePersona('Engineer', ['pragmatic', 'direct'], {
+        shared: SHARED,
+        failure_modes: { description: 'How systems break', concepts: {} },
+      }),
+    ],
+    ['twin', makePersona('Twin', ['direct'], { shared: SHARED })],
+  ]);
+}
+
+describe('buildPanel', () => {
+  it('lists distinctive frameworks first with their lead questions', () => {
+    const panel = buildPanel(makePanel(), { situation: 'Replatform?' });
+    const strategist = panel.members.find((m) => m.id === 'strategist')!;
+
+    expect(strategist.frameworks.map((f) => f.name)).toEqual(['five_forces', 'shared']);
+    expect(strategist.frameworks[0]).toEqual({
+      name: 'five_forces',
+      summary: 'Industry structure',
+      questions: ['Who has power?', 'What are the barriers?'],
+      distinctive: true,
+    });
+    expect(strategist.frameworks[1].distinctive).toBe(false);
+    expect(strategist.openingPhrase).toBe('Strategist says hello.');
+  });
+
+  it('limits frameworks per member', () => {
+    const panel = buildPanel(makePanel(), { situation: 'x', frameworksPerMember: 1 });
+
+    expect(panel.members.every((m) => m.frameworks.length === 1)).toBe(true);
+  });
+
+  it('records disagreements only between personas that each bring their own frameworks', () => {
+    const panel = buildPanel(makePanel(), { situation: 'x' });
+
+    expect(panel.disagreements).toEqual([
+      {
+        between: ['strategist', 'engineer'],
+        frameworks: { strategist: ['five_forces'], engineer: ['failure_modes'] },
+        tones: { strategist: ['analytical'], engineer: ['pragmatic'] },
+      },
+    ]);
+  });
+
+  it('rejects panels with fewer than two personas', () => {
+    const single = new Map([['twin', makePanel().get('twin')!]]);
+
+    expect(() => buildPanel(single, { situation: 'x' })).toThrow('at least 2 personas');
+  });
+});
+
+describe('formatPanel', () => {
+  it('renders situation, round table, disagreements and synthesis', () => {
+    const output = formatPanel(
+      buildPanel(makePanel(), { situation: 'Replatform?', context: 'Two teams' }),
+    );
+
+    expect(output).toContain('# Panel: Strategist · Engineer · Twin');
+    expect(output).toContain('**Additional Context**: Two teams');
+    expect(output).toContain('- **Five Forces** (only on this panel): Industry structure');
+    expect(output).toContain('### Strategist vs Engineer');
+    expect(output).toContain('- **Engineer** argues from Failure Modes\n  - *Tone*: pragmatic');
+    expect(output).toMatch(/## Synthesis\n\n1\. /);
+  });
+});
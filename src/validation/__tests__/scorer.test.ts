@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createScorer, heuristicScorer, readJudgeEnv } from '../scorer.js';
+import { buildJudgeRubric, parseJudgeScores } from '../judge-scorer.js';
+import {
+  startMockModelServer,
+  MOCK_ANTHROPIC_PATH,
+  MOCK_OPENAI_PATH,
+} from '../mock-model-server.js';
+import type { MockModelServer } from '../mock-model-server.js';
+import { formatReport, generateScoredQualityReport } from '../report-generator.js';
+import type { PersonaDefinition } from '../../core/types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: { name: 'Strategist', role: 'Advisor', background: 'Decades of advising.' },
+    voice: {
+      tone: ['direct'],
+      phrases: ['Why now?'],
+      style: ['Terse'],
+      constraints: ['Never hedge'],
+    },
+    frameworks: {
+      five_forces: {
+        description: 'Industry structure analysis',
+        concepts: { rivalry: { definition: 'Competition among incumbents' } },
+      },
+    },
+    validation: {
+      must_include: [{ pattern: 'position', description: 'Talks about positioning' }],
+      must_avoid: [{ pattern: 'synergy' }],
+    },
+  };
+}
+
+const JUDGE_REPLY =
+  '```json\n{"fidelity": 82, "voice_consistency": 140, "framework_coverage": 40.6, "rationale": "Clear positioning."}\n```';
+
+let server: MockModelServer | undefined;
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+});
+
+describe('buildJudgeRubric', () => {
+  it('includes voice, frameworks and validation markers', () => {
+    const rubric = buildJudgeRubric(makePersona(), {
+      additionalMustAvoid: [{ pattern: 'leverage' }],
+    });
+
+    expect(rubric).toContain('Strategist (Advisor)');
+    expect(rubric).toContain('Characteristic phrases: "Why now?"');
+    expect(rubric).toContain('Would never: Never hedge');
+    expect(rubric).toContain('- five forces: rivalry');
+    expect(rubric).toContain('- Talks about positioning (pattern: position)');
+    expect(rubric).toContain('- synergy (pattern: synergy)');
+    expect(rubric).toContain('- leverage (pattern: leverage)');
+  });
+});
+
+describe('parseJudgeScores', () => {
+  it('extracts, clamps and rounds scores from a fenced reply', () => {
+    expect(parseJudgeScores(JUDGE_REPLY)).toEqual({
+      fidelity: 82,
+      voiceConsistency: 100,
+      frameworkCoverage: 41,
+      rationale: 'Clear positioning.',
+    });
+  });
+
+  it('rejects replies without every score', () => {
+    expect(() => parseJudgeScores('{"fidelity": 80}')).toThrow('voice_consistency');
+    expect(() => parseJudgeScores('I cannot grade this.')).toThrow('no JSON object');
+  });
+
+  it('rejects scores that are not numbers', () => {
+    for (const value of ['null', '""', '"80"', 'true', '[]']) {
+      const reply = `{"fidelity": ${value}, "voice_consistency": 80, "framework_coverage": 80}`;
+      expect(() => parseJudgeScores(reply)).toThrow('numeric "fidelity"');
+    }
+  });
+});
+
+describe('judge scorer', () => {
+  it('grades through an OpenAI-compatible endpoint', async () => {
+    server = await startMockModelServer(() => JUDGE_REPLY);
+    const scorer = createScorer('judge', {
+      judge: { url: server.url + MOCK_OPENAI_PATH, model: 'grader', apiKey: 'secret' },
+    });
+
+    const scores = await scorer.score('Our position is weak.', makePersona());
+
+    expect(scores.fidelity).toBe(82);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({ provider: 'openai', model: 'grader' });
+    expect(server.requests[0].system).toContain('## Validation Markers');
+    expect(server.requests[0].prompt).toContain('Our position is weak.');
+  });
+
+  it('grades through an Anthropic-compatible endpoint', async () => {
+    server = await startMockModelServer(() => JUDGE_REPLY);
+    const scorer = createScorer('judge', {
+      judge: { url: server.url + MOCK_ANTHROPIC_PATH, model: 'grader', provider: 'anthropic' },
+    });
+
+    const report = await generateScoredQualityReport(
+      'Our position is weak.',
+      makePersona(),
+      scorer,
+    );
+
+    expect(server.requests[0].provider).toBe('anthropic');
+    expect(report.scores).toMatchObject({
+      fidelity: 82,
+      voiceConsistency: 100,
+      frameworkCoverage: 41,
+    });
+    expect(report.scorer).toEqual({ name: 'judge', rationale: 'Clear positioning.' });
+  });
+
+  it('takes the fidelity status from the judge', async () => {
+    server = await startMockModelServer(() => JUDGE_REPLY);
+    const scorer = createScorer('judge', {
+      judge: { url: server.url + MOCK_OPENAI_PATH, model: 'grader' },
+    });
+
+    // The heuristics fail this text: no positioning, and it says synergy
+    const report = await generateScoredQualityReport('Synergy everywhere.', makePersona(), scorer);
+
+    expect(report.analysis.fidelity).toMatchObject({ score: 82, passed: true });
+    expect(formatReport(report)).toContain('Status:            PASSED');
+  });
+
+  it('surfaces endpoint errors', async () => {
+    server = await startMockModelServer(() => JUDGE_REPLY);
+    const scorer = createScorer('judge', {
+      judge: { url: server.url + '/missing', model: 'grader' },
+    });
+
+    await expect(scorer.score('text', makePersona())).rejects.toThrow('returned 404');
+  });
+});
+
+describe('createScorer', () => {
+  it('defaults to heuristics and validates judge settings', () => {
+    expect(createScorer('heuristic')).toBe(heuristicScorer);
+    expect(() => createScorer('judge')).toThrow('PERSONA_ACADEMY_JUDGE_URL');
+    expect(() =>
+      createScorer('judge', {
+        judge: { url: 'http://x', model: 'm', provider: 'gemini' as never },
+      }),
+    ).toThrow('Unknown judge provider');
+    expect(() => createScorer('vibes')).toThrow('Unknown scorer');
+  });
+
+  it('reads judge settings from the environment', () => {
+    expect(
+      readJudgeEnv({
+        PERSONA_ACADEMY_JUDGE_URL: 'http://judge',
+        PERSONA_ACADEMY_JUDGE_MODEL: 'grader',
+        PERSONA_ACADEMY_JUDGE_API_KEY: 'secret',
+      }),
+    ).toEqual({ url: 'http://judge', model: 'grader', apiKey: 'secret' });
+  });
+});
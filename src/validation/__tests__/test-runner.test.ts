@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+  runTestSuite,
+  getCustomTestCases,
+  filterTestCases,
+  runTestCases,
+  runScoredTestCases,
+  runCustomTest,
+} from '../test-runner.js';
+import type { PersonaDefinition } from '../../core/types.js';
+import type { Scorer } from '../types.js';
+
+function makePersona(): PersonaDefinition {
+  return {
+    identity: { name: 'Strategist', role: 'Advisor', background: 'Decades of advising.' },
+    voice: { tone: ['direct'], phrases: ['Why now?'], style: ['Terse'] },
+    frameworks: {
+      positioning: {
+        description: 'Choosing a position',
+        concepts: { trade_offs: { definition: 'Choosing what not to do' } },
+      },
+    },
+    validation: { must_include: [{ pattern: 'position' }] },
+    test_cases: {
+      trade_offs: {
+        description: 'Names the trade-offs',
+        input: 'Your position depends on trade-offs.',
+        tags: ['regression'],
+        min_score: 50,
+        required_patterns: ['trade-?offs?'],
+        expected_frameworks: ['positioning'],
+      },
+      hedging: {
+        category: 'negative',
+        input: 'Maybe do a bit of everything.',
+        max_score: 30,
+        forbidden_patterns: ['synergy'],
+      },
+    },
+  };
+}
+
+describe('getCustomTestCases', () => {
+  it('converts test_cases into test cases', () => {
+    const [tradeOffs, hedging] = getCustomTestCases(makePersona());
+
+    expect(tradeOffs).toMatchObject({
+      id: 'trade_offs',
+      category: 'fidelity',
+      tags: ['regression'],
+      expected: { shouldPass: true, minScore: 50, expectedFrameworks: ['positioning'] },
+    });
+    expect(hedging).toMatchObject({
+      category: 'negative',
+      description: 'hedging',
+      expected: { shouldPass: false, maxScore: 30 },
+    });
+  });
+
+  it('requires an input', () => {
+    const persona = makePersona();
+    persona.test_cases = { empty: { tags: ['x'] } };
+
+    expect(() => getCustomTestCases(persona)).toThrow('Test case "empty" needs an input or file');
+  });
+});
+
+describe('runTestCases', () => {
+  it('passes when every expectation is met', () => {
+    const results = runTestCases(getCustomTestCases(makePersona()), makePersona());
+
+    expect(results.results.map((r) => [r.testCase.id, r.passed])).toEqual([
+      ['trade_offs', true],
+      ['hedging', true],
+    ]);
+  });
+
+  it('lists each unmet expectation', () => {
+    const persona = makePersona();
+    persona.test_cases = {
+      off_topic: {
+        input: 'The weather is nice.',
+        min_score: 50,
+        required_patterns: ['trade-?offs?'],
+        forbidden_patterns: ['weather'],
+        expected_frameworks: ['positioning', 'five_forces'],
+      },
+    };
+
+    const [result] = runTestCases(getCustomTestCases(persona), persona).results;
+
+    expect(result.passed).toBe(false);
+    expect(result.failures).toEqual([
+      'Expected: ≥50, Got: 30',
+      'Missing required pattern: trade-?offs?',
+      'Matched forbidden pattern: weather',
+      'Framework not applied: positioning',
+      'Unknown framework: five_forces',
+    ]);
+  });
+});
+
+describe('runScoredTestCases', () => {
+  it('checks expectations against the scorer for each category', async () => {
+    const persona = makePersona();
+    persona.test_cases!.voice = { category: 'voice', input: 'Why now?', min_score: 50 };
+    const scorer: Scorer = {
+      name: 'fixed',
+      score: async () => ({ fidelity: 90, voiceConsistency: 10, frameworkCoverage: 0 }),
+    };
+
+    const results = await runScoredTestCases(getCustomTestCases(persona), persona, scorer);
+
+    expect(results.results.map((r) => [r.testCase.id, r.actualScore, r.failures])).toEqual([
+      ['trade_offs', 90, []],
+      ['hedging', 90, ['Expected: ≤30, Got: 90']],
+      ['voice', 10, ['Expected: ≥50, Got: 10']],
+    ]);
+    expect(results.failedTests).toBe(2);
+  });
+
+  it('fails tests the scorer cannot score', async () => {
+    const scorer: Scorer = {
+      name: 'broken',
+      score: async () => {
+        throw new Error('judge unavailable');
+      },
+    };
+
+    const [result] = (
+      await runScoredTestCases(getCustomTestCases(makePersona()), makePersona(), scorer)
+    ).results;
+
+    expect(result).toMatchObject({ passed: false, error: 'judge unavailable' });
+  });
+});
+
+describe('runCustomTest', () => {
+  it('only applies the bound for the expected outcome', () => {
+    const persona = makePersona();
+    const text = 'Your position depends on trade-offs.';
+
+    expect(runCustomTest(text, persona, { maxScore: 0 }).passed).toBe(true);
+    expect(runCustomTest(text, persona, { shouldPass: false, minScore: 100 }).passed).toBe(true);
+    expect(runCustomTest(text, persona, { shouldPass: false, maxScore: 0 }).passed).toBe(false);
+  });
+
+  it('matches patterns against the persona markers found', () => {
+    const persona = makePersona();
+    const text = 'Your position depends on trade-offs.';
+
+    expect(runCustomTest(text, persona, { requiredPatterns: ['position'] }).passed).toBe(true);
+    expect(runCustomTest(text, persona, { requiredPatterns: ['trade'] }).failures).toEqual([
+      'Missing required pattern: trade',
+    ]);
+  });
+});
+
+describe('filterTestCases', () => {
+  const testCases = getCustomTestCases(makePersona());
+
+  it('matches tags, categories and id wildcards', () => {
+    expect(filterTestCases(testCases, 'regression').map((t) => t.id)).toEqual(['trade_offs']);
+    expect(filterTestCases(testCases, 'negative').map((t) => t.id)).toEqual(['hedging']);
+    expect(filterTestCases(testCases, 'hedg*, trade_offs')).toHaveLength(2);
+    expect(filterTestCases(testCases, 'trade')).toHaveLength(0);
+    expect(filterTestCases(testCases)).toHaveLength(2);
+  });
+
+  it('filters the full suite, including generated tests', () => {
+    const results = runTestSuite(makePersona(), {}, { filter: 'edge_*,regression' });
+
+    expect(results.results.map((r) => r.testCase.id)).toEqual([
+      'edge_empty',
+      'edge_short',
+      'edge_corporate',
+      'edge_unrelated',
+      'trade_offs',
+    ]);
+  });
+});
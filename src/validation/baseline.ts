@@ -0,0 +1,259 @@
+/**
+ * Baselines
+ *
+ * Saves a persona's report scores and per-test scores to
+ * .persona-baselines/<id>.json so later runs can be diffed against them.
+ * A score that moves the wrong way by more than the tolerance (down, or up
+ * for negative tests that expect a low score), or a test that stops
+ * passing, counts as a regression.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { formatDelta } from './score-format.js';
+import type {
+  BaselineComparison,
+  BaselineMetric,
+  MetricDelta,
+  PersonaBaseline,
+  QualityReport,
+  TestDelta,
+  TestSuiteResult,
+} from './types.js';
+
+export const DEFAULT_BASELINE_DIR = '.persona-baselines';
+
+const METRICS: BaselineMetric[] = ['overall', 'fidelity', 'voiceConsistency', 'frameworkCoverage'];
+
+const METRIC_LABELS: Record<BaselineMetric, string> = {
+  overall: 'Overall',
+  fidelity: 'Fidelity',
+  voiceConsistency: 'Voice Consistency',
+  frameworkCoverage: 'Framework Coverage',
+};
+
+/**
+ * Build a baseline from a report and/or test suite run
+ */
+export function createBaseline(
+  personaId: string,
+  report: QualityReport | undefined,
+  testResults: TestSuiteResult,
+): PersonaBaseline {
+  const tests: PersonaBaseline['tests'] = {};
+  for (const result of testResults.results) {
+    const { shouldPass } = result.testCase.expected;
+    tests[result.testCase.id] =
+      result.actualScore !== undefined
+        ? { passed: result.passed, score: result.actualScore, shouldPass }
+        : { passed: result.passed, shouldPass };
+  }
+
+  return {
+    personaId,
+    version: report?.persona.version,
+    createdAt: new Date().toISOString(),
+    scorer: report?.scorer?.name ?? 'heuristic',
+    metrics: report ? { ...report.scores } : undefined,
+    tests,
+  };
+}
+
+/**
+ * Path of a persona's baseline file
+ */
+export function getBaselinePath(personaId: string, dir = DEFAULT_BASELINE_DIR): string {
+  return join(dir, `${personaId}.json`);
+}
+
+/**
+ * Write a baseline, returning its path
+ */
+export function saveBaseline(baseline: PersonaBaseline, dir = DEFAULT_BASELINE_DIR): string {
+  mkdirSync(dir, { recursive: true });
+  const path = getBaselinePath(baseline.personaId, dir);
+  writeFileSync(path, JSON.stringify(baseline, null, 2) + '\n');
+  return path;
+}
+
+/**
+ * Read a persona's baseline, if one has been saved
+ */
+export function loadBaseline(
+  personaId: string,
+  dir = DEFAULT_BASELINE_DIR,
+): PersonaBaseline | undefined {
+  const path = getBaselinePath(personaId, dir);
+  if (!existsSync(path)) return undefined;
+  return JSON.parse(readFileSync(path, 'utf-8')) as PersonaBaseline;
+}
+
+/**
+ * Diff a current run against a baseline
+ */
+export function compareToBaseline(
+  baseline: PersonaBaseline,
+  current: PersonaBaseline,
+  tolerance = 0,
+): BaselineComparison {
+  const metrics: MetricDelta[] = [];
+  if (baseline.metrics && current.metrics) {
+    for (const metric of METRICS) {
+      const delta = current.metrics[metric] - baseline.metrics[metric];
+      metrics.push({
+        metric,
+        baseline: baseline.metrics[metric],
+        current: current.metrics[metric],
+        delta,
+        regressed: delta < -tolerance,
+      });
+    }
+  }
+
+  const tests: TestDelta[] = [];
+  const testIds = new Set([...Object.keys(baseline.tests), ...Object.keys(current.tests)]);
+  for (const testId of testIds) {
+    const before = baseline.tests[testId];
+    const after = current.tests[testId];
+
+    if (!before || !after) {
+      tests.push({
+        testId,
+        status: before ? 'removed' : 'added',
+        baseline: before,
+        current: after,
+        regressed: false,
+      });
+      continue;
+    }
+
+    const delta =
+      before.score !== undefined && after.score !== undefined
+        ? after.score - before.score
+        : undefined;
+    const changed = before.passed !== after.passed || (delta !== undefined && delta !== 0);
+    // Baselines saved before the direction was recorded only held positive tests' drops
+    const worsening =
+      delta === undefined ? 0 : (after.shouldPass ?? before.shouldPass ?? true) ? -delta : delta;
+
+    tests.push({
+      testId,
+      status: changed ? 'changed' : 'unchanged',
+      baseline: before,
+      current: after,
+      delta,
+      regressed: (before.passed && !after.passed) || worsening > tolerance,
+    });
+  }
+
+  const regressions =
+    metrics.filter((m) => m.regressed).length + tests.filter((t) => t.regressed).length;
+
+  return {
+    personaId: baseline.personaId,
+    baselineCreatedAt: baseline.createdAt,
+    tolerance,
+    scorerChanged: baseline.scorer !== current.scorer,
+    metrics,
+    tests,
+    regressions,
+    passed: regressions === 0,
+  };
+}
+
+/**
+ * Format a baseline comparison for the terminal
+ */
+export function formatBaselineComparison(comparison: BaselineComparison): string {
+  const lines: string[] = [];
+
+  lines.push(`BASELINE COMPARISON (saved ${comparison.baselineCreatedAt})`);
+  lines.push('─'.repeat(40));
+
+  if (comparison.scorerChanged) {
+    lines.push('  Note: baseline was scored with a different scorer');
+  }
+
+  for (const m of comparison.metrics) {
+    const label = `${METRIC_LABELS[m.metric]}:`.padEnd(20);
+    const flag = m.regressed ? '  ✗ regressed' : '';
+    lines.push(`  ${label}${m.baseline} → ${m.current} (${formatDelta(m.delta)})${flag}`);
+  }
+
+  const changed = comparison.tests.filter((t) => t.status !== 'unchanged');
+  if (changed.length > 0) {
+    lines.push('');
+    lines.push('  Changed tests:');
+    for (const t of changed) {
+      const flag = t.regressed ? '  ✗ regressed' : '';
+      lines.push(`    ${t.testId}: ${formatTest(t.baseline)} → ${formatTest(t.current)}${flag}`);
+    }
+  }
+
+  lines.push('');
+  lines.push(
+    comparison.passed
+      ? `No regressions (tolerance ${comparison.tolerance})`
+      : `${comparison.regressions} regression(s) beyond tolerance ${comparison.tolerance}`,
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Markdown diff table for PR comments
+ */
+export function generateBaselineMarkdown(comparison: BaselineComparison): string {
+  const lines: string[] = [];
+  const status = comparison.passed ? '✅' : '❌';
+
+  lines.push(`### ${status} Persona quality: \`${comparison.personaId}\` vs baseline`);
+  lines.push('');
+
+  if (comparison.scorerChanged) {
+    lines.push('> Baseline was scored with a different scorer.');
+    lines.push('');
+  }
+
+  if (comparison.metrics.length > 0) {
+    lines.push('| Metric | Baseline | Current | Δ |');
+    lines.push('|---|---:|---:|---:|');
+    for (const m of comparison.metrics) {
+      const flag = m.regressed ? ' ❌' : '';
+      lines.push(
+        `| ${METRIC_LABELS[m.metric]} | ${m.baseline} | ${m.current} | ${formatDelta(m.delta)}${flag} |`,
+      );
+    }
+    lines.push('');
+  }
+
+  const changed = comparison.tests.filter((t) => t.status !== 'unchanged');
+  if (changed.length > 0) {
+    lines.push('| Test | Baseline | Current | Δ |');
+    lines.push('|---|---|---|---:|');
+    for (const t of changed) {
+      const delta = t.delta !== undefined ? formatDelta(t.delta) : t.status;
+      const flag = t.regressed ? ' ❌' : '';
+      lines.push(
+        `| \`${t.testId}\` | ${formatTest(t.baseline)} | ${formatTest(t.current)} | ${delta}${flag} |`,
+      );
+    }
+  } else {
+    lines.push('No test changes.');
+  }
+
+  lines.push('');
+  lines.push(
+    comparison.passed
+      ? `No regressions (tolerance ${comparison.tolerance}).`
+      : `**${comparison.regressions} regression(s)** beyond tolerance ${comparison.tolerance}.`,
+  );
+
+  return lines.join('\n');
+}
+
+function formatTest(result: { passed: boolean; score?: number } | undefined): string {
+  if (!result) return '—';
+  const status = result.passed ? 'pass' : 'fail';
+  return result.score !== undefined ? `${status} (${result.score})` : status;
+}
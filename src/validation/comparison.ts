@@ -7,6 +7,7 @@
 
 import type { PersonaDefinition } from '../core/types.js';
 import { calculateFidelityScore } from '../core/validation-engine.js';
+import { getFrameworkIdentity } from '../core/framework-library.js';
 import { analyzeVoiceConsistency } from './voice-analyzer.js';
 import { analyzeFrameworkCoverage } from './framework-coverage.js';
 import type { PersonaComparisonResult, CrossPersonaComparison, ValidationConfig } from './types.js';
@@ -168,9 +169,9 @@ export function comparePersonaCharacteristics(
   const voiceSimilarity =
     voiceUnion.size > 0 ? Math.round((voiceIntersection.length / voiceUnion.size) * 100) : 0;
 
-  // Framework overlap (by name)
-  const frameworks1 = new Set(Object.keys(persona1.frameworks));
-  const frameworks2 = new Set(Object.keys(persona2.frameworks));
+  // Framework overlap (by library reference or identical content, not key name)
+  const frameworks1 = new Set(Object.values(persona1.frameworks).map(getFrameworkIdentity));
+  const frameworks2 = new Set(Object.values(persona2.frameworks).map(getFrameworkIdentity));
   const frameworkIntersection = [...frameworks1].filter((x) => frameworks2.has(x));
   const frameworkUnion = new Set([...frameworks1, ...frameworks2]);
   const frameworkOverlap =
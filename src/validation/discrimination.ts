@@ -0,0 +1,169 @@
+/**
+ * Discrimination Tests
+ *
+ * Checks that personas stay distinguishable: every good sample response is
+ * scored against all personas with compareAcrossPersonas, and its owner must
+ * rank first by a margin. Results roll up into a confusion matrix (owner vs
+ * best match) and a list of persona pairs whose validation markers score each
+ * other's samples almost as high as their own.
+ */
+
+import type { PersonaDefinition } from '../core/types.js';
+import { compareAcrossPersonas } from './comparison.js';
+import type {
+  DiscriminationResult,
+  PersonaPairSeparation,
+  SampleDiscrimination,
+  ValidationConfig,
+} from './types.js';
+
+export const DEFAULT_DISCRIMINATION_MARGIN = 10;
+
+export interface DiscriminationOptions {
+  /** Required lead over the runner-up, in quality points (default 10) */
+  margin?: number;
+  /** Personas whose samples are tested (default all) */
+  owners?: string[];
+  config?: Partial<ValidationConfig>;
+}
+
+/**
+ * Score every owned good sample against all personas
+ */
+export function runDiscriminationTests(
+  personas: Map<string, PersonaDefinition>,
+  options: DiscriminationOptions = {},
+): DiscriminationResult {
+  const margin = options.margin ?? DEFAULT_DISCRIMINATION_MARGIN;
+  const owners = options.owners ?? [...personas.keys()];
+
+  const samples: SampleDiscrimination[] = [];
+  const confusionMatrix: Record<string, Record<string, number>> = {};
+  const pairs = new Map<string, PersonaPairSeparation>();
+
+  for (const ownerId of owners) {
+    const owner = personas.get(ownerId);
+    if (!owner) {
+      throw new Error(`Persona not loaded: ${ownerId}`);
+    }
+
+    // Personas without samples get no confusion matrix row
+    for (const [sampleId, sample] of Object.entries(owner.sample_responses ?? {})) {
+      confusionMatrix[ownerId] ??= {};
+      const comparison = compareAcrossPersonas(sample.good_response, personas, options.config);
+      const ownResult = comparison.results.find((r) => r.personaId === ownerId)!;
+      const others = comparison.results.filter((r) => r.personaId !== ownerId);
+      const runnerUp = others[0];
+      const lead = runnerUp
+        ? ownResult.qualityScore - runnerUp.qualityScore
+        : ownResult.qualityScore;
+
+      samples.push({
+        personaId: ownerId,
+        sampleId,
+        bestMatch: comparison.bestMatch,
+        ownerScore: ownResult.qualityScore,
+        runnerUp: runnerUp && { personaId: runnerUp.personaId, score: runnerUp.qualityScore },
+        lead,
+        passed: lead > 0 && lead >= margin,
+      });
+
+      confusionMatrix[ownerId][comparison.bestMatch] =
+        (confusionMatrix[ownerId][comparison.bestMatch] ?? 0) + 1;
+
+      // Validation markers alone: owner fidelity minus each other persona's
+      for (const other of others) {
+        const gap = ownResult.fidelityScore.score - other.fidelityScore.score;
+        const key = [ownerId, other.personaId].sort().join('\u0000');
+        const current = pairs.get(key);
+        if (!current || gap < current.markerGap) {
+          pairs.set(key, {
+            personas: [ownerId, other.personaId],
+            markerGap: gap,
+            closestSample: `${ownerId}/${sampleId}`,
+            separated: gap >= margin,
+          });
+        }
+      }
+    }
+  }
+
+  const passedSamples = samples.filter((s) => s.passed).length;
+
+  return {
+    margin,
+    samples,
+    confusionMatrix,
+    unseparatedPairs: [...pairs.values()]
+      .filter((pair) => !pair.separated)
+      .sort((a, b) => a.markerGap - b.markerGap),
+    passedSamples,
+    failedSamples: samples.length - passedSamples,
+    passed: passedSamples === samples.length,
+  };
+}
+
+/**
+ * Format discrimination results for display
+ */
+export function formatDiscriminationResults(result: DiscriminationResult): string {
+  const lines: string[] = [];
+
+  lines.push('═'.repeat(60));
+  lines.push(`DISCRIMINATION TESTS (margin ${result.margin})`);
+  lines.push('═'.repeat(60));
+  lines.push('');
+
+  for (const sample of result.samples) {
+    const status = sample.passed ? '✓' : '✗';
+    const runnerUp = sample.runnerUp
+      ? `, runner-up ${sample.runnerUp.personaId} ${sample.runnerUp.score}`
+      : '';
+    lines.push(
+      `  ${status} ${sample.personaId}/${sample.sampleId}: ${sample.ownerScore}${runnerUp} (lead ${sample.lead})`,
+    );
+    if (sample.bestMatch !== sample.personaId) {
+      lines.push(`      Best match was ${sample.bestMatch}`);
+    }
+  }
+  lines.push('');
+
+  // Confusion matrix: owners as rows, every best match seen as columns
+  const rows = Object.keys(result.confusionMatrix);
+  const columns = [
+    ...new Set([...rows, ...rows.flatMap((row) => Object.keys(result.confusionMatrix[row]))]),
+  ];
+
+  lines.push('CONFUSION MATRIX (rows: sample owner, columns: best match)');
+  lines.push('─'.repeat(40));
+  lines.push((''.padEnd(15) + columns.map((id) => id.slice(0, 10).padEnd(12)).join('')).trimEnd());
+  for (const row of rows) {
+    const cells = columns.map((column) =>
+      String(result.confusionMatrix[row][column] ?? '·').padEnd(12),
+    );
+    lines.push((row.slice(0, 14).padEnd(15) + cells.join('')).trimEnd());
+  }
+  lines.push('');
+
+  if (result.unseparatedPairs.length > 0) {
+    lines.push('PERSONA PAIRS NOT SEPARATED BY VALIDATION MARKERS');
+    lines.push('─'.repeat(40));
+    for (const pair of result.unseparatedPairs) {
+      lines.push(
+        `  ⚠ ${pair.personas[0]} ↔ ${pair.personas[1]}: fidelity gap ${pair.markerGap} on ${pair.closestSample}`,
+      );
+    }
+    lines.push('');
+  }
+
+  lines.push('═'.repeat(60));
+  if (result.passed) {
+    lines.push(`ALL ${result.samples.length} SAMPLES PICK OUT THEIR PERSONA`);
+  } else {
+    lines.push(
+      `FAILED: ${result.failedSamples}/${result.samples.length} sample(s) not clearly matched to their persona`,
+    );
+  }
+
+  return lines.join('\n');
+}
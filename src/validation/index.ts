@@ -7,6 +7,11 @@
  * - Voice Analyzer: Consistency with persona voice characteristics
  * - Framework Coverage: Usage of persona's conceptual frameworks
  * - Comparison Engine: Cross-persona analysis
+ * - Panel: Multi-persona round-table scaffolds
+ * - Scorers: Heuristic (default) or model-judged scoring
+ * - Live Runner: Scores real model output for sample prompts
+ * - Baselines: Saved scores and regression diffs
+ * - Discrimination: Checks that samples pick out their own persona
  * - Report Generator: Quality reports and recommendations
  * - Test Runner: Automated test suites for CI/CD
  */
@@ -29,6 +34,25 @@ export type {
   QualityReport,
   Recommendation,
   ValidationConfig,
+  PanelFrameworkLens,
+  PanelMember,
+  PanelDisagreement,
+  PanelScaffold,
+  Scorer,
+  ScoreSet,
+  ScoringContext,
+  ScoreDrift,
+  LiveSampleResult,
+  LiveTestResults,
+  BaselineMetric,
+  PersonaBaseline,
+  BaselineTestResult,
+  MetricDelta,
+  TestDelta,
+  BaselineComparison,
+  SampleDiscrimination,
+  PersonaPairSeparation,
+  DiscriminationResult,
 } from './types.js';
 
 export { DEFAULT_VALIDATION_CONFIG } from './types.js';
@@ -54,9 +78,64 @@ export {
   getComparativeAnalysis,
 } from './comparison.js';
 
+// Panel
+export { buildPanel, formatPanel, MIN_PANEL_SIZE, MAX_PANEL_SIZE } from './panel.js';
+export type { PanelOptions } from './panel.js';
+
+// Scorers
+export { heuristicScorer, createScorer, readJudgeEnv, SCORER_NAMES, JUDGE_ENV } from './scorer.js';
+export type { ScorerName, ScorerOptions } from './scorer.js';
+export { createJudgeScorer, buildJudgeRubric, parseJudgeScores } from './judge-scorer.js';
+
+// Model Endpoints
+export { requestCompletion, readEndpointEnv, MODEL_PROVIDERS } from './model-client.js';
+export type {
+  ModelEndpoint,
+  ModelProvider,
+  CompletionRequest,
+  EndpointEnvNames,
+} from './model-client.js';
+export {
+  startMockModelServer,
+  MOCK_OPENAI_PATH,
+  MOCK_ANTHROPIC_PATH,
+} from './mock-model-server.js';
+export type { MockModelServer, MockModelRequest, MockModelReply } from './mock-model-server.js';
+
+// Live Runner
+export {
+  runLiveTests,
+  createStubReply,
+  formatLiveResults,
+  LIVE_MODEL_ENV,
+  DEFAULT_LIVE_CACHE_DIR,
+} from './live-runner.js';
+export type { LiveTestOptions } from './live-runner.js';
+
+// Baselines
+export {
+  createBaseline,
+  getBaselinePath,
+  saveBaseline,
+  loadBaseline,
+  compareToBaseline,
+  formatBaselineComparison,
+  generateBaselineMarkdown,
+  DEFAULT_BASELINE_DIR,
+} from './baseline.js';
+
+// Discrimination
+export {
+  runDiscriminationTests,
+  formatDiscriminationResults,
+  DEFAULT_DISCRIMINATION_MARGIN,
+} from './discrimination.js';
+export type { DiscriminationOptions } from './discrimination.js';
+
 // Report Generator
 export {
   generateQualityReport,
+  generateScoredQualityReport,
   formatReport,
   generateJSONReport,
   generateSummary,
@@ -69,7 +148,14 @@ export type { DepartmentContext } from './report-generator.js';
 export {
   runTestSuite,
   runCustomTest,
+  runTestCases,
+  runScoredTestSuite,
+  runScoredTestCases,
+  getCustomTestCases,
+  filterTestCases,
+  matchesTestFilter,
   formatTestResults,
   generateJUnitReport,
   passesCI,
 } from './test-runner.js';
+export type { TestSuiteOptions } from './test-runner.js';
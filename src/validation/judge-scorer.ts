@@ -0,0 +1,114 @@
+/**
+ * Judge Scorer
+ *
+ * Grades a text with a model instead of regexes. The persona's validation
+ * markers, voice and frameworks become a rubric sent as the system prompt;
+ * the text to grade is the user message. The model must answer with a JSON
+ * object of 0-100 scores, which is parsed back into a ScoreSet.
+ */
+
+import type { PersonaDefinition } from '../core/types.js';
+import { requestCompletion } from './model-client.js';
+import type { ModelEndpoint } from './model-client.js';
+import type { Scorer, ScoreSet, ScoringContext } from './types.js';
+
+/**
+ * Build the grading rubric for a persona
+ */
+export function buildJudgeRubric(persona: PersonaDefinition, context: ScoringContext = {}): string {
+  const { identity, voice, frameworks, validation } = persona;
+  const mustAvoid = [...(validation.must_avoid ?? []), ...(context.additionalMustAvoid ?? [])];
+
+  const markers = (label: string, list: { pattern: string; description?: string }[]) =>
+    list.length > 0
+      ? `${label}:\n${list.map((m) => `- ${m.description ?? m.pattern} (pattern: ${m.pattern})`).join('\n')}`
+      : '';
+
+  const sections = [
+    `You are grading how faithfully a response is written in the voice and thinking of ${identity.name} (${identity.role}).`,
+    `## Voice
+
+Tone: ${voice.tone.join(', ')}
+Characteristic phrases: ${voice.phrases.map((p) => `"${p}"`).join(', ')}
+Style: ${voice.style.join('; ')}${voice.constraints?.length ? `\nWould never: ${voice.constraints.join('; ')}` : ''}`,
+    `## Frameworks
+
+${Object.entries(frameworks)
+  .map(
+    ([name, fw]) =>
+      `- ${name.replace(/_/g, ' ')}: ${Object.keys(fw.concepts)
+        .map((c) => c.replace(/_/g, ' '))
+        .join(', ')}`,
+  )
+  .join('\n')}`,
+    `## Validation Markers
+
+${[
+  markers('Must include', validation.must_include),
+  markers('Should include', validation.should_include ?? []),
+  markers('Must avoid', mustAvoid),
+]
+  .filter(Boolean)
+  .join('\n\n')}`,
+    `## Scoring
+
+Score the response from 0 to 100 on:
+- fidelity: covers the must-include markers, uses should-include markers, avoids the must-avoid markers
+- voice_consistency: matches the tone, phrasing and style, and respects the constraints
+- framework_coverage: applies the frameworks and their concepts correctly
+
+Reply with only a JSON object:
+{"fidelity": <0-100>, "voice_consistency": <0-100>, "framework_coverage": <0-100>, "rationale": "<one or two sentences>"}`,
+  ];
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Parse a judge reply into scores. Accepts surrounding prose or code fences.
+ */
+export function parseJudgeScores(reply: string): ScoreSet {
+  const match = reply.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error(`Judge reply has no JSON object: ${reply.slice(0, 200)}`);
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(match[0]);
+  } catch {
+    throw new Error(`Judge reply is not valid JSON: ${match[0].slice(0, 200)}`);
+  }
+
+  const read = (key: string): number => {
+    const value = data[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error(`Judge reply is missing a numeric "${key}" score`);
+    }
+    return Math.round(Math.min(100, Math.max(0, value)));
+  };
+
+  return {
+    fidelity: read('fidelity'),
+    voiceConsistency: read('voice_consistency'),
+    frameworkCoverage: read('framework_coverage'),
+    rationale: typeof data.rationale === 'string' ? data.rationale : undefined,
+  };
+}
+
+/**
+ * Create a scorer that asks a model endpoint to grade texts
+ */
+export function createJudgeScorer(endpoint: ModelEndpoint): Scorer {
+  return {
+    name: 'judge',
+    async score(text: string, persona: PersonaDefinition, context: ScoringContext = {}) {
+      const reply = await requestCompletion(endpoint, {
+        system: buildJudgeRubric(persona, context),
+        prompt: `Grade this response:\n\n${text}`,
+        maxTokens: 512,
+      });
+      return parseJudgeScores(reply);
+    },
+  };
+}
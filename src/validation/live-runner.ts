@@ -0,0 +1,256 @@
+/**
+ * Live Test Runner
+ *
+ * Sends each sample prompt to a model under the persona's generated system
+ * prompt, scores what comes back and compares it with the canned
+ * good_response. Responses can be cached on disk so reruns are deterministic
+ * and offline; createStubReply() lets the mock model server stand in for a
+ * real model in CI.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PersonaDefinition, PromptGenerationOptions } from '../core/types.js';
+import { generateSystemPrompt } from '../core/persona-loader.js';
+import { requestCompletion } from './model-client.js';
+import type { EndpointEnvNames, ModelEndpoint } from './model-client.js';
+import type { MockModelReply } from './mock-model-server.js';
+import { heuristicScorer } from './scorer.js';
+import { formatDelta } from './score-format.js';
+import type {
+  LiveSampleResult,
+  LiveTestResults,
+  ScoreDrift,
+  ScoreSet,
+  Scorer,
+  ScoringContext,
+} from './types.js';
+import { DEFAULT_VALIDATION_CONFIG } from './types.js';
+
+/**
+ * Environment variables that configure the model under test
+ */
+export const LIVE_MODEL_ENV: EndpointEnvNames = {
+  url: 'PERSONA_ACADEMY_MODEL_URL',
+  model: 'PERSONA_ACADEMY_MODEL',
+  provider: 'PERSONA_ACADEMY_MODEL_PROVIDER',
+  apiKey: 'PERSONA_ACADEMY_MODEL_API_KEY',
+};
+
+export const DEFAULT_LIVE_CACHE_DIR = '.persona-live-cache';
+
+export interface LiveTestOptions {
+  /** Persona id (directory name) reported in the results; defaults to a slug of the name */
+  personaId?: string;
+  /** Endpoint that generates the responses */
+  endpoint: ModelEndpoint;
+  /** Scorer for live and canned responses (default heuristic) */
+  scorer?: Scorer;
+  /** Minimum live fidelity to pass (default 70) */
+  threshold?: number;
+  /** Directory for cached responses; omit to disable caching */
+  cacheDir?: string;
+  /** Ignore cached responses and overwrite them */
+  refresh?: boolean;
+  /** Maximum tokens per response (default 1024) */
+  maxTokens?: number;
+  /** Options for generating the system prompt */
+  promptOptions?: PromptGenerationOptions;
+  scoringContext?: ScoringContext;
+}
+
+interface CachedResponse {
+  model: string;
+  prompt: string;
+  response: string;
+  createdAt: string;
+}
+
+/**
+ * Generate and score a live response for every sample prompt
+ */
+export async function runLiveTests(
+  persona: PersonaDefinition,
+  options: LiveTestOptions,
+): Promise<LiveTestResults> {
+  const scorer = options.scorer ?? heuristicScorer;
+  const threshold = options.threshold ?? DEFAULT_VALIDATION_CONFIG.fidelityThreshold;
+  const maxTokens = options.maxTokens ?? 1024;
+  const system = generateSystemPrompt(persona, options.promptOptions);
+
+  const results: LiveSampleResult[] = [];
+
+  for (const [sampleId, sample] of Object.entries(persona.sample_responses ?? {})) {
+    const cacheFile = options.cacheDir
+      ? join(
+          options.cacheDir,
+          `${getCacheKey(options.endpoint, system, sample.prompt, maxTokens)}.json`,
+        )
+      : undefined;
+
+    let response: string | undefined;
+    let cached = false;
+
+    if (cacheFile && !options.refresh && existsSync(cacheFile)) {
+      response = (JSON.parse(readFileSync(cacheFile, 'utf-8')) as CachedResponse).response;
+      cached = true;
+    }
+
+    if (response === undefined) {
+      response = await requestCompletion(options.endpoint, {
+        system,
+        prompt: sample.prompt,
+        maxTokens,
+      });
+
+      if (cacheFile && options.cacheDir) {
+        mkdirSync(options.cacheDir, { recursive: true });
+        const entry: CachedResponse = {
+          model: options.endpoint.model,
+          prompt: sample.prompt,
+          response,
+          createdAt: new Date().toISOString(),
+        };
+        writeFileSync(cacheFile, JSON.stringify(entry, null, 2) + '\n');
+      }
+    }
+
+    const scores = await scorer.score(response, persona, options.scoringContext);
+    const cannedScores = await scorer.score(sample.good_response, persona, options.scoringContext);
+
+    results.push({
+      sampleId,
+      prompt: sample.prompt,
+      response,
+      cached,
+      scores,
+      cannedScores,
+      drift: calculateDrift(scores, cannedScores),
+      passed: scores.fidelity >= threshold,
+    });
+  }
+
+  const passedSamples = results.filter((r) => r.passed).length;
+
+  return {
+    personaId: options.personaId ?? persona.identity.name.toLowerCase().replace(/\s+/g, '-'),
+    model: options.endpoint.model,
+    scorer: scorer.name,
+    threshold,
+    totalSamples: results.length,
+    passedSamples,
+    failedSamples: results.length - passedSamples,
+    results,
+    averageDrift: averageDrift(results.map((r) => r.drift)),
+    timestamp: new Date(),
+  };
+}
+
+/**
+ * Mock server reply that answers each sample prompt with its canned
+ * good_response, so a live run against it shows zero drift
+ */
+export function createStubReply(persona: PersonaDefinition): MockModelReply {
+  const responses = new Map(
+    Object.values(persona.sample_responses ?? {}).map((s) => [s.prompt, s.good_response]),
+  );
+
+  return ({ prompt }) => {
+    const response = responses.get(prompt);
+    if (response === undefined) {
+      throw new Error(`No sample response for prompt: ${prompt.slice(0, 60)}`);
+    }
+    return response;
+  };
+}
+
+/**
+ * Format live test results for display
+ */
+export function formatLiveResults(results: LiveTestResults): string {
+  const lines: string[] = [];
+
+  lines.push('═'.repeat(60));
+  lines.push(`LIVE TEST RESULTS: ${results.personaId}`);
+  lines.push(`Model: ${results.model}  Scorer: ${results.scorer}`);
+  lines.push(`Run: ${results.timestamp.toISOString()}`);
+  lines.push('═'.repeat(60));
+  lines.push('');
+
+  for (const result of results.results) {
+    const status = result.passed ? '✓' : '✗';
+    const source = result.cached ? ' (cached)' : '';
+    lines.push(`${status} ${result.sampleId}${source}`);
+    lines.push(
+      `    Prompt: "${result.prompt.slice(0, 60)}${result.prompt.length > 60 ? '...' : ''}"`,
+    );
+    lines.push(
+      `    Fidelity:   ${result.scores.fidelity}/100 (canned ${result.cannedScores.fidelity}, ${formatDelta(result.drift.fidelity)})`,
+    );
+    lines.push(
+      `    Voice:      ${result.scores.voiceConsistency}/100 (canned ${result.cannedScores.voiceConsistency}, ${formatDelta(result.drift.voiceConsistency)})`,
+    );
+    lines.push(
+      `    Frameworks: ${result.scores.frameworkCoverage}/100 (canned ${result.cannedScores.frameworkCoverage}, ${formatDelta(result.drift.frameworkCoverage)})`,
+    );
+    if (!result.passed) {
+      lines.push(`    Expected fidelity ≥${results.threshold}`);
+    }
+    lines.push('');
+  }
+
+  const drift = results.averageDrift;
+  lines.push('AVERAGE DRIFT FROM CANNED RESPONSES');
+  lines.push('─'.repeat(40));
+  lines.push(`  Fidelity:   ${formatDelta(drift.fidelity)}`);
+  lines.push(`  Voice:      ${formatDelta(drift.voiceConsistency)}`);
+  lines.push(`  Frameworks: ${formatDelta(drift.frameworkCoverage)}`);
+  lines.push('');
+
+  lines.push('═'.repeat(60));
+  if (results.failedSamples > 0) {
+    lines.push(
+      `FAILED: ${results.failedSamples}/${results.totalSamples} live response(s) below threshold`,
+    );
+  } else {
+    lines.push(`ALL ${results.totalSamples} LIVE RESPONSES PASSED`);
+  }
+
+  return lines.join('\n');
+}
+
+function getCacheKey(
+  endpoint: ModelEndpoint,
+  system: string,
+  prompt: string,
+  maxTokens: number,
+): string {
+  const key = JSON.stringify([
+    endpoint.provider ?? 'openai',
+    endpoint.model,
+    maxTokens,
+    system,
+    prompt,
+  ]);
+  return createHash('sha256').update(key, 'utf-8').digest('hex').slice(0, 32);
+}
+
+function calculateDrift(live: ScoreSet, canned: ScoreSet): ScoreDrift {
+  return {
+    fidelity: live.fidelity - canned.fidelity,
+    voiceConsistency: live.voiceConsistency - canned.voiceConsistency,
+    frameworkCoverage: live.frameworkCoverage - canned.frameworkCoverage,
+  };
+}
+
+function averageDrift(drifts: ScoreDrift[]): ScoreDrift {
+  const mean = (key: keyof ScoreDrift) =>
+    drifts.length > 0 ? Math.round(drifts.reduce((sum, d) => sum + d[key], 0) / drifts.length) : 0;
+
+  return {
+    fidelity: mean('fidelity'),
+    voiceConsistency: mean('voiceConsistency'),
+    frameworkCoverage: mean('frameworkCoverage'),
+  };
+}
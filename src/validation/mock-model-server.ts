@@ -0,0 +1,112 @@
+/**
+ * Mock Model Server
+ *
+ * Local HTTP server that answers both OpenAI-style (/v1/chat/completions)
+ * and Anthropic-style (/v1/messages) requests with replies from a callback.
+ * Lets judge scoring and model-backed tests run without network access.
+ */
+
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import type { ModelProvider } from './model-client.js';
+
+export const MOCK_OPENAI_PATH = '/v1/chat/completions';
+export const MOCK_ANTHROPIC_PATH = '/v1/messages';
+
+/**
+ * A request received by the mock server
+ */
+export interface MockModelRequest {
+  provider: ModelProvider;
+  model: string;
+  system: string;
+  prompt: string;
+}
+
+/**
+ * Produces the reply text for a request
+ */
+export type MockModelReply = (request: MockModelRequest) => string | Promise<string>;
+
+/**
+ * A running mock server
+ */
+export interface MockModelServer {
+  /** Base URL, e.g. http://127.0.0.1:40123 */
+  url: string;
+  /** Every request received, in order */
+  requests: MockModelRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a mock model server on a local port (0 picks a free one)
+ */
+export async function startMockModelServer(
+  reply: MockModelReply,
+  port = 0,
+): Promise<MockModelServer> {
+  const requests: MockModelRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    const provider: ModelProvider | undefined =
+      req.url === MOCK_OPENAI_PATH
+        ? 'openai'
+        : req.url === MOCK_ANTHROPIC_PATH
+          ? 'anthropic'
+          : undefined;
+
+    if (req.method !== 'POST' || !provider) {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: `No mock endpoint at ${req.method} ${req.url}` }));
+      return;
+    }
+
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const request = parseRequest(provider, JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      requests.push(request);
+
+      const text = await reply(request);
+      const body =
+        provider === 'anthropic'
+          ? { type: 'message', role: 'assistant', content: [{ type: 'text', text }] }
+          : { choices: [{ index: 0, message: { role: 'assistant', content: text } }] };
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    } catch (error) {
+      res.writeHead(500, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${address.port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+interface MessageBody {
+  model?: string;
+  system?: string;
+  messages?: { role: string; content: string }[];
+}
+
+function parseRequest(provider: ModelProvider, body: MessageBody): MockModelRequest {
+  const messages = body.messages ?? [];
+  const system =
+    provider === 'anthropic'
+      ? (body.system ?? '')
+      : (messages.find((m) => m.role === 'system')?.content ?? '');
+  const prompt = messages.filter((m) => m.role === 'user').pop()?.content ?? '';
+
+  return { provider, model: body.model ?? '', system, prompt };
+}
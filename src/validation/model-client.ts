@@ -0,0 +1,140 @@
+/**
+ * Model Client
+ *
+ * Minimal client for chat completion endpoints, used by the judge scorer.
+ * Speaks the OpenAI chat completions format (POST { model, messages }) and
+ * the Anthropic messages format (POST { model, system, messages }); the
+ * endpoint URL is used as given, so any compatible server works.
+ */
+
+/**
+ * Request format spoken by an endpoint
+ */
+export type ModelProvider = 'openai' | 'anthropic';
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['openai', 'anthropic'];
+
+/**
+ * A chat completion endpoint
+ */
+export interface ModelEndpoint {
+  /** Full endpoint URL, e.g. https://api.openai.com/v1/chat/completions */
+  url: string;
+  /** Request format (default 'openai') */
+  provider?: ModelProvider;
+  model: string;
+  apiKey?: string;
+  /** Request timeout in milliseconds (default 60000) */
+  timeoutMs?: number;
+}
+
+/**
+ * One completion request
+ */
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  /** Maximum tokens to generate (default 1024) */
+  maxTokens?: number;
+  /** Sampling temperature (default 0) */
+  temperature?: number;
+}
+
+/**
+ * Names of the environment variables that configure an endpoint
+ */
+export interface EndpointEnvNames {
+  url: string;
+  model: string;
+  provider: string;
+  apiKey: string;
+}
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Read endpoint settings from the environment. Unset variables are omitted.
+ */
+export function readEndpointEnv(
+  names: EndpointEnvNames,
+  env: NodeJS.ProcessEnv = process.env,
+): Partial<ModelEndpoint> {
+  const endpoint: Partial<ModelEndpoint> = {};
+  if (env[names.url]) endpoint.url = env[names.url];
+  if (env[names.model]) endpoint.model = env[names.model];
+  if (env[names.provider]) endpoint.provider = env[names.provider] as ModelProvider;
+  if (env[names.apiKey]) endpoint.apiKey = env[names.apiKey];
+  return endpoint;
+}
+
+/**
+ * Send a completion request and return the generated text
+ */
+export async function requestCompletion(
+  endpoint: ModelEndpoint,
+  request: CompletionRequest,
+): Promise<string> {
+  const provider = endpoint.provider ?? 'openai';
+  const maxTokens = request.maxTokens ?? 1024;
+  const temperature = request.temperature ?? 0;
+
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  let body: unknown;
+
+  if (provider === 'anthropic') {
+    if (endpoint.apiKey) headers['x-api-key'] = endpoint.apiKey;
+    headers['anthropic-version'] = ANTHROPIC_VERSION;
+    body = {
+      model: endpoint.model,
+      max_tokens: maxTokens,
+      temperature,
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+  } else {
+    if (endpoint.apiKey) headers['authorization'] = `Bearer ${endpoint.apiKey}`;
+    body = {
+      model: endpoint.model,
+      max_tokens: maxTokens,
+      temperature,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.prompt },
+      ],
+    };
+  }
+
+  const response = await fetch(endpoint.url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(endpoint.timeoutMs ?? 60_000),
+  });
+
+  if (!response.ok) {
+    const detail = (await response.text()).slice(0, 200);
+    throw new Error(`Model endpoint returned ${response.status}: ${detail}`);
+  }
+
+  const data = (await response.json()) as Record<string, unknown>;
+  const text = provider === 'anthropic' ? readAnthropicText(data) : readOpenAIText(data);
+  if (text === undefined) {
+    throw new Error(`Unexpected ${provider} response from ${endpoint.url}`);
+  }
+  return text;
+}
+
+function readOpenAIText(data: Record<string, unknown>): string | undefined {
+  const choices = data.choices as { message?: { content?: unknown } }[] | undefined;
+  const content = choices?.[0]?.message?.content;
+  return typeof content === 'string' ? content : undefined;
+}
+
+function readAnthropicText(data: Record<string, unknown>): string | undefined {
+  const content = data.content as { type?: string; text?: unknown }[] | undefined;
+  if (!Array.isArray(content)) return undefined;
+  return content
+    .filter((block) => block.type === 'text' && typeof block.text === 'string')
+    .map((block) => block.text as string)
+    .join('');
+}
@@ -0,0 +1,201 @@
+/**
+ * Persona Panel
+ *
+ * Builds a round-table scaffold for several personas deliberating on one
+ * situation: each panelist's framework lens, the points where they are
+ * likely to disagree (derived from identifyDifferentiators), and a
+ * synthesis section that forces the perspectives back together.
+ */
+
+import type { PersonaDefinition } from '../core/types.js';
+import { identifyDifferentiators } from './comparison.js';
+import type { PanelDisagreement, PanelFrameworkLens, PanelMember, PanelScaffold } from './types.js';
+
+/**
+ * Smallest and largest supported panels
+ */
+export const MIN_PANEL_SIZE = 2;
+export const MAX_PANEL_SIZE = 8;
+
+/**
+ * Options for building a panel
+ */
+export interface PanelOptions {
+  situation: string;
+  context?: string;
+  /** Frameworks shown per panelist, distinctive ones first (default 3) */
+  frameworksPerMember?: number;
+}
+
+const SYNTHESIS_PROMPTS = [
+  'Where do the panelists agree? Treat points of agreement across different lenses as the strongest conclusions.',
+  'Which disagreement matters most for this decision, and what evidence would settle it?',
+  'Recommend a course of action and state whose lens dominates it and why.',
+  'List the risks raised by any single panelist that the recommendation must still address.',
+];
+
+/**
+ * Build the round-table scaffold for a panel of personas (id -> definition)
+ */
+export function buildPanel(
+  personas: Map<string, PersonaDefinition>,
+  options: PanelOptions,
+): PanelScaffold {
+  if (personas.size < MIN_PANEL_SIZE) {
+    throw new Error(`A panel needs at least ${MIN_PANEL_SIZE} personas`);
+  }
+  if (personas.size > MAX_PANEL_SIZE) {
+    throw new Error(`A panel supports at most ${MAX_PANEL_SIZE} personas`);
+  }
+
+  const limit = options.frameworksPerMember ?? 3;
+  const { uniqueFrameworks } = identifyDifferentiators(personas);
+
+  const members: PanelMember[] = [...personas].map(([id, persona]) => {
+    const distinctive = new Set(uniqueFrameworks.get(id) ?? []);
+    const names = Object.keys(persona.frameworks).sort(
+      (a, b) => Number(distinctive.has(b)) - Number(distinctive.has(a)),
+    );
+
+    const frameworks: PanelFrameworkLens[] = names.slice(0, limit).map((name) => {
+      const framework = persona.frameworks[name];
+      return {
+        name,
+        summary: firstSentence(framework.description),
+        questions: (framework.questions ?? []).slice(0, 2),
+        distinctive: distinctive.has(name),
+      };
+    });
+
+    return {
+      id,
+      name: persona.identity.name,
+      role: persona.identity.role,
+      openingPhrase: persona.voice.phrases[0],
+      tones: persona.voice.tone,
+      frameworks,
+    };
+  });
+
+  return {
+    situation: options.situation,
+    context: options.context,
+    members,
+    disagreements: findDisagreements(personas),
+    synthesis: SYNTHESIS_PROMPTS,
+  };
+}
+
+/**
+ * Pairwise points of likely disagreement: what each side of a pair brings
+ * that the other lacks
+ */
+function findDisagreements(personas: Map<string, PersonaDefinition>): PanelDisagreement[] {
+  const ids = [...personas.keys()];
+  const disagreements: PanelDisagreement[] = [];
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const pair = new Map([
+        [ids[i], personas.get(ids[i])!],
+        [ids[j], personas.get(ids[j])!],
+      ]);
+      const { uniqueFrameworks, uniqueTones } = identifyDifferentiators(pair);
+
+      const frameworks = Object.fromEntries(
+        [ids[i], ids[j]].map((id) => [id, uniqueFrameworks.get(id) ?? []]),
+      );
+      const tones = Object.fromEntries(
+        [ids[i], ids[j]].map((id) => [id, uniqueTones.get(id) ?? []]),
+      );
+
+      // Only a real contrast when both sides bring something of their own
+      if (frameworks[ids[i]].length > 0 && frameworks[ids[j]].length > 0) {
+        disagreements.push({ between: [ids[i], ids[j]], frameworks, tones });
+      }
+    }
+  }
+
+  return disagreements;
+}
+
+/**
+ * Render a panel scaffold as markdown
+ */
+export function formatPanel(panel: PanelScaffold): string {
+  const names = new Map(panel.members.map((m) => [m.id, m.name]));
+  const lines = [`# Panel: ${panel.members.map((m) => m.name).join(' · ')}\n`];
+
+  lines.push(`## Situation\n`);
+  lines.push(panel.situation);
+  if (panel.context) {
+    lines.push(`\n**Additional Context**: ${panel.context}`);
+  }
+  lines.push('');
+
+  lines.push(`## Round Table\n`);
+  lines.push(
+    'Give each panelist a turn in order. Each speaks in their own voice, applies their own lens, and answers the questions below before the next one responds.\n',
+  );
+
+  for (const member of panel.members) {
+    lines.push(`### ${member.name}`);
+    lines.push(`*${member.role}*\n`);
+    lines.push(`**Tone**: ${member.tones.join(', ')}\n`);
+    if (member.openingPhrase) {
+      lines.push(`> ${member.openingPhrase}\n`);
+    }
+
+    lines.push(`**Framework lens**:`);
+    for (const fw of member.frameworks) {
+      const marker = fw.distinctive ? ' (only on this panel)' : '';
+      lines.push(`- **${formatName(fw.name)}**${marker}: ${fw.summary}`);
+      for (const question of fw.questions) {
+        lines.push(`  - ${question}`);
+      }
+    }
+    lines.push('');
+  }
+
+  lines.push(`## Points of Likely Disagreement\n`);
+  if (panel.disagreements.length === 0) {
+    lines.push('The panelists share their frameworks; look for disagreement in emphasis.\n');
+  }
+  for (const d of panel.disagreements) {
+    const [a, b] = d.between;
+    lines.push(`### ${names.get(a)} vs ${names.get(b)}`);
+    for (const id of d.between) {
+      lines.push(
+        `- **${names.get(id)}** argues from ${d.frameworks[id].map(formatName).join(', ')}`,
+      );
+      if (d.tones[id].length > 0) {
+        lines.push(`  - *Tone*: ${d.tones[id].join(', ')}`);
+      }
+    }
+    lines.push(
+      `- Where do these lenses lead to different recommendations for this situation, and who has the stronger case?`,
+    );
+    lines.push('');
+  }
+
+  lines.push(`## Synthesis\n`);
+  panel.synthesis.forEach((prompt, index) => lines.push(`${index + 1}. ${prompt}`));
+
+  return lines.join('\n');
+}
+
+// Utility
+function firstSentence(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(/(?<=\.)\s/)[0]
+    .replace(/\.$/, '');
+}
+
+function formatName(name: string): string {
+  return name
+    .split(/[_-]/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
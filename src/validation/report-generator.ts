@@ -12,6 +12,7 @@ import { analyzeFrameworkCoverage, getFrameworkSuggestions } from './framework-c
 import type {
   QualityReport,
   Recommendation,
+  Scorer,
   ValidationConfig,
   VoiceAnalysisResult,
   FrameworkCoverageResult,
@@ -47,16 +48,11 @@ export function generateQualityReport(
   const framework = analyzeFrameworkCoverage(text, persona);
 
   // Calculate overall score
-  const weights = mergedConfig.weights ?? {
-    fidelity: 0.5,
-    voice: 0.3,
-    framework: 0.2,
-  };
-
-  const overall = Math.round(
-    fidelity.score * (weights.fidelity ?? 0.5) +
-      voice.consistencyScore * (weights.voice ?? 0.3) +
-      framework.coverageScore * (weights.framework ?? 0.2),
+  const overall = calculateOverall(
+    fidelity.score,
+    voice.consistencyScore,
+    framework.coverageScore,
+    mergedConfig,
   );
 
   // Generate recommendations
@@ -96,6 +92,71 @@ export function generateQualityReport(
   };
 }
 
+/**
+ * Generate a quality report whose scores come from a scorer. The detailed
+ * analysis and recommendations still come from the heuristic analyzers, but
+ * the fidelity score and pass status follow the scorer.
+ */
+export async function generateScoredQualityReport(
+  text: string,
+  persona: PersonaDefinition,
+  scorer: Scorer,
+  config: Partial<ValidationConfig> = {},
+  departmentContext?: DepartmentContext,
+): Promise<QualityReport> {
+  const mergedConfig = { ...DEFAULT_VALIDATION_CONFIG, ...config };
+  const report = generateQualityReport(text, persona, config, departmentContext);
+  const scores = await scorer.score(text, persona, {
+    additionalMustAvoid: departmentContext?.additionalMustAvoid,
+  });
+
+  return {
+    ...report,
+    analysis: {
+      ...report.analysis,
+      fidelity: {
+        ...report.analysis.fidelity,
+        score: scores.fidelity,
+        passed: scores.fidelity >= mergedConfig.fidelityThreshold,
+      },
+    },
+    scores: {
+      fidelity: scores.fidelity,
+      voiceConsistency: scores.voiceConsistency,
+      frameworkCoverage: scores.frameworkCoverage,
+      overall: calculateOverall(
+        scores.fidelity,
+        scores.voiceConsistency,
+        scores.frameworkCoverage,
+        mergedConfig,
+      ),
+    },
+    scorer: { name: scorer.name, rationale: scores.rationale },
+  };
+}
+
+/**
+ * Weighted overall score
+ */
+function calculateOverall(
+  fidelity: number,
+  voice: number,
+  framework: number,
+  config: ValidationConfig,
+): number {
+  const weights = config.weights ?? {
+    fidelity: 0.5,
+    voice: 0.3,
+    framework: 0.2,
+  };
+
+  return Math.round(
+    fidelity * (weights.fidelity ?? 0.5) +
+      voice * (weights.voice ?? 0.3) +
+      framework * (weights.framework ?? 0.2),
+  );
+}
+
 /**
  * Generate actionable recommendations
  */
@@ -219,6 +280,12 @@ export function formatReport(report: QualityReport): string {
   lines.push(`  Fidelity:          ${formatScore(report.scores.fidelity)}`);
   lines.push(`  Voice Consistency: ${formatScore(report.scores.voiceConsistency)}`);
   lines.push(`  Framework Coverage:${formatScore(report.scores.frameworkCoverage)}`);
+  if (report.scorer && report.scorer.name !== 'heuristic') {
+    lines.push(`  Scored by:         ${report.scorer.name}`);
+    if (report.scorer.rationale) {
+      lines.push(`  Rationale:         ${report.scorer.rationale}`);
+    }
+  }
   lines.push('');
 
   // Fidelity Details
@@ -0,0 +1,12 @@
+/**
+ * Score Formatting
+ *
+ * Display helpers shared by the baseline and live-test reports.
+ */
+
+/**
+ * Format a score change with an explicit sign ("+5", "-3", "±0")
+ */
+export function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : delta < 0 ? `${delta}` : '±0';
+}
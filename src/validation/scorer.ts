@@ -0,0 +1,96 @@
+/**
+ * Scorers
+ *
+ * A Scorer turns a text into fidelity, voice and framework scores for a
+ * persona. The heuristic scorer (the default) wraps the pattern- and
+ * keyword-based analyzers; the judge scorer asks a model to grade the text
+ * against a rubric built from the persona (see judge-scorer.ts).
+ */
+
+import type { PersonaDefinition } from '../core/types.js';
+import { calculateFidelityScore } from '../core/validation-engine.js';
+import { analyzeVoiceConsistency } from './voice-analyzer.js';
+import { analyzeFrameworkCoverage } from './framework-coverage.js';
+import { createJudgeScorer } from './judge-scorer.js';
+import { MODEL_PROVIDERS, readEndpointEnv } from './model-client.js';
+import type { EndpointEnvNames, ModelEndpoint } from './model-client.js';
+import type { Scorer, ScoreSet, ScoringContext } from './types.js';
+
+/**
+ * Available scorer names
+ */
+export type ScorerName = 'heuristic' | 'judge';
+
+export const SCORER_NAMES: ScorerName[] = ['heuristic', 'judge'];
+
+/**
+ * Pattern- and keyword-based scoring with the built-in analyzers
+ */
+export const heuristicScorer: Scorer = {
+  name: 'heuristic',
+  async score(
+    text: string,
+    persona: PersonaDefinition,
+    context: ScoringContext = {},
+  ): Promise<ScoreSet> {
+    return {
+      fidelity: calculateFidelityScore(text, persona, {
+        additionalMustAvoid: context.additionalMustAvoid,
+      }).score,
+      voiceConsistency: analyzeVoiceConsistency(text, persona).consistencyScore,
+      frameworkCoverage: analyzeFrameworkCoverage(text, persona).coverageScore,
+    };
+  },
+};
+
+/**
+ * Options for creating a scorer
+ */
+export interface ScorerOptions {
+  /** Model endpoint for the judge scorer */
+  judge?: Partial<ModelEndpoint>;
+}
+
+/**
+ * Environment variables that configure the judge endpoint
+ */
+export const JUDGE_ENV: EndpointEnvNames = {
+  url: 'PERSONA_ACADEMY_JUDGE_URL',
+  model: 'PERSONA_ACADEMY_JUDGE_MODEL',
+  provider: 'PERSONA_ACADEMY_JUDGE_PROVIDER',
+  apiKey: 'PERSONA_ACADEMY_JUDGE_API_KEY',
+};
+
+/**
+ * Read judge endpoint settings from the environment
+ */
+export function readJudgeEnv(env: NodeJS.ProcessEnv = process.env): Partial<ModelEndpoint> {
+  return readEndpointEnv(JUDGE_ENV, env);
+}
+
+/**
+ * Create a scorer by name
+ */
+export function createScorer(name: string, options: ScorerOptions = {}): Scorer {
+  switch (name) {
+    case 'heuristic':
+      return heuristicScorer;
+    case 'judge': {
+      const { url, model } = options.judge ?? {};
+      if (!url || !model) {
+        throw new Error(
+          `The judge scorer needs a model endpoint URL and model name (set ${JUDGE_ENV.url} and ${JUDGE_ENV.model})`,
+        );
+      }
+      const provider = options.judge?.provider;
+      if (provider && !MODEL_PROVIDERS.includes(provider)) {
+        throw new Error(
+          `Unknown judge provider: ${provider}. Use ${MODEL_PROVIDERS.join(' or ')}.`,
+        );
+      }
+      return createJudgeScorer({ ...options.judge, url, model });
+    }
+    default:
+      throw new Error(`Unknown scorer: ${name}. Use ${SCORER_NAMES.join(' or ')}.`);
+  }
+}
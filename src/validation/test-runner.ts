@@ -3,6 +3,11 @@
  *
  * Runs comprehensive test suites against personas using sample responses
  * and custom test cases. Supports automated CI/CD testing.
+ *
+ * Author-declared cases come from the persona's test_cases (tests.yaml) and
+ * run after the generated ones; --filter selects tests by id, tag or category.
+ * runScoredTestCases takes each test's score from a Scorer (e.g. the model
+ * judge) instead of the heuristic analyzers.
  */
 
 import type { PersonaDefinition } from '../core/types.js';
@@ -10,50 +15,115 @@ import { calculateFidelityScore } from '../core/validation-engine.js';
 import { analyzeVoiceConsistency } from './voice-analyzer.js';
 import { analyzeFrameworkCoverage } from './framework-coverage.js';
 import type {
+  ScoreSet,
+  Scorer,
+  ScoringContext,
   TestCase,
   TestResult,
   TestSuiteResult,
   TestExpectation,
   TestCategory,
   ValidationConfig,
+  FrameworkCoverageResult,
 } from './types.js';
 import { DEFAULT_VALIDATION_CONFIG } from './types.js';
 
+/**
+ * Options for running a test suite
+ */
+export interface TestSuiteOptions {
+  /** Comma-separated ids (* wildcards), tags or categories; see filterTestCases */
+  filter?: string;
+}
+
 /**
  * Run all tests for a persona
  */
 export function runTestSuite(
   persona: PersonaDefinition,
   config: Partial<ValidationConfig> = {},
+  options: TestSuiteOptions = {},
 ): TestSuiteResult {
   const mergedConfig = { ...DEFAULT_VALIDATION_CONFIG, ...config };
-  const startTime = Date.now();
 
   // Generate test cases from persona
-  const testCases = generateTestCases(persona, mergedConfig);
+  const testCases = filterTestCases(generateTestCases(persona, mergedConfig), options.filter);
+
+  return runTestCases(testCases, persona);
+}
+
+/**
+ * Run all tests for a persona, scoring each input with a scorer
+ */
+export function runScoredTestSuite(
+  persona: PersonaDefinition,
+  scorer: Scorer,
+  config: Partial<ValidationConfig> = {},
+  options: TestSuiteOptions = {},
+): Promise<TestSuiteResult> {
+  const mergedConfig = { ...DEFAULT_VALIDATION_CONFIG, ...config };
+  const testCases = filterTestCases(generateTestCases(persona, mergedConfig), options.filter);
+
+  return runScoredTestCases(testCases, persona, scorer);
+}
 
-  // Run each test
+/**
+ * Run the given test cases against a persona
+ */
+export function runTestCases(testCases: TestCase[], persona: PersonaDefinition): TestSuiteResult {
+  const startTime = Date.now();
+  const results = testCases.map((testCase) => runSingleTest(testCase, persona));
+
+  return summarizeResults(persona, results, startTime);
+}
+
+/**
+ * Run the given test cases, scoring each input with a scorer. Voice and
+ * framework tests use its voice and framework scores, all others fidelity.
+ */
+export async function runScoredTestCases(
+  testCases: TestCase[],
+  persona: PersonaDefinition,
+  scorer: Scorer,
+  context?: ScoringContext,
+): Promise<TestSuiteResult> {
+  const startTime = Date.now();
   const results: TestResult[] = [];
-  let passedTests = 0;
-  let failedTests = 0;
 
   for (const testCase of testCases) {
-    const result = runSingleTest(testCase, persona);
-    results.push(result);
-
-    if (result.passed) {
-      passedTests++;
-    } else {
-      failedTests++;
+    const testStart = Date.now();
+    try {
+      const scores = await scorer.score(testCase.input, persona, context);
+      results.push(runSingleTest(testCase, persona, scores, testStart));
+    } catch (error) {
+      results.push({
+        testCase,
+        passed: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime: Date.now() - testStart,
+      });
     }
   }
 
+  return summarizeResults(persona, results, startTime);
+}
+
+/**
+ * Roll test results up into a suite result
+ */
+function summarizeResults(
+  persona: PersonaDefinition,
+  results: TestResult[],
+  startTime: number,
+): TestSuiteResult {
+  const passedTests = results.filter((r) => r.passed).length;
+  const failedTests = results.length - passedTests;
   const totalExecutionTime = Date.now() - startTime;
-  const passRate = testCases.length > 0 ? Math.round((passedTests / testCases.length) * 100) : 100;
+  const passRate = results.length > 0 ? Math.round((passedTests / results.length) * 100) : 100;
 
   return {
     personaId: persona.identity.name.toLowerCase().replace(/\s+/g, '-'),
-    totalTests: testCases.length,
+    totalTests: results.length,
     passedTests,
     failedTests,
     passRate,
@@ -128,15 +198,75 @@ function generateTestCases(persona: PersonaDefinition, config: ValidationConfig)
   }
 
   // Generate edge case tests
-  testCases.push(...generateEdgeCaseTests(persona));
+  testCases.push(...generateEdgeCaseTests());
+
+  // Author-declared tests
+  testCases.push(...getCustomTestCases(persona));
 
   return testCases;
 }
 
+/**
+ * Convert the persona's test_cases (tests.yaml) into test cases
+ */
+export function getCustomTestCases(persona: PersonaDefinition): TestCase[] {
+  return Object.entries(persona.test_cases ?? {}).map(([key, test]) => {
+    const id = test.id ?? key;
+    if (test.input === undefined) {
+      throw new Error(`Test case "${id}" needs an input or file`);
+    }
+
+    return {
+      id,
+      description: test.description ?? id,
+      category: test.category ?? 'fidelity',
+      input: test.input,
+      tags: test.tags,
+      expected: {
+        shouldPass:
+          test.should_pass ?? !(test.max_score !== undefined && test.min_score === undefined),
+        minScore: test.min_score,
+        maxScore: test.max_score,
+        requiredPatterns: test.required_patterns,
+        forbiddenPatterns: test.forbidden_patterns,
+        expectedFrameworks: test.expected_frameworks,
+      },
+    };
+  });
+}
+
+/**
+ * Keep the tests matching a filter (see matchesTestFilter). No filter keeps all.
+ */
+export function filterTestCases(testCases: TestCase[], filter?: string): TestCase[] {
+  return filter ? testCases.filter((testCase) => matchesTestFilter(testCase, filter)) : testCases;
+}
+
+/**
+ * Whether a test matches a filter: comma-separated terms, each matching a
+ * tag, the category, or the test id (with * wildcards)
+ */
+export function matchesTestFilter(
+  testCase: Pick<TestCase, 'id' | 'category' | 'tags'>,
+  filter: string,
+): boolean {
+  const terms = filter
+    .split(',')
+    .map((term) => term.trim())
+    .filter(Boolean);
+  if (terms.length === 0) return true;
+
+  return terms.some((term) => {
+    if (testCase.tags?.includes(term) || testCase.category === term) return true;
+    const escaped = term.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    return new RegExp(`^${escaped}$`).test(testCase.id);
+  });
+}
+
 /**
  * Generate edge case tests
  */
-function generateEdgeCaseTests(persona: PersonaDefinition): TestCase[] {
+function generateEdgeCaseTests(): TestCase[] {
   const tests: TestCase[] = [];
 
   // Empty input test
@@ -192,47 +322,36 @@ function generateEdgeCaseTests(persona: PersonaDefinition): TestCase[] {
 }
 
 /**
- * Run a single test case
+ * Run a single test case. With scores from a scorer, the test's score is
+ * taken from them instead of the heuristic analyzers.
  */
-function runSingleTest(testCase: TestCase, persona: PersonaDefinition): TestResult {
-  const startTime = Date.now();
-
+function runSingleTest(
+  testCase: TestCase,
+  persona: PersonaDefinition,
+  scores?: ScoreSet,
+  startTime = Date.now(),
+): TestResult {
   try {
-    let actualScore: number;
-    let matchedPatterns: string[] = [];
-
-    // Run appropriate analysis based on category
-    switch (testCase.category) {
-      case 'voice': {
-        const voiceResult = analyzeVoiceConsistency(testCase.input, persona);
-        actualScore = voiceResult.consistencyScore;
-        break;
-      }
-      case 'framework': {
-        const frameworkResult = analyzeFrameworkCoverage(testCase.input, persona);
-        actualScore = frameworkResult.coverageScore;
-        matchedPatterns = frameworkResult.conceptsMentioned;
-        break;
-      }
-      case 'fidelity':
-      case 'negative':
-      case 'edge_case':
-      default: {
-        const fidelityResult = calculateFidelityScore(testCase.input, persona);
-        actualScore = fidelityResult.score;
-        matchedPatterns = fidelityResult.breakdown.must_include.patterns;
-        break;
-      }
-    }
+    const { actualScore, matchedPatterns } = scores
+      ? { actualScore: getCategoryScore(scores, testCase.category), matchedPatterns: undefined }
+      : analyzeTestInput(testCase, persona);
 
     // Evaluate against expectations
-    const passed = evaluateExpectation(actualScore, testCase.expected, matchedPatterns);
+    const failures = evaluateExpectation(
+      actualScore,
+      testCase.expected,
+      testCase.input,
+      testCase.expected.expectedFrameworks
+        ? analyzeFrameworkCoverage(testCase.input, persona)
+        : undefined,
+    );
 
     return {
       testCase,
-      passed,
+      passed: failures.length === 0,
       actualScore,
       matchedPatterns,
+      failures,
       executionTime: Date.now() - startTime,
     };
   } catch (error) {
@@ -246,45 +365,145 @@ function runSingleTest(testCase: TestCase, persona: PersonaDefinition): TestResu
 }
 
 /**
- * Evaluate if actual results meet expectations
+ * Score a test input with the heuristic analyzer for its category
+ */
+function analyzeTestInput(
+  testCase: TestCase,
+  persona: PersonaDefinition,
+): { actualScore: number; matchedPatterns: string[] } {
+  switch (testCase.category) {
+    case 'voice': {
+      const voiceResult = analyzeVoiceConsistency(testCase.input, persona);
+      return { actualScore: voiceResult.consistencyScore, matchedPatterns: [] };
+    }
+    case 'framework': {
+      const frameworkResult = analyzeFrameworkCoverage(testCase.input, persona);
+      return {
+        actualScore: frameworkResult.coverageScore,
+        matchedPatterns: frameworkResult.conceptsMentioned,
+      };
+    }
+    case 'fidelity':
+    case 'negative':
+    case 'edge_case':
+    default: {
+      const fidelityResult = calculateFidelityScore(testCase.input, persona);
+      return {
+        actualScore: fidelityResult.score,
+        matchedPatterns: fidelityResult.breakdown.must_include.patterns,
+      };
+    }
+  }
+}
+
+/**
+ * Pick a scorer's score for a test category
+ */
+function getCategoryScore(scores: ScoreSet, category: TestCategory): number {
+  switch (category) {
+    case 'voice':
+      return scores.voiceConsistency;
+    case 'framework':
+      return scores.frameworkCoverage;
+    default:
+      return scores.fidelity;
+  }
+}
+
+/**
+ * Check actual results against expectations, returning the unmet ones.
+ * Score bounds apply whenever they are set, and patterns are regexes
+ * matched against the input.
  */
 function evaluateExpectation(
+  actualScore: number,
+  expected: TestExpectation,
+  input: string,
+  frameworkResult?: FrameworkCoverageResult,
+): string[] {
+  const failures: string[] = [];
+
+  if (expected.minScore !== undefined && actualScore < expected.minScore) {
+    failures.push(`Expected: ≥${expected.minScore}, Got: ${actualScore}`);
+  }
+  if (expected.maxScore !== undefined && actualScore > expected.maxScore) {
+    failures.push(`Expected: ≤${expected.maxScore}, Got: ${actualScore}`);
+  }
+
+  for (const pattern of expected.requiredPatterns ?? []) {
+    if (!matchesPattern(input, pattern)) {
+      failures.push(`Missing required pattern: ${pattern}`);
+    }
+  }
+  for (const pattern of expected.forbiddenPatterns ?? []) {
+    if (matchesPattern(input, pattern)) {
+      failures.push(`Matched forbidden pattern: ${pattern}`);
+    }
+  }
+
+  for (const name of expected.expectedFrameworks ?? []) {
+    const coverage = frameworkResult?.frameworkCoverage[name];
+    if (!coverage) {
+      failures.push(`Unknown framework: ${name}`);
+    } else if (!coverage.referenced && coverage.conceptsFound.length === 0) {
+      failures.push(`Framework not applied: ${name}`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Case-insensitive regex match; invalid regexes match as literal text
+ */
+function matchesPattern(text: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+/**
+ * Check a custom test against the expectations for its expected outcome:
+ * minScore and requiredPatterns when it should pass, maxScore and
+ * forbiddenPatterns when it should fail. Patterns are compared with the
+ * persona markers the text matched.
+ */
+function evaluateOutcomeExpectation(
   actualScore: number,
   expected: TestExpectation,
   matchedPatterns: string[],
-): boolean {
-  // Check shouldPass
+): string[] {
+  const failures: string[] = [];
+
   if (expected.shouldPass) {
-    // Test should pass
     if (expected.minScore !== undefined && actualScore < expected.minScore) {
-      return false;
+      failures.push(`Expected: ≥${expected.minScore}, Got: ${actualScore}`);
     }
-    if (expected.requiredPatterns) {
-      for (const pattern of expected.requiredPatterns) {
-        if (!matchedPatterns.includes(pattern)) {
-          return false;
-        }
+    for (const pattern of expected.requiredPatterns ?? []) {
+      if (!matchedPatterns.includes(pattern)) {
+        failures.push(`Missing required pattern: ${pattern}`);
       }
     }
-    return true;
   } else {
-    // Test should fail
     if (expected.maxScore !== undefined && actualScore > expected.maxScore) {
-      return false;
+      failures.push(`Expected: ≤${expected.maxScore}, Got: ${actualScore}`);
     }
-    if (expected.forbiddenPatterns) {
-      for (const pattern of expected.forbiddenPatterns) {
-        if (matchedPatterns.includes(pattern)) {
-          return false;
-        }
+    for (const pattern of expected.forbiddenPatterns ?? []) {
+      if (matchedPatterns.includes(pattern)) {
+        failures.push(`Matched forbidden pattern: ${pattern}`);
       }
     }
-    return true;
   }
+
+  return failures;
 }
 
 /**
- * Run a custom test case
+ * Run a custom test case. Unlike suite tests, only the expectations for the
+ * expected outcome apply, and patterns are persona markers rather than
+ * regexes (see evaluateOutcomeExpectation).
  */
 export function runCustomTest(
   text: string,
@@ -304,8 +523,28 @@ export function runCustomTest(
       forbiddenPatterns: expected.forbiddenPatterns,
     },
   };
+  const startTime = Date.now();
 
-  return runSingleTest(testCase, persona);
+  try {
+    const { actualScore, matchedPatterns } = analyzeTestInput(testCase, persona);
+    const failures = evaluateOutcomeExpectation(actualScore, testCase.expected, matchedPatterns);
+
+    return {
+      testCase,
+      passed: failures.length === 0,
+      actualScore,
+      matchedPatterns,
+      failures,
+      executionTime: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      testCase,
+      passed: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      executionTime: Date.now() - startTime,
+    };
+  }
 }
 
 /**
@@ -348,14 +587,8 @@ export function formatTestResults(results: TestSuiteResult): string {
         lines.push(`      Error: ${result.error}`);
       }
 
-      if (!result.passed && result.actualScore !== undefined) {
-        const expected = result.testCase.expected;
-        if (expected.minScore !== undefined) {
-          lines.push(`      Expected: ≥${expected.minScore}, Got: ${result.actualScore}`);
-        }
-        if (expected.maxScore !== undefined) {
-          lines.push(`      Expected: ≤${expected.maxScore}, Got: ${result.actualScore}`);
-        }
+      for (const failure of result.failures ?? []) {
+        lines.push(`      ${failure}`);
       }
     }
 
@@ -392,7 +625,10 @@ export function generateJUnitReport(results: TestSuiteResult): string {
     );
 
     if (!result.passed) {
-      const message = result.error ?? `Score ${result.actualScore} did not meet expectation`;
+      const message =
+        result.error ??
+        result.failures?.join('; ') ??
+        `Score ${result.actualScore} did not meet expectation`;
       lines.push(`    <failure message="${escapeXml(message)}">`);
       lines.push(`      Test: ${escapeXml(result.testCase.description)}`);
       if (result.actualScore !== undefined) {
@@ -4,7 +4,12 @@
  * Types for comprehensive persona validation, testing, and comparison.
  */
 
-import type { PersonaDefinition, FidelityScore } from '../core/types.js';
+import type {
+  PersonaDefinition,
+  FidelityScore,
+  ValidationMarker,
+  PersonaTestCategory,
+} from '../core/types.js';
 
 // ============================================================================
 // Voice Analysis Types
@@ -129,9 +134,11 @@ export interface TestCase {
   input: string;
   /** Expected outcome */
   expected: TestExpectation;
+  /** Labels for filtering (author-declared tests) */
+  tags?: string[];
 }
 
-export type TestCategory = 'fidelity' | 'voice' | 'framework' | 'negative' | 'edge_case';
+export type TestCategory = PersonaTestCategory;
 
 export interface TestExpectation {
   /** Should the test pass? */
@@ -140,10 +147,12 @@ export interface TestExpectation {
   minScore?: number;
   /** Maximum score (if applicable) */
   maxScore?: number;
-  /** Required patterns to match */
+  /** Regex patterns the input must match */
   requiredPatterns?: string[];
-  /** Patterns that should not match */
+  /** Regex patterns the input must not match */
   forbiddenPatterns?: string[];
+  /** Frameworks the input must reference or apply */
+  expectedFrameworks?: string[];
 }
 
 export interface TestResult {
@@ -157,6 +166,8 @@ export interface TestResult {
   matchedPatterns?: string[];
   /** Error message if failed */
   error?: string;
+  /** Expectations that were not met */
+  failures?: string[];
   /** Execution time in ms */
   executionTime: number;
 }
@@ -211,6 +222,11 @@ export interface QualityReport {
     voice: VoiceAnalysisResult;
     framework: FrameworkCoverageResult;
   };
+  /** Scorer that produced the summary scores (heuristic if absent) */
+  scorer?: {
+    name: string;
+    rationale?: string;
+  };
   /** Test suite results (if tests were run) */
   testResults?: TestSuiteResult;
   /** Recommendations for improvement */
@@ -228,6 +244,234 @@ export interface Recommendation {
   suggestion: string;
 }
 
+// ============================================================================
+// Scorer Types
+// ============================================================================
+
+/**
+ * Extra scoring context beyond the persona itself
+ */
+export interface ScoringContext {
+  /** Department must_avoid patterns applied on top of the persona's */
+  additionalMustAvoid?: ValidationMarker[];
+}
+
+/**
+ * Scores for one text, each 0-100
+ */
+export interface ScoreSet {
+  fidelity: number;
+  voiceConsistency: number;
+  frameworkCoverage: number;
+  /** Why the scorer gave these scores (judge scorers) */
+  rationale?: string;
+}
+
+/**
+ * Scores a text against a persona
+ */
+export interface Scorer {
+  readonly name: string;
+  score(text: string, persona: PersonaDefinition, context?: ScoringContext): Promise<ScoreSet>;
+}
+
+// ============================================================================
+// Live Test Types
+// ============================================================================
+
+/**
+ * Live score minus canned good-response score, per metric
+ */
+export interface ScoreDrift {
+  fidelity: number;
+  voiceConsistency: number;
+  frameworkCoverage: number;
+}
+
+export interface LiveSampleResult {
+  /** Sample id from sample_responses */
+  sampleId: string;
+  prompt: string;
+  /** What the model generated */
+  response: string;
+  /** Response came from the cache rather than the endpoint */
+  cached: boolean;
+  /** Scores of the generated response */
+  scores: ScoreSet;
+  /** Scores of the canned good_response */
+  cannedScores: ScoreSet;
+  drift: ScoreDrift;
+  /** Generated response met the fidelity threshold */
+  passed: boolean;
+}
+
+export interface LiveTestResults {
+  personaId: string;
+  /** Model that generated the responses */
+  model: string;
+  scorer: string;
+  threshold: number;
+  totalSamples: number;
+  passedSamples: number;
+  failedSamples: number;
+  results: LiveSampleResult[];
+  /** Mean drift across samples */
+  averageDrift: ScoreDrift;
+  timestamp: Date;
+}
+
+// ============================================================================
+// Baseline Types
+// ============================================================================
+
+export type BaselineMetric = 'overall' | 'fidelity' | 'voiceConsistency' | 'frameworkCoverage';
+
+/**
+ * One test's outcome as saved in a baseline
+ */
+export interface BaselineTestResult {
+  passed: boolean;
+  score?: number;
+  /** Whether the test expects a high score; false for negative tests, where a rising score is worse */
+  shouldPass?: boolean;
+}
+
+/**
+ * Scores saved from a report run, compared against on later runs
+ */
+export interface PersonaBaseline {
+  personaId: string;
+  version?: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Scorer that produced the metrics */
+  scorer: string;
+  /** Report summary scores (absent when there was no text to analyze) */
+  metrics?: Record<BaselineMetric, number>;
+  /** Test suite results by test id */
+  tests: Record<string, BaselineTestResult>;
+}
+
+export interface MetricDelta {
+  metric: BaselineMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+  regressed: boolean;
+}
+
+export interface TestDelta {
+  testId: string;
+  status: 'unchanged' | 'changed' | 'added' | 'removed';
+  baseline?: BaselineTestResult;
+  current?: BaselineTestResult;
+  /** Score change, when both runs have a score */
+  delta?: number;
+  /**
+   * Score moved the wrong way beyond the tolerance (down, or up for negative
+   * tests), or a passing test now fails
+   */
+  regressed: boolean;
+}
+
+export interface BaselineComparison {
+  personaId: string;
+  /** When the baseline was saved */
+  baselineCreatedAt: string;
+  /** Points a score may drop before it counts as a regression */
+  tolerance: number;
+  /** Baseline and current run used different scorers */
+  scorerChanged: boolean;
+  metrics: MetricDelta[];
+  tests: TestDelta[];
+  regressions: number;
+  passed: boolean;
+}
+
+// ============================================================================
+// Discrimination Types
+// ============================================================================
+
+/**
+ * How clearly one good sample picks out its own persona
+ */
+export interface SampleDiscrimination {
+  /** Persona that owns the sample */
+  personaId: string;
+  sampleId: string;
+  /** Persona with the highest quality score */
+  bestMatch: string;
+  ownerScore: number;
+  /** Highest-scoring other persona */
+  runnerUp?: { personaId: string; score: number };
+  /** Owner score minus runner-up score */
+  lead: number;
+  /** Owner ranked first by at least the margin */
+  passed: boolean;
+}
+
+/**
+ * How well two personas' validation markers tell their samples apart
+ */
+export interface PersonaPairSeparation {
+  personas: [string, string];
+  /** Smallest owner-minus-other fidelity gap over both personas' samples */
+  markerGap: number;
+  /** Sample with the smallest gap, as <persona>/<sample> */
+  closestSample: string;
+  separated: boolean;
+}
+
+export interface DiscriminationResult {
+  /** Required lead over the runner-up, in quality points */
+  margin: number;
+  samples: SampleDiscrimination[];
+  /** Owner persona → best-matching persona → sample count */
+  confusionMatrix: Record<string, Record<string, number>>;
+  /** Pairs whose marker gap is below the margin */
+  unseparatedPairs: PersonaPairSeparation[];
+  passedSamples: number;
+  failedSamples: number;
+  passed: boolean;
+}
+
+// ============================================================================
+// Panel Types
+// ============================================================================
+
+export interface PanelFrameworkLens {
+  name: string;
+  summary: string;
+  questions: string[];
+  /** No other panelist has this framework */
+  distinctive: boolean;
+}
+
+export interface PanelMember {
+  id: string;
+  name: string;
+  role: string;
+  openingPhrase?: string;
+  tones: string[];
+  frameworks: PanelFrameworkLens[];
+}
+
+export interface PanelDisagreement {
+  between: [string, string];
+  /** Frameworks each side brings that the other lacks */
+  frameworks: Record<string, string[]>;
+  /** Tones each side has that the other lacks */
+  tones: Record<string, string[]>;
+}
+
+export interface PanelScaffold {
+  situation: string;
+  context?: string;
+  members: PanelMember[];
+  disagreements: PanelDisagreement[];
+  synthesis: string[];
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================